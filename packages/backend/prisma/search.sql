@@ -0,0 +1,29 @@
+-- Full-text search columns and indexes.
+--
+-- Prisma cannot describe generated tsvector columns, so they are declared as
+-- Unsupported("tsvector") in schema.prisma and created here. The script is
+-- idempotent; run it after migrations with `npm run db:search`.
+--
+-- Title-like text is weighted A and body text B, so matches in a title rank
+-- above matches in a description or message. The 'english' configuration must
+-- match SEARCH_CONFIG in src/utils/search.ts.
+
+ALTER TABLE tasks DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE tasks ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS tasks_search_vector_idx ON tasks USING GIN (search_vector);
+
+ALTER TABLE messages DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE messages ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(body, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS messages_search_vector_idx ON messages USING GIN (search_vector);
+
+ALTER TABLE projects DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE projects ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+  setweight(to_tsvector('english', coalesce(description, '')), 'B')
+) STORED;
+CREATE INDEX IF NOT EXISTS projects_search_vector_idx ON projects USING GIN (search_vector);
@@ -0,0 +1,14 @@
+-- Backfill task watchers for tasks created before watching existed.
+--
+-- New tasks get their creator and assignees as watchers when they are
+-- created or assigned; this adds the same rows for older tasks. The script is
+-- idempotent; run it once after the migration that adds task_watchers with
+-- `npm run db:watchers`.
+
+INSERT INTO task_watchers (task_id, user_id, created_at)
+SELECT id, creator_id, created_at FROM tasks WHERE creator_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+INSERT INTO task_watchers (task_id, user_id, created_at)
+SELECT task_id, user_id, assigned_at FROM task_assignments
+ON CONFLICT DO NOTHING;
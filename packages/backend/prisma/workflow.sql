@@ -0,0 +1,31 @@
+-- Backfill task status categories for tasks created before workflows existed.
+--
+-- Tasks now keep a copy of their status's category, and the time they were
+-- completed, which completion and prerequisite checks, statistics, workload
+-- and reminders read. Older tasks got the column default `not_started`
+-- whatever their status; this sets the category from the default workflow
+-- (see utils/workflow.ts) for projects that have not configured their own,
+-- and dates the completion of done tasks at their last update. Projects with
+-- their own workflow were re-synced when it was saved. The script is
+-- idempotent; run it once after the migration that adds status_category with
+-- `npm run db:workflow`.
+
+UPDATE tasks AS t
+SET status_category = CASE t.status
+    WHEN 'todo' THEN 'not_started'
+    WHEN 'done' THEN 'done'
+    ELSE 'active'
+  END
+FROM projects AS p
+WHERE p.id = t.project_id
+  AND p.metadata -> 'workflow' IS NULL
+  AND t.status IN ('todo', 'in_progress', 'review', 'blocked', 'done')
+  AND t.status_category IS DISTINCT FROM CASE t.status
+    WHEN 'todo' THEN 'not_started'
+    WHEN 'done' THEN 'done'
+    ELSE 'active'
+  END;
+
+UPDATE tasks
+SET completed_at = updated_at
+WHERE status_category = 'done' AND completed_at IS NULL;
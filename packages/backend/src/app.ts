@@ -19,6 +19,11 @@ import projectRoutes from './routes/projects';
 import taskRoutes from './routes/tasks';
 import messageRoutes from './routes/messages';
 import notificationRoutes from './routes/notifications';
+import timeEntryRoutes from './routes/timeEntries';
+import searchRoutes from './routes/search';
+import viewRoutes from './routes/views';
+import templateRoutes from './routes/templates';
+import calendarRoutes from './routes/calendar';
 
 // Create Express application and HTTP server
 const app = express();
@@ -53,6 +58,11 @@ app.use('/api/projects', projectRoutes);
 app.use('/api/tasks', taskRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/time-entries', timeEntryRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/views', viewRoutes);
+app.use('/api/templates', templateRoutes);
+app.use('/api/calendar', calendarRoutes);
 
 // API base route
 app.get('/', (req, res) => {
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { config } from './environment';
+import { withSoftDeleteFilter } from '../utils/softDelete';
 
 // Create Prisma client instance with connection pooling
 const prisma = new PrismaClient({
@@ -13,6 +14,15 @@ const prisma = new PrismaClient({
 
 // Connection event handlers will be added when needed
 
+// Trashed tasks, messages and projects (see TrashService) are left out of
+// every query, along with what hangs off them. Queries that filter on
+// `deletedAt` themselves are passed through untouched.
+//
+// Only the queried model is filtered: nested includes, selected relations and
+// relation counts still return trashed rows unless they add their own
+// `where: { deletedAt: null }`.
+prisma.$use(async (params, next) => next(withSoftDeleteFilter(params)));
+
 // Test database connection
 export const connectDatabase = async (): Promise<void> => {
   try {
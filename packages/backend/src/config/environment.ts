@@ -23,6 +23,9 @@ interface EnvironmentConfig {
   // CORS
   corsOrigin: string;
   
+  // Frontend
+  frontendUrl: string; // for links to the app, e.g. from calendar events
+  
   // Email
   emailHost: string;
   emailPort: number;
@@ -33,6 +36,11 @@ interface EnvironmentConfig {
   // Rate Limiting
   rateLimitWindowMs: number;
   rateLimitMaxRequests: number;
+  
+  // Tasks
+  subtaskMaxDepth: number;
+  weeklyCapacityMinutes: number; // default working time per person and week
+  trashRetentionDays: number; // deleted tasks, messages and projects are purged after this long
 }
 
 const requiredEnvVars = [
@@ -69,6 +77,9 @@ export const config: EnvironmentConfig = {
   // CORS
   corsOrigin: process.env['CORS_ORIGIN'] || 'http://localhost:3000',
   
+  // Frontend
+  frontendUrl: process.env['FRONTEND_URL'] || 'http://localhost:3000',
+  
   // Email
   emailHost: process.env['EMAIL_HOST'] || 'smtp.gmail.com',
   emailPort: parseInt(process.env['EMAIL_PORT'] || '587', 10),
@@ -79,6 +90,11 @@ export const config: EnvironmentConfig = {
   // Rate Limiting
   rateLimitWindowMs: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] || '900000', 10), // 15 minutes
   rateLimitMaxRequests: parseInt(process.env['RATE_LIMIT_MAX_REQUESTS'] || '100', 10),
+  
+  // Tasks
+  subtaskMaxDepth: parseInt(process.env['SUBTASK_MAX_DEPTH'] || '3', 10),
+  weeklyCapacityMinutes: parseInt(process.env['WEEKLY_CAPACITY_MINUTES'] || '2400', 10),
+  trashRetentionDays: parseInt(process.env['TRASH_RETENTION_DAYS'] || '30', 10),
 };
 
 export const isDevelopment = config.nodeEnv === 'development';
@@ -3,6 +3,15 @@ import { config } from './config/environment';
 import { connectDatabase, disconnectDatabase } from './config/database';
 import { WebSocketService } from './services/WebSocketService';
 import { connectRedis, disconnectRedis } from './config/redis';
+import { RecurrenceService } from './services/RecurrenceService';
+import { AutomationService } from './services/AutomationService';
+import { TrashService } from './services/TrashService';
+import { ReminderService } from './services/ReminderService';
+
+const recurrenceService = new RecurrenceService();
+const automationService = new AutomationService();
+const trashService = new TrashService();
+const reminderService = new ReminderService();
 
 // Handle uncaught exceptions
 process.on('uncaughtException', (error: Error) => {
@@ -20,6 +29,12 @@ process.on('unhandledRejection', (reason: any, promise: Promise<any>) => {
 const gracefulShutdown = async (signal: string) => {
   console.log(`Received ${signal}. Starting graceful shutdown...`);
   
+  // Stop background schedulers
+  recurrenceService.stop();
+  automationService.stop();
+  trashService.stop();
+  reminderService.stop();
+
   // Close WebSocket connections
   const wsService = WebSocketService.getInstance();
   await wsService.shutdown();
@@ -50,6 +65,12 @@ const startServer = async () => {
     // Connect to Redis
     await connectRedis();
     
+    // Start background schedulers
+    recurrenceService.start();
+    automationService.start();
+    trashService.start();
+    reminderService.start();
+
     // Start server
     const server = httpServer.listen(config.port, () => {
       console.log(`🚀 SynergySphere API Server running on port ${config.port}`);
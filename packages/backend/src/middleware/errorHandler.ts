@@ -4,13 +4,13 @@ import { config } from '../config/environment';
 export interface ApiError extends Error {
   statusCode?: number;
   code?: string;
-  details?: Record<string, any>;
+  details?: Record<string, any> | undefined;
 }
 
 export class AppError extends Error implements ApiError {
   public statusCode: number;
   public code: string;
-  public details?: Record<string, any>;
+  public details?: Record<string, any> | undefined;
   public isOperational: boolean;
 
   constructor(
@@ -60,12 +60,20 @@ export class ConflictError extends AppError {
   }
 }
 
+export class ProjectArchivedError extends AppError {
+  constructor(project: { id: string; name: string }) {
+    super(`Project "${project.name}" is archived and read-only; unarchive it to make changes`, 409, 'PROJECT_ARCHIVED', {
+      projectId: project.id,
+    });
+  }
+}
+
 // Error handler middleware
 export const errorHandler = (
   error: ApiError,
-  req: Request,
+  _req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction
 ) => {
   let statusCode = error.statusCode || 500;
   let code = error.code || 'INTERNAL_ERROR';
@@ -118,7 +118,9 @@ export class TaskModel {
           },
         },
       },
+      // Manual board order first; tasks that were never ranked keep the old order
       orderBy: [
+        { rank: 'asc' },
         { priority: 'desc' },
         { dueDate: 'asc' },
         { createdAt: 'desc' },
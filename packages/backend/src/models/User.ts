@@ -52,14 +52,20 @@ export class UserModel {
     return prisma.user.findUnique({
       where: { id },
       include: {
-        ownedProjects: true,
+        ownedProjects: {
+          where: { deletedAt: null },
+        },
         projectMembers: {
+          where: { project: { deletedAt: null } },
           include: {
             project: true,
           },
         },
-        createdTasks: true,
+        createdTasks: {
+          where: { deletedAt: null, project: { deletedAt: null } },
+        },
         taskAssignments: {
+          where: { task: { deletedAt: null, project: { deletedAt: null } } },
           include: {
             task: true,
           },
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { AuthService } from '../services/AuthService';
+import { CalendarService } from '../services/CalendarService';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
@@ -17,6 +18,11 @@ import {
 
 const router = Router();
 const authService = new AuthService();
+const calendarService = new CalendarService();
+
+// Subscription URL of a calendar feed, on the host the request came to
+const calendarFeedUrl = (req: Request, token: string | null): string | null =>
+  token ? `${req.protocol}://${req.get('host')}/api/calendar/${token}.ics` : null;
 
 /**
  * @route   POST /api/auth/register
@@ -206,6 +212,7 @@ router.get('/me',
           fullName: user.fullName,
           isActive: user.isActive,
           preferences: user.preferences,
+          weeklyCapacityMinutes: user.weeklyCapacityMinutes,
           createdAt: user.createdAt,
           updatedAt: user.updatedAt,
           ownedProjects: user.ownedProjects?.length || 0,
@@ -240,6 +247,7 @@ router.put('/me',
           fullName: user.fullName,
           isActive: user.isActive,
           preferences: user.preferences,
+          weeklyCapacityMinutes: user.weeklyCapacityMinutes,
           updatedAt: user.updatedAt,
         },
       },
@@ -247,6 +255,61 @@ router.put('/me',
   })
 );
 
+/**
+ * @route   GET /api/auth/me/calendar
+ * @desc    Get the URL of the user's calendar feed, null when it is off
+ * @access  Private
+ */
+router.get('/me/calendar',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const token = await calendarService.getFeedToken(userId);
+
+    res.json({
+      success: true,
+      data: { url: calendarFeedUrl(req, token) },
+    });
+  })
+);
+
+/**
+ * @route   POST /api/auth/me/calendar
+ * @desc    Turn the calendar feed on, or give it a new URL
+ * @access  Private
+ */
+router.post('/me/calendar',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const token = await calendarService.regenerateFeedToken(userId);
+
+    res.status(201).json({
+      success: true,
+      message: 'Calendar feed URL generated',
+      data: { url: calendarFeedUrl(req, token) },
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/auth/me/calendar
+ * @desc    Turn the calendar feed off
+ * @access  Private
+ */
+router.delete('/me/calendar',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    await calendarService.revokeFeedToken(userId);
+
+    res.json({
+      success: true,
+      message: 'Calendar feed turned off',
+    });
+  })
+);
+
 /**
  * @route   POST /api/auth/deactivate
  * @desc    Deactivate user account
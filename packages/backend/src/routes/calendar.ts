@@ -0,0 +1,43 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { CalendarService } from '../services/CalendarService';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { ICAL_CONTENT_TYPE } from '../utils/ical';
+
+const router = Router();
+const calendarService = new CalendarService();
+
+// Validation schemas
+const feedQuerySchema = Joi.object({
+  projectId: Joi.alternatives().try(
+    Joi.string().uuid(),
+    Joi.array().items(Joi.string().uuid()).max(20)
+  ).optional(),
+});
+
+// Routes
+
+/**
+ * @route   GET /api/calendar/:token.ics
+ * @desc    iCalendar feed of the user's task deadlines and milestones;
+ *          `projectId` adds every task of a project
+ * @access  Public (secret token from GET /api/auth/me/calendar)
+ */
+router.get(
+  '/:token.ics',
+  validate(feedQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { token } = req.params;
+    const { projectId } = req.query as { projectId?: string | string[] };
+
+    const feed = await calendarService.renderFeed(token!, {
+      projectIds: projectId === undefined ? undefined : [projectId].flat(),
+    });
+
+    res.set('Cache-Control', 'private, max-age=300');
+    res.type(ICAL_CONTENT_TYPE).send(feed);
+  })
+);
+
+export default router;
@@ -13,6 +13,7 @@ const createMessageSchema = Joi.object({
   content: Joi.string().min(1).max(2000).required(),
   projectId: Joi.string().uuid().required(),
   parentId: Joi.string().uuid().optional(),
+  taskId: Joi.string().uuid().optional(),
   mentions: Joi.array().items(Joi.string().uuid()).optional(),
 });
 
@@ -144,7 +145,7 @@ router.put(
 
 /**
  * @route   DELETE /api/messages/:id
- * @desc    Delete a message
+ * @desc    Move a message and its replies to the trash
  * @access  Private (author or admin)
  */
 router.delete(
@@ -163,6 +164,27 @@ router.delete(
   })
 );
 
+/**
+ * @route   POST /api/messages/:id/restore
+ * @desc    Restore a message from the trash, with the replies deleted along with it
+ * @access  Private (author, whoever deleted it or admin)
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const message = await messageService.restoreMessage(id!, userId);
+
+    res.json({
+      success: true,
+      data: message,
+    });
+  })
+);
+
 /**
  * @route   GET /api/messages/mentions
  * @desc    Get messages where user is mentioned
@@ -1,12 +1,15 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
 import { NotificationService } from '../services/NotificationService';
+import { ReminderService } from '../services/ReminderService';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { MAX_REMINDER_OFFSET, MAX_REMINDER_OFFSETS } from '../utils/reminders';
 
 const router = Router();
 const notificationService = new NotificationService();
+const reminderService = new ReminderService();
 
 // Validation schemas
 const notificationQuerySchema = Joi.object({
@@ -29,6 +32,14 @@ const preferencesSchema = Joi.object({
   mentions: Joi.boolean().optional(),
 }).min(1);
 
+const reminderSettingsSchema = Joi.object({
+  timezone: Joi.string().max(64).optional(),
+  offsets: Joi.array()
+    .items(Joi.number().integer().min(0).max(MAX_REMINDER_OFFSET))
+    .max(MAX_REMINDER_OFFSETS)
+    .optional(),
+}).min(1);
+
 // Routes
 
 /**
@@ -194,6 +205,47 @@ router.put(
   })
 );
 
+/**
+ * @route   GET /api/notifications/reminders
+ * @desc    Get due date reminder offsets and time zone
+ * @access  Private
+ */
+router.get(
+  '/reminders',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const settings = await reminderService.getSettings(userId);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/notifications/reminders
+ * @desc    Choose when to be reminded of due dates, and in which time zone
+ * @access  Private
+ */
+router.put(
+  '/reminders',
+  authenticate,
+  validate(reminderSettingsSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const settings = await reminderService.updateSettings(userId, req.body);
+
+    res.json({
+      success: true,
+      data: settings,
+    });
+  })
+);
+
 /**
  * @route   GET /api/notifications/stats
  * @desc    Get notification statistics
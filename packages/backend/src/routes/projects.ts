@@ -1,12 +1,28 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import Joi from 'joi';
-import { ProjectService } from '../services/ProjectService';
+import { ProjectListStatus, ProjectService } from '../services/ProjectService';
+import { CustomFieldService } from '../services/CustomFieldService';
+import { MilestoneService } from '../services/MilestoneService';
+import { WorkloadService } from '../services/WorkloadService';
+import { WorkflowService } from '../services/WorkflowService';
+import { AutomationService } from '../services/AutomationService';
+import { TrashItemType, TrashService } from '../services/TrashService';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { CUSTOM_FIELD_KEY_PATTERN, CUSTOM_FIELD_TYPES } from '../utils/customFields';
+import { STATUS_CATEGORIES, STATUS_KEY_PATTERN } from '../utils/workflow';
+import { entityTag } from '../utils/etag';
+import { AUTOMATION_ACTION_TYPES, AUTOMATION_OPERATORS, AUTOMATION_TRIGGERS } from '../utils/automation';
 
 const router = Router();
 const projectService = new ProjectService();
+const customFieldService = new CustomFieldService();
+const milestoneService = new MilestoneService();
+const workloadService = new WorkloadService();
+const workflowService = new WorkflowService();
+const automationService = new AutomationService();
+const trashService = new TrashService();
 
 // Validation schemas
 const createProjectSchema = Joi.object({
@@ -28,10 +44,144 @@ const addMemberSchema = Joi.object({
   role: Joi.string().valid('ADMIN', 'MEMBER').optional(),
 });
 
+const scheduleQuerySchema = Joi.object({
+  startDate: Joi.date().iso().optional(),
+});
+
+const workloadQuerySchema = Joi.object({
+  from: Joi.date().iso().optional(),
+  weeks: Joi.number().integer().min(1).max(26).optional(),
+});
+
+const customFieldOptionsSchema = Joi.array().items(Joi.string().min(1).max(100)).unique().max(100);
+
+const createCustomFieldSchema = Joi.object({
+  key: Joi.string().pattern(CUSTOM_FIELD_KEY_PATTERN).required(),
+  name: Joi.string().min(1).max(100).required(),
+  type: Joi.string().valid(...CUSTOM_FIELD_TYPES).required(),
+  options: customFieldOptionsSchema.when('type', {
+    is: Joi.valid('select', 'multi_select'),
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  required: Joi.boolean().optional(),
+});
+
+const updateCustomFieldSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  options: customFieldOptionsSchema.min(1).optional(),
+  required: Joi.boolean().optional(),
+}).min(1);
+
+const statusKeySchema = Joi.string().pattern(STATUS_KEY_PATTERN);
+
+const workflowSchema = Joi.object({
+  statuses: Joi.array().items(Joi.object({
+    key: statusKeySchema.required(),
+    name: Joi.string().min(1).max(50).required(),
+    category: Joi.string().valid(...STATUS_CATEGORIES).required(),
+  })).min(2).max(30).unique('key').required(),
+  transitions: Joi.object().pattern(
+    STATUS_KEY_PATTERN,
+    Joi.array().items(statusKeySchema).unique()
+  ).optional().allow(null),
+  statusMapping: Joi.object().pattern(STATUS_KEY_PATTERN, statusKeySchema).optional(),
+});
+
+// Both dates are days of the milestone, so a one-day sprint starts and ends on the same date
+const createMilestoneSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  kind: Joi.string().valid('sprint', 'milestone').optional(),
+  goal: Joi.string().max(1000).optional().allow(null, ''),
+  startDate: Joi.date().iso().required(),
+  endDate: Joi.date().iso().required(),
+});
+
+const updateMilestoneSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  kind: Joi.string().valid('sprint', 'milestone').optional(),
+  goal: Joi.string().max(1000).optional().allow(null, ''),
+  startDate: Joi.date().iso().optional(),
+  endDate: Joi.date().iso().optional(),
+}).min(1);
+
+const milestoneTasksSchema = Joi.object({
+  taskIds: Joi.array().items(Joi.string().uuid()).min(1).max(500).required(),
+});
+
+const automationConditionSchema = Joi.object({
+  field: Joi.string().max(100).required(),
+  operator: Joi.string().valid(...AUTOMATION_OPERATORS).required(),
+  value: Joi.any().optional(),
+});
+
+const automationTemplateSchema = Joi.string().min(1).max(2000);
+
+const automationActionSchema = Joi.object({
+  type: Joi.string().valid(...AUTOMATION_ACTION_TYPES).required(),
+})
+  .when(Joi.object({ type: 'notify' }).unknown(), {
+    then: Joi.object({
+      to: Joi.alternatives().try(
+        Joi.string().valid('creator', 'assignees', 'watchers'),
+        Joi.array().items(Joi.string().uuid()).min(1).max(50)
+      ).required(),
+      title: Joi.string().min(1).max(200).optional(),
+      message: automationTemplateSchema.required(),
+    }),
+  })
+  .when(Joi.object({ type: 'assign' }).unknown(), {
+    then: Joi.object({
+      userIds: Joi.array().items(Joi.string().uuid()).min(1).max(50).required(),
+      replace: Joi.boolean().optional(),
+    }),
+  })
+  .when(Joi.object({ type: 'set_status' }).unknown(), {
+    then: Joi.object({ status: statusKeySchema.required() }),
+  })
+  .when(Joi.object({ type: 'set_priority' }).unknown(), {
+    then: Joi.object({ priority: Joi.number().integer().min(1).max(5).required() }),
+  })
+  .when(Joi.object({ type: 'post_message' }).unknown(), {
+    then: Joi.object({ body: automationTemplateSchema.required() }),
+  });
+
+const automationRuleFields = {
+  name: Joi.string().min(1).max(100),
+  enabled: Joi.boolean(),
+  trigger: Joi.string().valid(...AUTOMATION_TRIGGERS),
+  triggerConfig: Joi.object({
+    days: Joi.number().integer().min(1).max(365).optional(), // task.stale
+  }),
+  conditions: Joi.array().items(automationConditionSchema).max(20),
+  actions: Joi.array().items(automationActionSchema).min(1).max(10),
+};
+
+const createAutomationSchema = Joi.object({
+  ...automationRuleFields,
+  name: automationRuleFields.name.required(),
+  trigger: automationRuleFields.trigger.required(),
+  actions: automationRuleFields.actions.required(),
+});
+
+const updateAutomationSchema = Joi.object(automationRuleFields).min(1);
+
+const automationRunsQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const trashQuerySchema = Joi.object({
+  type: Joi.string().valid('task', 'message').optional(),
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
 const querySchema = Joi.object({
   limit: Joi.number().integer().min(1).max(100).optional(),
   offset: Joi.number().integer().min(0).optional(),
   search: Joi.string().max(100).optional(),
+  status: Joi.string().valid('active', 'archived', 'all').optional(),
   sortBy: Joi.string().valid('name', 'createdAt', 'updatedAt').optional(),
   sortOrder: Joi.string().valid('asc', 'desc').optional(),
 });
@@ -40,7 +190,7 @@ const querySchema = Joi.object({
 
 /**
  * @route   GET /api/projects
- * @desc    Get user's projects
+ * @desc    Get user's projects; archived ones only with status=archived or status=all
  * @access  Private
  */
 router.get(
@@ -48,13 +198,14 @@ router.get(
   authenticate,
   validate(querySchema, 'query'),
   asyncHandler(async (req: Request, res: Response) => {
-    const { limit, offset, search, sortBy, sortOrder } = req.query;
+    const { limit, offset, search, status, sortBy, sortOrder } = req.query;
     const userId = req.user!.id;
 
     const result = await projectService.getUserProjects(userId, {
       limit: limit ? parseInt(limit as string) : undefined,
       offset: offset ? parseInt(offset as string) : undefined,
       search: search as string,
+      status: status as ProjectListStatus,
       sortBy: sortBy as any,
       sortOrder: sortOrder as any,
     });
@@ -96,6 +247,26 @@ router.post(
   })
 );
 
+/**
+ * @route   GET /api/projects/trash
+ * @desc    Get the deleted projects the user owns
+ * @access  Private
+ */
+router.get(
+  '/trash',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const projects = await trashService.getDeletedProjects(userId);
+
+    res.json({
+      success: true,
+      data: projects,
+    });
+  })
+);
+
 /**
  * @route   GET /api/projects/:id
  * @desc    Get project by ID
@@ -117,6 +288,7 @@ router.get(
       });
     }
 
+    res.set('ETag', entityTag(project.updatedAt));
     res.json({
       success: true,
       data: project,
@@ -126,7 +298,7 @@ router.get(
 
 /**
  * @route   PUT /api/projects/:id
- * @desc    Update project details
+ * @desc    Update project details; with If-Match, only if nobody changed them since
  * @access  Private (project owner/admin only)
  */
 router.put(
@@ -137,8 +309,9 @@ router.put(
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const project = await projectService.updateProject(id, userId, req.body);
+    const project = await projectService.updateProject(id!, userId, req.body, { ifMatch: req.get('If-Match') });
 
+    res.set('ETag', entityTag(project.updatedAt));
     res.json({
       success: true,
       data: project,
@@ -148,7 +321,7 @@ router.put(
 
 /**
  * @route   DELETE /api/projects/:id
- * @desc    Delete a project
+ * @desc    Move a project to the trash
  * @access  Private (project owner only)
  */
 router.delete(
@@ -167,6 +340,99 @@ router.delete(
   })
 );
 
+/**
+ * @route   POST /api/projects/:id/restore
+ * @desc    Restore a project from the trash
+ * @access  Private (project owner only)
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const project = await projectService.restoreProject(id!, userId);
+
+    res.json({
+      success: true,
+      data: project,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/archive
+ * @desc    Archive a project, making it read-only
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/:id/archive',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const project = await projectService.archiveProject(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Project archived',
+      data: project,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/unarchive
+ * @desc    Make an archived project active again
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/:id/unarchive',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const project = await projectService.unarchiveProject(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Project unarchived',
+      data: project,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/trash
+ * @desc    Get the tasks and messages in a project's trash, most recently deleted first
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/trash',
+  authenticate,
+  validate(trashQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { type, limit, offset } = req.query as { type?: TrashItemType; limit?: number; offset?: number };
+
+    const result = await trashService.getProjectTrash(id!, userId, { type, limit, offset });
+
+    res.json({
+      success: true,
+      data: result.items,
+      pagination: {
+        total: result.total,
+        limit: limit ?? 50,
+        offset: offset ?? 0,
+      },
+    });
+  })
+);
+
 /**
  * @route   POST /api/projects/:id/members
  * @desc    Add member to project
@@ -263,4 +529,445 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/projects/:id/schedule
+ * @desc    Get critical path schedule computed from estimates and dependencies
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/schedule',
+  authenticate,
+  validate(scheduleQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { startDate } = req.query as { startDate?: Date };
+
+    const schedule = await projectService.getProjectSchedule(id!, userId, startDate);
+
+    res.json({
+      success: true,
+      data: schedule,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/workload
+ * @desc    Get each member's weekly workload against their capacity
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/workload',
+  authenticate,
+  validate(workloadQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { from, weeks } = req.query as { from?: Date; weeks?: number };
+
+    const workload = await workloadService.getProjectWorkload(id!, userId, { from, weeks });
+
+    res.json({
+      success: true,
+      data: workload,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/workflow
+ * @desc    Get the project's task statuses and transitions
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/workflow',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const workflow = await workflowService.getProjectWorkflow(id!, userId);
+
+    res.json({
+      success: true,
+      data: workflow,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/projects/:id/workflow
+ * @desc    Replace the project's task statuses and transitions
+ * @access  Private (project owner/admin only)
+ */
+router.put(
+  '/:id/workflow',
+  authenticate,
+  validate(workflowSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { statusMapping, ...workflow } = req.body;
+
+    const updated = await workflowService.updateProjectWorkflow(id!, userId, workflow, statusMapping);
+
+    res.json({
+      success: true,
+      data: updated,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/custom-fields
+ * @desc    Get the project's custom task fields
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/custom-fields',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const fields = await customFieldService.getDefinitions(id!, userId);
+
+    res.json({
+      success: true,
+      data: fields,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/custom-fields
+ * @desc    Define a custom task field
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/:id/custom-fields',
+  authenticate,
+  validate(createCustomFieldSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const fields = await customFieldService.createDefinition(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: fields,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/projects/:id/custom-fields/:key
+ * @desc    Rename a custom field or change its options
+ * @access  Private (project owner/admin only)
+ */
+router.put(
+  '/:id/custom-fields/:key',
+  authenticate,
+  validate(updateCustomFieldSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, key } = req.params;
+    const userId = req.user!.id;
+
+    const fields = await customFieldService.updateDefinition(id!, userId, key!, req.body);
+
+    res.json({
+      success: true,
+      data: fields,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/projects/:id/custom-fields/:key
+ * @desc    Remove a custom field and its values
+ * @access  Private (project owner/admin only)
+ */
+router.delete(
+  '/:id/custom-fields/:key',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, key } = req.params;
+    const userId = req.user!.id;
+
+    const fields = await customFieldService.deleteDefinition(id!, userId, key!);
+
+    res.json({
+      success: true,
+      data: fields,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/milestones
+ * @desc    Get the project's sprints and milestones with their progress
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/milestones',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const milestones = await milestoneService.getMilestones(id!, userId);
+
+    res.json({
+      success: true,
+      data: milestones,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/milestones
+ * @desc    Create a sprint or milestone
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/:id/milestones',
+  authenticate,
+  validate(createMilestoneSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const milestone = await milestoneService.createMilestone(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: milestone,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/projects/:id/milestones/:milestoneId
+ * @desc    Update a sprint or milestone
+ * @access  Private (project owner/admin only)
+ */
+router.put(
+  '/:id/milestones/:milestoneId',
+  authenticate,
+  validate(updateMilestoneSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, milestoneId } = req.params;
+    const userId = req.user!.id;
+
+    const milestone = await milestoneService.updateMilestone(id!, milestoneId!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: milestone,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/projects/:id/milestones/:milestoneId
+ * @desc    Delete a sprint or milestone, keeping its tasks
+ * @access  Private (project owner/admin only)
+ */
+router.delete(
+  '/:id/milestones/:milestoneId',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, milestoneId } = req.params;
+    const userId = req.user!.id;
+
+    await milestoneService.deleteMilestone(id!, milestoneId!, userId);
+
+    res.json({
+      success: true,
+      message: 'Milestone deleted successfully',
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/milestones/:milestoneId/tasks
+ * @desc    Add tasks to a sprint or milestone
+ * @access  Private (project members except viewers)
+ */
+router.post(
+  '/:id/milestones/:milestoneId/tasks',
+  authenticate,
+  validate(milestoneTasksSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, milestoneId } = req.params;
+    const userId = req.user!.id;
+
+    const milestone = await milestoneService.addTasks(id!, milestoneId!, userId, req.body.taskIds);
+
+    res.json({
+      success: true,
+      data: milestone,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/milestones/:milestoneId/tasks/remove
+ * @desc    Take tasks out of a sprint or milestone
+ * @access  Private (project members except viewers)
+ */
+router.post(
+  '/:id/milestones/:milestoneId/tasks/remove',
+  authenticate,
+  validate(milestoneTasksSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, milestoneId } = req.params;
+    const userId = req.user!.id;
+
+    const milestone = await milestoneService.removeTasks(id!, milestoneId!, userId, req.body.taskIds);
+
+    res.json({
+      success: true,
+      data: milestone,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/milestones/:milestoneId/burndown
+ * @desc    Get the daily burndown and burnup series of a sprint or milestone
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/milestones/:milestoneId/burndown',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, milestoneId } = req.params;
+    const userId = req.user!.id;
+
+    const burndown = await milestoneService.getBurndown(id!, milestoneId!, userId);
+
+    res.json({
+      success: true,
+      data: burndown,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/automations
+ * @desc    Get the project's automation rules
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/automations',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const rules = await automationService.getRules(id!, userId);
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/projects/:id/automations
+ * @desc    Create an automation rule
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/:id/automations',
+  authenticate,
+  validate(createAutomationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const rule = await automationService.createRule(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/projects/:id/automations/:ruleId
+ * @desc    Update or enable/disable an automation rule
+ * @access  Private (project owner/admin only)
+ */
+router.put(
+  '/:id/automations/:ruleId',
+  authenticate,
+  validate(updateAutomationSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, ruleId } = req.params;
+    const userId = req.user!.id;
+
+    const rule = await automationService.updateRule(id!, ruleId!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/projects/:id/automations/:ruleId
+ * @desc    Delete an automation rule and its execution log
+ * @access  Private (project owner/admin only)
+ */
+router.delete(
+  '/:id/automations/:ruleId',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, ruleId } = req.params;
+    const userId = req.user!.id;
+
+    await automationService.deleteRule(id!, ruleId!, userId);
+
+    res.json({
+      success: true,
+      message: 'Automation rule deleted successfully',
+    });
+  })
+);
+
+/**
+ * @route   GET /api/projects/:id/automations/:ruleId/runs
+ * @desc    Get the execution log of an automation rule, most recent first
+ * @access  Private (project members only)
+ */
+router.get(
+  '/:id/automations/:ruleId/runs',
+  authenticate,
+  validate(automationRunsQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, ruleId } = req.params;
+    const userId = req.user!.id;
+    const { limit, offset } = req.query as { limit?: number; offset?: number };
+
+    const result = await automationService.getRuns(id!, ruleId!, userId, { limit, offset });
+
+    res.json({
+      success: true,
+      data: result.runs,
+      pagination: {
+        total: result.total,
+        limit: limit ?? 50,
+        offset: offset ?? 0,
+      },
+    });
+  })
+);
+
 export default router;
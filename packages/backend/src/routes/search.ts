@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { SearchService } from '../services/SearchService';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+import { SEARCH_ENTITY_TYPES, SearchEntityType } from '../utils/search';
+
+const router = Router();
+const searchService = new SearchService();
+
+// Validation schemas
+const searchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(2).max(200).required(),
+  type: Joi.alternatives().try(
+    Joi.string().valid(...SEARCH_ENTITY_TYPES),
+    Joi.array().items(Joi.string().valid(...SEARCH_ENTITY_TYPES))
+  ).optional(),
+  projectId: Joi.alternatives().try(
+    Joi.string().uuid(),
+    Joi.array().items(Joi.string().uuid()).max(50)
+  ).optional(),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  offset: Joi.number().integer().min(0).default(0),
+});
+
+const toArray = <T>(value: T | T[] | undefined): T[] | undefined =>
+  value === undefined ? undefined : ([] as T[]).concat(value);
+
+// Routes
+
+/**
+ * @route   GET /api/search
+ * @desc    Full-text search across tasks, messages and projects
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  validate(searchQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { q, type, projectId, limit, offset } = req.query as unknown as {
+      q: string;
+      type?: SearchEntityType | SearchEntityType[];
+      projectId?: string | string[];
+      limit: number;
+      offset: number;
+    };
+
+    const result = await searchService.search(userId, {
+      q,
+      types: toArray(type),
+      projectIds: toArray(projectId),
+      limit,
+      offset,
+    });
+
+    res.json({
+      success: true,
+      data: result.results,
+      counts: result.counts,
+      pagination: {
+        total: result.total,
+        limit,
+        offset,
+      },
+    });
+  })
+);
+
+export default router;
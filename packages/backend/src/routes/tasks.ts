@@ -1,40 +1,172 @@
 import { Router, Request, Response } from 'express';
 import Joi from 'joi';
-import { TaskService } from '../services/TaskService';
+import { TaskFilters, TaskService } from '../services/TaskService';
+import { SavedViewService } from '../services/SavedViewService';
+import { TASK_IMPORT_FIELDS, TaskExportFormat, TaskImportExportService } from '../services/TaskImportExportService';
+import { WorkloadService } from '../services/WorkloadService';
+import { WatcherService } from '../services/WatcherService';
+import { TaskHistoryService } from '../services/TaskHistoryService';
 import { authenticate } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { asyncHandler } from '../utils/asyncHandler';
+import { TaskPriority, TaskStatusCategory } from '../types/models';
+import { WEEKDAYS } from '../utils/recurrence';
+import { CUSTOM_FIELD_KEY_PATTERN } from '../utils/customFields';
+import { STATUS_CATEGORIES, STATUS_KEY_PATTERN } from '../utils/workflow';
+import { entityTag } from '../utils/etag';
 
 const router = Router();
 const taskService = new TaskService();
+const savedViewService = new SavedViewService();
+const taskImportExportService = new TaskImportExportService();
+const workloadService = new WorkloadService();
+const watcherService = new WatcherService();
+const taskHistoryService = new TaskHistoryService();
 
 // Validation schemas
+
+// Statuses are workflow keys; `IN_PROGRESS` and `in-progress` both become `in_progress`
+const statusSchema = Joi.string().trim().lowercase().replace(/[\s-]+/g, '_').pattern(STATUS_KEY_PATTERN);
+
+const assigneeIdsSchema = Joi.array().items(Joi.string().uuid()).unique().max(20);
+
+const customFieldValuesSchema = Joi.object().pattern(
+  CUSTOM_FIELD_KEY_PATTERN,
+  Joi.alternatives().try(
+    Joi.string().max(1000),
+    Joi.number(),
+    Joi.array().items(Joi.string().max(100)),
+    Joi.valid(null)
+  )
+);
+
+const customFieldFilterSchema = Joi.object().pattern(
+  CUSTOM_FIELD_KEY_PATTERN,
+  Joi.alternatives().try(
+    Joi.string().max(200),
+    Joi.array().items(Joi.string().max(200)),
+    Joi.object({
+      gte: Joi.string().max(50).optional(),
+      lte: Joi.string().max(50).optional(),
+    }).min(1)
+  )
+);
+
 const createTaskSchema = Joi.object({
   title: Joi.string().min(1).max(200).required(),
   description: Joi.string().max(1000).optional(),
   projectId: Joi.string().uuid().required(),
-  assigneeId: Joi.string().uuid().optional(),
+  assigneeIds: assigneeIdsSchema.optional(),
   dueDate: Joi.date().iso().optional(),
   priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH').optional(),
-  status: Joi.string().valid('TODO', 'IN_PROGRESS', 'DONE').optional(),
+  status: statusSchema.optional(),
+  recurrence: Joi.alternatives().try(
+    Joi.string().max(200),
+    Joi.object({
+      frequency: Joi.string().valid('daily', 'weekly', 'monthly').required(),
+      interval: Joi.number().integer().min(1).max(365).optional(),
+      byWeekday: Joi.array().items(Joi.string().valid(...WEEKDAYS)).unique().optional(),
+      byMonthDay: Joi.number().integer().min(1).max(31).optional(),
+      until: Joi.date().iso().optional(),
+      count: Joi.number().integer().min(1).optional(),
+    })
+  ).optional(),
+  parentId: Joi.string().uuid().optional(),
+  milestoneId: Joi.string().uuid().optional(),
+  autoComplete: Joi.boolean().optional(),
+  customFields: customFieldValuesSchema.optional(),
+});
+
+// Subtasks always inherit the parent's project
+const createSubtaskSchema = createTaskSchema.fork(['projectId', 'parentId'], schema => schema.forbidden());
+
+const checklistItemSchema = Joi.object({
+  title: Joi.string().min(1).max(200).required(),
+  position: Joi.number().integer().min(0).optional(),
 });
 
+const updateChecklistItemSchema = Joi.object({
+  title: Joi.string().min(1).max(200).optional(),
+  isDone: Joi.boolean().optional(),
+  position: Joi.number().integer().min(0).optional(),
+}).min(1);
+
 const updateTaskSchema = Joi.object({
   title: Joi.string().min(1).max(200).optional(),
   description: Joi.string().max(1000).optional().allow(null, ''),
-  assigneeId: Joi.string().uuid().optional().allow(null),
+  assigneeIds: assigneeIdsSchema.optional(), // [] unassigns everyone
   dueDate: Joi.date().iso().optional().allow(null),
   priority: Joi.string().valid('LOW', 'MEDIUM', 'HIGH').optional(),
-  status: Joi.string().valid('TODO', 'IN_PROGRESS', 'DONE').optional(),
+  status: statusSchema.optional(),
+  milestoneId: Joi.string().uuid().optional().allow(null),
+  autoComplete: Joi.boolean().optional(),
+  customFields: customFieldValuesSchema.optional(),
 }).min(1);
 
+// Neighbours are the tasks directly above (`afterTaskId`) and below
+// (`beforeTaskId`) the new position; with neither, the task goes to the bottom
+const moveTaskSchema = Joi.object({
+  status: statusSchema.optional(),
+  afterTaskId: Joi.string().uuid().optional().allow(null),
+  beforeTaskId: Joi.string().uuid().optional().allow(null),
+});
+
+// Options for moving or copying a task into a project; see TransferTaskDto
+// for the defaults
+const transferTaskSchema = Joi.object({
+  projectId: Joi.string().uuid().optional(),
+  includeSubtasks: Joi.boolean().optional(),
+  includeAttachments: Joi.boolean().optional(),
+  includeMessages: Joi.boolean().optional(),
+  includeAssignees: Joi.boolean().optional(),
+  nonMemberAssignees: Joi.string().valid('reject', 'drop').optional(),
+  crossProjectDependencies: Joi.string().valid('reject', 'remove').optional(),
+});
+
+const moveToProjectSchema = transferTaskSchema.fork(['projectId'], schema => schema.required());
+
+const duplicateTaskSchema = transferTaskSchema.keys({
+  title: Joi.string().min(1).max(200).optional(),
+});
+
+const bulkChangeKeys = [
+  'status', 'priority', 'dueDate', 'projectId', 'addAssigneeIds', 'removeAssigneeIds', 'addLabels',
+];
+
+// Either `delete: true` or at least one change, applied to every task
+const bulkTaskSchema = Joi.object({
+  taskIds: Joi.array().items(Joi.string().uuid()).unique().min(1).max(200).required(),
+  delete: Joi.boolean().valid(true).optional(),
+  status: statusSchema.optional(),
+  priority: Joi.alternatives().try(
+    Joi.number().integer().min(TaskPriority.LOW).max(TaskPriority.HIGH),
+    Joi.string().uppercase().valid('LOW', 'MEDIUM_LOW', 'MEDIUM', 'MEDIUM_HIGH', 'HIGH')
+  ).optional(),
+  dueDate: Joi.date().iso().optional().allow(null),
+  projectId: Joi.string().uuid().optional(),
+  addAssigneeIds: Joi.array().items(Joi.string().uuid()).unique().min(1).max(20).optional(),
+  removeAssigneeIds: Joi.array().items(Joi.string().uuid()).unique().min(1).max(20).optional(),
+  addLabels: Joi.array().items(Joi.string().trim().min(1).max(100)).unique().min(1).max(20).optional(),
+}).or('delete', ...bulkChangeKeys).without('delete', bulkChangeKeys);
+
 const taskQuerySchema = Joi.object({
   projectId: Joi.string().uuid().optional(),
-  assigneeId: Joi.string().uuid().optional().allow('null'),
+  assigneeIds: Joi.alternatives().try(
+    Joi.string().uuid(),
+    Joi.array().items(Joi.string().uuid())
+  ).optional(),
+  assigneeMatch: Joi.string().valid('any', 'all').optional(),
+  unassigned: Joi.boolean().optional(),
   creatorId: Joi.string().uuid().optional(),
+  parentId: Joi.string().uuid().optional().allow('null'),
+  milestoneId: Joi.string().uuid().optional().allow('null'),
   status: Joi.alternatives().try(
-    Joi.string().valid('TODO', 'IN_PROGRESS', 'DONE'),
-    Joi.array().items(Joi.string().valid('TODO', 'IN_PROGRESS', 'DONE'))
+    statusSchema,
+    Joi.array().items(statusSchema)
+  ).optional(),
+  statusCategory: Joi.alternatives().try(
+    Joi.string().valid(...STATUS_CATEGORIES),
+    Joi.array().items(Joi.string().valid(...STATUS_CATEGORIES))
   ).optional(),
   priority: Joi.alternatives().try(
     Joi.string().valid('LOW', 'MEDIUM', 'HIGH'),
@@ -46,10 +178,68 @@ const taskQuerySchema = Joi.object({
   overdue: Joi.boolean().optional(),
   limit: Joi.number().integer().min(1).max(100).optional(),
   offset: Joi.number().integer().min(0).optional(),
-  sortBy: Joi.string().valid('title', 'dueDate', 'priority', 'createdAt', 'updatedAt').optional(),
+  customFields: customFieldFilterSchema.optional(),
+  q: Joi.string().max(500).optional(),
+  view: Joi.string().uuid().optional(),
+  sortBy: Joi.alternatives().try(
+    Joi.string().valid('title', 'dueDate', 'priority', 'rank', 'createdAt', 'updatedAt'),
+    Joi.string().pattern(/^customFields\.[a-z][a-z0-9_]{0,39}$/)
+  ).optional(),
   sortOrder: Joi.string().valid('asc', 'desc').optional(),
+}).with('customFields', 'projectId');
+
+const exportTasksSchema = taskQuerySchema
+  .fork(['projectId'], schema => schema.required())
+  .fork(['limit', 'offset'], schema => schema.forbidden())
+  .keys({
+    format: Joi.string().valid('csv', 'json').default('csv'),
+  });
+
+const importTasksSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  csv: Joi.string().max(5 * 1024 * 1024).required(),
+  // Task field -> CSV column header; without it columns are matched by name
+  mapping: Joi.object().pattern(
+    Joi.alternatives().try(
+      Joi.string().valid(...TASK_IMPORT_FIELDS),
+      Joi.string().pattern(/^customFields\.[a-z][a-z0-9_]{0,39}$/)
+    ),
+    Joi.string().min(1).max(200)
+  ).min(1).optional(),
+  dryRun: Joi.boolean().optional(),
 });
 
+const paginationQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(100).optional(),
+  offset: Joi.number().integer().min(0).optional(),
+});
+
+const workloadQuerySchema = Joi.object({
+  userId: Joi.string().uuid().optional(), // defaults to the current user
+  from: Joi.date().iso().optional(),
+  weeks: Joi.number().integer().min(1).max(26).optional(),
+});
+
+/**
+ * Apply the saved view named by `view`: it supplies the query, project and
+ * sort, which the other parameters refine
+ */
+const withSavedView = async (userId: string, query: Record<string, unknown>): Promise<Record<string, unknown>> => {
+  const { view: viewId, ...filters } = query;
+  if (!viewId) {
+    return filters;
+  }
+
+  const view = await savedViewService.getView(viewId as string, userId);
+  return {
+    ...filters,
+    q: [view.query, filters['q']].filter(Boolean).join(' '),
+    projectId: filters['projectId'] || view.projectId || undefined,
+    sortBy: filters['sortBy'] || view.sortBy || undefined,
+    sortOrder: filters['sortOrder'] || view.sortOrder,
+  };
+};
+
 // Routes
 
 /**
@@ -63,7 +253,7 @@ router.get(
   validate(taskQuerySchema, 'query'),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
-    const { limit, offset, sortBy, sortOrder, ...filters } = req.query;
+    const { limit, offset, sortBy, sortOrder, ...filters } = await withSavedView(userId, req.query);
 
     const result = await taskService.getTasks(userId, filters as any, {
       limit: limit ? parseInt(limit as string) : undefined,
@@ -84,6 +274,55 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/tasks/export
+ * @desc    Download a project's tasks as CSV or JSON; takes the filters of GET /api/tasks
+ * @access  Private (project members)
+ */
+router.get(
+  '/export',
+  authenticate,
+  validate(exportTasksSchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { format, sortBy, sortOrder, projectId, ...filters } = await withSavedView(userId, req.query);
+
+    const file = await taskImportExportService.exportTasks(userId, projectId as string, filters as TaskFilters, {
+      format: format as TaskExportFormat,
+      sortBy: sortBy as string | undefined,
+      sortOrder: sortOrder as 'asc' | 'desc' | undefined,
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  })
+);
+
+/**
+ * @route   POST /api/tasks/import
+ * @desc    Create or update tasks from a CSV file; all or nothing, with a dry-run mode
+ * @access  Private (project members except viewers)
+ */
+router.post(
+  '/import',
+  authenticate,
+  validate(importTasksSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const result = await taskImportExportService.importTasks(userId, req.body);
+
+    res.status(result.dryRun ? 200 : 201).json({
+      success: true,
+      message: result.dryRun
+        ? `${result.summary.failed} of ${result.rows.length} rows have errors`
+        : `${result.summary.created} tasks created, ${result.summary.updated} updated`,
+      data: result,
+    });
+  })
+);
+
 /**
  * @route   GET /api/tasks/my
  * @desc    Get user's assigned tasks
@@ -97,7 +336,7 @@ router.get(
 
     const tasks = await taskService.getUserTasks(userId, {
       assignedToMe: true,
-      status: ['TODO', 'IN_PROGRESS'],
+      statusCategory: [TaskStatusCategory.NOT_STARTED, TaskStatusCategory.ACTIVE],
     });
 
     res.json({
@@ -107,6 +346,55 @@ router.get(
   })
 );
 
+/**
+ * @route   GET /api/tasks/workload
+ * @desc    Get a user's weekly workload across all their projects
+ * @access  Private (self, or owners/admins of a project the user is in)
+ */
+router.get(
+  '/workload',
+  authenticate,
+  validate(workloadQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { userId: targetUserId, from, weeks } = req.query as { userId?: string; from?: Date; weeks?: number };
+
+    const workload = await workloadService.getUserWorkload(targetUserId ?? userId, userId, { from, weeks });
+
+    res.json({
+      success: true,
+      data: workload,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/tasks/watching
+ * @desc    Get the tasks the user watches
+ * @access  Private
+ */
+router.get(
+  '/watching',
+  authenticate,
+  validate(paginationQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { limit, offset } = req.query as { limit?: number; offset?: number };
+
+    const result = await watcherService.getWatchedTasks(userId, { limit, offset });
+
+    res.json({
+      success: true,
+      data: result.tasks,
+      pagination: {
+        total: result.total,
+        limit: limit ?? 50,
+        offset: offset ?? 0,
+      },
+    });
+  })
+);
+
 /**
  * @route   POST /api/tasks
  * @desc    Create a new task
@@ -153,6 +441,7 @@ router.get(
       });
     }
 
+    res.set('ETag', entityTag(task.updatedAt));
     res.json({
       success: true,
       data: task,
@@ -162,7 +451,7 @@ router.get(
 
 /**
  * @route   PUT /api/tasks/:id
- * @desc    Update a task
+ * @desc    Update a task; with If-Match, only if nobody changed it since
  * @access  Private (project members)
  */
 router.put(
@@ -173,8 +462,9 @@ router.put(
     const { id } = req.params;
     const userId = req.user!.id;
 
-    const task = await taskService.updateTask(id, userId, req.body);
+    const task = await taskService.updateTask(id!, userId, req.body, { ifMatch: req.get('If-Match') });
 
+    res.set('ETag', entityTag(task.updatedAt));
     res.json({
       success: true,
       data: task,
@@ -182,9 +472,75 @@ router.put(
   })
 );
 
+/**
+ * @route   PUT /api/tasks/:id/position
+ * @desc    Move a task within its board column, or into another column
+ * @access  Private (project members)
+ */
+router.put(
+  '/:id/position',
+  authenticate,
+  validate(moveTaskSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const task = await taskService.moveTask(id!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: task,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/move
+ * @desc    Move a task and its subtasks to another project
+ * @access  Private (task creator or project admin; member of the target project)
+ */
+router.post(
+  '/:id/move',
+  authenticate,
+  validate(moveToProjectSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const result = await taskService.moveTaskToProject(id!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/duplicate
+ * @desc    Copy a task and its subtasks into the same or another project
+ * @access  Private (project members; member of the target project)
+ */
+router.post(
+  '/:id/duplicate',
+  authenticate,
+  validate(duplicateTaskSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const result = await taskService.duplicateTask(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
 /**
  * @route   DELETE /api/tasks/:id
- * @desc    Delete a task
+ * @desc    Move a task and its subtasks to the trash
  * @access  Private (task creator or project admin)
  */
 router.delete(
@@ -203,6 +559,27 @@ router.delete(
   })
 );
 
+/**
+ * @route   POST /api/tasks/:id/restore
+ * @desc    Restore a task from the trash, with the subtasks deleted along with it
+ * @access  Private (task creator, whoever deleted it or project admin)
+ */
+router.post(
+  '/:id/restore',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const task = await taskService.restoreTask(id!, userId);
+
+    res.json({
+      success: true,
+      data: task,
+    });
+  })
+);
+
 /**
  * @route   POST /api/tasks/bulk-status
  * @desc    Bulk update task status
@@ -213,7 +590,7 @@ router.post(
   authenticate,
   validate(Joi.object({
     taskIds: Joi.array().items(Joi.string().uuid()).min(1).required(),
-    status: Joi.string().valid('TODO', 'IN_PROGRESS', 'DONE').required(),
+    status: statusSchema.required(),
   })),
   asyncHandler(async (req: Request, res: Response) => {
     const userId = req.user!.id;
@@ -229,6 +606,326 @@ router.post(
   })
 );
 
+/**
+ * @route   POST /api/tasks/bulk
+ * @desc    Apply the same changes to (or delete) many tasks; all or nothing
+ * @access  Private
+ */
+router.post(
+  '/bulk',
+  authenticate,
+  validate(bulkTaskSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+    const { priority, ...operation } = req.body;
+
+    const result = await taskService.bulkUpdate(userId, {
+      ...operation,
+      ...(priority !== undefined && {
+        priority: typeof priority === 'string' ? TaskPriority[priority as keyof typeof TaskPriority] : priority,
+      }),
+    });
+
+    res.json({
+      success: true,
+      message: `${result.summary.success} tasks ${operation.delete ? 'deleted' : 'updated'} successfully`,
+      data: result,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/dependencies
+ * @desc    Make a task depend on another task
+ * @access  Private (project members)
+ */
+router.post(
+  '/:id/dependencies',
+  authenticate,
+  validate(Joi.object({
+    dependsOnTaskId: Joi.string().uuid().required(),
+  })),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { dependsOnTaskId } = req.body;
+
+    const task = await taskService.addDependency(id!, dependsOnTaskId, userId);
+
+    res.status(201).json({
+      success: true,
+      data: task,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/dependencies/:dependsOnTaskId
+ * @desc    Remove a dependency between two tasks
+ * @access  Private (project members)
+ */
+router.delete(
+  '/:id/dependencies/:dependsOnTaskId',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, dependsOnTaskId } = req.params;
+    const userId = req.user!.id;
+
+    await taskService.removeDependency(id!, dependsOnTaskId!, userId);
+
+    res.json({
+      success: true,
+      message: 'Dependency removed successfully',
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/recurrence
+ * @desc    Stop the recurring series a task belongs to
+ * @access  Private (project members)
+ */
+router.delete(
+  '/:id/recurrence',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await taskService.stopRecurrence(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Recurrence stopped successfully',
+    });
+  })
+);
+
+/**
+ * @route   GET /api/tasks/:id/subtasks
+ * @desc    Get the direct subtasks of a task
+ * @access  Private (project members)
+ */
+router.get(
+  '/:id/subtasks',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const subtasks = await taskService.getSubtasks(id!, userId);
+
+    res.json({
+      success: true,
+      data: subtasks,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/subtasks
+ * @desc    Create a subtask
+ * @access  Private (project members)
+ */
+router.post(
+  '/:id/subtasks',
+  authenticate,
+  validate(createSubtaskSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const subtask = await taskService.createSubtask(id!, {
+      ...req.body,
+      creatorId: userId,
+    }, userId);
+
+    res.status(201).json({
+      success: true,
+      data: subtask,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/tasks/:id/checklist
+ * @desc    Get the checklist of a task
+ * @access  Private (project members)
+ */
+router.get(
+  '/:id/checklist',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const items = await taskService.getChecklist(id!, userId);
+
+    res.json({
+      success: true,
+      data: items,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/checklist
+ * @desc    Add a checklist item
+ * @access  Private (project members)
+ */
+router.post(
+  '/:id/checklist',
+  authenticate,
+  validate(checklistItemSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const item = await taskService.addChecklistItem(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: item,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/tasks/:id/checklist/:itemId
+ * @desc    Update a checklist item
+ * @access  Private (project members)
+ */
+router.put(
+  '/:id/checklist/:itemId',
+  authenticate,
+  validate(updateChecklistItemSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, itemId } = req.params;
+    const userId = req.user!.id;
+
+    const item = await taskService.updateChecklistItem(id!, itemId!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: item,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/checklist/:itemId
+ * @desc    Remove a checklist item
+ * @access  Private (project members)
+ */
+router.delete(
+  '/:id/checklist/:itemId',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id, itemId } = req.params;
+    const userId = req.user!.id;
+
+    await taskService.deleteChecklistItem(id!, itemId!, userId);
+
+    res.json({
+      success: true,
+      message: 'Checklist item deleted successfully',
+    });
+  })
+);
+
+/**
+ * @route   GET /api/tasks/:id/history
+ * @desc    Get the change history of a task, most recent first
+ * @access  Private (project members)
+ */
+router.get(
+  '/:id/history',
+  authenticate,
+  validate(paginationQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { limit, offset } = req.query as { limit?: number; offset?: number };
+
+    const result = await taskHistoryService.getTaskHistory(id!, userId, { limit, offset });
+
+    res.json({
+      success: true,
+      data: result.entries,
+      pagination: {
+        total: result.total,
+        limit: limit ?? 50,
+        offset: offset ?? 0,
+      },
+    });
+  })
+);
+
+/**
+ * @route   GET /api/tasks/:id/watchers
+ * @desc    Get the people watching a task
+ * @access  Private (project members)
+ */
+router.get(
+  '/:id/watchers',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const watchers = await watcherService.getWatchers(id!, userId);
+
+    res.json({
+      success: true,
+      data: watchers,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/tasks/:id/watch
+ * @desc    Watch a task to be notified about its changes and comments
+ * @access  Private (project members)
+ */
+router.post(
+  '/:id/watch',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await watcherService.watchTask(id!, userId);
+    const watchers = await watcherService.getWatchers(id!, userId);
+
+    res.json({
+      success: true,
+      data: watchers,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/tasks/:id/watch
+ * @desc    Stop watching a task
+ * @access  Private (project members)
+ */
+router.delete(
+  '/:id/watch',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await watcherService.unwatchTask(id!, userId);
+    const watchers = await watcherService.getWatchers(id!, userId);
+
+    res.json({
+      success: true,
+      data: watchers,
+    });
+  })
+);
+
 /**
  * @route   GET /api/tasks/project/:projectId/stats
  * @desc    Get task statistics for a project
@@ -0,0 +1,161 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { ProjectTemplateService } from '../services/ProjectTemplateService';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+const projectTemplateService = new ProjectTemplateService();
+
+// Validation schemas
+const saveTemplateSchema = Joi.object({
+  projectId: Joi.string().uuid().required(),
+  name: Joi.string().trim().min(1).max(100).required(),
+  description: Joi.string().max(500).allow(null, '').optional(),
+  includeMembers: Joi.boolean().optional(),
+  startDate: Joi.date().iso().optional(),
+});
+
+const updateTemplateSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  description: Joi.string().max(500).allow(null, '').optional(),
+}).min(1);
+
+const createProjectSchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(500).allow(null, '').optional(),
+  startDate: Joi.date().iso().required(),
+  includeMembers: Joi.boolean().optional(),
+});
+
+// Routes
+
+/**
+ * @route   GET /api/templates
+ * @desc    List the user's project templates
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const templates = await projectTemplateService.getTemplates(userId);
+
+    res.json({
+      success: true,
+      data: templates,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/templates
+ * @desc    Save a project as a template
+ * @access  Private (project owner/admin only)
+ */
+router.post(
+  '/',
+  authenticate,
+  validate(saveTemplateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const template = await projectTemplateService.saveProjectAsTemplate(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: template,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/templates/:id
+ * @desc    Get a project template with its tasks
+ * @access  Private (template owner only)
+ */
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const template = await projectTemplateService.getTemplate(id!, userId);
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/templates/:id
+ * @desc    Rename a project template or change its description
+ * @access  Private (template owner only)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  validate(updateTemplateSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const template = await projectTemplateService.updateTemplate(id!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: template,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/templates/:id
+ * @desc    Delete a project template
+ * @access  Private (template owner only)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await projectTemplateService.deleteTemplate(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Project template deleted successfully',
+    });
+  })
+);
+
+/**
+ * @route   POST /api/templates/:id/projects
+ * @desc    Create a project from a template, shifting due dates to a start date
+ * @access  Private (template owner only)
+ */
+router.post(
+  '/:id/projects',
+  authenticate,
+  validate(createProjectSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const result = await projectTemplateService.createProjectFromTemplate(id!, userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: result,
+    });
+  })
+);
+
+export default router;
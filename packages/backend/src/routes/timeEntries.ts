@@ -0,0 +1,186 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { TimeEntryService, TimesheetFilters } from '../services/TimeEntryService';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+const timeEntryService = new TimeEntryService();
+
+// Validation schemas
+const startTimerSchema = Joi.object({
+  taskId: Joi.string().uuid().optional(),
+  note: Joi.string().max(500).optional(),
+});
+
+const createTimeEntrySchema = Joi.object({
+  taskId: Joi.string().uuid().optional(),
+  startTime: Joi.date().iso().required(),
+  endTime: Joi.date().iso().greater(Joi.ref('startTime')).required(),
+  note: Joi.string().max(500).optional(),
+});
+
+const updateTimeEntrySchema = Joi.object({
+  taskId: Joi.string().uuid().optional().allow(null),
+  startTime: Joi.date().iso().optional(),
+  endTime: Joi.date().iso().optional(),
+  note: Joi.string().max(500).optional().allow(null, ''),
+}).min(1);
+
+const timesheetQuerySchema = Joi.object({
+  userId: Joi.string().uuid().optional(),
+  projectId: Joi.string().uuid().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+});
+
+// Routes
+
+/**
+ * @route   GET /api/time-entries/timer
+ * @desc    Get the running timer
+ * @access  Private
+ */
+router.get(
+  '/timer',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const entry = await timeEntryService.getRunningTimer(userId);
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/time-entries/timer/start
+ * @desc    Start a timer
+ * @access  Private
+ */
+router.post(
+  '/timer/start',
+  authenticate,
+  validate(startTimerSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const entry = await timeEntryService.startTimer(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/time-entries/timer/stop
+ * @desc    Stop the running timer
+ * @access  Private
+ */
+router.post(
+  '/timer/stop',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const entry = await timeEntryService.stopTimer(userId);
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/time-entries/timesheet
+ * @desc    Get time entries and per-task totals for a date range
+ * @access  Private
+ */
+router.get(
+  '/timesheet',
+  authenticate,
+  validate(timesheetQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const timesheet = await timeEntryService.getTimesheet(userId, req.query as unknown as TimesheetFilters);
+
+    res.json({
+      success: true,
+      data: timesheet,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/time-entries
+ * @desc    Create a manual time entry
+ * @access  Private
+ */
+router.post(
+  '/',
+  authenticate,
+  validate(createTimeEntrySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const entry = await timeEntryService.createEntry(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: entry,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/time-entries/:id
+ * @desc    Update a time entry
+ * @access  Private (entry owner)
+ */
+router.put(
+  '/:id',
+  authenticate,
+  validate(updateTimeEntrySchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const entry = await timeEntryService.updateEntry(id!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: entry,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/time-entries/:id
+ * @desc    Delete a time entry
+ * @access  Private (entry owner)
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await timeEntryService.deleteEntry(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Time entry deleted successfully',
+    });
+  })
+);
+
+export default router;
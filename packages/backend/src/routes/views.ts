@@ -0,0 +1,157 @@
+import { Router, Request, Response } from 'express';
+import Joi from 'joi';
+import { SavedViewService, SAVED_VIEW_COLUMNS } from '../services/SavedViewService';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { asyncHandler } from '../utils/asyncHandler';
+
+const router = Router();
+const savedViewService = new SavedViewService();
+
+// Validation schemas
+const sortBySchema = Joi.alternatives().try(
+  Joi.string().valid('title', 'dueDate', 'priority', 'rank', 'createdAt', 'updatedAt'),
+  Joi.string().pattern(/^customFields\.[a-z][a-z0-9_]{0,39}$/)
+);
+
+const columnsSchema = Joi.array().items(
+  Joi.alternatives().try(
+    Joi.string().valid(...SAVED_VIEW_COLUMNS),
+    Joi.string().pattern(/^customFields\.[a-z][a-z0-9_]{0,39}$/)
+  )
+).unique().max(30);
+
+const createViewSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scope: Joi.string().valid('user', 'project').default('user'),
+  projectId: Joi.string().uuid().allow(null).when('scope', {
+    is: 'project',
+    then: Joi.required().invalid(null),
+  }),
+  query: Joi.string().trim().max(500).allow('').optional(),
+  sortBy: sortBySchema.allow(null).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional(),
+  columns: columnsSchema.optional(),
+});
+
+const updateViewSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  query: Joi.string().trim().max(500).allow('').optional(),
+  sortBy: sortBySchema.allow(null).optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional(),
+  columns: columnsSchema.optional(),
+}).min(1);
+
+const viewQuerySchema = Joi.object({
+  projectId: Joi.string().uuid().optional(),
+});
+
+// Routes
+
+/**
+ * @route   GET /api/views
+ * @desc    List the user's saved views and the shared views of their projects
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticate,
+  validate(viewQuerySchema, 'query'),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const views = await savedViewService.getViews(userId, req.query['projectId'] as string | undefined);
+
+    res.json({
+      success: true,
+      data: views,
+    });
+  })
+);
+
+/**
+ * @route   POST /api/views
+ * @desc    Save a view
+ * @access  Private
+ */
+router.post(
+  '/',
+  authenticate,
+  validate(createViewSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const userId = req.user!.id;
+
+    const view = await savedViewService.createView(userId, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: view,
+    });
+  })
+);
+
+/**
+ * @route   GET /api/views/:id
+ * @desc    Get a saved view
+ * @access  Private
+ */
+router.get(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const view = await savedViewService.getView(id!, userId);
+
+    res.json({
+      success: true,
+      data: view,
+    });
+  })
+);
+
+/**
+ * @route   PUT /api/views/:id
+ * @desc    Update a saved view (owner, or project owner/admin for shared views)
+ * @access  Private
+ */
+router.put(
+  '/:id',
+  authenticate,
+  validate(updateViewSchema),
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    const view = await savedViewService.updateView(id!, userId, req.body);
+
+    res.json({
+      success: true,
+      data: view,
+    });
+  })
+);
+
+/**
+ * @route   DELETE /api/views/:id
+ * @desc    Delete a saved view (owner, or project owner/admin for shared views)
+ * @access  Private
+ */
+router.delete(
+  '/:id',
+  authenticate,
+  asyncHandler(async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+
+    await savedViewService.deleteView(id!, userId);
+
+    res.json({
+      success: true,
+      message: 'Saved view deleted successfully',
+    });
+  })
+);
+
+export default router;
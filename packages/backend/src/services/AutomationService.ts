@@ -0,0 +1,617 @@
+import { PrismaClient, AutomationRule, AutomationRun, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole, ProjectStatus, TaskPriority, TaskStatusCategory } from '../types/models';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import {
+  AutomationAction,
+  AutomationCondition,
+  AutomationSubject,
+  AutomationTaskFields,
+  AutomationTrigger,
+  chainBlockReason,
+  evaluateConditions,
+  isAutomationField,
+  renderTemplate,
+} from '../utils/automation';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { ProjectStatusService } from './ProjectStatusService';
+import { NotificationService } from './NotificationService';
+import { WatcherService } from './WatcherService';
+import { WorkflowService } from './WorkflowService';
+import { TaskService } from './TaskService';
+import { MessageService } from './MessageService';
+
+export interface CreateAutomationRuleDto {
+  name: string;
+  enabled?: boolean;
+  trigger: AutomationTrigger;
+  triggerConfig?: { days?: number };
+  conditions?: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+export type UpdateAutomationRuleDto = Partial<CreateAutomationRuleDto>;
+
+// Passed along with changes made by rules, so the rules they trigger in turn
+// know which rules led to them
+export interface AutomationContext {
+  chain: string[];
+}
+
+export interface AutomationEvent {
+  trigger: Exclude<AutomationTrigger, 'task.stale'>;
+  projectId: string;
+  taskId: string | null;
+  previous?: AutomationTaskFields | undefined; // task.updated
+  message?: { id: string; body: string; authorId: string | null } | undefined; // message.created
+  context?: AutomationContext | undefined;
+}
+
+export type AutomationRunStatus = 'success' | 'failed' | 'skipped';
+
+export interface AutomationActionResult {
+  type: AutomationAction['type'];
+  status: 'success' | 'failed';
+  error?: string;
+}
+
+// Tasks checked per stale rule on each scheduler pass
+const STALE_BATCH_SIZE = 200;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const automationTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  statusCategory: true,
+  priority: true,
+  creatorId: true,
+  dueDate: true,
+  milestoneId: true,
+  customFields: true,
+  assignments: { select: { userId: true } },
+} satisfies Prisma.TaskSelect;
+
+/**
+ * The fields rules see of a task
+ */
+export const toAutomationTask = (
+  task: Prisma.TaskGetPayload<{ select: typeof automationTaskSelect }>
+): AutomationTaskFields => ({
+  id: task.id,
+  title: task.title,
+  status: task.status,
+  statusCategory: task.statusCategory,
+  priority: task.priority,
+  creatorId: task.creatorId,
+  assigneeIds: task.assignments.map(a => a.userId),
+  dueDate: task.dueDate,
+  milestoneId: task.milestoneId,
+  customFields: task.customFields && typeof task.customFields === 'object' && !Array.isArray(task.customFields)
+    ? task.customFields as Record<string, unknown>
+    : {},
+});
+
+export class AutomationService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+  private projectStatusService: ProjectStatusService;
+  private notificationService: NotificationService;
+  private watcherService: WatcherService;
+  private workflowService: WorkflowService;
+  private timer: NodeJS.Timeout | null = null;
+
+  // Created on first use: both services create an AutomationService themselves
+  private taskServiceInstance: TaskService | null = null;
+  private messageServiceInstance: MessageService | null = null;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+    this.projectStatusService = new ProjectStatusService();
+    this.notificationService = new NotificationService();
+    this.watcherService = new WatcherService();
+    this.workflowService = new WorkflowService();
+  }
+
+  /**
+   * Get the automation rules of a project
+   */
+  async getRules(projectId: string, userId: string): Promise<AutomationRule[]> {
+    await this.getMemberRole(projectId, userId);
+
+    return this.prisma.automationRule.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Create an automation rule (owner/admin only). Its actions run as the
+   * person who created it.
+   */
+  async createRule(projectId: string, userId: string, data: CreateAutomationRuleDto): Promise<AutomationRule> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+
+    const rule = {
+      trigger: data.trigger,
+      triggerConfig: data.triggerConfig ?? {},
+      conditions: data.conditions ?? [],
+      actions: data.actions,
+    };
+    await this.validateRule(projectId, rule);
+
+    const created = await this.prisma.automationRule.create({
+      data: {
+        projectId,
+        name: data.name,
+        enabled: data.enabled ?? true,
+        ...rule,
+        conditions: rule.conditions as unknown as Prisma.InputJsonValue,
+        actions: rule.actions as unknown as Prisma.InputJsonValue,
+        createdById: userId,
+      },
+    });
+
+    await this.wsService.broadcastToProject(projectId, 'automation:created', {
+      rule: created,
+      createdBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+
+    return created;
+  }
+
+  /**
+   * Update an automation rule (owner/admin only). Whoever updates it becomes
+   * the person its actions run as.
+   */
+  async updateRule(
+    projectId: string,
+    ruleId: string,
+    userId: string,
+    data: UpdateAutomationRuleDto
+  ): Promise<AutomationRule> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    const existing = await this.findRule(projectId, ruleId);
+
+    const rule = {
+      trigger: data.trigger ?? existing.trigger as AutomationTrigger,
+      triggerConfig: data.triggerConfig ?? existing.triggerConfig as CreateAutomationRuleDto['triggerConfig'] ?? {},
+      conditions: data.conditions ?? existing.conditions as unknown as AutomationCondition[],
+      actions: data.actions ?? existing.actions as unknown as AutomationAction[],
+    };
+    await this.validateRule(projectId, rule);
+
+    const updated = await this.prisma.automationRule.update({
+      where: { id: ruleId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.enabled !== undefined && { enabled: data.enabled }),
+        ...(data.trigger !== undefined && { trigger: data.trigger }),
+        ...(data.triggerConfig !== undefined && { triggerConfig: data.triggerConfig }),
+        ...(data.conditions !== undefined && { conditions: data.conditions as unknown as Prisma.InputJsonValue }),
+        ...(data.actions !== undefined && { actions: data.actions as unknown as Prisma.InputJsonValue }),
+        createdById: userId,
+      },
+    });
+
+    await this.wsService.broadcastToProject(projectId, 'automation:updated', {
+      rule: updated,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+
+    return updated;
+  }
+
+  /**
+   * Delete an automation rule and its execution log (owner/admin only)
+   */
+  async deleteRule(projectId: string, ruleId: string, userId: string): Promise<void> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    await this.findRule(projectId, ruleId);
+
+    await this.prisma.automationRule.delete({
+      where: { id: ruleId },
+    });
+
+    await this.wsService.broadcastToProject(projectId, 'automation:deleted', {
+      ruleId,
+      deletedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+  }
+
+  /**
+   * Get the execution log of a rule, most recent first
+   */
+  async getRuns(projectId: string, ruleId: string, userId: string, pagination: {
+    limit?: number | undefined;
+    offset?: number | undefined;
+  } = {}): Promise<{ runs: AutomationRun[]; total: number }> {
+    const { limit = 50, offset = 0 } = pagination;
+    await this.getMemberRole(projectId, userId);
+    await this.findRule(projectId, ruleId);
+
+    const [runs, total] = await Promise.all([
+      this.prisma.automationRun.findMany({
+        where: { ruleId },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.automationRun.count({ where: { ruleId } }),
+    ]);
+
+    return { runs, total };
+  }
+
+  /**
+   * Run the rules an event triggers, after the current request is done.
+   * Failures are logged and never reach whoever caused the event.
+   */
+  dispatch(event: AutomationEvent): void {
+    setImmediate(() => {
+      this.handleEvent(event).catch(error => {
+        console.error(`Automation for ${event.trigger} in project ${event.projectId} failed:`, error);
+      });
+    });
+  }
+
+  /**
+   * Run the rules an event triggers and wait for them
+   */
+  async handleEvent(event: AutomationEvent): Promise<number> {
+    const rules = await this.prisma.automationRule.findMany({
+      where: { projectId: event.projectId, trigger: event.trigger, enabled: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (rules.length === 0) return 0;
+
+    const task = event.taskId
+      ? await this.prisma.task.findUnique({ where: { id: event.taskId }, select: automationTaskSelect })
+      : null;
+    const subject: AutomationSubject = {
+      task: task && toAutomationTask(task),
+      previous: event.previous,
+      message: event.message,
+    };
+
+    let ran = 0;
+    for (const rule of rules) {
+      if (await this.runRule(rule, subject, event.context?.chain ?? [])) ran++;
+    }
+
+    return ran;
+  }
+
+  /**
+   * Fire `task.stale` rules for open tasks that have stayed in their status
+   * for the configured number of days. A rule fires once per stay: only
+   * again after the task has changed status. Archived projects are skipped.
+   */
+  async processStaleTasks(now: Date = new Date()): Promise<number> {
+    const rules = await this.prisma.automationRule.findMany({
+      where: { trigger: 'task.stale', enabled: true, project: { status: ProjectStatus.ACTIVE } },
+    });
+
+    let ran = 0;
+    for (const rule of rules) {
+      try {
+        const days = (rule.triggerConfig as CreateAutomationRuleDto['triggerConfig'])?.days;
+        if (!days) continue;
+        const cutoff = new Date(now.getTime() - days * DAY_MS);
+
+        const tasks = await this.prisma.task.findMany({
+          where: {
+            projectId: rule.projectId,
+            statusCategory: { not: TaskStatusCategory.DONE },
+            createdAt: { lte: cutoff },
+            statusChanges: { none: { changedAt: { gt: cutoff } } },
+          },
+          select: {
+            ...automationTaskSelect,
+            createdAt: true,
+            statusChanges: { select: { changedAt: true }, orderBy: { changedAt: 'desc' }, take: 1 },
+          },
+          orderBy: { updatedAt: 'asc' },
+          take: STALE_BATCH_SIZE,
+        });
+
+        for (const task of tasks) {
+          const subject: AutomationSubject = { task: toAutomationTask(task) };
+          if (!evaluateConditions(rule.conditions as unknown as AutomationCondition[], subject)) continue;
+
+          const staleSince = task.statusChanges[0]?.changedAt ?? task.createdAt;
+          const alreadyRan = await this.prisma.automationRun.findFirst({
+            where: { ruleId: rule.id, taskId: task.id, createdAt: { gte: staleSince } },
+            select: { id: true },
+          });
+          if (alreadyRan) continue;
+
+          if (await this.runRule(rule, subject, [], { conditionsChecked: true })) ran++;
+        }
+      } catch (error) {
+        console.error(`Failed to process stale tasks for automation rule ${rule.id}:`, error);
+      }
+    }
+
+    return ran;
+  }
+
+  /**
+   * Start the periodic scheduler for `task.stale` rules
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.processStaleTasks().catch(error => {
+        console.error('Automation scheduler failed:', error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop the periodic scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Private helper methods
+
+  private get taskService(): TaskService {
+    return this.taskServiceInstance ??= new TaskService();
+  }
+
+  private get messageService(): MessageService {
+    return this.messageServiceInstance ??= new MessageService();
+  }
+
+  /**
+   * Run a rule if its conditions hold, and record the run. Returns whether
+   * the rule fired.
+   */
+  private async runRule(
+    rule: AutomationRule,
+    subject: AutomationSubject,
+    chain: string[],
+    options: { conditionsChecked?: boolean } = {}
+  ): Promise<boolean> {
+    if (!options.conditionsChecked && !evaluateConditions(rule.conditions as unknown as AutomationCondition[], subject)) {
+      return false;
+    }
+
+    const run = {
+      ruleId: rule.id,
+      trigger: rule.trigger,
+      taskId: subject.task?.id ?? null,
+      messageId: subject.message?.id ?? null,
+      depth: chain.length,
+    };
+
+    const blocked = chainBlockReason(chain, rule.id);
+    if (blocked) {
+      await this.prisma.automationRun.create({
+        data: { ...run, status: 'skipped', error: blocked },
+      });
+      return true;
+    }
+
+    const actor = rule.createdById && await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: rule.projectId, userId: rule.createdById },
+      },
+    });
+    if (!actor) {
+      await this.prisma.automationRun.create({
+        data: { ...run, status: 'failed', error: 'The person the rule runs as is no longer a project member' },
+      });
+      return true;
+    }
+
+    const context: AutomationContext = { chain: [...chain, rule.id] };
+    const results: AutomationActionResult[] = [];
+    for (const action of rule.actions as unknown as AutomationAction[]) {
+      try {
+        await this.runAction(action, rule, subject, actor.userId, context);
+        results.push({ type: action.type, status: 'success' });
+      } catch (error) {
+        results.push({
+          type: action.type,
+          status: 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const failed = results.filter(r => r.status === 'failed');
+    await this.prisma.automationRun.create({
+      data: {
+        ...run,
+        status: failed.length > 0 ? 'failed' : 'success',
+        error: failed.length > 0 ? `${failed.length} of ${results.length} actions failed` : null,
+        actions: results as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return true;
+  }
+
+  private async runAction(
+    action: AutomationAction,
+    rule: AutomationRule,
+    subject: AutomationSubject,
+    actorId: string,
+    context: AutomationContext
+  ): Promise<void> {
+    const task = subject.task;
+
+    if (action.type === 'notify') {
+      const notification = {
+        type: 'PROJECT_UPDATE',
+        title: renderTemplate(action.title ?? rule.name, subject),
+        message: renderTemplate(action.message, subject),
+        data: { projectId: rule.projectId, taskId: task?.id ?? null, ruleId: rule.id },
+      };
+
+      if (action.to === 'watchers') {
+        if (!task) throw new Error('There is no task to notify the watchers of');
+        await this.watcherService.notifyWatchers(task.id, [], notification);
+        return;
+      }
+
+      const recipients = action.to === 'creator' ? [task?.creatorId]
+        : action.to === 'assignees' ? task?.assigneeIds ?? []
+        : action.to;
+      const members = await this.prisma.projectMember.findMany({
+        where: {
+          projectId: rule.projectId,
+          userId: { in: recipients.filter((id): id is string => !!id) },
+        },
+        select: { userId: true },
+      });
+
+      if (members.length > 0) {
+        await this.notificationService.createBulkNotifications(members.map(m => m.userId), notification);
+      }
+      return;
+    }
+
+    if (action.type === 'post_message') {
+      await this.messageService.createMessage({
+        content: renderTemplate(action.body, subject),
+        projectId: rule.projectId,
+        authorId: actorId,
+        ...(task && { taskId: task.id }),
+      }, actorId, context);
+      return;
+    }
+
+    if (!task) {
+      throw new Error('There is no task to change');
+    }
+
+    switch (action.type) {
+      case 'assign':
+        await this.taskService.updateTask(task.id, actorId, {
+          assigneeIds: action.replace ? action.userIds : [...task.assigneeIds, ...action.userIds],
+        }, { automation: context });
+        break;
+      case 'set_status':
+        await this.taskService.updateTask(task.id, actorId, { status: action.status }, { automation: context });
+        break;
+      case 'set_priority':
+        await this.taskService.updateTask(task.id, actorId, { priority: action.priority as TaskPriority }, { automation: context });
+        break;
+    }
+  }
+
+  /**
+   * Check what the request schema cannot: that fields, statuses and people
+   * exist in the project, and that conditions fit the trigger
+   */
+  private async validateRule(projectId: string, rule: {
+    trigger: AutomationTrigger;
+    triggerConfig: { days?: number };
+    conditions: AutomationCondition[];
+    actions: AutomationAction[];
+  }): Promise<void> {
+    if (rule.trigger === 'task.stale' && !rule.triggerConfig.days) {
+      throw new ValidationError('Stale task rules need the number of days in triggerConfig.days');
+    }
+
+    for (const condition of rule.conditions) {
+      if (!isAutomationField(condition.field)) {
+        throw new ValidationError(`Unknown field "${condition.field}"`);
+      }
+
+      const usesPrevious = condition.field.startsWith('previous.') ||
+        condition.operator === 'changed' || condition.operator === 'changed_to';
+      if (usesPrevious && rule.trigger !== 'task.updated') {
+        throw new ValidationError(`"${condition.field}" can only be compared with its previous value in task.updated rules`);
+      }
+      if (condition.field.startsWith('message.') && rule.trigger !== 'message.created') {
+        throw new ValidationError(`"${condition.field}" is only available in message.created rules`);
+      }
+    }
+
+    const statuses = rule.actions.flatMap(a => a.type === 'set_status' ? [a.status] : []);
+    if (statuses.length > 0) {
+      const workflow = await this.workflowService.loadWorkflow(projectId);
+      statuses.forEach(status => this.workflowService.resolveStatus(workflow, status));
+    }
+
+    const userIds = [...new Set(rule.actions.flatMap(a =>
+      a.type === 'assign' ? a.userIds
+        : a.type === 'notify' && Array.isArray(a.to) ? a.to
+        : []
+    ))];
+    if (userIds.length > 0) {
+      const members = await this.prisma.projectMember.findMany({
+        where: { projectId, userId: { in: userIds } },
+        select: { userId: true },
+      });
+
+      const outsiders = userIds.filter(id => !members.some(m => m.userId === id));
+      if (outsiders.length > 0) {
+        throw new ValidationError('Rules can only assign and notify project members', { userIds: outsiders });
+      }
+    }
+  }
+
+  private async findRule(projectId: string, ruleId: string): Promise<AutomationRule> {
+    const rule = await this.prisma.automationRule.findFirst({
+      where: { id: ruleId, projectId },
+    });
+
+    if (!rule) {
+      throw new NotFoundError('Automation rule not found');
+    }
+
+    return rule;
+  }
+
+  private async getMemberRole(projectId: string, userId: string): Promise<string> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return member.role;
+  }
+
+  private async assertProjectAdmin(projectId: string, userId: string): Promise<void> {
+    const role = await this.getMemberRole(projectId, userId);
+
+    if (role !== ProjectMemberRole.OWNER && role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError('Only project owners and admins can manage automations');
+    }
+  }
+}
+
+export default AutomationService;
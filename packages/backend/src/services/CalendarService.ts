@@ -0,0 +1,154 @@
+import { randomBytes } from 'crypto';
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/environment';
+import { NotFoundError } from '../middleware/errorHandler';
+import { TaskStatusCategory } from '../types/models';
+import { CalendarEvent, renderCalendar } from '../utils/ical';
+import { TaskService, TaskWithRelations } from './TaskService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deadlines further back than this are left out of the feed
+const FEED_HISTORY_DAYS = 90;
+
+// How often calendar apps are asked to fetch the feed again
+const FEED_REFRESH_MINUTES = 60;
+
+export interface CalendarFeedOptions {
+  projectIds?: string[] | undefined; // also include every task of these projects
+}
+
+/**
+ * Per-user iCalendar feed of task deadlines and milestones, read by calendar
+ * apps through a secret URL instead of a login
+ */
+export class CalendarService {
+  private prisma: PrismaClient;
+  private taskService: TaskService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.taskService = new TaskService();
+  }
+
+  /**
+   * Get the secret of a user's feed, or null when the feed is off
+   */
+  async getFeedToken(userId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { calendarToken: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return user.calendarToken;
+  }
+
+  /**
+   * Turn the feed on with a new secret. The previous feed URL stops working.
+   */
+  async regenerateFeedToken(userId: string): Promise<string> {
+    const calendarToken = randomBytes(24).toString('base64url');
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { calendarToken },
+    });
+
+    return calendarToken;
+  }
+
+  /**
+   * Turn the feed off
+   */
+  async revokeFeedToken(userId: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { calendarToken: null },
+    });
+  }
+
+  /**
+   * Render the feed behind a secret: the user's assigned tasks with a due
+   * date, the tasks of any projects asked for, and the milestones they are
+   * planned into
+   */
+  async renderFeed(token: string, options: CalendarFeedOptions = {}, now: Date = new Date()): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: { id: true, fullName: true, email: true, isActive: true },
+    });
+
+    if (!user || !user.isActive) {
+      throw new NotFoundError('Calendar not found');
+    }
+
+    const dueDateFrom = new Date(now.getTime() - FEED_HISTORY_DAYS * DAY_MS);
+    const [assigned, projectTasks] = await Promise.all([
+      this.taskService.getUserTasks(user.id, { assignedToMe: true, dueDateFrom }),
+      options.projectIds && options.projectIds.length > 0
+        ? this.taskService.getUserTasks(user.id, { projectIds: options.projectIds, dueDateFrom })
+        : [],
+    ]);
+
+    const tasks = new Map([...assigned, ...projectTasks].map(task => [task.id, task]));
+    const milestones = await this.prisma.milestone.findMany({
+      where: {
+        project: { members: { some: { userId: user.id } } },
+        endDate: { gte: dueDateFrom },
+        OR: [
+          { id: { in: [...tasks.values()].flatMap(task => task.milestoneId ? [task.milestoneId] : []) } },
+          { projectId: { in: options.projectIds ?? [] } },
+        ],
+      },
+      include: { project: { select: { id: true, name: true } } },
+      orderBy: { startDate: 'asc' },
+    });
+
+    const events: CalendarEvent[] = [
+      ...[...tasks.values()].map(task => this.taskEvent(task)),
+      ...milestones.map((milestone): CalendarEvent => ({
+        uid: `milestone-${milestone.id}@synergysphere`,
+        summary: `${milestone.kind === 'sprint' ? 'Sprint' : 'Milestone'}: ${milestone.name}`,
+        start: milestone.startDate,
+        end: new Date(milestone.endDate.getTime() + DAY_MS),
+        allDay: true,
+        description: [`Project: ${milestone.project.name}`, milestone.goal].filter(Boolean).join('\n\n'),
+        url: `${config.frontendUrl}/projects/${milestone.project.id}`,
+        categories: [milestone.project.name],
+        lastModified: milestone.updatedAt,
+      })),
+    ];
+
+    return renderCalendar({
+      name: `SynergySphere – ${user.fullName || user.email}`,
+      events,
+      refreshMinutes: FEED_REFRESH_MINUTES,
+    }, now);
+  }
+
+  // Private helper methods
+
+  // A deadline: all-day for due dates without a time (midnight UTC)
+  private taskEvent(task: TaskWithRelations): CalendarEvent {
+    const dueDate = task.dueDate!;
+    const done = task.statusCategory === TaskStatusCategory.DONE;
+
+    return {
+      uid: `task-${task.id}@synergysphere`,
+      summary: done ? `✓ ${task.title}` : task.title,
+      start: dueDate,
+      allDay: dueDate.getTime() % DAY_MS === 0,
+      description: [`Project: ${task.project.name}`, task.description].filter(Boolean).join('\n\n'),
+      url: `${config.frontendUrl}/projects/${task.projectId}`,
+      categories: [task.project.name],
+      lastModified: task.updatedAt,
+    };
+  }
+}
+
+export default CalendarService;
@@ -0,0 +1,321 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole } from '../types/models';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  getCustomFieldDefinitions,
+  normalizeCustomFieldValue,
+  validateCustomFieldValues,
+} from '../utils/customFields';
+import { TaskQueryClause } from '../utils/taskQuery';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { ProjectStatusService } from './ProjectStatusService';
+
+export type UpdateCustomFieldDto = Partial<Pick<CustomFieldDefinition, 'name' | 'options' | 'required'>>;
+
+// A filter is an exact value, a list of accepted values, or a range
+export type CustomFieldFilter = string | string[] | { gte?: string; lte?: string };
+
+export class CustomFieldService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+  private projectStatusService: ProjectStatusService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+    this.projectStatusService = new ProjectStatusService();
+  }
+
+  /**
+   * Get the custom field definitions of a project
+   */
+  async getDefinitions(projectId: string, userId: string): Promise<CustomFieldDefinition[]> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return this.loadDefinitions(projectId);
+  }
+
+  /**
+   * Add a custom field to a project (owner/admin only)
+   */
+  async createDefinition(projectId: string, userId: string, definition: CustomFieldDefinition): Promise<CustomFieldDefinition[]> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    this.assertOptions(definition);
+
+    return this.saveDefinitions(projectId, userId, definitions => {
+      if (definitions.some(d => d.key === definition.key)) {
+        throw new ConflictError(`Custom field "${definition.key}" already exists`);
+      }
+      return [...definitions, definition];
+    });
+  }
+
+  /**
+   * Rename a custom field or change its options. The type and key of a field
+   * cannot change, since existing task values depend on them.
+   */
+  async updateDefinition(projectId: string, userId: string, key: string, data: UpdateCustomFieldDto): Promise<CustomFieldDefinition[]> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+
+    return this.saveDefinitions(projectId, userId, definitions => {
+      const index = definitions.findIndex(d => d.key === key);
+      if (index === -1) {
+        throw new NotFoundError(`Custom field "${key}" not found`);
+      }
+
+      const updated = { ...definitions[index]!, ...data };
+      this.assertOptions(updated);
+
+      return definitions.map((d, i) => (i === index ? updated : d));
+    });
+  }
+
+  /**
+   * Remove a custom field and its values from every task in the project
+   */
+  async deleteDefinition(projectId: string, userId: string, key: string): Promise<CustomFieldDefinition[]> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+
+    const definitions = await this.saveDefinitions(projectId, userId, current => {
+      if (!current.some(d => d.key === key)) {
+        throw new NotFoundError(`Custom field "${key}" not found`);
+      }
+      return current.filter(d => d.key !== key);
+    });
+
+    await this.prisma.$executeRaw`
+      UPDATE tasks SET custom_fields = custom_fields - ${key}
+      WHERE project_id = ${projectId} AND custom_fields ? ${key}
+    `;
+    await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+
+    return definitions;
+  }
+
+  /**
+   * Validate and normalise task values against the project's definitions.
+   * Returns the complete set of values to store, merged over `existing`.
+   */
+  async validateTaskValues(
+    projectId: string,
+    input: Record<string, unknown>,
+    existing: Prisma.JsonValue = {},
+    options: { enforceRequired?: boolean } = {}
+  ): Promise<CustomFieldValues> {
+    const definitions = await this.loadDefinitions(projectId);
+
+    const needsMembers = definitions.some(d => d.type === 'user' && input[d.key] !== undefined);
+    const memberIds = needsMembers
+      ? (await this.prisma.projectMember.findMany({
+          where: { projectId },
+          select: { userId: true },
+        })).map(m => m.userId)
+      : undefined;
+
+    const { values, errors } = validateCustomFieldValues(definitions, input, {
+      memberIds,
+      enforceRequired: options.enforceRequired,
+    });
+
+    if (Object.keys(errors).length > 0) {
+      throw new ValidationError('Invalid custom field values', { customFields: errors });
+    }
+
+    const merged = { ...(existing as CustomFieldValues | null), ...values };
+    for (const [key, value] of Object.entries(input)) {
+      if (value === null) delete merged[key];
+    }
+
+    return merged;
+  }
+
+  /**
+   * Translate custom field filters into Prisma JSON path conditions
+   */
+  async buildTaskFilters(projectId: string, filters: Record<string, CustomFieldFilter>): Promise<Prisma.TaskWhereInput[]> {
+    const definitions = await this.loadDefinitions(projectId);
+
+    return Object.entries(filters).map(([key, filter]) => this.buildCondition(definitions, key, filter));
+  }
+
+  /**
+   * Translate filter query clauses on custom fields (`label:backend`,
+   * `points>=3`) into Prisma conditions
+   */
+  async buildQueryFilters(projectId: string, clauses: TaskQueryClause[]): Promise<Prisma.TaskWhereInput[]> {
+    const definitions = await this.loadDefinitions(projectId);
+
+    return clauses.map(clause => {
+      let condition: Prisma.TaskWhereInput;
+      switch (clause.operator) {
+        case ':':
+          // Any of the listed values, including for multi-selects
+          condition = clause.values.length === 1
+            ? this.buildCondition(definitions, clause.field, clause.values[0]!)
+            : { OR: clause.values.map(value => this.buildCondition(definitions, clause.field, value)) };
+          break;
+        case '>=':
+          condition = this.buildCondition(definitions, clause.field, { gte: clause.values[0]! });
+          break;
+        case '<=':
+          condition = this.buildCondition(definitions, clause.field, { lte: clause.values[0]! });
+          break;
+        default:
+          throw new ValidationError(`Custom field "${clause.field}" supports ":", ">=" and "<=" only`);
+      }
+
+      return clause.negate ? { NOT: condition } : condition;
+    });
+  }
+
+  // Private helper methods
+
+  private buildCondition(
+    definitions: CustomFieldDefinition[],
+    key: string,
+    filter: CustomFieldFilter
+  ): Prisma.TaskWhereInput {
+    const definition = definitions.find(d => d.key === key);
+    if (!definition) {
+      throw new ValidationError(`Unknown custom field: ${key}`);
+    }
+
+    const normalize = (raw: string) => {
+      const result = normalizeCustomFieldValue(
+        definition.type === 'multi_select' ? { ...definition, type: 'select' } : definition,
+        raw
+      );
+      if ('error' in result) {
+        throw new ValidationError(`Custom field filter "${key}" ${result.error}`);
+      }
+      return result.value as string | number;
+    };
+
+    const path = [key];
+
+    if (typeof filter === 'object' && !Array.isArray(filter)) {
+      if (definition.type !== 'number' && definition.type !== 'date') {
+        throw new ValidationError(`Custom field "${key}" does not support range filters`);
+      }
+      return {
+        customFields: {
+          path,
+          ...(filter.gte !== undefined && { gte: normalize(filter.gte) }),
+          ...(filter.lte !== undefined && { lte: normalize(filter.lte) }),
+        },
+      };
+    }
+
+    const accepted = (Array.isArray(filter) ? filter : [filter]).map(normalize);
+
+    // Multi-selects match tasks that have every requested option
+    if (definition.type === 'multi_select') {
+      return { customFields: { path, array_contains: accepted } };
+    }
+
+    return {
+      OR: accepted.map(value => ({ customFields: { path, equals: value } })),
+    };
+  }
+
+  private async loadDefinitions(projectId: string): Promise<CustomFieldDefinition[]> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { metadata: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    return getCustomFieldDefinitions(project.metadata);
+  }
+
+  private async saveDefinitions(
+    projectId: string,
+    userId: string,
+    update: (definitions: CustomFieldDefinition[]) => CustomFieldDefinition[]
+  ): Promise<CustomFieldDefinition[]> {
+    const definitions = await this.prisma.$transaction(async (tx) => {
+      const project = await tx.project.findUnique({
+        where: { id: projectId },
+        select: { metadata: true },
+      });
+
+      if (!project) {
+        throw new NotFoundError('Project not found');
+      }
+
+      const next = update(getCustomFieldDefinitions(project.metadata));
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: {
+          metadata: {
+            ...(project.metadata as Prisma.JsonObject),
+            customFields: next as unknown as Prisma.InputJsonArray,
+          },
+        },
+      });
+
+      return next;
+    });
+
+    await this.wsService.broadcastToProject(projectId, 'project:custom_fields_updated', {
+      projectId,
+      customFields: definitions,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+
+    return definitions;
+  }
+
+  private async assertProjectAdmin(projectId: string, userId: string): Promise<void> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    if (member.role !== ProjectMemberRole.OWNER && member.role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError('Only project owners and admins can manage custom fields');
+    }
+  }
+
+  private assertOptions(definition: CustomFieldDefinition): void {
+    const needsOptions = definition.type === 'select' || definition.type === 'multi_select';
+
+    if (needsOptions && (!definition.options || definition.options.length === 0)) {
+      throw new ValidationError(`Custom field "${definition.key}" needs at least one option`);
+    }
+  }
+}
+
+export default CustomFieldService;
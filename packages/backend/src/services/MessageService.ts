@@ -3,12 +3,19 @@ import { prisma } from '../config/database';
 import { NotificationService } from './NotificationService';
 import { CacheService } from './CacheService';
 import { WebSocketService } from './WebSocketService';
+import { SearchService } from './SearchService';
+import { WatcherService } from './WatcherService';
+import { AutomationContext, AutomationService } from './AutomationService';
+import { assertProjectsWritable, ProjectStatusService } from './ProjectStatusService';
+import { ProjectMemberRole } from '../types/models';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler';
 
 export interface CreateMessageDto {
   content: string;
   projectId: string;
   authorId: string;
   parentId?: string;
+  taskId?: string; // discuss a task; replies belong to their parent's task
   mentions?: string[];
 }
 
@@ -19,10 +26,9 @@ export interface UpdateMessageDto {
 export interface MessageWithRelations extends Message {
   author: {
     id: string;
-    name: string;
+    fullName: string | null;
     email: string;
-    avatar: string | null;
-  };
+  } | null;
   parent?: MessageWithRelations | null;
   replies?: MessageWithRelations[];
   _count?: {
@@ -46,18 +52,31 @@ export class MessageService {
   private notificationService: NotificationService;
   private cacheService: CacheService;
   private wsService: WebSocketService;
+  private searchService: SearchService;
+  private watcherService: WatcherService;
+  private automationService: AutomationService;
+  private projectStatusService: ProjectStatusService;
 
   constructor() {
     this.prisma = prisma;
     this.notificationService = new NotificationService();
     this.cacheService = new CacheService();
     this.wsService = WebSocketService.getInstance();
+    this.searchService = new SearchService();
+    this.watcherService = new WatcherService();
+    this.automationService = new AutomationService();
+    this.projectStatusService = new ProjectStatusService();
   }
 
   /**
-   * Create a new message or reply
+   * Create a new message or reply. `automation` is set when an automation
+   * rule posts the message.
    */
-  async createMessage(data: CreateMessageDto, userId: string): Promise<MessageWithRelations> {
+  async createMessage(
+    data: CreateMessageDto,
+    userId: string,
+    automation?: AutomationContext
+  ): Promise<MessageWithRelations> {
     // Verify user has access to the project
     const member = await this.prisma.projectMember.findFirst({
       where: {
@@ -70,7 +89,11 @@ export class MessageService {
       throw new Error('You are not a member of this project');
     }
 
+    await this.projectStatusService.assertWritable(data.projectId);
+
     // Validate parent message if it's a reply
+    let taskId = data.taskId ?? null;
+    let parentAuthorId: string | null = null;
     if (data.parentId) {
       const parentMessage = await this.prisma.message.findFirst({
         where: {
@@ -82,6 +105,17 @@ export class MessageService {
       if (!parentMessage) {
         throw new Error('Parent message not found or belongs to different project');
       }
+      taskId = parentMessage.taskId;
+      parentAuthorId = parentMessage.authorId;
+    } else if (taskId) {
+      const task = await this.prisma.task.findFirst({
+        where: { id: taskId, projectId: data.projectId },
+        select: { id: true },
+      });
+
+      if (!task) {
+        throw new Error('Task not found or belongs to different project');
+      }
     }
 
     // Extract mentions from content
@@ -89,50 +123,50 @@ export class MessageService {
     const mentions = data.mentions || [];
     let match;
     while ((match = mentionPattern.exec(data.content)) !== null) {
-      const userId = match[2];
+      const userId = match[2]!;
       if (!mentions.includes(userId)) {
         mentions.push(userId);
       }
     }
 
-    // Create the message
+    // Create the message; mentions are only notified, not stored
     const message = await this.prisma.message.create({
       data: {
-        content: data.content,
+        body: data.content,
         projectId: data.projectId,
         authorId: data.authorId,
-        parentId: data.parentId,
-        mentions: mentions,
+        parentId: data.parentId ?? null,
+        taskId,
       },
       include: {
         author: {
           select: {
             id: true,
-            name: true,
+            fullName: true,
             email: true,
-            avatar: true,
           },
         },
-        parent: data.parentId ? {
+        parent: {
           include: {
             author: {
               select: {
                 id: true,
-                name: true,
+                fullName: true,
                 email: true,
-                avatar: true,
               },
             },
           },
-        } : undefined,
+        },
         _count: {
           select: {
-            replies: true,
+            replies: { where: { deletedAt: null } },
           },
         },
       },
     });
 
+    const authorName = message.author ? message.author.fullName || message.author.email : 'Someone';
+
     // Send notifications for mentions
     for (const mentionedUserId of mentions) {
       if (mentionedUserId !== data.authorId) {
@@ -140,7 +174,7 @@ export class MessageService {
           userId: mentionedUserId,
           type: 'MENTION',
           title: 'You were mentioned',
-          message: `${message.author.name} mentioned you in ${data.parentId ? 'a reply' : 'a message'}`,
+          message: `${authorName} mentioned you in ${data.parentId ? 'a reply' : 'a message'}`,
           data: {
             messageId: message.id,
             projectId: data.projectId,
@@ -151,22 +185,40 @@ export class MessageService {
     }
 
     // Notify parent message author about reply
-    if (data.parentId && message.parent) {
-      const parentAuthorId = (message.parent as any).authorId;
-      if (parentAuthorId !== data.authorId) {
-        await this.notificationService.createNotification({
-          userId: parentAuthorId,
-          type: 'PROJECT_UPDATE',
-          title: 'New reply to your message',
-          message: `${message.author.name} replied to your message`,
-          data: {
-            messageId: message.id,
-            parentId: data.parentId,
-            projectId: data.projectId,
-            authorId: data.authorId,
-          },
-        });
-      }
+    if (parentAuthorId && parentAuthorId !== data.authorId) {
+      await this.notificationService.createNotification({
+        userId: parentAuthorId,
+        type: 'PROJECT_UPDATE',
+        title: 'New reply to your message',
+        message: `${authorName} replied to your message`,
+        data: {
+          messageId: message.id,
+          parentId: data.parentId,
+          projectId: data.projectId,
+          authorId: data.authorId,
+        },
+      });
+    }
+
+    // Tell the task's watchers, except those notified above
+    if (taskId) {
+      const notified = [data.authorId, ...mentions, parentAuthorId].filter((id): id is string => !!id);
+      const task = await this.prisma.task.findUnique({
+        where: { id: taskId },
+        select: { title: true },
+      });
+
+      await this.watcherService.notifyWatchers(taskId, notified, {
+        type: 'PROJECT_UPDATE',
+        title: 'New Comment',
+        message: `New comment on "${task?.title}", a task you watch`,
+        data: {
+          messageId: message.id,
+          taskId,
+          projectId: data.projectId,
+          authorId: data.authorId,
+        },
+      });
     }
 
     // Broadcast message via WebSocket
@@ -181,6 +233,14 @@ export class MessageService {
       await this.cacheService.invalidatePattern(`message:${data.parentId}:replies:*`);
     }
 
+    this.automationService.dispatch({
+      trigger: 'message.created',
+      projectId: data.projectId,
+      taskId,
+      message: { id: message.id, body: message.body, authorId: data.authorId },
+      context: automation,
+    });
+
     return message as MessageWithRelations;
   }
 
@@ -290,7 +350,7 @@ export class MessageService {
           } : undefined,
           _count: {
             select: {
-              replies: true,
+              replies: { where: { deletedAt: null } },
             },
           },
         },
@@ -341,6 +401,7 @@ export class MessageService {
           },
         },
         replies: {
+          where: { deletedAt: null },
           orderBy: { createdAt: 'asc' },
           include: {
             author: {
@@ -352,6 +413,7 @@ export class MessageService {
               },
             },
             replies: {
+              where: { deletedAt: null },
               include: {
                 author: {
                   select: {
@@ -363,21 +425,21 @@ export class MessageService {
                 },
                 _count: {
                   select: {
-                    replies: true,
+                    replies: { where: { deletedAt: null } },
                   },
                 },
               },
             },
             _count: {
               select: {
-                replies: true,
+                replies: { where: { deletedAt: null } },
               },
             },
           },
         },
         _count: {
           select: {
-            replies: true,
+            replies: { where: { deletedAt: null } },
           },
         },
       },
@@ -405,6 +467,8 @@ export class MessageService {
       throw new Error('Message not found or you are not the author');
     }
 
+    assertProjectsWritable([existingMessage.project]);
+
     // Don't allow editing after 15 minutes
     const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
     if (existingMessage.createdAt < fifteenMinutesAgo) {
@@ -457,7 +521,7 @@ export class MessageService {
         } : undefined,
         _count: {
           select: {
-            replies: true,
+            replies: { where: { deletedAt: null } },
           },
         },
       },
@@ -493,7 +557,8 @@ export class MessageService {
   }
 
   /**
-   * Delete a message
+   * Move a message and its replies to the trash. They can be restored until
+   * the trash is purged, see TrashService.
    */
   async deleteMessage(messageId: string, userId: string): Promise<void> {
     // Verify ownership or admin status
@@ -507,34 +572,26 @@ export class MessageService {
               members: {
                 some: {
                   userId: userId,
-                  role: { in: ['OWNER', 'ADMIN'] },
+                  role: { in: [ProjectMemberRole.OWNER, ProjectMemberRole.ADMIN] },
                 },
               },
             },
           },
         ],
       },
-      include: {
-        _count: {
-          select: {
-            replies: true,
-          },
-        },
-      },
     });
 
     if (!message) {
       throw new Error('Message not found or insufficient permissions');
     }
 
-    // Don't delete if it has replies
-    if (message._count.replies > 0) {
-      throw new Error('Cannot delete message with replies');
-    }
+    await this.projectStatusService.assertWritable(message.projectId);
 
-    // Delete the message
-    await this.prisma.message.delete({
-      where: { id: messageId },
+    // Trash the whole thread below the message, so it is restored together
+    const messageIds = await this.collectReplyIds([messageId]);
+    await this.prisma.message.updateMany({
+      where: { id: { in: messageIds } },
+      data: { deletedAt: new Date(), deletedById: userId },
     });
 
     // Broadcast deletion
@@ -551,6 +608,61 @@ export class MessageService {
     }
   }
 
+  /**
+   * Bring a message back from the trash, with the replies that were deleted
+   * along with it (author, whoever deleted it, or project owner/admin)
+   */
+  async restoreMessage(messageId: string, userId: string): Promise<MessageWithRelations> {
+    const message = await this.prisma.message.findFirst({
+      where: { id: messageId, deletedAt: { not: null }, project: { deletedAt: null } },
+      include: {
+        parent: { select: { deletedAt: true } },
+      },
+    });
+
+    const member = message && await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: message.projectId, userId },
+      },
+    });
+
+    if (!message || !member) {
+      throw new NotFoundError('Message not found in the trash');
+    }
+    if (
+      message.authorId !== userId &&
+      message.deletedById !== userId &&
+      member.role !== ProjectMemberRole.OWNER &&
+      member.role !== ProjectMemberRole.ADMIN
+    ) {
+      throw new AuthorizationError('Only the author, whoever deleted it or project admins can restore this message');
+    }
+    if (message.parent?.deletedAt) {
+      throw new ConflictError('The message replied to is in the trash; restore it first');
+    }
+    await this.projectStatusService.assertWritable(message.projectId);
+
+    const messageIds = await this.collectReplyIds([messageId], { deletedAt: message.deletedAt });
+    await this.prisma.message.updateMany({
+      where: { id: { in: messageIds }, deletedAt: message.deletedAt },
+      data: { deletedAt: null, deletedById: null },
+    });
+
+    await this.wsService.broadcastToProject(message.projectId, 'message:restored', {
+      messageId,
+      messageIds,
+      restoredBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`message:${messageId}:*`);
+    await this.cacheService.invalidatePattern(`messages:project:${message.projectId}:*`);
+    if (message.parentId) {
+      await this.cacheService.invalidatePattern(`message:${message.parentId}:replies:*`);
+    }
+
+    return (await this.getMessageThread(messageId, userId))!;
+  }
+
   /**
    * Get messages where user is mentioned
    */
@@ -599,7 +711,7 @@ export class MessageService {
           },
           _count: {
             select: {
-              replies: true,
+              replies: { where: { deletedAt: null } },
             },
           },
         },
@@ -614,7 +726,7 @@ export class MessageService {
   }
 
   /**
-   * Search messages across projects
+   * Search messages across projects, best matches first
    */
   async searchMessages(userId: string, query: string, options?: {
     projectIds?: string[];
@@ -623,62 +735,50 @@ export class MessageService {
   }): Promise<{ messages: MessageWithRelations[]; total: number }> {
     const { projectIds, limit = 20, offset = 0 } = options || {};
 
-    const where: Prisma.MessageWhereInput = {
-      content: {
-        contains: query,
-        mode: 'insensitive',
-      },
-      project: {
-        members: {
-          some: {
-            userId: userId,
-          },
-        },
-      },
-    };
-
-    if (projectIds && projectIds.length > 0) {
-      where.projectId = { in: projectIds };
-    }
+    const { results, total } = await this.searchService.search(userId, {
+      q: query,
+      types: ['message'],
+      projectIds,
+      limit,
+      offset,
+    });
+    const ids = results.map(result => result.id);
 
-    const [messages, total] = await Promise.all([
-      this.prisma.message.findMany({
-        where,
-        include: {
-          author: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatar: true,
-            },
+    const messages = await this.prisma.message.findMany({
+      where: { id: { in: ids } },
+      include: {
+        author: {
+          select: {
+            id: true,
+            fullName: true,
+            email: true,
           },
-          project: {
-            select: {
-              id: true,
-              name: true,
-            },
+        },
+        project: {
+          select: {
+            id: true,
+            name: true,
           },
-          parent: {
-            select: {
-              id: true,
-              content: true,
-            },
+        },
+        parent: {
+          select: {
+            id: true,
+            body: true,
           },
-          _count: {
-            select: {
-              replies: true,
-            },
+        },
+        _count: {
+          select: {
+            replies: { where: { deletedAt: null } },
           },
         },
-        orderBy: { createdAt: 'desc' },
-        take: limit,
-        skip: offset,
-      }),
-      this.prisma.message.count({ where }),
-    ]);
+      },
+    });
 
-    return { messages: messages as MessageWithRelations[], total };
+    // Keep the search ranking
+    const byId = new Map(messages.map(message => [message.id, message]));
+    const ranked = ids.map(id => byId.get(id)).filter(message => message !== undefined);
+
+    return { messages: ranked as MessageWithRelations[], total };
   }
 
   /**
@@ -709,7 +809,7 @@ export class MessageService {
           projectId,
           parentId: null,
           replies: {
-            some: {},
+            some: { deletedAt: null },
           },
         },
       }),
@@ -767,6 +867,28 @@ export class MessageService {
       averageMessagesPerDay: recentActivity / 7,
     };
   }
+
+  // Private helper methods
+
+  /**
+   * Ids of the given messages and all replies below them, level by level.
+   * Only live messages unless `where` asks otherwise.
+   */
+  private async collectReplyIds(messageIds: string[], where: Prisma.MessageWhereInput = {}): Promise<string[]> {
+    const ids = [...messageIds];
+    let parentIds = messageIds;
+
+    while (parentIds.length > 0) {
+      const replies = await this.prisma.message.findMany({
+        where: { ...where, parentId: { in: parentIds } },
+        select: { id: true },
+      });
+      parentIds = replies.map(m => m.id);
+      ids.push(...parentIds);
+    }
+
+    return ids;
+  }
 }
 
 export default MessageService;
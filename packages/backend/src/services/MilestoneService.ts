@@ -0,0 +1,358 @@
+import { PrismaClient, Milestone } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole, TaskStatusCategory } from '../types/models';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import { buildBurndown, BurndownPoint } from '../utils/burndown';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { ProjectStatusService } from './ProjectStatusService';
+
+export type MilestoneKind = 'sprint' | 'milestone';
+
+// Burndown charts have one point per day, so a milestone is capped at a year
+export const MILESTONE_MAX_DAYS = 366;
+
+export interface CreateMilestoneDto {
+  name: string;
+  kind?: MilestoneKind;
+  goal?: string | null;
+  startDate: Date;
+  endDate: Date;
+}
+
+export type UpdateMilestoneDto = Partial<CreateMilestoneDto>;
+
+export interface MilestoneProgress {
+  totalTasks: number;
+  completedTasks: number;
+  totalMinutes: number;
+  completedMinutes: number;
+  completionRate: number;
+}
+
+export type MilestoneWithProgress = Milestone & { progress: MilestoneProgress };
+
+export interface MilestoneBurndown {
+  milestone: MilestoneWithProgress;
+  points: BurndownPoint[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class MilestoneService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+  private projectStatusService: ProjectStatusService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+    this.projectStatusService = new ProjectStatusService();
+  }
+
+  /**
+   * Get the sprints and milestones of a project, in start date order
+   */
+  async getMilestones(projectId: string, userId: string): Promise<MilestoneWithProgress[]> {
+    await this.getMemberRole(projectId, userId);
+
+    return this.getProjectMilestones(projectId);
+  }
+
+  /**
+   * Get the milestones of a project with their progress, without checking access
+   */
+  async getProjectMilestones(projectId: string): Promise<MilestoneWithProgress[]> {
+    const milestones = await this.prisma.milestone.findMany({
+      where: { projectId },
+      orderBy: [{ startDate: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return this.withProgress(milestones);
+  }
+
+  /**
+   * Create a sprint or milestone (owner/admin only)
+   */
+  async createMilestone(projectId: string, userId: string, data: CreateMilestoneDto): Promise<MilestoneWithProgress> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    this.assertDates(data.startDate, data.endDate);
+
+    const milestone = await this.prisma.milestone.create({
+      data: {
+        projectId,
+        name: data.name,
+        kind: data.kind ?? 'sprint',
+        goal: data.goal ?? null,
+        startDate: data.startDate,
+        endDate: data.endDate,
+      },
+    });
+
+    const [result] = await this.withProgress([milestone]);
+
+    await this.wsService.broadcastToProject(projectId, 'milestone:created', {
+      milestone: result,
+      createdBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+
+    return result!;
+  }
+
+  /**
+   * Update a sprint or milestone (owner/admin only)
+   */
+  async updateMilestone(
+    projectId: string,
+    milestoneId: string,
+    userId: string,
+    data: UpdateMilestoneDto
+  ): Promise<MilestoneWithProgress> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    const existing = await this.findMilestone(projectId, milestoneId);
+    this.assertDates(data.startDate ?? existing.startDate, data.endDate ?? existing.endDate);
+
+    const milestone = await this.prisma.milestone.update({
+      where: { id: milestoneId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.kind !== undefined && { kind: data.kind }),
+        ...(data.goal !== undefined && { goal: data.goal }),
+        ...(data.startDate !== undefined && { startDate: data.startDate }),
+        ...(data.endDate !== undefined && { endDate: data.endDate }),
+      },
+    });
+
+    const [result] = await this.withProgress([milestone]);
+
+    await this.wsService.broadcastToProject(projectId, 'milestone:updated', {
+      milestone: result,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+
+    return result!;
+  }
+
+  /**
+   * Delete a sprint or milestone (owner/admin only). Its tasks are kept and
+   * no longer belong to a milestone.
+   */
+  async deleteMilestone(projectId: string, milestoneId: string, userId: string): Promise<void> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+    await this.findMilestone(projectId, milestoneId);
+
+    await this.prisma.milestone.delete({
+      where: { id: milestoneId },
+    });
+
+    await this.wsService.broadcastToProject(projectId, 'milestone:deleted', {
+      milestoneId,
+      deletedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+  }
+
+  /**
+   * Add tasks of the project to a milestone, taking them out of any other
+   */
+  async addTasks(projectId: string, milestoneId: string, userId: string, taskIds: string[]): Promise<MilestoneWithProgress> {
+    return this.setTaskMilestone(projectId, milestoneId, userId, taskIds, true);
+  }
+
+  /**
+   * Take tasks out of a milestone
+   */
+  async removeTasks(projectId: string, milestoneId: string, userId: string, taskIds: string[]): Promise<MilestoneWithProgress> {
+    return this.setTaskMilestone(projectId, milestoneId, userId, taskIds, false);
+  }
+
+  /**
+   * Get the daily burndown (remaining) and burnup (scope and completed) series
+   * of a milestone, rebuilt from the status history of its tasks
+   */
+  async getBurndown(projectId: string, milestoneId: string, userId: string): Promise<MilestoneBurndown> {
+    await this.getMemberRole(projectId, userId);
+    const milestone = await this.findMilestone(projectId, milestoneId);
+
+    const tasks = await this.prisma.task.findMany({
+      where: { milestoneId },
+      select: {
+        estimateMinutes: true,
+        statusCategory: true,
+        createdAt: true,
+        updatedAt: true,
+        completedAt: true,
+        statusChanges: {
+          select: { toCategory: true, changedAt: true },
+          orderBy: { changedAt: 'asc' },
+        },
+      },
+    });
+
+    const points = buildBurndown(
+      tasks.map(task => ({
+        estimateMinutes: task.estimateMinutes,
+        createdAt: task.createdAt,
+        history: task.statusChanges.length > 0
+          ? task.statusChanges.map(change => ({ category: change.toCategory, at: change.changedAt }))
+          // Tasks from before status history was kept only know their current status
+          : [{
+              category: task.statusCategory,
+              at: task.statusCategory === TaskStatusCategory.DONE
+                ? task.completedAt ?? task.updatedAt
+                : task.createdAt,
+            }],
+      })),
+      milestone.startDate,
+      milestone.endDate
+    );
+
+    const [result] = await this.withProgress([milestone]);
+
+    return { milestone: result!, points };
+  }
+
+  // Private helper methods
+
+  private async setTaskMilestone(
+    projectId: string,
+    milestoneId: string,
+    userId: string,
+    taskIds: string[],
+    add: boolean
+  ): Promise<MilestoneWithProgress> {
+    const role = await this.getMemberRole(projectId, userId);
+    if (role === ProjectMemberRole.VIEWER) {
+      throw new AuthorizationError('Viewers cannot change milestone tasks');
+    }
+    await this.projectStatusService.assertWritable(projectId);
+    const milestone = await this.findMilestone(projectId, milestoneId);
+
+    const ids = [...new Set(taskIds)];
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: ids }, projectId },
+      select: { id: true },
+    });
+    const found = new Set(tasks.map(t => t.id));
+    const missing = ids.filter(id => !found.has(id));
+    if (missing.length > 0) {
+      throw new ValidationError('Tasks must belong to the project', { taskIds: missing });
+    }
+
+    await this.prisma.task.updateMany({
+      where: add ? { id: { in: ids } } : { id: { in: ids }, milestoneId },
+      data: { milestoneId: add ? milestoneId : null },
+    });
+
+    const [result] = await this.withProgress([milestone]);
+
+    await this.wsService.broadcastToProject(projectId, 'milestone:tasks_updated', {
+      milestoneId,
+      ...(add ? { addedTaskIds: ids } : { removedTaskIds: ids }),
+      progress: result!.progress,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+    for (const id of ids) {
+      await this.cacheService.invalidatePattern(`task:${id}:*`);
+    }
+
+    return result!;
+  }
+
+  private async withProgress(milestones: Milestone[]): Promise<MilestoneWithProgress[]> {
+    if (milestones.length === 0) {
+      return [];
+    }
+
+    const groups = await this.prisma.task.groupBy({
+      by: ['milestoneId', 'statusCategory'],
+      where: { milestoneId: { in: milestones.map(m => m.id) } },
+      _count: { _all: true },
+      _sum: { estimateMinutes: true },
+    });
+
+    return milestones.map(milestone => {
+      const progress: MilestoneProgress = {
+        totalTasks: 0,
+        completedTasks: 0,
+        totalMinutes: 0,
+        completedMinutes: 0,
+        completionRate: 0,
+      };
+
+      for (const group of groups.filter(g => g.milestoneId === milestone.id)) {
+        const minutes = group._sum.estimateMinutes ?? 0;
+        progress.totalTasks += group._count._all;
+        progress.totalMinutes += minutes;
+        if (group.statusCategory === TaskStatusCategory.DONE) {
+          progress.completedTasks += group._count._all;
+          progress.completedMinutes += minutes;
+        }
+      }
+      progress.completionRate = progress.totalTasks > 0
+        ? (progress.completedTasks / progress.totalTasks) * 100
+        : 0;
+
+      return { ...milestone, progress };
+    });
+  }
+
+  private async findMilestone(projectId: string, milestoneId: string): Promise<Milestone> {
+    const milestone = await this.prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId },
+    });
+
+    if (!milestone) {
+      throw new NotFoundError('Milestone not found');
+    }
+
+    return milestone;
+  }
+
+  private assertDates(startDate: Date, endDate: Date): void {
+    if (endDate < startDate) {
+      throw new ValidationError('End date must not be before start date');
+    }
+    if (endDate.getTime() - startDate.getTime() >= MILESTONE_MAX_DAYS * DAY_MS) {
+      throw new ValidationError(`A milestone can last at most ${MILESTONE_MAX_DAYS} days`);
+    }
+  }
+
+  private async getMemberRole(projectId: string, userId: string): Promise<string> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return member.role;
+  }
+
+  private async assertProjectAdmin(projectId: string, userId: string): Promise<void> {
+    const role = await this.getMemberRole(projectId, userId);
+
+    if (role !== ProjectMemberRole.OWNER && role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError('Only project owners and admins can manage milestones');
+    }
+  }
+}
+
+export default MilestoneService;
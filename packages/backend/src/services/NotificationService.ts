@@ -552,65 +552,6 @@ export class NotificationService {
       // Don't throw - email failure shouldn't break notification creation
     }
   }
-
-  /**
-   * Schedule notifications for tasks due soon
-   */
-  async scheduleTaskDueNotifications(): Promise<void> {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    tomorrow.setHours(0, 0, 0, 0);
-
-    const tomorrowEnd = new Date(tomorrow);
-    tomorrowEnd.setHours(23, 59, 59, 999);
-
-    // Find tasks due tomorrow
-    const tasksDueTomorrow = await this.prisma.task.findMany({
-      where: {
-        dueDate: {
-          gte: tomorrow,
-          lte: tomorrowEnd,
-        },
-        status: {
-          not: 'DONE',
-        },
-        assigneeId: {
-          not: null,
-        },
-      },
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-          },
-        },
-        project: {
-          select: {
-            name: true,
-          },
-        },
-      },
-    });
-
-    // Create notifications for each task
-    for (const task of tasksDueTomorrow) {
-      if (task.assigneeId) {
-        await this.createNotification({
-          userId: task.assigneeId,
-          type: 'TASK_DUE',
-          title: 'Task Due Tomorrow',
-          message: `"${task.title}" in ${task.project.name} is due tomorrow`,
-          data: {
-            taskId: task.id,
-            projectId: task.projectId,
-            dueDate: task.dueDate,
-          },
-        });
-      }
-    }
-  }
 }
 
 export default NotificationService;
@@ -2,6 +2,12 @@ import { PrismaClient, Project, ProjectMember, ProjectMemberRole, Prisma } from
 import { prisma } from '../config/database';
 import { NotificationService } from './NotificationService';
 import { CacheService } from './CacheService';
+import { MilestoneService } from './MilestoneService';
+import { ProjectStatusService } from './ProjectStatusService';
+import { ProjectStatus, TaskStatusCategory } from '../types/models';
+import { computeSchedule } from '../utils/taskGraph';
+import { entityTag, ifMatchSatisfied, parseIfMatch } from '../utils/etag';
+import { AuthorizationError, ConflictError, NotFoundError } from '../middleware/errorHandler';
 
 export interface CreateProjectDto {
   name: string;
@@ -18,6 +24,12 @@ export interface UpdateProjectDto {
   allowMemberInvites?: boolean;
 }
 
+export interface UpdateProjectOptions {
+  ifMatch?: string | undefined; // If-Match header: only update the project if it is unchanged since
+}
+
+export type ProjectListStatus = 'active' | 'archived' | 'all';
+
 export interface AddMemberDto {
   userId: string;
   role?: ProjectMemberRole;
@@ -38,15 +50,43 @@ export interface ProjectWithMembers extends Project {
   };
 }
 
+export interface ProjectScheduleTask {
+  taskId: string;
+  title: string;
+  status: string;
+  estimateMinutes: number | null;
+  dueDate: Date | null;
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  slackMinutes: number;
+  isCritical: boolean;
+  isLate: boolean;
+}
+
+export interface ProjectSchedule {
+  projectId: string;
+  startDate: Date;
+  finishDate: Date;
+  totalDurationMinutes: number;
+  criticalPath: string[];
+  tasks: ProjectScheduleTask[];
+}
+
 export class ProjectService {
   private prisma: PrismaClient;
   private notificationService: NotificationService;
   private cacheService: CacheService;
+  private milestoneService: MilestoneService;
+  private projectStatusService: ProjectStatusService;
 
   constructor() {
     this.prisma = prisma;
     this.notificationService = new NotificationService();
     this.cacheService = new CacheService();
+    this.milestoneService = new MilestoneService();
+    this.projectStatusService = new ProjectStatusService();
   }
 
   /**
@@ -92,8 +132,8 @@ export class ProjectService {
           },
           _count: {
             select: {
-              tasks: true,
-              messages: true,
+              tasks: { where: { deletedAt: null } },
+              messages: { where: { deletedAt: null } },
             },
           },
         },
@@ -146,8 +186,8 @@ export class ProjectService {
         },
         _count: {
           select: {
-            tasks: true,
-            messages: true,
+            tasks: { where: { deletedAt: null } },
+            messages: { where: { deletedAt: null } },
           },
         },
       },
@@ -161,16 +201,17 @@ export class ProjectService {
   }
 
   /**
-   * Get all projects for a user
+   * Get all projects for a user; archived projects only when asked for
    */
   async getUserProjects(userId: string, options?: {
     limit?: number;
     offset?: number;
     search?: string;
+    status?: ProjectListStatus;
     sortBy?: 'name' | 'createdAt' | 'updatedAt';
     sortOrder?: 'asc' | 'desc';
   }): Promise<{ projects: ProjectWithMembers[]; total: number }> {
-    const { limit = 20, offset = 0, search, sortBy = 'updatedAt', sortOrder = 'desc' } = options || {};
+    const { limit = 20, offset = 0, search, status = 'active', sortBy = 'updatedAt', sortOrder = 'desc' } = options || {};
 
     const where: Prisma.ProjectWhereInput = {
       members: {
@@ -178,6 +219,7 @@ export class ProjectService {
           userId: userId,
         },
       },
+      ...(status !== 'all' && { status }),
       ...(search && {
         OR: [
           { name: { contains: search, mode: 'insensitive' } },
@@ -204,8 +246,8 @@ export class ProjectService {
           },
           _count: {
             select: {
-              tasks: true,
-              messages: true,
+              tasks: { where: { deletedAt: null } },
+              messages: { where: { deletedAt: null } },
             },
           },
         },
@@ -220,9 +262,15 @@ export class ProjectService {
   }
 
   /**
-   * Update project details
+   * Update project details. A stale `If-Match` is refused with the current
+   * project so the client can merge or overwrite.
    */
-  async updateProject(projectId: string, userId: string, data: UpdateProjectDto): Promise<ProjectWithMembers> {
+  async updateProject(
+    projectId: string,
+    userId: string,
+    data: UpdateProjectDto,
+    options: UpdateProjectOptions = {}
+  ): Promise<ProjectWithMembers> {
     // Check if user has permission to update
     const member = await this.prisma.projectMember.findFirst({
       where: {
@@ -236,36 +284,69 @@ export class ProjectService {
       throw new Error('Insufficient permissions to update project');
     }
 
-    const updatedProject = await this.prisma.project.update({
-      where: { id: projectId },
-      data: {
-        ...(data.name && { name: data.name }),
-        ...(data.description !== undefined && { description: data.description }),
-        ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
-        ...(data.allowMemberInvites !== undefined && { allowMemberInvites: data.allowMemberInvites }),
-      },
-      include: {
-        members: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                name: true,
-                email: true,
-                avatar: true,
+    await this.projectStatusService.assertWritable(projectId);
+
+    let loadedAt: Date | undefined;
+    if (options.ifMatch !== undefined) {
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { updatedAt: true },
+      });
+
+      if (project && !ifMatchSatisfied(options.ifMatch, project.updatedAt)) {
+        throw await this.editConflict(projectId, userId);
+      }
+      if (project && Array.isArray(parseIfMatch(options.ifMatch))) {
+        loadedAt = project.updatedAt;
+      }
+    }
+
+    // With If-Match, claim the version checked above in the same transaction,
+    // so a concurrent update that got in between makes this one fail
+    const updatedProject = await this.prisma.$transaction(async (tx) => {
+      if (loadedAt) {
+        const { count } = await tx.project.updateMany({
+          where: { id: projectId, updatedAt: loadedAt },
+          data: { updatedAt: new Date() },
+        });
+        if (count === 0) return null;
+      }
+
+      return tx.project.update({
+        where: { id: projectId },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.isPublic !== undefined && { isPublic: data.isPublic }),
+          ...(data.allowMemberInvites !== undefined && { allowMemberInvites: data.allowMemberInvites }),
+        },
+        include: {
+          members: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  name: true,
+                  email: true,
+                  avatar: true,
+                },
               },
             },
           },
-        },
-        _count: {
-          select: {
-            tasks: true,
-            messages: true,
+          _count: {
+            select: {
+              tasks: { where: { deletedAt: null } },
+              messages: { where: { deletedAt: null } },
+            },
           },
         },
-      },
+      });
     });
 
+    if (!updatedProject) {
+      throw await this.editConflict(projectId, userId);
+    }
+
     // Invalidate caches
     await this.cacheService.invalidatePattern(`project:${projectId}:*`);
     
@@ -285,7 +366,8 @@ export class ProjectService {
   }
 
   /**
-   * Delete a project
+   * Move a project to the trash, taking its tasks and messages out of sight.
+   * It can be restored by its owner until the trash is purged, see TrashService.
    */
   async deleteProject(projectId: string, userId: string): Promise<void> {
     // Check if user is the owner
@@ -301,9 +383,9 @@ export class ProjectService {
       throw new Error('Only project owner can delete the project');
     }
 
-    // Delete project (cascades to related entities)
-    await this.prisma.project.delete({
+    await this.prisma.project.update({
       where: { id: projectId },
+      data: { deletedAt: new Date(), deletedById: userId },
     });
 
     // Invalidate all related caches
@@ -311,6 +393,51 @@ export class ProjectService {
     await this.cacheService.invalidatePattern(`projects:user:*`);
   }
 
+  /**
+   * Bring a project back from the trash with everything in it (owner only)
+   */
+  async restoreProject(projectId: string, userId: string): Promise<ProjectWithMembers> {
+    const member = await this.prisma.projectMember.findFirst({
+      where: {
+        projectId,
+        userId,
+        project: { deletedAt: { not: null } },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found in the trash');
+    }
+    if (member.role !== ProjectMemberRole.OWNER) {
+      throw new AuthorizationError('Only project owner can restore the project');
+    }
+
+    await this.prisma.project.update({
+      where: { id: projectId },
+      data: { deletedAt: null, deletedById: null },
+    });
+
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+    await this.cacheService.invalidatePattern(`projects:user:*`);
+
+    return (await this.getProjectById(projectId, userId))!;
+  }
+
+  /**
+   * Archive a finished project: it leaves the members' project lists and
+   * becomes read-only until unarchived (owner/admin only)
+   */
+  async archiveProject(projectId: string, userId: string): Promise<ProjectWithMembers> {
+    return this.setProjectStatus(projectId, userId, ProjectStatus.ARCHIVED);
+  }
+
+  /**
+   * Make an archived project active again (owner/admin only)
+   */
+  async unarchiveProject(projectId: string, userId: string): Promise<ProjectWithMembers> {
+    return this.setProjectStatus(projectId, userId, ProjectStatus.ACTIVE);
+  }
+
   /**
    * Add a member to project
    */
@@ -350,6 +477,8 @@ export class ProjectService {
       throw new Error('User is already a member of this project');
     }
 
+    await this.projectStatusService.assertWritable(projectId);
+
     // Add member
     const newMember = await this.prisma.projectMember.create({
       data: {
@@ -420,6 +549,8 @@ export class ProjectService {
       throw new Error('Cannot remove project owner');
     }
 
+    await this.projectStatusService.assertWritable(projectId);
+
     // Remove member
     await this.prisma.projectMember.delete({
       where: {
@@ -430,14 +561,11 @@ export class ProjectService {
       },
     });
 
-    // Reassign tasks if needed
-    await this.prisma.task.updateMany({
+    // Unassign the removed member from the project's tasks
+    await this.prisma.taskAssignment.deleteMany({
       where: {
-        projectId,
-        assigneeId: userIdToRemove,
-      },
-      data: {
-        assigneeId: null,
+        userId: userIdToRemove,
+        task: { projectId },
       },
     });
 
@@ -468,6 +596,8 @@ export class ProjectService {
       throw new Error('Cannot change owner role');
     }
 
+    await this.projectStatusService.assertWritable(projectId);
+
     const updatedMember = await this.prisma.projectMember.update({
       where: {
         userId_projectId: {
@@ -496,6 +626,85 @@ export class ProjectService {
     return updatedMember;
   }
 
+  /**
+   * Compute earliest/latest start and finish, slack and the critical path for
+   * a project's tasks. Completed tasks count as zero remaining work.
+   */
+  async getProjectSchedule(projectId: string, userId: string, startDate: Date = new Date()): Promise<ProjectSchedule> {
+    const member = await this.prisma.projectMember.findFirst({
+      where: {
+        projectId,
+        userId,
+      },
+    });
+
+    if (!member) {
+      throw new Error('You are not a member of this project');
+    }
+
+    const [tasks, edges] = await Promise.all([
+      this.prisma.task.findMany({
+        where: { projectId },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          statusCategory: true,
+          estimateMinutes: true,
+          dueDate: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.taskDependency.findMany({
+        where: {
+          task: { projectId },
+        },
+        select: {
+          taskId: true,
+          dependsOnTaskId: true,
+        },
+      }),
+    ]);
+
+    const schedule = computeSchedule(
+      tasks.map(task => ({
+        id: task.id,
+        durationMinutes: task.statusCategory === TaskStatusCategory.DONE ? 0 : task.estimateMinutes || 0,
+      })),
+      edges
+    );
+
+    const offset = (minutes: number) => new Date(startDate.getTime() + minutes * 60 * 1000);
+    const taskMap = new Map(tasks.map(task => [task.id, task]));
+
+    return {
+      projectId,
+      startDate,
+      finishDate: offset(schedule.totalDurationMinutes),
+      totalDurationMinutes: schedule.totalDurationMinutes,
+      criticalPath: schedule.criticalPath,
+      tasks: schedule.nodes.map(node => {
+        const task = taskMap.get(node.id)!;
+        const earliestFinish = offset(node.earliestFinish);
+
+        return {
+          taskId: task.id,
+          title: task.title,
+          status: task.status,
+          estimateMinutes: task.estimateMinutes,
+          dueDate: task.dueDate,
+          earliestStart: offset(node.earliestStart),
+          earliestFinish,
+          latestStart: offset(node.latestStart),
+          latestFinish: offset(node.latestFinish),
+          slackMinutes: node.slack,
+          isCritical: node.isCritical,
+          isLate: task.statusCategory !== TaskStatusCategory.DONE && !!task.dueDate && earliestFinish > task.dueDate,
+        };
+      }),
+    };
+  }
+
   /**
    * Get project statistics
    */
@@ -505,14 +714,16 @@ export class ProjectService {
       select: {
         _count: {
           select: {
-            tasks: true,
-            messages: true,
+            tasks: { where: { deletedAt: null } },
+            messages: { where: { deletedAt: null } },
             members: true,
           },
         },
         tasks: {
+          where: { deletedAt: null },
           select: {
             status: true,
+            statusCategory: true,
             priority: true,
           },
         },
@@ -526,20 +737,101 @@ export class ProjectService {
       return acc;
     }, {} as Record<string, number>);
 
+    const tasksByCategory = stats.tasks.reduce((acc, task) => {
+      acc[task.statusCategory] = (acc[task.statusCategory] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+
     const tasksByPriority = stats.tasks.reduce((acc, task) => {
       acc[task.priority] = (acc[task.priority] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
+    const milestones = await this.milestoneService.getProjectMilestones(projectId);
+
     return {
       totalTasks: stats._count.tasks,
       totalMessages: stats._count.messages,
       totalMembers: stats._count.members,
       tasksByStatus,
+      tasksByCategory,
       tasksByPriority,
-      completionRate: tasksByStatus.DONE ? (tasksByStatus.DONE / stats._count.tasks) * 100 : 0,
+      completionRate: tasksByCategory[TaskStatusCategory.DONE]
+        ? (tasksByCategory[TaskStatusCategory.DONE]! / stats._count.tasks) * 100
+        : 0,
+      milestones: milestones.map(({ id, name, kind, startDate, endDate, progress }) => ({
+        id,
+        name,
+        kind,
+        startDate,
+        endDate,
+        ...progress,
+      })),
     };
   }
+
+  // Private helper methods
+
+  /**
+   * The 409 for an update based on a stale version, with the current project
+   */
+  private async editConflict(projectId: string, userId: string): Promise<ConflictError> {
+    const current = await this.getProjectById(projectId, userId);
+
+    return new ConflictError('Project has been changed since you loaded it', {
+      etag: current && entityTag(current.updatedAt),
+      current,
+    });
+  }
+
+  private async setProjectStatus(
+    projectId: string,
+    userId: string,
+    status: ProjectStatus.ACTIVE | ProjectStatus.ARCHIVED
+  ): Promise<ProjectWithMembers> {
+    const archiving = status === ProjectStatus.ARCHIVED;
+    const member = await this.prisma.projectMember.findFirst({
+      where: { projectId, userId },
+      include: {
+        project: { select: { name: true, status: true } },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found');
+    }
+    if (member.role !== ProjectMemberRole.OWNER && member.role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError(`Only project owners and admins can ${archiving ? 'archive' : 'unarchive'} the project`);
+    }
+
+    // Archiving twice changes nothing
+    if (member.project.status !== status) {
+      await this.prisma.project.update({
+        where: { id: projectId },
+        data: { status, archivedAt: archiving ? new Date() : null },
+      });
+
+      await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+      await this.cacheService.invalidatePattern(`projects:user:*`);
+
+      const members = await this.prisma.projectMember.findMany({
+        where: { projectId, userId: { not: userId } },
+        select: { userId: true },
+      });
+      if (members.length > 0) {
+        await this.notificationService.createBulkNotifications(members.map(m => m.userId), {
+          type: 'PROJECT_UPDATE',
+          title: archiving ? 'Project Archived' : 'Project Unarchived',
+          message: archiving
+            ? `${member.project.name} has been archived and is now read-only`
+            : `${member.project.name} is active again`,
+          data: { projectId, updatedBy: userId },
+        });
+      }
+    }
+
+    return (await this.getProjectById(projectId, userId))!;
+  }
 }
 
 export default ProjectService;
@@ -0,0 +1,45 @@
+import { PrismaClient, Project } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectArchivedError } from '../middleware/errorHandler';
+import { ProjectStatus } from '../types/models';
+
+export type ProjectState = Pick<Project, 'id' | 'name' | 'status'>;
+
+/**
+ * Refuse changes to archived projects, given projects already loaded
+ */
+export const assertProjectsWritable = (projects: ProjectState[]): void => {
+  const archived = projects.find(project => project.status === ProjectStatus.ARCHIVED);
+
+  if (archived) {
+    throw new ProjectArchivedError(archived);
+  }
+};
+
+/**
+ * Read-only enforcement of archived projects. Everything that changes a
+ * project, its tasks, messages or members checks here first, after access
+ * to the project has been checked; reads, search and watching tasks are not
+ * affected.
+ */
+export class ProjectStatusService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Refuse changes to any of the projects that is archived
+   */
+  async assertWritable(projectIds: string | string[]): Promise<void> {
+    const archived = await this.prisma.project.findMany({
+      where: { id: { in: [projectIds].flat() }, status: ProjectStatus.ARCHIVED },
+      select: { id: true, name: true, status: true },
+    });
+
+    assertProjectsWritable(archived);
+  }
+}
+
+export default ProjectStatusService;
@@ -0,0 +1,344 @@
+import { randomUUID } from 'crypto';
+import { PrismaClient, Prisma, ProjectTemplate } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole } from '../types/models';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import {
+  ProjectTemplateSettings,
+  TEMPLATE_METADATA_KEYS,
+  getTemplateSettings,
+  scheduleTemplateTasks,
+  templateDurationDays,
+  toTemplateTasks,
+} from '../utils/projectTemplate';
+import { enterStatus, getInitialStatus, getWorkflow } from '../utils/workflow';
+import { spreadRanks } from '../utils/rank';
+import { NotificationService } from './NotificationService';
+import { CacheService } from './CacheService';
+import { ProjectService, ProjectWithMembers } from './ProjectService';
+
+// Every task of the project goes into the template, so keep projects to a sane size
+export const PROJECT_TEMPLATE_MAX_TASKS = 1000;
+
+export interface SaveProjectTemplateDto {
+  projectId: string;
+  name: string;
+  description?: string | null | undefined;
+  includeMembers?: boolean | undefined; // keep the project's members and their roles
+  startDate?: Date | undefined; // due dates are kept relative to this day, defaults to the project's creation
+}
+
+export interface UpdateProjectTemplateDto {
+  name?: string | undefined;
+  description?: string | null | undefined;
+}
+
+export interface CreateProjectFromTemplateDto {
+  name: string;
+  description?: string | null | undefined;
+  startDate: Date;
+  includeMembers?: boolean | undefined;
+}
+
+export interface ProjectTemplateSummary extends Omit<ProjectTemplate, 'settings'> {
+  taskCount: number;
+  memberCount: number;
+  durationDays: number;
+}
+
+export type ProjectTemplateWithSettings = Omit<ProjectTemplate, 'settings'> & { settings: ProjectTemplateSettings };
+
+export interface ProjectFromTemplateResult {
+  project: ProjectWithMembers;
+  taskCount: number;
+  skippedMemberIds: string[]; // template members who no longer have an active account
+}
+
+export class ProjectTemplateService {
+  private prisma: PrismaClient;
+  private notificationService: NotificationService;
+  private cacheService: CacheService;
+  private projectService: ProjectService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.notificationService = new NotificationService();
+    this.cacheService = new CacheService();
+    this.projectService = new ProjectService();
+  }
+
+  /**
+   * List the templates a user owns
+   */
+  async getTemplates(userId: string): Promise<ProjectTemplateSummary[]> {
+    const templates = await this.prisma.projectTemplate.findMany({
+      where: { ownerId: userId },
+      orderBy: { name: 'asc' },
+    });
+
+    return templates.map(({ settings, ...template }) => {
+      const { tasks, members } = getTemplateSettings(settings);
+      return {
+        ...template,
+        taskCount: tasks.length,
+        memberCount: members.length,
+        durationDays: templateDurationDays(tasks),
+      };
+    });
+  }
+
+  /**
+   * Get a template with its tasks
+   */
+  async getTemplate(templateId: string, userId: string): Promise<ProjectTemplateWithSettings> {
+    const template = await this.findTemplate(templateId, userId);
+    return { ...template, settings: getTemplateSettings(template.settings) };
+  }
+
+  /**
+   * Save a project as a template: its workflow, custom fields, tasks and
+   * optionally members (owner/admin only)
+   */
+  async saveProjectAsTemplate(userId: string, data: SaveProjectTemplateDto): Promise<ProjectTemplateWithSettings> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: data.projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+    if (member.role !== ProjectMemberRole.OWNER && member.role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError('Only project owners and admins can save a project as a template');
+    }
+
+    const project = await this.prisma.project.findUniqueOrThrow({
+      where: { id: data.projectId },
+      select: {
+        metadata: true,
+        createdAt: true,
+        members: { select: { userId: true, role: true }, orderBy: { joinedAt: 'asc' } },
+        _count: { select: { tasks: { where: { deletedAt: null } } } },
+      },
+    });
+
+    if (project._count.tasks > PROJECT_TEMPLATE_MAX_TASKS) {
+      throw new ValidationError(`Only projects with at most ${PROJECT_TEMPLATE_MAX_TASKS} tasks can be saved as a template`);
+    }
+
+    const tasks = await this.prisma.task.findMany({
+      where: { projectId: data.projectId },
+      orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        id: true,
+        parentId: true,
+        title: true,
+        description: true,
+        priority: true,
+        estimateMinutes: true,
+        dueDate: true,
+        autoComplete: true,
+        customFields: true,
+        assignments: { select: { userId: true }, orderBy: { assignedAt: 'asc' } },
+        checklistItems: { select: { title: true }, orderBy: { position: 'asc' } },
+        dependencies: { select: { dependsOnTaskId: true } },
+      },
+    });
+
+    const metadata = (project.metadata ?? {}) as Prisma.JsonObject;
+    const includeMembers = data.includeMembers ?? true;
+    const settings: ProjectTemplateSettings = {
+      metadata: Object.fromEntries(TEMPLATE_METADATA_KEYS.filter(key => key in metadata).map(key => [key, metadata[key]])),
+      members: includeMembers ? project.members : [],
+      tasks: toTemplateTasks(
+        tasks.map(task => ({
+          ...task,
+          assigneeIds: includeMembers ? task.assignments.map(a => a.userId) : [],
+          checklist: task.checklistItems.map(item => item.title),
+          dependsOnIds: task.dependencies.map(d => d.dependsOnTaskId),
+        })),
+        data.startDate ?? project.createdAt
+      ),
+    };
+
+    const template = await this.prisma.projectTemplate.create({
+      data: {
+        name: data.name,
+        description: data.description ?? null,
+        ownerId: userId,
+        settings: settings as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    return { ...template, settings };
+  }
+
+  /**
+   * Rename a template or change its description (template owner only)
+   */
+  async updateTemplate(templateId: string, userId: string, data: UpdateProjectTemplateDto): Promise<ProjectTemplateWithSettings> {
+    await this.findTemplate(templateId, userId);
+
+    const template = await this.prisma.projectTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.description !== undefined && { description: data.description }),
+      },
+    });
+
+    return { ...template, settings: getTemplateSettings(template.settings) };
+  }
+
+  /**
+   * Delete a template (template owner only). Projects created from it are kept.
+   */
+  async deleteTemplate(templateId: string, userId: string): Promise<void> {
+    await this.findTemplate(templateId, userId);
+
+    await this.prisma.projectTemplate.delete({
+      where: { id: templateId },
+    });
+  }
+
+  /**
+   * Create a project from a template, with its due dates shifted to start on
+   * `startDate`. The user becomes the owner; the template's members are added
+   * with their roles unless `includeMembers` is false.
+   */
+  async createProjectFromTemplate(
+    templateId: string,
+    userId: string,
+    data: CreateProjectFromTemplateDto
+  ): Promise<ProjectFromTemplateResult> {
+    const template = await this.findTemplate(templateId, userId);
+    const settings = getTemplateSettings(template.settings);
+
+    // Only people who still have an active account, and only one owner
+    const wanted = (data.includeMembers ?? true)
+      ? settings.members.filter(m => m.userId !== userId)
+      : [];
+    const active = new Set((await this.prisma.user.findMany({
+      where: { id: { in: wanted.map(m => m.userId) }, isActive: true },
+      select: { id: true },
+    })).map(u => u.id));
+    const members = wanted
+      .filter(m => active.has(m.userId))
+      .map(m => ({
+        userId: m.userId,
+        role: m.role === ProjectMemberRole.OWNER ? ProjectMemberRole.ADMIN : m.role,
+      }));
+    const memberIds = new Set([userId, ...members.map(m => m.userId)]);
+
+    const status = getInitialStatus(getWorkflow(settings.metadata));
+    const tasks = scheduleTemplateTasks(settings.tasks, data.startDate);
+    const ranks = spreadRanks(tasks.length);
+
+    const projectId = await this.prisma.$transaction(async (tx) => {
+      const project = await tx.project.create({
+        data: {
+          name: data.name,
+          slug: this.buildSlug(data.name),
+          description: data.description ?? null,
+          ownerId: userId,
+          metadata: settings.metadata as Prisma.InputJsonValue,
+          members: {
+            create: [{ userId, role: ProjectMemberRole.OWNER }, ...members],
+          },
+        },
+        select: { id: true },
+      });
+
+      const taskIds: string[] = [];
+      for (const [index, task] of tasks.entries()) {
+        const assigneeIds = task.assigneeIds.filter(id => memberIds.has(id));
+        const created = await tx.task.create({
+          data: {
+            projectId: project.id,
+            creatorId: userId,
+            title: task.title,
+            description: task.description,
+            ...enterStatus(status, null, userId),
+            rank: ranks[index]!,
+            priority: task.priority,
+            estimateMinutes: task.estimateMinutes,
+            dueDate: task.dueDate,
+            parentId: task.parent !== null ? taskIds[task.parent]! : null,
+            autoComplete: task.autoComplete,
+            customFields: task.customFields as Prisma.InputJsonValue,
+            assignments: {
+              create: assigneeIds.map(assigneeId => ({ userId: assigneeId })),
+            },
+            watchers: {
+              create: [...new Set([userId, ...assigneeIds])].map(watcherId => ({ userId: watcherId })),
+            },
+            checklistItems: {
+              create: task.checklist.map((title, position) => ({ title, position })),
+            },
+          },
+          select: { id: true },
+        });
+        taskIds.push(created.id);
+      }
+
+      const dependencies = tasks.flatMap((task, index) =>
+        task.dependsOn.map(dependsOn => ({ taskId: taskIds[index]!, dependsOnTaskId: taskIds[dependsOn]! }))
+      );
+      if (dependencies.length > 0) {
+        await tx.taskDependency.createMany({ data: dependencies });
+      }
+
+      return project.id;
+    }, { timeout: 60000 });
+
+    for (const memberId of memberIds) {
+      await this.cacheService.invalidatePattern(`projects:user:${memberId}:*`);
+    }
+
+    if (members.length > 0) {
+      await this.notificationService.createBulkNotifications(members.map(m => m.userId), {
+        type: 'PROJECT_UPDATE',
+        title: 'Added to Project',
+        message: `You have been added to ${data.name}`,
+        data: { projectId, addedBy: userId, templateId },
+      });
+    }
+
+    return {
+      project: (await this.projectService.getProjectById(projectId, userId))!,
+      taskCount: tasks.length,
+      skippedMemberIds: wanted.filter(m => !active.has(m.userId)).map(m => m.userId),
+    };
+  }
+
+  // Private helper methods
+
+  private async findTemplate(templateId: string, userId: string): Promise<ProjectTemplate> {
+    const template = await this.prisma.projectTemplate.findFirst({
+      where: { id: templateId, ownerId: userId },
+    });
+
+    if (!template) {
+      throw new NotFoundError('Project template not found');
+    }
+
+    return template;
+  }
+
+  private buildSlug(name: string): string {
+    const base = name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 50);
+
+    return `${base || 'project'}-${randomUUID().slice(0, 8)}`;
+  }
+}
+
+export default ProjectTemplateService;
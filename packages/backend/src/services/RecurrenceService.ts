@@ -0,0 +1,254 @@
+import { PrismaClient, Task, TaskSeries, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ValidationError } from '../middleware/errorHandler';
+import { ProjectStatus } from '../types/models';
+import { RecurrenceRule, checkRule, getNextOccurrence, parseRRule } from '../utils/recurrence';
+import { enterStatus, getInitialStatus, getWorkflow } from '../utils/workflow';
+import { rankBetween } from '../utils/rank';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+
+export type RecurrenceInput = RecurrenceRule | string;
+
+export class RecurrenceService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+  }
+
+  /**
+   * Turn a task into the template of a new recurring series
+   */
+  async createSeries(task: Task, input: RecurrenceInput): Promise<TaskSeries> {
+    const rule = this.normalizeRule(input);
+    const anchor = task.dueDate ?? task.createdAt;
+
+    const [series] = await this.prisma.$transaction([
+      this.prisma.taskSeries.create({
+        data: {
+          projectId: task.projectId,
+          templateTaskId: task.id,
+          rule: rule as unknown as Prisma.InputJsonObject,
+          startDate: anchor,
+          lastDueDate: anchor,
+          tasks: {
+            connect: { id: task.id },
+          },
+        },
+      }),
+      this.prisma.task.update({
+        where: { id: task.id },
+        data: { occurrence: 1 },
+      }),
+    ]);
+
+    return series;
+  }
+
+  /**
+   * Stop generating new occurrences for a series
+   */
+  async stopSeries(seriesId: string): Promise<void> {
+    await this.prisma.taskSeries.update({
+      where: { id: seriesId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Generate the occurrence after `fromOccurrence`. Does nothing if that
+   * occurrence is no longer the latest one, so completing an old instance or
+   * running the scheduler twice never creates duplicates.
+   */
+  async generateNextOccurrence(seriesId: string, fromOccurrence: number): Promise<Task | null> {
+    const task = await this.prisma.$transaction(async (tx) => {
+      const series = await tx.taskSeries.findUnique({
+        where: { id: seriesId },
+        include: {
+          templateTask: {
+            include: { assignments: true },
+          },
+          tasks: {
+            where: { occurrence: fromOccurrence, deletedAt: null },
+            include: { assignments: true },
+            take: 1,
+          },
+          project: {
+            select: { metadata: true },
+          },
+        },
+      });
+
+      if (!series || !series.isActive || series.occurrenceCount !== fromOccurrence) {
+        return null;
+      }
+
+      const nextDueDate = getNextOccurrence(
+        series.rule as unknown as RecurrenceRule,
+        series.lastDueDate,
+        series.startDate,
+        series.occurrenceCount
+      );
+
+      if (!nextDueDate) {
+        await tx.taskSeries.update({
+          where: { id: seriesId },
+          data: { isActive: false },
+        });
+        return null;
+      }
+
+      // Claim this occurrence; a concurrent run will see a different count
+      const claimed = await tx.taskSeries.updateMany({
+        where: { id: seriesId, occurrenceCount: fromOccurrence },
+        data: {
+          occurrenceCount: fromOccurrence + 1,
+          lastDueDate: nextDueDate,
+        },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      // Copy from the template, falling back to the latest instance if the
+      // template task has been deleted
+      const source = series.templateTask ?? series.tasks[0];
+      if (!source) {
+        return null;
+      }
+
+      const status = getInitialStatus(getWorkflow(series.project.metadata));
+
+      // New occurrences go to the bottom of their board column
+      const last = await tx.task.findFirst({
+        where: { projectId: series.projectId, status: status.key, rank: { not: '' } },
+        orderBy: { rank: 'desc' },
+        select: { rank: true },
+      });
+
+      return tx.task.create({
+        data: {
+          projectId: series.projectId,
+          creatorId: source.creatorId,
+          title: source.title,
+          description: source.description,
+          priority: source.priority,
+          estimateMinutes: source.estimateMinutes,
+          ...enterStatus(status, null, null),
+          rank: rankBetween(last?.rank ?? null, null),
+          dueDate: nextDueDate,
+          seriesId: series.id,
+          occurrence: fromOccurrence + 1,
+          assignments: {
+            create: source.assignments.map(a => ({ userId: a.userId })),
+          },
+          watchers: {
+            create: [...new Set([source.creatorId, ...source.assignments.map(a => a.userId)])]
+              .filter((id): id is string => !!id)
+              .map(watcherId => ({ userId: watcherId })),
+          },
+        },
+      });
+    });
+
+    if (task) {
+      await this.wsService.broadcastToProject(task.projectId, 'task:created', {
+        task,
+        createdBy: null,
+        seriesId,
+      });
+
+      await this.cacheService.invalidatePattern(`project:${task.projectId}:*`);
+      await this.cacheService.invalidatePattern(`tasks:project:${task.projectId}:*`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Generate the next occurrence for every active series whose latest
+   * occurrence is past due. Series of archived projects wait until the
+   * project is unarchived.
+   */
+  async processDueSeries(now: Date = new Date()): Promise<number> {
+    const dueSeries = await this.prisma.taskSeries.findMany({
+      where: {
+        isActive: true,
+        lastDueDate: { lt: now },
+        project: { status: ProjectStatus.ACTIVE },
+      },
+      select: {
+        id: true,
+        occurrenceCount: true,
+      },
+    });
+
+    let generated = 0;
+    for (const series of dueSeries) {
+      try {
+        const task = await this.generateNextOccurrence(series.id, series.occurrenceCount);
+        if (task) generated++;
+      } catch (error) {
+        console.error(`Failed to generate next occurrence for series ${series.id}:`, error);
+      }
+    }
+
+    return generated;
+  }
+
+  /**
+   * Start the periodic scheduler
+   */
+  start(intervalMs: number = 15 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.processDueSeries().catch(error => {
+        console.error('Recurring task scheduler failed:', error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop the periodic scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Parse and check a recurrence rule, so it can be rejected before the
+   * task it is for is created
+   */
+  normalizeRule(input: RecurrenceInput): RecurrenceRule {
+    let rule: RecurrenceRule;
+
+    try {
+      rule = typeof input === 'string' ? parseRRule(input) : { ...input };
+      checkRule(rule);
+    } catch (error) {
+      throw new ValidationError((error as Error).message);
+    }
+
+    if (rule.until) {
+      rule.until = new Date(rule.until).toISOString();
+    }
+
+    return rule;
+  }
+}
+
+export default RecurrenceService;
@@ -0,0 +1,259 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { ProjectStatus, TaskStatusCategory } from '../types/models';
+import {
+  MAX_REMINDER_OFFSET,
+  MINUTES_PER_DAY,
+  describeDueDate,
+  isValidTimeZone,
+  normalizeReminderOffsets,
+  planTaskReminders,
+  reminderDeadline,
+} from '../utils/reminders';
+import { NotificationService } from './NotificationService';
+
+const MINUTE_MS = 60 * 1000;
+
+// Reminders are planned for tasks due within this many minutes; whole-day
+// reminders go out in the morning, up to a day before the offset itself
+const PLANNING_HORIZON = MAX_REMINDER_OFFSET + 2 * MINUTES_PER_DAY;
+
+// Reminders are kept this long after their due date
+const RETENTION_DAYS = 30;
+
+export interface ReminderSettings {
+  timezone: string;
+  offsets: number[]; // minutes before a due date, longest first
+}
+
+export interface ReminderRunResult {
+  planned: number;
+  sent: number;
+  skipped: number;
+  purged: number;
+}
+
+const reminderInclude = {
+  task: {
+    select: {
+      id: true,
+      title: true,
+      projectId: true,
+      dueDate: true,
+      statusCategory: true,
+      deletedAt: true,
+      project: { select: { name: true, status: true, deletedAt: true } },
+      assignments: { select: { userId: true } },
+    },
+  },
+  user: { select: { id: true, timezone: true, reminderOffsets: true, isActive: true } },
+} satisfies Prisma.TaskReminderInclude;
+
+type PendingReminder = Prisma.TaskReminderGetPayload<{ include: typeof reminderInclude }>;
+
+/**
+ * Due date reminders. Each assignee chooses how long before a due date to be
+ * reminded; reminders are stored ahead of time so they are sent once, even
+ * when the server was down at the time, and go through NotificationService
+ * like every other notification.
+ */
+export class ReminderService {
+  private prisma: PrismaClient;
+  private notificationService: NotificationService;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = prisma;
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Get a user's reminder offsets and time zone
+   */
+  async getSettings(userId: string): Promise<ReminderSettings> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true, reminderOffsets: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    return { timezone: user.timezone, offsets: normalizeReminderOffsets(user.reminderOffsets) };
+  }
+
+  /**
+   * Change a user's reminder offsets or time zone. Reminders not sent yet are
+   * planned again on the next run.
+   */
+  async updateSettings(userId: string, data: Partial<ReminderSettings>): Promise<ReminderSettings> {
+    if (data.timezone !== undefined && !isValidTimeZone(data.timezone)) {
+      throw new ValidationError('Unknown time zone', { timezone: data.timezone });
+    }
+
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        ...(data.timezone !== undefined && { timezone: data.timezone }),
+        ...(data.offsets !== undefined && { reminderOffsets: normalizeReminderOffsets(data.offsets) }),
+      },
+      select: { timezone: true, reminderOffsets: true },
+    });
+
+    await this.prisma.taskReminder.deleteMany({
+      where: { userId, status: 'pending' },
+    });
+
+    return { timezone: user.timezone, offsets: user.reminderOffsets };
+  }
+
+  /**
+   * Plan reminders for the assignees of open tasks due soon, send the ones
+   * whose time has come and drop old ones
+   */
+  async processReminders(now: Date = new Date()): Promise<ReminderRunResult> {
+    const planned = await this.planReminders(now);
+    const { sent, skipped } = await this.sendDueReminders(now);
+
+    const { count: purged } = await this.prisma.taskReminder.deleteMany({
+      where: { dueDate: { lt: new Date(now.getTime() - RETENTION_DAYS * MINUTES_PER_DAY * MINUTE_MS) } },
+    });
+
+    return { planned, sent, skipped, purged };
+  }
+
+  /**
+   * Start the periodic scheduler
+   */
+  start(intervalMs: number = 5 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.processReminders().catch(error => {
+        console.error('Reminder scheduler failed:', error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop the periodic scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Private helper methods
+
+  private async planReminders(now: Date): Promise<number> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        statusCategory: { not: TaskStatusCategory.DONE },
+        dueDate: {
+          gt: new Date(now.getTime() - MINUTES_PER_DAY * MINUTE_MS),
+          lte: new Date(now.getTime() + PLANNING_HORIZON * MINUTE_MS),
+        },
+        assignments: { some: {} },
+        project: { status: ProjectStatus.ACTIVE },
+      },
+      select: {
+        id: true,
+        dueDate: true,
+        assignments: {
+          select: {
+            user: { select: { id: true, timezone: true, reminderOffsets: true, isActive: true } },
+          },
+        },
+      },
+    });
+
+    const data = tasks.flatMap(task =>
+      planTaskReminders({ id: task.id, dueDate: task.dueDate! }, task.assignments.map(a => a.user), now)
+    );
+
+    if (data.length === 0) return 0;
+
+    const { count } = await this.prisma.taskReminder.createMany({ data, skipDuplicates: true });
+    return count;
+  }
+
+  private async sendDueReminders(now: Date): Promise<{ sent: number; skipped: number }> {
+    const pending = await this.prisma.taskReminder.findMany({
+      where: { status: 'pending', remindAt: { lte: now } },
+      include: reminderInclude,
+      orderBy: { remindAt: 'asc' },
+    });
+
+    // Reminders of the same task and person that are due together make one
+    // notification, e.g. after the server was down
+    const groups = new Map<string, PendingReminder[]>();
+    for (const reminder of pending) {
+      const key = `${reminder.taskId}:${reminder.userId}`;
+      groups.set(key, [...(groups.get(key) ?? []), reminder]);
+    }
+
+    let sent = 0;
+    let skipped = 0;
+    for (const reminders of groups.values()) {
+      const current = reminders.filter(reminder => this.isCurrent(reminder, now));
+      const stale = reminders.filter(reminder => !current.includes(reminder));
+
+      if (stale.length > 0) {
+        const { count } = await this.prisma.taskReminder.updateMany({
+          where: { id: { in: stale.map(r => r.id) }, status: 'pending' },
+          data: { status: 'skipped', processedAt: now },
+        });
+        skipped += count;
+      }
+
+      if (current.length === 0) continue;
+
+      // Claiming the rows first keeps other server instances from sending them too
+      const { count } = await this.prisma.taskReminder.updateMany({
+        where: { id: { in: current.map(r => r.id) }, status: 'pending' },
+        data: { status: 'sent', processedAt: now },
+      });
+      if (count === 0) continue;
+
+      const { task, user } = current[0]!;
+      try {
+        await this.notificationService.createNotification({
+          userId: user.id,
+          type: 'TASK_DUE',
+          title: 'Task Due Soon',
+          message: `"${task.title}" in ${task.project.name} is due ${describeDueDate(task.dueDate!, user.timezone, now)}`,
+          data: { taskId: task.id, projectId: task.projectId, dueDate: task.dueDate },
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send reminder for task ${task.id}:`, error);
+      }
+    }
+
+    return { sent, skipped };
+  }
+
+  // Whether a reminder still applies to the task and the person as they are now
+  private isCurrent(reminder: PendingReminder, now: Date): boolean {
+    const { task, user } = reminder;
+
+    return user.isActive &&
+      task.deletedAt === null &&
+      task.project.deletedAt === null &&
+      task.project.status === ProjectStatus.ACTIVE &&
+      task.statusCategory !== TaskStatusCategory.DONE &&
+      task.dueDate?.getTime() === reminder.dueDate.getTime() &&
+      task.assignments.some(a => a.userId === user.id) &&
+      user.reminderOffsets.includes(reminder.offsetMinutes) &&
+      reminderDeadline(reminder.dueDate, user.timezone) > now;
+  }
+}
+
+export default ReminderService;
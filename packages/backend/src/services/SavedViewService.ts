@@ -0,0 +1,208 @@
+import { PrismaClient, Prisma, SavedView } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole } from '../types/models';
+import { AuthorizationError, NotFoundError } from '../middleware/errorHandler';
+import { TaskService } from './TaskService';
+import { WebSocketService } from './WebSocketService';
+
+export type SavedViewScope = 'user' | 'project';
+
+// Columns a task list can show; custom fields are `customFields.<key>`
+export const SAVED_VIEW_COLUMNS = [
+  'title', 'status', 'priority', 'assignees', 'dueDate', 'project',
+  'progress', 'estimate', 'createdAt', 'updatedAt',
+];
+
+export interface CreateSavedViewDto {
+  name: string;
+  scope: SavedViewScope;
+  projectId?: string | null | undefined;
+  query?: string | undefined;
+  sortBy?: string | null | undefined;
+  sortOrder?: 'asc' | 'desc' | undefined;
+  columns?: string[] | undefined;
+}
+
+export type UpdateSavedViewDto = Partial<Omit<CreateSavedViewDto, 'scope' | 'projectId'>>;
+
+export class SavedViewService {
+  private prisma: PrismaClient;
+  private taskService: TaskService;
+  private wsService: WebSocketService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.taskService = new TaskService();
+    this.wsService = WebSocketService.getInstance();
+  }
+
+  /**
+   * List the views a user can use: their own plus the shared views of their
+   * projects, optionally limited to one project
+   */
+  async getViews(userId: string, projectId?: string): Promise<SavedView[]> {
+    if (projectId) {
+      await this.getMembership(projectId, userId);
+    }
+
+    return this.prisma.savedView.findMany({
+      where: {
+        OR: [
+          {
+            scope: 'user',
+            ownerId: userId,
+            ...(projectId && { OR: [{ projectId }, { projectId: null }] }),
+          },
+          {
+            scope: 'project',
+            project: { members: { some: { userId } } },
+            ...(projectId && { projectId }),
+          },
+        ],
+      },
+      orderBy: [{ scope: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a view the user can use
+   */
+  async getView(viewId: string, userId: string): Promise<SavedView> {
+    const view = await this.prisma.savedView.findUnique({ where: { id: viewId } });
+
+    if (!view || !(await this.canRead(view, userId))) {
+      throw new NotFoundError('Saved view not found');
+    }
+
+    return view;
+  }
+
+  /**
+   * Save a view. Project views are shared with every project member.
+   */
+  async createView(userId: string, data: CreateSavedViewDto): Promise<SavedView> {
+    if (data.projectId) {
+      const member = await this.getMembership(data.projectId, userId);
+      if (data.scope === 'project' && member.role === ProjectMemberRole.VIEWER) {
+        throw new AuthorizationError('Viewers cannot create shared views');
+      }
+    }
+
+    if (data.query) {
+      await this.taskService.buildQueryFilters(userId, data.query, data.projectId ?? undefined);
+    }
+
+    const view = await this.prisma.savedView.create({
+      data: {
+        ownerId: userId,
+        projectId: data.projectId ?? null,
+        scope: data.scope,
+        name: data.name,
+        query: data.query ?? '',
+        sortBy: data.sortBy ?? null,
+        sortOrder: data.sortOrder ?? 'desc',
+        columns: data.columns ?? [],
+      },
+    });
+
+    await this.broadcast(view, userId);
+
+    return view;
+  }
+
+  /**
+   * Update a view (its owner, or a project owner/admin for shared views)
+   */
+  async updateView(viewId: string, userId: string, data: UpdateSavedViewDto): Promise<SavedView> {
+    const existing = await this.getEditableView(viewId, userId);
+
+    if (data.query) {
+      await this.taskService.buildQueryFilters(existing.ownerId, data.query, existing.projectId ?? undefined);
+    }
+
+    const view = await this.prisma.savedView.update({
+      where: { id: viewId },
+      data: {
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.query !== undefined && { query: data.query }),
+        ...(data.sortBy !== undefined && { sortBy: data.sortBy }),
+        ...(data.sortOrder !== undefined && { sortOrder: data.sortOrder }),
+        ...(data.columns !== undefined && { columns: data.columns as Prisma.InputJsonArray }),
+      },
+    });
+
+    await this.broadcast(view, userId);
+
+    return view;
+  }
+
+  /**
+   * Delete a view (its owner, or a project owner/admin for shared views)
+   */
+  async deleteView(viewId: string, userId: string): Promise<void> {
+    const view = await this.getEditableView(viewId, userId);
+
+    await this.prisma.savedView.delete({ where: { id: viewId } });
+
+    await this.broadcast(view, userId, true);
+  }
+
+  // Private helper methods
+
+  private async getMembership(projectId: string, userId: string) {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return member;
+  }
+
+  private async canRead(view: SavedView, userId: string): Promise<boolean> {
+    if (view.ownerId === userId) {
+      return true;
+    }
+    if (view.scope !== 'project' || !view.projectId) {
+      return false;
+    }
+
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId: view.projectId, userId },
+      },
+    });
+    return !!member;
+  }
+
+  private async getEditableView(viewId: string, userId: string): Promise<SavedView> {
+    const view = await this.getView(viewId, userId);
+
+    if (view.ownerId !== userId) {
+      const member = await this.getMembership(view.projectId!, userId);
+      if (member.role !== ProjectMemberRole.OWNER && member.role !== ProjectMemberRole.ADMIN) {
+        throw new AuthorizationError('Only the view owner or project admins can change this view');
+      }
+    }
+
+    return view;
+  }
+
+  private async broadcast(view: SavedView, userId: string, deleted = false): Promise<void> {
+    if (view.scope !== 'project' || !view.projectId) {
+      return;
+    }
+
+    await this.wsService.broadcastToProject(view.projectId, 'project:views_updated', {
+      projectId: view.projectId,
+      ...(deleted ? { deletedViewId: view.id } : { view }),
+      updatedBy: userId,
+    });
+  }
+}
+
+export default SavedViewService;
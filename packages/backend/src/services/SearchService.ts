@@ -0,0 +1,184 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import {
+  SEARCH_CONFIG,
+  SEARCH_ENTITY_TYPES,
+  SNIPPET_OPTIONS,
+  SearchEntityType,
+  TITLE_OPTIONS,
+  renderHighlight,
+} from '../utils/search';
+
+export interface SearchFilters {
+  q: string;
+  types?: SearchEntityType[] | undefined;
+  projectIds?: string[] | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  projectId: string;
+  projectName: string;
+  taskId: string | null; // task a message belongs to
+  title: string | null;
+  titleHighlight: string | null;
+  snippet: string | null;
+  rank: number;
+  updatedAt: Date;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  counts: Record<SearchEntityType, number>;
+}
+
+interface SearchRow {
+  type: SearchEntityType;
+  id: string;
+  project_id: string;
+  project_name: string;
+  task_id: string | null;
+  title: string | null;
+  title_headline: string | null;
+  body_headline: string | null;
+  rank: number;
+  updated_at: Date;
+}
+
+export class SearchService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Ranked full-text search over the tasks, messages and projects of every
+   * project the user is a member of
+   */
+  async search(userId: string, filters: SearchFilters): Promise<SearchResponse> {
+    const { q, limit = 20, offset = 0 } = filters;
+    const types = filters.types?.length ? filters.types : SEARCH_ENTITY_TYPES;
+    const matches = this.buildMatches(userId, q, types, filters.projectIds);
+
+    const [rows, countRows] = await Promise.all([
+      this.prisma.$queryRaw<SearchRow[]>`
+        ${matches},
+        page AS (
+          SELECT * FROM matches
+          ORDER BY rank DESC, updated_at DESC, id
+          LIMIT ${limit} OFFSET ${offset}
+        )
+        SELECT
+          page.type, page.id, page.project_id, pr.name AS project_name, page.task_id,
+          page.title, page.rank, page.updated_at,
+          CASE WHEN page.title IS NOT NULL
+            THEN ts_headline(${SEARCH_CONFIG}::regconfig, page.title, q.query, ${TITLE_OPTIONS})
+          END AS title_headline,
+          CASE WHEN coalesce(page.body, '') <> ''
+            THEN ts_headline(${SEARCH_CONFIG}::regconfig, page.body, q.query, ${SNIPPET_OPTIONS})
+          END AS body_headline
+        FROM page
+        CROSS JOIN q
+        JOIN projects pr ON pr.id = page.project_id
+        ORDER BY page.rank DESC, page.updated_at DESC, page.id
+      `,
+      this.prisma.$queryRaw<{ type: SearchEntityType; count: number }[]>`
+        ${matches}
+        SELECT type, count(*)::int AS count FROM matches GROUP BY type
+      `,
+    ]);
+
+    const counts = Object.fromEntries(SEARCH_ENTITY_TYPES.map(type => [type, 0])) as Record<SearchEntityType, number>;
+    for (const row of countRows) {
+      counts[row.type] = row.count;
+    }
+
+    return {
+      results: rows.map(row => ({
+        type: row.type,
+        id: row.id,
+        projectId: row.project_id,
+        projectName: row.project_name,
+        taskId: row.task_id,
+        title: row.title,
+        titleHighlight: renderHighlight(row.title_headline),
+        snippet: renderHighlight(row.body_headline),
+        rank: row.rank,
+        updatedAt: row.updated_at,
+      })),
+      total: countRows.reduce((sum, row) => sum + row.count, 0),
+      counts,
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * WITH clause defining `q` (the parsed query) and `matches` (every matching
+   * row the user can see, with its rank)
+   */
+  private buildMatches(
+    userId: string,
+    q: string,
+    types: SearchEntityType[],
+    projectIds?: string[]
+  ): Prisma.Sql {
+    const inProjects = (column: Prisma.Sql) => projectIds?.length
+      ? Prisma.sql`AND ${column} IN (${Prisma.join(projectIds)})`
+      : Prisma.empty;
+
+    const selects: Record<SearchEntityType, Prisma.Sql> = {
+      task: Prisma.sql`
+        SELECT 'task' AS type, t.id, t.project_id, NULL::text AS task_id,
+          t.title, t.description AS body,
+          ts_rank_cd(t.search_vector, q.query, 32) AS rank, t.updated_at
+        FROM tasks t, q
+        WHERE t.search_vector @@ q.query
+          AND t.deleted_at IS NULL
+          AND t.project_id IN (SELECT project_id FROM member_projects)
+          ${inProjects(Prisma.sql`t.project_id`)}
+      `,
+      message: Prisma.sql`
+        SELECT 'message' AS type, m.id, m.project_id, m.task_id,
+          NULL::text AS title, m.body,
+          ts_rank_cd(m.search_vector, q.query, 32) AS rank, m.updated_at
+        FROM messages m, q
+        WHERE m.search_vector @@ q.query
+          AND m.deleted_at IS NULL
+          AND m.project_id IN (SELECT project_id FROM member_projects)
+          ${inProjects(Prisma.sql`m.project_id`)}
+      `,
+      project: Prisma.sql`
+        SELECT 'project' AS type, p.id, p.id AS project_id, NULL::text AS task_id,
+          p.name AS title, p.description AS body,
+          ts_rank_cd(p.search_vector, q.query, 32) AS rank, p.updated_at
+        FROM projects p, q
+        WHERE p.search_vector @@ q.query
+          AND p.id IN (SELECT project_id FROM member_projects)
+          ${inProjects(Prisma.sql`p.id`)}
+      `,
+    };
+
+    return Prisma.sql`
+      WITH q AS (
+        SELECT websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${q}) AS query
+      ),
+      member_projects AS (
+        SELECT pm.project_id
+        FROM project_members pm
+        JOIN projects p ON p.id = pm.project_id
+        WHERE pm.user_id = ${userId} AND p.status <> 'deleted' AND p.deleted_at IS NULL
+      ),
+      matches AS (
+        ${Prisma.join(types.map(type => selects[type]), ' UNION ALL ')}
+      )
+    `;
+  }
+}
+
+export default SearchService;
@@ -0,0 +1,181 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { NotFoundError } from '../middleware/errorHandler';
+import { getCustomFieldDefinitions } from '../utils/customFields';
+import { getWorkflow } from '../utils/workflow';
+import {
+  TaskFieldChange,
+  TaskHistoryAction,
+  TaskSnapshot,
+  describeTaskChanges,
+  diffTaskSnapshots,
+  readTaskSnapshot,
+  snapshotTask,
+  taskSnapshotReferences,
+} from '../utils/taskHistory';
+
+// ActivityLog.entityType of task entries
+const TASK_ENTITY = 'task';
+
+// What a task history snapshot is made from
+export const taskSnapshotSelect = {
+  id: true,
+  projectId: true,
+  title: true,
+  description: true,
+  status: true,
+  priority: true,
+  dueDate: true,
+  estimateMinutes: true,
+  milestoneId: true,
+  parentId: true,
+  autoComplete: true,
+  customFields: true,
+  assignments: { select: { userId: true } },
+} satisfies Prisma.TaskSelect;
+
+export const toTaskSnapshot = (task: Prisma.TaskGetPayload<{ select: typeof taskSnapshotSelect }>): TaskSnapshot =>
+  snapshotTask({ ...task, assigneeIds: task.assignments.map(a => a.userId) });
+
+export interface TaskHistoryRecord {
+  taskId: string;
+  action: TaskHistoryAction;
+  before?: TaskSnapshot | undefined; // updates: the task before and after the change
+  after?: TaskSnapshot | undefined; // creations: the new task
+}
+
+export interface TaskHistoryEntry {
+  id: string;
+  action: TaskHistoryAction;
+  actor: { id: string; fullName: string | null; email: string } | null;
+  createdAt: Date;
+  changes: TaskFieldChange[];
+}
+
+export class TaskHistoryService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Write task changes to the activity log. Updates that change none of the
+   * recorded fields are left out.
+   */
+  async record(actorId: string, records: TaskHistoryRecord[]): Promise<void> {
+    const data = records.flatMap((record): Prisma.ActivityLogCreateManyInput[] => {
+      const entry = { actorId, entityType: TASK_ENTITY, entityId: record.taskId, action: record.action };
+
+      if (record.action === 'updated') {
+        const diff = record.before && record.after && diffTaskSnapshots(record.before, record.after);
+        return diff ? [{
+          ...entry,
+          before: diff.before as Prisma.InputJsonObject,
+          after: diff.after as Prisma.InputJsonObject,
+        }] : [];
+      }
+
+      return [{
+        ...entry,
+        ...(record.before && { before: record.before as unknown as Prisma.InputJsonObject }),
+        ...(record.after && { after: record.after as unknown as Prisma.InputJsonObject }),
+      }];
+    });
+
+    if (data.length > 0) {
+      await this.prisma.activityLog.createMany({ data });
+    }
+  }
+
+  /**
+   * Get the change history of a task, most recent first, with readable
+   * field changes
+   */
+  async getTaskHistory(taskId: string, userId: string, pagination: {
+    limit?: number | undefined;
+    offset?: number | undefined;
+  } = {}): Promise<{ entries: TaskHistoryEntry[]; total: number }> {
+    const { limit = 50, offset = 0 } = pagination;
+
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: { members: { some: { userId } } },
+      },
+      select: { project: { select: { metadata: true } } },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    const where = { entityType: TASK_ENTITY, entityId: taskId };
+    const [logs, total] = await Promise.all([
+      this.prisma.activityLog.findMany({
+        where,
+        include: { actor: { select: { id: true, fullName: true, email: true } } },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.activityLog.count({ where }),
+    ]);
+
+    const snapshots = logs.map(log => ({ before: readTaskSnapshot(log.before), after: readTaskSnapshot(log.after) }));
+    const names = await this.resolveNames(
+      snapshots.flatMap(({ before, after }) => [before, after]),
+      task.project.metadata
+    );
+
+    return {
+      entries: logs.map((log, i) => ({
+        id: log.id.toString(),
+        action: log.action as TaskHistoryAction,
+        actor: log.actor,
+        createdAt: log.createdAt,
+        changes: log.action === 'created' || log.action === 'updated'
+          ? describeTaskChanges(snapshots[i]!.before, snapshots[i]!.after, names)
+          : [],
+      })),
+      total,
+    };
+  }
+
+  // Private helper methods
+
+  private async resolveNames(snapshots: Partial<TaskSnapshot>[], metadata: Prisma.JsonValue) {
+    const ids = (pick: (refs: ReturnType<typeof taskSnapshotReferences>) => string[]) =>
+      [...new Set(snapshots.flatMap(snapshot => pick(taskSnapshotReferences(snapshot))))];
+
+    const [users, milestones, tasks, projects] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: ids(refs => refs.userIds) } },
+        select: { id: true, fullName: true, email: true },
+      }),
+      this.prisma.milestone.findMany({
+        where: { id: { in: ids(refs => refs.milestoneIds) } },
+        select: { id: true, name: true },
+      }),
+      this.prisma.task.findMany({
+        where: { id: { in: ids(refs => refs.taskIds) } },
+        select: { id: true, title: true },
+      }),
+      this.prisma.project.findMany({
+        where: { id: { in: ids(refs => refs.projectIds) } },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    return {
+      users: new Map(users.map(u => [u.id, u.fullName || u.email])),
+      statuses: new Map(getWorkflow(metadata).statuses.map(s => [s.key, s.name])),
+      milestones: new Map(milestones.map(m => [m.id, m.name])),
+      tasks: new Map(tasks.map(t => [t.id, t.title])),
+      projects: new Map(projects.map(p => [p.id, p.name])),
+      customFields: new Map(getCustomFieldDefinitions(metadata).map(f => [f.key, f.name])),
+    };
+  }
+}
+
+export default TaskHistoryService;
@@ -0,0 +1,619 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole, TaskPriority, TaskStatusCategory } from '../types/models';
+import { AuthorizationError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { TaskService, TaskFilters, TaskWithRelations } from './TaskService';
+import { WorkflowService } from './WorkflowService';
+import { TaskHistoryService, taskSnapshotSelect, toTaskSnapshot } from './TaskHistoryService';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { assertProjectsWritable } from './ProjectStatusService';
+import { parseCsv, toCsv } from '../utils/csv';
+import {
+  CustomFieldDefinition,
+  CustomFieldValues,
+  getCustomFieldDefinitions,
+  validateCustomFieldValues,
+} from '../utils/customFields';
+import { enterStatus, getInitialStatus, getWorkflow, Workflow, WorkflowStatus } from '../utils/workflow';
+import { rankBetween } from '../utils/rank';
+
+export type TaskExportFormat = 'csv' | 'json';
+
+export const TASK_EXPORT_MAX_TASKS = 10000;
+export const TASK_IMPORT_MAX_ROWS = 5000;
+
+// Task fields an import column can be mapped to, besides `customFields.<key>`
+export const TASK_IMPORT_FIELDS = [
+  'externalId', 'title', 'description', 'status', 'priority', 'dueDate', 'estimateMinutes', 'assignees',
+];
+
+export interface TaskExport {
+  filename: string;
+  contentType: string;
+  body: string;
+}
+
+export interface ImportTasksDto {
+  projectId: string;
+  csv: string;
+  mapping?: Record<string, string> | undefined; // task field -> CSV column header
+  dryRun?: boolean | undefined;
+}
+
+export interface TaskImportRowResult {
+  row: number; // spreadsheet row number; the header is row 1
+  action: 'create' | 'update' | 'error';
+  taskId?: string; // the task updated, or created once the import is applied
+  externalId?: string;
+  errors?: Record<string, string>; // keyed by task field
+}
+
+export interface TaskImportResult {
+  dryRun: boolean;
+  rows: TaskImportRowResult[];
+  summary: { created: number; updated: number; failed: number };
+}
+
+interface ProjectMemberEmail {
+  userId: string;
+  role: string;
+  user: { email: string };
+}
+
+// What importing one row will write, worked out before anything is written
+interface TaskImportPlan {
+  result: TaskImportRowResult;
+  data: {
+    title?: string;
+    description?: string;
+    priority?: number;
+    dueDate?: Date;
+    estimateMinutes?: number;
+    customFields?: CustomFieldValues;
+  };
+  status?: WorkflowStatus;
+  assigneeIds?: string[];
+}
+
+export class TaskImportExportService {
+  private prisma: PrismaClient;
+  private taskService: TaskService;
+  private workflowService: WorkflowService;
+  private taskHistoryService: TaskHistoryService;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.taskService = new TaskService();
+    this.workflowService = new WorkflowService();
+    this.taskHistoryService = new TaskHistoryService();
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+  }
+
+  /**
+   * Export a project's tasks, filtered and sorted as for `GET /api/tasks`
+   */
+  async exportTasks(
+    userId: string,
+    projectId: string,
+    filters: TaskFilters,
+    options: { format: TaskExportFormat; sortBy?: string | undefined; sortOrder?: 'asc' | 'desc' | undefined }
+  ): Promise<TaskExport> {
+    const { project, members } = await this.loadProject(projectId, userId);
+
+    const { tasks, total } = await this.taskService.getTasks(userId, { ...filters, projectId }, {
+      limit: TASK_EXPORT_MAX_TASKS,
+      offset: 0,
+      ...(options.sortBy && { sortBy: options.sortBy }),
+      ...(options.sortOrder && { sortOrder: options.sortOrder }),
+    });
+
+    if (total > TASK_EXPORT_MAX_TASKS) {
+      throw new ValidationError(`Exports are limited to ${TASK_EXPORT_MAX_TASKS} tasks; narrow the filters`, { total });
+    }
+
+    const definitions = getCustomFieldDefinitions(project.metadata);
+    const emails = new Map(members.map(m => [m.userId, m.user.email]));
+    const filename = `${project.slug}-tasks-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+
+    if (options.format === 'json') {
+      return {
+        filename,
+        contentType: 'application/json; charset=utf-8',
+        body: JSON.stringify(tasks.map(task => this.toExportRecord(task)), null, 2),
+      };
+    }
+
+    const header = [
+      'id', 'externalId', 'title', 'description', 'status', 'statusCategory', 'priority', 'dueDate',
+      'estimateMinutes', 'assignees', 'creator', 'parentId', 'createdAt', 'updatedAt',
+      ...definitions.map(d => `customFields.${d.key}`),
+    ];
+
+    const rows = tasks.map(task => {
+      const record = this.toExportRecord(task);
+      const customFields = (task.customFields ?? {}) as CustomFieldValues;
+
+      return [
+        record.id, record.externalId, record.title, record.description, record.status,
+        record.statusCategory, record.priority, record.dueDate, record.estimateMinutes,
+        record.assignees.join('; '), record.creator, record.parentId, record.createdAt, record.updatedAt,
+        ...definitions.map(definition => {
+          const value = customFields[definition.key];
+          if (definition.type === 'user' && typeof value === 'string') return emails.get(value) ?? value;
+          return Array.isArray(value) ? value.join('; ') : value;
+        }),
+      ];
+    });
+
+    return {
+      filename,
+      contentType: 'text/csv; charset=utf-8',
+      body: toCsv([header, ...rows]),
+    };
+  }
+
+  /**
+   * Create or update tasks from a CSV file. Rows with an external id update
+   * the task imported with that id before, so re-importing a file does not
+   * duplicate them. Every row is checked first: if any row is invalid, or on
+   * a dry run, nothing is written.
+   */
+  async importTasks(userId: string, data: ImportTasksDto): Promise<TaskImportResult> {
+    const { project, members } = await this.loadProject(data.projectId, userId);
+
+    if (members.find(m => m.userId === userId)?.role === ProjectMemberRole.VIEWER) {
+      throw new AuthorizationError('Viewers cannot import tasks');
+    }
+    assertProjectsWritable([project]);
+
+    let records: string[][];
+    try {
+      records = parseCsv(data.csv);
+    } catch (error) {
+      throw new ValidationError((error as Error).message);
+    }
+
+    const [header, ...rows] = records;
+    if (!header || rows.length === 0) {
+      throw new ValidationError('The CSV file has no task rows');
+    }
+    if (rows.length > TASK_IMPORT_MAX_ROWS) {
+      throw new ValidationError(`Imports are limited to ${TASK_IMPORT_MAX_ROWS} rows`, { rows: rows.length });
+    }
+
+    const definitions = getCustomFieldDefinitions(project.metadata);
+    const workflow = getWorkflow(project.metadata);
+    const columns = this.resolveColumns(header, data.mapping, definitions);
+    const cell = (row: string[], field: string): string => {
+      const index = columns.get(field);
+      return index === undefined ? '' : (row[index] ?? '').trim();
+    };
+
+    // Tasks imported before, by external id
+    const externalIds = [...new Set(rows.map(row => cell(row, 'externalId')).filter(Boolean))];
+    const existing = await this.prisma.task.findMany({
+      where: { projectId: project.id, externalId: { in: externalIds } },
+      select: { id: true, externalId: true, status: true, statusCategory: true, customFields: true },
+    });
+    const existingByExternalId = new Map(existing.map(t => [t.externalId!, t]));
+    const trashedExternalIds = new Set((await this.prisma.task.findMany({
+      where: { projectId: project.id, externalId: { in: externalIds }, deletedAt: { not: null } },
+      select: { externalId: true },
+    })).map(t => t.externalId!));
+
+    const seen = new Set<string>();
+    const plans = rows.map((row, index) => {
+      const externalId = cell(row, 'externalId');
+      const plan = this.planImportRow(row, cell, {
+        definitions,
+        workflow,
+        members,
+        existing: externalId ? existingByExternalId.get(externalId) : undefined,
+      });
+
+      plan.result.row = index + 2;
+      if (externalId) {
+        plan.result.externalId = externalId;
+        if (seen.has(externalId)) {
+          plan.result.errors = { ...plan.result.errors, externalId: 'appears more than once in the file' };
+        } else if (trashedExternalIds.has(externalId)) {
+          plan.result.errors = { ...plan.result.errors, externalId: 'belongs to a task in the trash' };
+        }
+        seen.add(externalId);
+      }
+
+      return plan;
+    });
+
+    // A task cannot be completed while prerequisites outside the file are open
+    const completing = plans.filter(p =>
+      p.result.action === 'update' &&
+      p.status?.category === TaskStatusCategory.DONE &&
+      existingByExternalId.get(p.result.externalId!)!.statusCategory !== TaskStatusCategory.DONE
+    );
+
+    if (completing.length > 0) {
+      const completingIds = completing.map(p => p.result.taskId!);
+      const openPrerequisites = await this.prisma.taskDependency.findMany({
+        where: {
+          taskId: { in: completingIds },
+          dependsOnTaskId: { notIn: completingIds },
+          dependsOnTask: {
+            statusCategory: { not: TaskStatusCategory.DONE },
+          },
+        },
+        select: { taskId: true, dependsOnTask: { select: { title: true } } },
+      });
+
+      for (const plan of completing) {
+        const titles = openPrerequisites.filter(d => d.taskId === plan.result.taskId).map(d => d.dependsOnTask.title);
+        if (titles.length > 0) {
+          plan.result.errors = { ...plan.result.errors, status: `blocked by unfinished prerequisites: ${titles.join(', ')}` };
+        }
+      }
+    }
+
+    for (const plan of plans) {
+      if (plan.result.errors) {
+        plan.result.action = 'error';
+      }
+    }
+
+    const results = plans.map(p => p.result);
+    const summary = {
+      created: results.filter(r => r.action === 'create').length,
+      updated: results.filter(r => r.action === 'update').length,
+      failed: results.filter(r => r.action === 'error').length,
+    };
+
+    if (summary.failed > 0 && !data.dryRun) {
+      throw new ValidationError(
+        `${summary.failed} of ${rows.length} rows are invalid; nothing was imported`,
+        { rows: results, summary }
+      );
+    }
+
+    if (data.dryRun) {
+      return { dryRun: true, rows: results, summary };
+    }
+
+    // New tasks go to the bottom of their column, in file order
+    const lastRanks = new Map<string, string | null>();
+    for (const plan of plans.filter(p => p.result.action === 'create')) {
+      const status = plan.status!.key;
+      if (!lastRanks.has(status)) {
+        const last = await this.prisma.task.findFirst({
+          where: { projectId: project.id, status, rank: { not: '' } },
+          orderBy: { rank: 'desc' },
+          select: { rank: true },
+        });
+        lastRanks.set(status, last?.rank ?? null);
+      }
+    }
+
+    const updatedIds = results.filter(r => r.action === 'update').map(r => r.taskId!);
+    const snapshotsBefore = await this.prisma.task.findMany({
+      where: { id: { in: updatedIds } },
+      select: taskSnapshotSelect,
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const { result, data: fields, status, assigneeIds } of plans) {
+        if (result.action === 'update') {
+          const existingTask = existingByExternalId.get(result.externalId!)!;
+          await tx.task.update({
+            where: { id: result.taskId! },
+            data: {
+              ...fields,
+              ...(status && enterStatus(status, existingTask, userId)),
+              ...(assigneeIds && {
+                assignments: {
+                  deleteMany: {},
+                  create: assigneeIds.map(assigneeId => ({ userId: assigneeId })),
+                },
+                watchers: {
+                  createMany: {
+                    data: assigneeIds.map(assigneeId => ({ userId: assigneeId })),
+                    skipDuplicates: true,
+                  },
+                },
+              }),
+            },
+          });
+          continue;
+        }
+
+        const rank = rankBetween(lastRanks.get(status!.key) ?? null, null);
+        lastRanks.set(status!.key, rank);
+
+        const task = await tx.task.create({
+          data: {
+            ...fields,
+            ...enterStatus(status!, null, userId),
+            title: fields.title!,
+            projectId: project.id,
+            creatorId: userId,
+            rank,
+            externalId: result.externalId ?? null,
+            assignments: {
+              create: (assigneeIds ?? []).map(assigneeId => ({ userId: assigneeId })),
+            },
+            watchers: {
+              create: [...new Set([userId, ...(assigneeIds ?? [])])].map(watcherId => ({ userId: watcherId })),
+            },
+          },
+          select: { id: true },
+        });
+        result.taskId = task.id;
+      }
+    }, { timeout: 120000 });
+
+    const snapshotsAfter = new Map((await this.prisma.task.findMany({
+      where: { id: { in: results.map(r => r.taskId!) } },
+      select: taskSnapshotSelect,
+    })).map(task => [task.id, toTaskSnapshot(task)]));
+    await this.taskHistoryService.record(userId, [
+      ...results.filter(r => r.action === 'create').map(r => ({
+        taskId: r.taskId!,
+        action: 'created' as const,
+        after: snapshotsAfter.get(r.taskId!),
+      })),
+      ...snapshotsBefore.map(task => ({
+        taskId: task.id,
+        action: 'updated' as const,
+        before: toTaskSnapshot(task),
+        after: snapshotsAfter.get(task.id),
+      })),
+    ]);
+
+    await this.wsService.broadcastToProject(project.id, 'tasks:imported', {
+      createdTaskIds: results.filter(r => r.action === 'create').map(r => r.taskId),
+      updatedTaskIds: results.filter(r => r.action === 'update').map(r => r.taskId),
+      importedBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`project:${project.id}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${project.id}:*`);
+    for (const result of results.filter(r => r.action === 'update')) {
+      await this.cacheService.invalidatePattern(`task:${result.taskId}:*`);
+    }
+
+    return { dryRun: false, rows: results, summary };
+  }
+
+  // Private helper methods
+
+  private async loadProject(projectId: string, userId: string) {
+    const project = await this.prisma.project.findFirst({
+      where: {
+        id: projectId,
+        members: { some: { userId } },
+      },
+      select: {
+        id: true,
+        name: true,
+        slug: true,
+        status: true,
+        metadata: true,
+        members: {
+          select: {
+            userId: true,
+            role: true,
+            user: { select: { email: true } },
+          },
+        },
+      },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return { project, members: project.members as ProjectMemberEmail[] };
+  }
+
+  /**
+   * A task as it appears in an export: users by email, priority by name
+   */
+  private toExportRecord(task: TaskWithRelations) {
+    return {
+      id: task.id,
+      externalId: task.externalId,
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      statusCategory: task.statusCategory,
+      priority: TaskPriority[task.priority] ?? task.priority,
+      dueDate: task.dueDate,
+      estimateMinutes: task.estimateMinutes,
+      assignees: task.assignees.map(a => a.email),
+      creator: task.creator?.email ?? null,
+      parentId: task.parentId,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+      customFields: task.customFields,
+    };
+  }
+
+  /**
+   * Work out which column feeds each task field. Without a mapping, columns
+   * are matched to fields (or custom field names) by name.
+   */
+  private resolveColumns(
+    header: string[],
+    mapping: Record<string, string> | undefined,
+    definitions: CustomFieldDefinition[]
+  ): Map<string, number> {
+    const normalize = (name: string) => name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+    const fields = [...TASK_IMPORT_FIELDS, ...definitions.map(d => `customFields.${d.key}`)];
+    const columns = new Map<string, number>();
+
+    if (mapping) {
+      const unknownFields = Object.keys(mapping).filter(field => !fields.includes(field));
+      const missingColumns = Object.values(mapping).filter(column => !header.some(h => h.trim() === column.trim()));
+
+      if (unknownFields.length > 0 || missingColumns.length > 0) {
+        throw new ValidationError('Invalid column mapping', {
+          ...(unknownFields.length > 0 && { unknownFields, allowedFields: fields }),
+          ...(missingColumns.length > 0 && { missingColumns }),
+        });
+      }
+
+      for (const [field, column] of Object.entries(mapping)) {
+        columns.set(field, header.findIndex(h => h.trim() === column.trim()));
+      }
+    } else {
+      for (const field of fields) {
+        const names = [field, definitions.find(d => `customFields.${d.key}` === field)?.name]
+          .filter((name): name is string => !!name)
+          .map(normalize);
+        const index = header.findIndex(h => names.includes(normalize(h)));
+        if (index !== -1) {
+          columns.set(field, index);
+        }
+      }
+    }
+
+    if (!columns.has('title') && !columns.has('externalId')) {
+      throw new ValidationError('No column is mapped to title or externalId', { header });
+    }
+
+    return columns;
+  }
+
+  /**
+   * Check one row and work out what importing it writes. Empty cells leave
+   * the field unset on new tasks and unchanged on existing ones.
+   */
+  private planImportRow(
+    row: string[],
+    cell: (row: string[], field: string) => string,
+    context: {
+      definitions: CustomFieldDefinition[];
+      workflow: Workflow;
+      members: ProjectMemberEmail[];
+      existing: { id: string; status: string; statusCategory: string; customFields: Prisma.JsonValue } | undefined;
+    }
+  ): TaskImportPlan {
+    const { definitions, workflow, members, existing } = context;
+    const errors: Record<string, string> = {};
+    const plan: TaskImportPlan = {
+      result: existing ? { row: 0, action: 'update', taskId: existing.id } : { row: 0, action: 'create' },
+      data: {},
+    };
+
+    // Users are given by email or id and must be project members
+    const findMember = (value: string) =>
+      members.find(m => m.userId === value || m.user.email.toLowerCase() === value.toLowerCase());
+
+    const title = cell(row, 'title');
+    if (title.length > 200) {
+      errors['title'] = 'must be at most 200 characters';
+    } else if (title) {
+      plan.data.title = title;
+    } else if (!existing) {
+      errors['title'] = 'is required';
+    }
+
+    const description = cell(row, 'description');
+    if (description.length > 1000) {
+      errors['description'] = 'must be at most 1000 characters';
+    } else if (description) {
+      plan.data.description = description;
+    }
+
+    // Existing tasks change status by the workflow's transition rules
+    const status = cell(row, 'status');
+    try {
+      const resolved = status
+        ? this.workflowService.resolveStatus(workflow, status)
+        : existing ? null : getInitialStatus(workflow);
+      if (resolved && existing) {
+        this.workflowService.assertTransition(workflow, existing.status, resolved.key);
+      }
+      if (resolved) {
+        plan.status = resolved;
+      }
+    } catch (error) {
+      errors['status'] = (error as Error).message;
+    }
+
+    const priority = cell(row, 'priority');
+    if (priority) {
+      const value = /^\d+$/.test(priority)
+        ? Number(priority)
+        : TaskPriority[priority.toUpperCase().replace(/[\s-]+/g, '_') as keyof typeof TaskPriority];
+      if (value === undefined || value < TaskPriority.LOW || value > TaskPriority.HIGH) {
+        errors['priority'] = 'must be 1-5 or LOW, MEDIUM_LOW, MEDIUM, MEDIUM_HIGH, HIGH';
+      } else {
+        plan.data.priority = value;
+      }
+    } else if (!existing) {
+      plan.data.priority = TaskPriority.MEDIUM;
+    }
+
+    const dueDate = cell(row, 'dueDate');
+    if (dueDate) {
+      const date = new Date(dueDate);
+      if (isNaN(date.getTime())) {
+        errors['dueDate'] = 'must be a valid date';
+      } else {
+        plan.data.dueDate = date;
+      }
+    }
+
+    const estimate = cell(row, 'estimateMinutes');
+    if (estimate) {
+      if (!/^\d+$/.test(estimate)) {
+        errors['estimateMinutes'] = 'must be a whole number of minutes';
+      } else {
+        plan.data.estimateMinutes = Number(estimate);
+      }
+    }
+
+    const assignees = cell(row, 'assignees');
+    if (assignees) {
+      const values = [...new Set(assignees.split(/[;,]/).map(v => v.trim()).filter(Boolean))];
+      const unknown = values.filter(value => !findMember(value));
+      if (unknown.length > 0) {
+        errors['assignees'] = `not members of the project: ${unknown.join(', ')}`;
+      } else {
+        plan.assigneeIds = [...new Set(values.map(value => findMember(value)!.userId))];
+      }
+    }
+
+    // Custom fields: lists are separated by ";", users given by email
+    const input: Record<string, unknown> = {};
+    for (const definition of definitions) {
+      const value = cell(row, `customFields.${definition.key}`);
+      if (!value) continue;
+
+      input[definition.key] = definition.type === 'multi_select'
+        ? value.split(';').map(v => v.trim()).filter(Boolean)
+        : definition.type === 'user' ? findMember(value)?.userId ?? value : value;
+    }
+
+    const { values, errors: fieldErrors } = validateCustomFieldValues(definitions, input, {
+      memberIds: members.map(m => m.userId),
+      enforceRequired: !existing,
+    });
+    for (const [key, message] of Object.entries(fieldErrors)) {
+      errors[`customFields.${key}`] = message;
+    }
+    if (Object.keys(values).length > 0 || !existing) {
+      plan.data.customFields = { ...((existing?.customFields ?? {}) as CustomFieldValues), ...values };
+    }
+
+    if (Object.keys(errors).length > 0) {
+      plan.result.errors = errors;
+    }
+
+    return plan;
+  }
+}
+
+export default TaskImportExportService;
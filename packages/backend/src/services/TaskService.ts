@@ -1,58 +1,297 @@
-import { PrismaClient, Task, TaskStatus, TaskPriority, Prisma } from '@prisma/client';
+import { PrismaClient, Task, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
+import { config } from '../config/environment';
+import { ProjectMemberRole, TaskPriority, TaskStatusCategory } from '../types/models';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../middleware/errorHandler';
+import { findDependencyCycle } from '../utils/taskGraph';
 import { NotificationService } from './NotificationService';
 import { CacheService } from './CacheService';
 import { WebSocketService } from './WebSocketService';
+import { RecurrenceService, RecurrenceInput } from './RecurrenceService';
+import { TimeEntryService, TaskTimeSummary } from './TimeEntryService';
+import { CustomFieldService, CustomFieldFilter } from './CustomFieldService';
+import { WorkflowService } from './WorkflowService';
+import { WatcherService } from './WatcherService';
+import { TaskHistoryService, taskSnapshotSelect, toTaskSnapshot } from './TaskHistoryService';
+import { AutomationContext, AutomationService, toAutomationTask } from './AutomationService';
+import { assertProjectsWritable, ProjectStatusService } from './ProjectStatusService';
+import {
+  compareCustomFieldValues,
+  CustomFieldValues,
+  getCustomFieldDefinitions,
+  LABELS_FIELD_KEY,
+  validateCustomFieldValues,
+} from '../utils/customFields';
+import { enterStatus, getInitialStatus, getWorkflow, mapStatusToWorkflow, WorkflowStatus } from '../utils/workflow';
+import { AssigneeMatch, assigneeConditions, diffAssignees } from '../utils/assignees';
+import { initialWatcherIds } from '../utils/watchers';
+import { copyMessageLinks, copyParentId, planTransferAssignees, planTransferDependencies } from '../utils/taskTransfer';
+import { countAncestors, exceedsSubtaskDepth, parentAutoStatus, rollUpProgress } from '../utils/subtasks';
+import { compileTaskQuery, parseTaskQuery } from '../utils/taskQuery';
+import { rankBetween, spreadRanks } from '../utils/rank';
+import { snapshotTask } from '../utils/taskHistory';
+import { entityTag, ifMatchSatisfied, parseIfMatch } from '../utils/etag';
 
 export interface CreateTaskDto {
   title: string;
   description?: string;
   projectId: string;
-  assigneeId?: string;
+  assigneeIds?: string[];
   creatorId: string;
   dueDate?: Date;
   priority?: TaskPriority;
-  status?: TaskStatus;
+  status?: string;
+  recurrence?: RecurrenceInput;
+  parentId?: string;
+  milestoneId?: string | null;
+  autoComplete?: boolean;
+  customFields?: Record<string, unknown>;
 }
 
 export interface UpdateTaskDto {
   title?: string;
   description?: string;
-  assigneeId?: string | null;
+  assigneeIds?: string[]; // replaces the current assignees
   dueDate?: Date | null;
   priority?: TaskPriority;
-  status?: TaskStatus;
+  status?: string;
+  milestoneId?: string | null; // null takes the task out of its milestone
+  autoComplete?: boolean;
+  customFields?: Record<string, unknown>;
+}
+
+export interface UpdateTaskOptions {
+  ifMatch?: string | undefined; // If-Match header: only update the task if it is unchanged since
+  automation?: AutomationContext | undefined; // set when an automation rule makes the change
+}
+
+export interface MoveTaskDto {
+  status?: string | undefined;
+  afterTaskId?: string | null | undefined; // the task that ends up directly above
+  beforeTaskId?: string | null | undefined; // the task that ends up directly below
+}
+
+// Changes applied to every task of a bulk operation. `delete` excludes the rest.
+export interface BulkTaskOperationDto {
+  taskIds: string[];
+  delete?: boolean | undefined;
+  status?: string | undefined;
+  priority?: TaskPriority | undefined;
+  dueDate?: Date | null | undefined;
+  projectId?: string | undefined; // move to another project
+  addAssigneeIds?: string[] | undefined;
+  removeAssigneeIds?: string[] | undefined;
+  addLabels?: string[] | undefined; // added to the project's `labels` custom field
+}
+
+export type BulkTaskResultStatus = 'success' | 'skipped' | 'forbidden' | 'not_found' | 'validation_error';
+
+export interface BulkTaskResult {
+  taskId: string;
+  status: BulkTaskResultStatus;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface BulkTaskOperationResult {
+  results: BulkTaskResult[];
+  summary: Record<BulkTaskResultStatus, number>;
+}
+
+// Options shared by moving and duplicating a task. Everything is included by
+// default, except that duplicates leave messages and attachments behind.
+export interface TransferTaskDto {
+  projectId?: string | undefined; // target project; duplicates default to the task's own project
+  includeSubtasks?: boolean | undefined;
+  includeAttachments?: boolean | undefined;
+  includeMessages?: boolean | undefined;
+  includeAssignees?: boolean | undefined;
+  nonMemberAssignees?: 'reject' | 'drop' | undefined; // assignees who are not members of the target project
+  crossProjectDependencies?: 'reject' | 'remove' | undefined; // links that would end up between two projects
+}
+
+export interface DuplicateTaskDto extends TransferTaskDto {
+  title?: string | undefined; // title of the copy, defaults to the original's
+}
+
+export interface TaskTransferResult {
+  task: TaskWithRelations;
+  taskIds: Record<string, string>; // id of every moved or copied task, keyed by the original's id
+  droppedAssignees: { taskId: string; userId: string }[];
+  removedDependencies: { taskId: string; dependsOnTaskId: string }[];
+}
+
+export interface CreateChecklistItemDto {
+  title: string;
+  position?: number;
+}
+
+export interface UpdateChecklistItemDto {
+  title?: string;
+  isDone?: boolean;
+  position?: number;
 }
 
 export interface TaskFilters {
   projectId?: string;
-  assigneeId?: string | null;
+  assigneeIds?: string | string[];
+  assigneeMatch?: AssigneeMatch; // how assigneeIds combine, default any
+  unassigned?: boolean;
   creatorId?: string;
-  status?: TaskStatus | TaskStatus[];
+  status?: string | string[];
+  statusCategory?: TaskStatusCategory | TaskStatusCategory[];
   priority?: TaskPriority | TaskPriority[];
   dueDateFrom?: Date;
   dueDateTo?: Date;
   search?: string;
   overdue?: boolean;
+  parentId?: string | null;
+  milestoneId?: string | null;
+  customFields?: Record<string, CustomFieldFilter>;
+  q?: string; // filter query, see utils/taskQuery.ts
+}
+
+export interface TaskUser {
+  id: string;
+  fullName: string | null;
+  email: string;
+}
+
+export interface TaskAssignee extends TaskUser {
+  assignedAt: Date;
 }
 
 export interface TaskWithRelations extends Task {
-  assignee?: {
-    id: string;
-    name: string;
-    email: string;
-    avatar: string | null;
-  } | null;
-  creator: {
+  assignees: TaskAssignee[];
+  creator: TaskUser | null;
+  project: {
     id: string;
     name: string;
-    email: string;
-    avatar: string | null;
   };
+  dependencies?: {
+    dependsOnTask: TaskDependencySummary;
+  }[];
+  dependents?: {
+    task: TaskDependencySummary;
+  }[];
+  progress?: TaskProgress;
+  timeTracking?: TaskTimeSummary;
+}
+
+export interface TaskProgress {
+  subtasks: { done: number; total: number };
+  checklist: { done: number; total: number };
+}
+
+export interface TaskDependencySummary {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory: string;
+  dueDate: Date | null;
+}
+
+const taskDependencySummarySelect = {
+  id: true,
+  title: true,
+  status: true,
+  statusCategory: true,
+  dueDate: true,
+} satisfies Prisma.TaskSelect;
+
+const taskUserSelect = {
+  id: true,
+  fullName: true,
+  email: true,
+} satisfies Prisma.UserSelect;
+
+// Relations included with every task returned by the API
+const taskRelationsInclude = {
+  assignments: {
+    select: {
+      assignedAt: true,
+      user: { select: taskUserSelect },
+    },
+    orderBy: { assignedAt: 'asc' },
+  },
+  creator: { select: taskUserSelect },
   project: {
-    id: string;
-    name: string;
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+  milestone: {
+    select: {
+      id: true,
+      name: true,
+      kind: true,
+    },
+  },
+} satisfies Prisma.TaskInclude;
+
+/**
+ * Replace the `assignments` rows of a task with a flat `assignees` list
+ */
+const withAssignees = <T extends { assignments: { assignedAt: Date; user: TaskUser }[] }>(
+  task: T
+): Omit<T, 'assignments'> & { assignees: TaskAssignee[] } => {
+  const { assignments, ...rest } = task;
+  return {
+    ...rest,
+    assignees: assignments.map(a => ({ ...a.user, assignedAt: a.assignedAt })),
   };
+};
+
+const bulkTaskSelect = {
+  id: true,
+  projectId: true,
+  creatorId: true,
+  title: true,
+  status: true,
+  statusCategory: true,
+  seriesId: true,
+  occurrence: true,
+  parentId: true,
+  customFields: true,
+  assignments: { select: { userId: true } },
+  subtasks: { where: { deletedAt: null }, select: { id: true } },
+  dependencies: { where: { dependsOnTask: { deletedAt: null } }, select: { dependsOnTaskId: true } },
+  dependents: { where: { task: { deletedAt: null } }, select: { taskId: true } },
+} satisfies Prisma.TaskSelect;
+
+type BulkTask = Prisma.TaskGetPayload<{ select: typeof bulkTaskSelect }>;
+
+// What a bulk operation will do to one task, worked out before anything is written
+interface BulkTaskPlan {
+  task: BulkTask;
+  projectId: string;
+  status?: WorkflowStatus;
+  customFields?: CustomFieldValues;
+  addedAssigneeIds: string[];
+}
+
+const transferTaskInclude = {
+  assignments: { select: { userId: true, assignedAt: true } },
+  dependencies: { where: { dependsOnTask: { deletedAt: null } }, select: { dependsOnTaskId: true } },
+  dependents: { where: { task: { deletedAt: null } }, select: { taskId: true } },
+  checklistItems: { orderBy: { position: 'asc' } },
+} satisfies Prisma.TaskInclude;
+
+type TransferTask = Prisma.TaskGetPayload<{ include: typeof transferTaskInclude }>;
+
+// Where a task and its subtasks end up when moved or duplicated, worked out
+// before anything is written
+interface TaskTransferPlan {
+  tasks: TransferTask[]; // the task itself first, every parent before its subtasks
+  projectId: string;
+  statuses: Map<string, WorkflowStatus>;
+  ranks: Map<string, string>;
+  customFields: Map<string, CustomFieldValues>;
+  assigneeIds: Map<string, string[]>;
+  dependencies: { taskId: string; dependsOnTaskId: string }[]; // kept, between original ids
+  droppedAssignees: { taskId: string; userId: string }[];
+  removedDependencies: { taskId: string; dependsOnTaskId: string }[];
 }
 
 export class TaskService {
@@ -60,12 +299,28 @@ export class TaskService {
   private notificationService: NotificationService;
   private cacheService: CacheService;
   private wsService: WebSocketService;
+  private recurrenceService: RecurrenceService;
+  private timeEntryService: TimeEntryService;
+  private customFieldService: CustomFieldService;
+  private workflowService: WorkflowService;
+  private watcherService: WatcherService;
+  private taskHistoryService: TaskHistoryService;
+  private automationService: AutomationService;
+  private projectStatusService: ProjectStatusService;
 
   constructor() {
     this.prisma = prisma;
     this.notificationService = new NotificationService();
     this.cacheService = new CacheService();
     this.wsService = WebSocketService.getInstance();
+    this.recurrenceService = new RecurrenceService();
+    this.timeEntryService = new TimeEntryService();
+    this.customFieldService = new CustomFieldService();
+    this.workflowService = new WorkflowService();
+    this.watcherService = new WatcherService();
+    this.taskHistoryService = new TaskHistoryService();
+    this.automationService = new AutomationService();
+    this.projectStatusService = new ProjectStatusService();
   }
 
   /**
@@ -84,48 +339,93 @@ export class TaskService {
       throw new Error('You are not a member of this project');
     }
 
+    await this.projectStatusService.assertWritable(data.projectId);
+
+    // Subtasks live in their parent's project and respect the depth limit
+    if (data.parentId) {
+      const parent = await this.prisma.task.findUnique({
+        where: { id: data.parentId },
+        select: { projectId: true },
+      });
+
+      if (!parent || parent.projectId !== data.projectId) {
+        throw new ValidationError('Parent task must belong to the same project');
+      }
+
+      if (exceedsSubtaskDepth(await this.getTaskDepth(data.parentId), config.subtaskMaxDepth)) {
+        throw new ValidationError(`Subtasks cannot be nested more than ${config.subtaskMaxDepth} levels deep`);
+      }
+    }
+
+    if (data.milestoneId) {
+      await this.assertMilestoneInProject(data.projectId, data.milestoneId);
+    }
+
+    const customFields = await this.customFieldService.validateTaskValues(
+      data.projectId,
+      data.customFields ?? {},
+      {},
+      { enforceRequired: true }
+    );
+
+    const assigneeIds = [...new Set(data.assigneeIds ?? [])];
+    await this.assertAssignable(data.projectId, assigneeIds);
+
+    const workflow = await this.workflowService.loadWorkflow(data.projectId);
+    const status = data.status
+      ? this.workflowService.resolveStatus(workflow, data.status)
+      : getInitialStatus(workflow);
+
+    // An invalid rule must fail before the task exists
+    const recurrence = data.recurrence !== undefined
+      ? this.recurrenceService.normalizeRule(data.recurrence)
+      : undefined;
+
     // Create the task
-    const task = await this.prisma.task.create({
+    const task = withAssignees(await this.prisma.task.create({
       data: {
         title: data.title,
-        description: data.description,
+        description: data.description ?? null,
         projectId: data.projectId,
-        assigneeId: data.assigneeId,
         creatorId: data.creatorId,
-        dueDate: data.dueDate,
+        dueDate: data.dueDate ?? null,
         priority: data.priority || TaskPriority.MEDIUM,
-        status: data.status || TaskStatus.TODO,
-      },
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
+        ...enterStatus(status, null, userId),
+        rank: await this.getEndRank(data.projectId, status.key),
+        parentId: data.parentId ?? null,
+        milestoneId: data.milestoneId ?? null,
+        autoComplete: data.autoComplete ?? false,
+        customFields,
+        assignments: {
+          create: assigneeIds.map(assigneeId => ({ userId: assigneeId })),
         },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
+        watchers: {
+          create: initialWatcherIds(data.creatorId, assigneeIds).map(watcherId => ({ userId: watcherId })),
         },
       },
-    });
+      include: taskRelationsInclude,
+    }));
+
+    await this.taskHistoryService.record(userId, [{
+      taskId: task.id,
+      action: 'created',
+      after: snapshotTask({ ...task, assigneeIds: task.assignees.map(a => a.id) }),
+    }]);
+
+    // Make the task the template of a recurring series
+    if (recurrence) {
+      await this.recurrenceService.createSeries(task, recurrence);
+    }
+
+    // An open subtask reopens a parent that completed with its subtasks
+    if (task.parentId) {
+      await this.syncParentStatus(task.parentId, userId);
+    }
 
-    // Send notification to assignee if different from creator
-    if (task.assigneeId && task.assigneeId !== task.creatorId) {
-      await this.notificationService.createNotification({
-        userId: task.assigneeId,
+    // Notify every assignee other than the creator
+    const notifyIds = assigneeIds.filter(id => id !== task.creatorId);
+    if (notifyIds.length > 0) {
+      await this.notificationService.createBulkNotifications(notifyIds, {
         type: 'TASK_ASSIGNED',
         title: 'New Task Assigned',
         message: `You have been assigned: ${task.title}`,
@@ -147,6 +447,12 @@ export class TaskService {
     await this.cacheService.invalidatePattern(`project:${task.projectId}:*`);
     await this.cacheService.invalidatePattern(`tasks:project:${task.projectId}:*`);
 
+    this.automationService.dispatch({
+      trigger: 'task.created',
+      projectId: task.projectId,
+      taskId: task.id,
+    });
+
     return task;
   }
 
@@ -166,32 +472,39 @@ export class TaskService {
         },
       },
       include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
+        ...taskRelationsInclude,
+        dependencies: {
+          where: { dependsOnTask: { deletedAt: null } },
+          include: {
+            dependsOnTask: { select: taskDependencySummarySelect },
           },
         },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
+        dependents: {
+          where: { task: { deletedAt: null } },
+          include: {
+            task: { select: taskDependencySummarySelect },
           },
         },
-        project: {
+        subtasks: {
+          where: { deletedAt: null },
           select: {
-            id: true,
-            name: true,
+            ...taskDependencySummarySelect,
+            priority: true,
           },
+          orderBy: { createdAt: 'asc' },
+        },
+        checklistItems: {
+          orderBy: { position: 'asc' },
         },
       },
     });
 
-    return task;
+    if (!task) return null;
+
+    const [withProgress] = await this.attachProgress([withAssignees(task)]);
+    const timeTracking = await this.timeEntryService.getTaskTimeSummary(task.id, task.estimateMinutes);
+
+    return { ...withProgress, timeTracking } as unknown as TaskWithRelations;
   }
 
   /**
@@ -222,14 +535,19 @@ export class TaskService {
       where.projectId = filters.projectId;
     }
 
-    if (filters.assigneeId !== undefined) {
-      where.assigneeId = filters.assigneeId;
-    }
 
     if (filters.creatorId) {
       where.creatorId = filters.creatorId;
     }
 
+    if (filters.parentId !== undefined) {
+      where.parentId = filters.parentId === 'null' ? null : filters.parentId;
+    }
+
+    if (filters.milestoneId !== undefined) {
+      where.milestoneId = filters.milestoneId === 'null' ? null : filters.milestoneId;
+    }
+
     if (filters.status) {
       if (Array.isArray(filters.status)) {
         where.status = { in: filters.status };
@@ -238,6 +556,14 @@ export class TaskService {
       }
     }
 
+    if (filters.statusCategory) {
+      if (Array.isArray(filters.statusCategory)) {
+        where.statusCategory = { in: filters.statusCategory };
+      } else {
+        where.statusCategory = filters.statusCategory;
+      }
+    }
+
     if (filters.priority) {
       if (Array.isArray(filters.priority)) {
         where.priority = { in: filters.priority };
@@ -260,8 +586,8 @@ export class TaskService {
       where.dueDate = {
         lt: new Date(),
       };
-      where.status = {
-        not: TaskStatus.DONE,
+      where.statusCategory = {
+        not: TaskStatusCategory.DONE,
       };
     }
 
@@ -272,48 +598,121 @@ export class TaskService {
       ];
     }
 
+    // Custom fields are defined per project
+    const customFieldSort = sortBy.startsWith('customFields.') ? sortBy.slice('customFields.'.length) : null;
+    if ((filters.customFields || customFieldSort) && !filters.projectId) {
+      throw new ValidationError('projectId is required to filter or sort by custom fields');
+    }
+
+    const conditions: Prisma.TaskWhereInput[] = [];
+
+    // Assigned to any (or all) of the given users
+    if (filters.assigneeIds) {
+      conditions.push(...assigneeConditions(filters.assigneeIds, filters.assigneeMatch));
+    }
+
+    if (filters.unassigned) {
+      conditions.push({ assignments: { none: {} } });
+    }
+
+    if (filters.customFields) {
+      conditions.push(...await this.customFieldService.buildTaskFilters(filters.projectId!, filters.customFields));
+    }
+
+    if (filters.q) {
+      conditions.push(...await this.buildQueryFilters(userId, filters.q, filters.projectId));
+    }
+
+    if (conditions.length > 0) {
+      where.AND = conditions;
+    }
+
+    // Prisma cannot order by a JSON path, so custom field sorts pick the page
+    // of ids in memory first
+    let pageIds: string[] | null = null;
+    if (customFieldSort) {
+      const candidates = await this.prisma.task.findMany({
+        where,
+        select: { id: true, customFields: true },
+      });
+
+      pageIds = candidates
+        .sort((a, b) => compareCustomFieldValues(
+          (a.customFields as CustomFieldValues)[customFieldSort],
+          (b.customFields as CustomFieldValues)[customFieldSort],
+          sortOrder
+        ))
+        .slice(offset, offset + limit)
+        .map(t => t.id);
+    }
+
     // Execute query
     const [tasks, total] = await Promise.all([
       this.prisma.task.findMany({
-        where,
-        include: {
-          assignee: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatar: true,
-            },
-          },
-          creator: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              avatar: true,
-            },
-          },
-          project: {
-            select: {
-              id: true,
-              name: true,
-            },
-          },
-        },
-        orderBy: { [sortBy]: sortOrder },
-        take: limit,
-        skip: offset,
+        where: pageIds ? { id: { in: pageIds } } : where,
+        include: taskRelationsInclude,
+        ...(!pageIds && {
+          // Unranked tasks tie on rank; keep them in creation order
+          orderBy: sortBy === 'rank'
+            ? [{ rank: sortOrder }, { createdAt: 'asc' }]
+            : { [sortBy]: sortOrder },
+          take: limit,
+          skip: offset,
+        }),
       }),
       this.prisma.task.count({ where }),
     ]);
 
-    return { tasks, total };
+    if (pageIds) {
+      const order = new Map(pageIds.map((id, index) => [id, index]));
+      tasks.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    }
+
+    return {
+      tasks: await this.attachProgress(tasks.map(withAssignees)) as unknown as TaskWithRelations[],
+      total,
+    };
+  }
+
+  /**
+   * Turn a filter query such as `status:todo assignee:me priority>=4` into
+   * Prisma conditions. Custom fields can only be used with a project.
+   */
+  async buildQueryFilters(userId: string, query: string, projectId?: string): Promise<Prisma.TaskWhereInput[]> {
+    let compiled;
+    try {
+      compiled = compileTaskQuery(parseTaskQuery(query), { userId });
+    } catch (error) {
+      throw new ValidationError((error as Error).message, { query });
+    }
+
+    if (compiled.customFields.length === 0) {
+      return compiled.conditions;
+    }
+
+    if (!projectId) {
+      throw new ValidationError(`Unknown filter "${compiled.customFields[0]!.field}"`, {
+        query,
+        hint: 'Custom field filters need a projectId',
+      });
+    }
+
+    return [
+      ...compiled.conditions,
+      ...await this.customFieldService.buildQueryFilters(projectId, compiled.customFields),
+    ];
   }
 
   /**
-   * Update a task
+   * Update a task. A stale `If-Match` is refused with the current task so
+   * the client can merge or overwrite.
    */
-  async updateTask(taskId: string, userId: string, data: UpdateTaskDto): Promise<TaskWithRelations> {
+  async updateTask(
+    taskId: string,
+    userId: string,
+    data: UpdateTaskDto,
+    options: UpdateTaskOptions = {}
+  ): Promise<TaskWithRelations> {
     // Get existing task
     const existingTask = await this.prisma.task.findFirst({
       where: {
@@ -328,6 +727,7 @@ export class TaskService {
       },
       include: {
         project: true,
+        assignments: { select: { userId: true } },
       },
     });
 
@@ -335,61 +735,114 @@ export class TaskService {
       throw new Error('Task not found or you do not have access');
     }
 
+    assertProjectsWritable([existingTask.project]);
+
+    if (!ifMatchSatisfied(options.ifMatch, existingTask.updatedAt)) {
+      throw await this.editConflict(taskId, userId);
+    }
+
+    // Assignees are replaced as a whole; work out who was added and removed
+    const previousAssigneeIds = existingTask.assignments.map(a => a.userId);
+    const {
+      assigneeIds,
+      added: addedAssigneeIds,
+      removed: removedAssigneeIds,
+    } = diffAssignees(previousAssigneeIds, data.assigneeIds);
+
+    await this.assertAssignable(existingTask.projectId, addedAssigneeIds);
+
+    if (data.milestoneId) {
+      await this.assertMilestoneInProject(existingTask.projectId, data.milestoneId);
+    }
+
+    // Status changes must follow the project's workflow
+    let newStatus: WorkflowStatus | undefined;
+    if (data.status !== undefined) {
+      const workflow = getWorkflow(existingTask.project.metadata);
+      newStatus = this.workflowService.resolveStatus(workflow, data.status);
+      this.workflowService.assertTransition(workflow, existingTask.status, newStatus.key);
+    }
+
+    const isCompleting = newStatus?.category === TaskStatusCategory.DONE &&
+      existingTask.statusCategory !== TaskStatusCategory.DONE;
+    const isReopening = newStatus !== undefined && newStatus.category !== TaskStatusCategory.DONE &&
+      existingTask.statusCategory === TaskStatusCategory.DONE;
+
+    // A task cannot be completed while its prerequisites are still open
+    if (isCompleting) {
+      await this.assertPrerequisitesDone([taskId]);
+    }
+
+    const customFields = data.customFields
+      ? await this.customFieldService.validateTaskValues(existingTask.projectId, data.customFields, existingTask.customFields)
+      : undefined;
+
     // Track changes for notifications
     const changes: string[] = [];
-    const previousAssignee = existingTask.assigneeId;
     const previousStatus = existingTask.status;
 
-    // Update the task
-    const updatedTask = await this.prisma.task.update({
-      where: { id: taskId },
-      data: {
-        ...(data.title !== undefined && { title: data.title }),
-        ...(data.description !== undefined && { description: data.description }),
-        ...(data.assigneeId !== undefined && { assigneeId: data.assigneeId }),
-        ...(data.dueDate !== undefined && { dueDate: data.dueDate }),
-        ...(data.priority !== undefined && { priority: data.priority }),
-        ...(data.status !== undefined && { 
-          status: data.status,
-          ...(data.status === TaskStatus.DONE && { completedAt: new Date() }),
-          ...(data.status !== TaskStatus.DONE && { completedAt: null }),
-        }),
-      },
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
+    // Update the task. With If-Match, the version read above is claimed first
+    // in the same transaction, so a concurrent update that got in between
+    // makes this one fail instead of being overwritten.
+    const versioned = Array.isArray(parseIfMatch(options.ifMatch));
+    const written = await this.prisma.$transaction(async (tx) => {
+      if (versioned) {
+        const { count } = await tx.task.updateMany({
+          where: { id: taskId, updatedAt: existingTask.updatedAt },
+          data: { updatedAt: new Date() },
+        });
+        if (count === 0) return null;
+      }
+
+      return tx.task.update({
+        where: { id: taskId },
+        data: {
+          ...(data.title !== undefined && { title: data.title }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.dueDate !== undefined && { dueDate: data.dueDate }),
+          ...(data.priority !== undefined && { priority: data.priority }),
+          ...(data.autoComplete !== undefined && { autoComplete: data.autoComplete }),
+          ...(data.milestoneId !== undefined && { milestoneId: data.milestoneId }),
+          ...(customFields !== undefined && { customFields }),
+          ...(newStatus !== undefined && enterStatus(newStatus, existingTask, userId)),
+          ...(assigneeIds !== undefined && {
+            assignments: {
+              deleteMany: { userId: { in: removedAssigneeIds } },
+              create: addedAssigneeIds.map(assigneeId => ({ userId: assigneeId })),
+            },
+            watchers: {
+              createMany: {
+                data: addedAssigneeIds.map(assigneeId => ({ userId: assigneeId })),
+                skipDuplicates: true,
+              },
+            },
+          }),
         },
-      },
+        include: taskRelationsInclude,
+      });
     });
 
+    if (!written) {
+      throw await this.editConflict(taskId, userId);
+    }
+    const updatedTask = withAssignees(written);
+
+    await this.taskHistoryService.record(userId, [{
+      taskId,
+      action: 'updated',
+      before: snapshotTask({ ...existingTask, assigneeIds: previousAssigneeIds }),
+      after: snapshotTask({ ...updatedTask, assigneeIds: updatedTask.assignees.map(a => a.id) }),
+    }]);
+
     // Build change descriptions
     if (data.title && data.title !== existingTask.title) {
       changes.push('title');
     }
-    if (data.status && data.status !== previousStatus) {
-      changes.push(`status to ${data.status}`);
+    if (newStatus && newStatus.key !== previousStatus) {
+      changes.push(`status to ${newStatus.key}`);
     }
-    if (data.assigneeId !== undefined && data.assigneeId !== previousAssignee) {
-      changes.push('assignee');
+    if (addedAssigneeIds.length > 0 || removedAssigneeIds.length > 0) {
+      changes.push('assignees');
     }
     if (data.priority && data.priority !== existingTask.priority) {
       changes.push(`priority to ${data.priority}`);
@@ -397,40 +850,36 @@ export class TaskService {
     if (data.dueDate !== undefined && data.dueDate?.getTime() !== existingTask.dueDate?.getTime()) {
       changes.push('due date');
     }
+    if (customFields !== undefined && JSON.stringify(customFields) !== JSON.stringify(existingTask.customFields)) {
+      changes.push('custom fields');
+    }
 
     // Send notifications
-    const notifyUsers = new Set<string>();
-
-    // Notify assignee if changed
-    if (data.assigneeId !== undefined && data.assigneeId !== previousAssignee) {
-      if (data.assigneeId) {
-        notifyUsers.add(data.assigneeId);
-        await this.notificationService.createNotification({
-          userId: data.assigneeId,
-          type: 'TASK_ASSIGNED',
-          title: 'Task Assigned',
-          message: `You have been assigned: ${updatedTask.title}`,
-          data: { taskId, projectId: updatedTask.projectId, assignedBy: userId },
-        });
-      }
-      // Notify previous assignee about unassignment
-      if (previousAssignee) {
-        notifyUsers.add(previousAssignee);
-        await this.notificationService.createNotification({
-          userId: previousAssignee,
-          type: 'PROJECT_UPDATE',
-          title: 'Task Unassigned',
-          message: `You have been unassigned from: ${updatedTask.title}`,
-          data: { taskId, projectId: updatedTask.projectId },
-        });
-      }
+    const notified = new Set<string>([userId]);
+
+    // Notify new and removed assignees
+    if (addedAssigneeIds.length > 0) {
+      addedAssigneeIds.forEach(id => notified.add(id));
+      await this.notificationService.createBulkNotifications(addedAssigneeIds, {
+        type: 'TASK_ASSIGNED',
+        title: 'Task Assigned',
+        message: `You have been assigned: ${updatedTask.title}`,
+        data: { taskId, projectId: updatedTask.projectId, assignedBy: userId },
+      });
+    }
+    if (removedAssigneeIds.length > 0) {
+      removedAssigneeIds.forEach(id => notified.add(id));
+      await this.notificationService.createBulkNotifications(removedAssigneeIds, {
+        type: 'PROJECT_UPDATE',
+        title: 'Task Unassigned',
+        message: `You have been unassigned from: ${updatedTask.title}`,
+        data: { taskId, projectId: updatedTask.projectId },
+      });
     }
 
-    // Notify creator about significant changes
-    if (updatedTask.creatorId !== userId && changes.length > 0) {
-      notifyUsers.add(updatedTask.creatorId);
-      await this.notificationService.createNotification({
-        userId: updatedTask.creatorId,
+    // Tell the task's watchers about significant changes
+    if (changes.length > 0) {
+      await this.watcherService.notifyWatchers(taskId, notified, {
         type: 'PROJECT_UPDATE',
         title: 'Task Updated',
         message: `Task "${updatedTask.title}" has been updated: ${changes.join(', ')}`,
@@ -438,6 +887,15 @@ export class TaskService {
       });
     }
 
+    // Completing the latest occurrence of a series schedules the next one
+    if (isCompleting && existingTask.seriesId && existingTask.occurrence) {
+      await this.recurrenceService.generateNextOccurrence(existingTask.seriesId, existingTask.occurrence);
+    }
+
+    if ((isCompleting || isReopening) && existingTask.parentId) {
+      await this.syncParentStatus(existingTask.parentId, userId);
+    }
+
     // Broadcast update via WebSocket
     await this.wsService.broadcastToProject(updatedTask.projectId, 'task:updated', {
       task: updatedTask,
@@ -449,11 +907,20 @@ export class TaskService {
     await this.cacheService.invalidatePattern(`task:${taskId}:*`);
     await this.cacheService.invalidatePattern(`tasks:project:${updatedTask.projectId}:*`);
 
+    this.automationService.dispatch({
+      trigger: 'task.updated',
+      projectId: updatedTask.projectId,
+      taskId,
+      previous: toAutomationTask(existingTask),
+      context: options.automation,
+    });
+
     return updatedTask;
   }
 
   /**
-   * Delete a task
+   * Move a task and its subtasks to the trash. They can be restored until
+   * the trash is purged, see TrashService.
    */
   async deleteTask(taskId: string, userId: string): Promise<void> {
     // Verify permission
@@ -467,7 +934,7 @@ export class TaskService {
               members: {
                 some: {
                   userId: userId,
-                  role: { in: ['OWNER', 'ADMIN'] },
+                  role: { in: [ProjectMemberRole.OWNER, ProjectMemberRole.ADMIN] },
                 },
               },
             },
@@ -480,10 +947,15 @@ export class TaskService {
       throw new Error('Task not found or insufficient permissions');
     }
 
-    // Delete the task
-    await this.prisma.task.delete({
-      where: { id: taskId },
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    // Trash the task and its subtasks together, so they are restored together
+    const taskIds = await this.collectSubtaskIds([taskId]);
+    await this.prisma.task.updateMany({
+      where: { id: { in: taskIds } },
+      data: { deletedAt: new Date(), deletedById: userId },
     });
+    await this.taskHistoryService.record(userId, taskIds.map(id => ({ taskId: id, action: 'deleted' as const })));
 
     // Broadcast deletion
     await this.wsService.broadcastToProject(task.projectId, 'task:deleted', {
@@ -497,107 +969,948 @@ export class TaskService {
   }
 
   /**
-   * Bulk update task status
+   * Bring a task back from the trash, with the subtasks that were deleted
+   * along with it (task creator, whoever deleted it, or project owner/admin)
    */
-  async bulkUpdateStatus(taskIds: string[], status: TaskStatus, userId: string): Promise<number> {
-    // Verify permissions for all tasks
-    const tasks = await this.prisma.task.findMany({
-      where: {
-        id: { in: taskIds },
-        project: {
-          members: {
-            some: {
-              userId: userId,
-            },
-          },
-        },
-      },
-      select: {
-        id: true,
-        projectId: true,
-        title: true,
-        assigneeId: true,
+  async restoreTask(taskId: string, userId: string): Promise<TaskWithRelations> {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, deletedAt: { not: null }, project: { deletedAt: null } },
+      include: {
+        parent: { select: { projectId: true, deletedAt: true } },
       },
     });
 
-    if (tasks.length === 0) {
-      throw new Error('No tasks found or insufficient permissions');
-    }
-
-    // Update tasks
-    const result = await this.prisma.task.updateMany({
+    const member = task && await this.prisma.projectMember.findUnique({
       where: {
-        id: { in: tasks.map(t => t.id) },
-      },
-      data: {
-        status,
-        ...(status === TaskStatus.DONE && { completedAt: new Date() }),
-        ...(status !== TaskStatus.DONE && { completedAt: null }),
+        projectId_userId: { projectId: task.projectId, userId },
       },
     });
 
-    // Group tasks by project for WebSocket broadcast
-    const tasksByProject = tasks.reduce((acc, task) => {
-      if (!acc[task.projectId]) {
-        acc[task.projectId] = [];
-      }
-      acc[task.projectId].push(task);
-      return acc;
-    }, {} as Record<string, typeof tasks>);
-
-    // Broadcast updates per project
-    for (const [projectId, projectTasks] of Object.entries(tasksByProject)) {
-      await this.wsService.broadcastToProject(projectId, 'tasks:bulk_updated', {
-        taskIds: projectTasks.map(t => t.id),
-        status,
-        updatedBy: userId,
-      });
+    if (!task || !member) {
+      throw new NotFoundError('Task not found in the trash');
     }
-
-    // Invalidate caches
-    for (const projectId of Object.keys(tasksByProject)) {
-      await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+    if (
+      task.creatorId !== userId &&
+      task.deletedById !== userId &&
+      member.role !== ProjectMemberRole.OWNER &&
+      member.role !== ProjectMemberRole.ADMIN
+    ) {
+      throw new AuthorizationError('Only the task creator, whoever deleted it or project admins can restore this task');
     }
+    if (task.parent?.deletedAt) {
+      throw new ConflictError('The parent task is in the trash; restore it first');
+    }
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    const taskIds = await this.collectSubtaskIds([taskId], { deletedAt: task.deletedAt });
+    await this.prisma.$transaction([
+      this.prisma.task.updateMany({
+        where: { id: { in: taskIds }, deletedAt: task.deletedAt },
+        data: { deletedAt: null, deletedById: null },
+      }),
+      // The parent may have moved to another project since
+      ...(task.parent && task.parent.projectId !== task.projectId
+        ? [this.prisma.task.update({ where: { id: taskId }, data: { parentId: null } })]
+        : []),
+    ]);
+    await this.taskHistoryService.record(userId, taskIds.map(id => ({ taskId: id, action: 'restored' as const })));
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:restored', {
+      taskId,
+      taskIds,
+      restoredBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${task.projectId}:*`);
 
-    return result.count;
+    return (await this.getTaskById(taskId, userId))!;
   }
 
   /**
-   * Get task statistics for a project
+   * Move a task to a position in a board column, optionally changing its
+   * status. Only the moved task's rank is rewritten.
    */
-  async getProjectTaskStats(projectId: string, userId: string): Promise<any> {
-    // Verify user has access
-    const member = await this.prisma.projectMember.findFirst({
-      where: {
-        projectId,
-        userId,
-      },
+  async moveTask(taskId: string, userId: string, data: MoveTaskDto): Promise<TaskWithRelations> {
+    const task = await this.assertTaskAccess(taskId, userId);
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    const workflow = await this.workflowService.loadWorkflow(task.projectId);
+    const status = data.status !== undefined
+      ? this.workflowService.resolveStatus(workflow, data.status).key
+      : task.status;
+
+    const neighbourIds = [data.afterTaskId, data.beforeTaskId].filter((id): id is string => !!id);
+    if (neighbourIds.includes(taskId)) {
+      throw new ValidationError('A task cannot be positioned next to itself');
+    }
+
+    await this.rankColumn(task.projectId, status);
+
+    const neighbours = await this.prisma.task.findMany({
+      where: { id: { in: neighbourIds } },
+      select: { id: true, projectId: true, status: true, rank: true },
     });
 
-    if (!member) {
-      throw new Error('You are not a member of this project');
+    if (
+      neighbours.length !== neighbourIds.length ||
+      neighbours.some(n => n.projectId !== task.projectId || n.status !== status)
+    ) {
+      throw new ValidationError('Neighbouring tasks must be in the same column', { status });
     }
 
-    const tasks = await this.prisma.task.findMany({
-      where: { projectId },
-      select: {
-        status: true,
-        priority: true,
-        assigneeId: true,
-        dueDate: true,
-        completedAt: true,
-        createdAt: true,
-      },
+    // Fill in whichever neighbour was not given from the column itself
+    const column = { projectId: task.projectId, status, id: { not: taskId } };
+    let after = neighbours.find(n => n.id === data.afterTaskId)?.rank ?? null;
+    let before = neighbours.find(n => n.id === data.beforeTaskId)?.rank ?? null;
+
+    if (after !== null && !data.beforeTaskId) {
+      before = (await this.prisma.task.findFirst({
+        where: { ...column, rank: { gt: after } },
+        orderBy: { rank: 'asc' },
+        select: { rank: true },
+      }))?.rank ?? null;
+    } else if (after === null) {
+      after = (await this.prisma.task.findFirst({
+        where: { ...column, ...(before !== null && { rank: { lt: before } }) },
+        orderBy: { rank: 'desc' },
+        select: { rank: true },
+      }))?.rank ?? null;
+    }
+
+    let rank: string;
+    try {
+      rank = rankBetween(after, before);
+    } catch {
+      throw new ValidationError('afterTaskId must be above beforeTaskId in the column', {
+        afterTaskId: data.afterTaskId,
+        beforeTaskId: data.beforeTaskId,
+      });
+    }
+
+    // Status changes go through the usual workflow and prerequisite checks
+    if (status !== task.status) {
+      await this.updateTask(taskId, userId, { status });
+    }
+
+    await this.prisma.task.update({
+      where: { id: taskId },
+      data: { rank },
     });
 
+    await this.wsService.broadcastToProject(task.projectId, 'task:moved', {
+      taskId,
+      status,
+      rank,
+      afterTaskId: data.afterTaskId ?? null,
+      beforeTaskId: data.beforeTaskId ?? null,
+      movedBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${task.projectId}:*`);
+
+    return (await this.getTaskById(taskId, userId))!;
+  }
+
+  /**
+   * Bulk update task status. Kept for `POST /api/tasks/bulk-status`; see
+   * bulkUpdate for the rules.
+   */
+  async bulkUpdateStatus(taskIds: string[], status: string, userId: string): Promise<number> {
+    const { results } = await this.bulkUpdate(userId, { taskIds, status });
+    return results.length;
+  }
+
+  /**
+   * Apply the same changes to (or delete) many tasks at once. Every task is
+   * checked first and the changes are written in a single transaction: if any
+   * task fails, nothing is changed and the error lists the result per task.
+   */
+  async bulkUpdate(userId: string, operation: BulkTaskOperationDto): Promise<BulkTaskOperationResult> {
+    const taskIds = [...new Set(operation.taskIds)];
+    const targetProjectId = operation.projectId;
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: bulkTaskSelect,
+    });
+    const tasksById = new Map(tasks.map(t => [t.id, t]));
+
+    const projectIds = [...new Set([
+      ...tasks.map(t => t.projectId),
+      ...(targetProjectId ? [targetProjectId] : []),
+    ])];
+    const [projects, members] = await Promise.all([
+      this.prisma.project.findMany({
+        where: { id: { in: projectIds } },
+        select: { id: true, name: true, status: true, metadata: true },
+      }),
+      this.prisma.projectMember.findMany({
+        where: { projectId: { in: projectIds } },
+        select: { projectId: true, userId: true, role: true },
+      }),
+    ]);
+
+    const metadataByProject = new Map(projects.map(p => [p.id, p.metadata]));
+    const membersByProject = new Map<string, Map<string, string>>();
+    for (const member of members) {
+      const roles = membersByProject.get(member.projectId) ?? new Map<string, string>();
+      roles.set(member.userId, member.role);
+      membersByProject.set(member.projectId, roles);
+    }
+
+    // Nothing is changed while any of the user's projects involved is archived
+    assertProjectsWritable(projects.filter(p => membersByProject.get(p.id)?.has(userId)));
+
+    // Check every task and work out its changes
+    const plans: BulkTaskPlan[] = [];
+    const failures = new Map<string, BulkTaskResult>();
+
+    for (const taskId of taskIds) {
+      try {
+        plans.push(this.planBulkChange(tasksById.get(taskId), operation, {
+          userId,
+          taskIds: new Set(taskIds),
+          metadataByProject,
+          membersByProject,
+        }));
+      } catch (error) {
+        failures.set(taskId, this.toBulkFailure(taskId, error));
+      }
+    }
+
+    // A task cannot be completed while prerequisites outside the batch are open
+    const completing = plans.filter(p =>
+      p.status?.category === TaskStatusCategory.DONE &&
+      p.task.statusCategory !== TaskStatusCategory.DONE
+    );
+
+    if (completing.length > 0) {
+      const openPrerequisites = await this.prisma.taskDependency.findMany({
+        where: {
+          taskId: { in: completing.map(p => p.task.id) },
+          dependsOnTaskId: { notIn: completing.map(p => p.task.id) },
+          dependsOnTask: {
+            statusCategory: { not: TaskStatusCategory.DONE },
+          },
+        },
+        include: {
+          dependsOnTask: { select: taskDependencySummarySelect },
+        },
+      });
+
+      const blockedBy = new Map<string, TaskDependencySummary[]>();
+      for (const dependency of openPrerequisites) {
+        blockedBy.set(dependency.taskId, [...(blockedBy.get(dependency.taskId) ?? []), dependency.dependsOnTask]);
+      }
+
+      for (const [taskId, prerequisites] of blockedBy) {
+        failures.set(taskId, {
+          taskId,
+          status: 'validation_error',
+          error: 'Task is blocked by unfinished prerequisites',
+          details: { blockedBy: prerequisites },
+        });
+      }
+    }
+
+    const results: BulkTaskResult[] = taskIds.map(taskId =>
+      failures.get(taskId) ?? { taskId, status: failures.size > 0 ? 'skipped' : 'success' }
+    );
+    const summary = this.summarizeBulkResults(results);
+
+    if (failures.size > 0) {
+      throw new ValidationError(
+        `${failures.size} of ${taskIds.length} tasks cannot be updated; no changes were made`,
+        { results, summary }
+      );
+    }
+
+    // Write everything or nothing
+    const addedAssignments = plans.flatMap(p => p.addedAssigneeIds.map(assigneeId => ({
+      taskId: p.task.id,
+      userId: assigneeId,
+    })));
+
+    const movedIds = plans.filter(p => p.projectId !== p.task.projectId).map(p => p.task.id);
+
+    // Deleted tasks go to the trash with their subtasks
+    const deletedIds = operation.delete ? await this.collectSubtaskIds(taskIds) : [];
+    const snapshotsBefore = operation.delete ? [] : await this.prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: taskSnapshotSelect,
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      if (operation.delete) {
+        await tx.task.updateMany({
+          where: { id: { in: deletedIds } },
+          data: { deletedAt: new Date(), deletedById: userId },
+        });
+        return;
+      }
+
+      for (const plan of plans) {
+        await tx.task.update({
+          where: { id: plan.task.id },
+          data: {
+            ...(operation.priority !== undefined && { priority: operation.priority }),
+            ...(operation.dueDate !== undefined && { dueDate: operation.dueDate }),
+            // External ids are unique per project, so moved tasks lose theirs
+            ...(plan.projectId !== plan.task.projectId && { projectId: plan.projectId, externalId: null, milestoneId: null }),
+            ...(plan.customFields !== undefined && { customFields: plan.customFields }),
+            ...(plan.status !== undefined && enterStatus(plan.status, plan.task, userId)),
+          },
+        });
+      }
+
+      // Discussion (replies included) and attachments move along, as for a
+      // single task
+      if (movedIds.length > 0) {
+        const taskMessages = { OR: [{ taskId: { in: movedIds } }, { parent: { taskId: { in: movedIds } } }] };
+        await tx.attachment.updateMany({
+          where: { OR: [{ taskId: { in: movedIds } }, { message: taskMessages }] },
+          data: { projectId: targetProjectId! },
+        });
+        await tx.message.updateMany({ where: taskMessages, data: { projectId: targetProjectId! } });
+      }
+
+      if (operation.removeAssigneeIds?.length) {
+        await tx.taskAssignment.deleteMany({
+          where: { taskId: { in: taskIds }, userId: { in: operation.removeAssigneeIds } },
+        });
+      }
+
+      if (addedAssignments.length > 0) {
+        await tx.taskAssignment.createMany({ data: addedAssignments, skipDuplicates: true });
+        await tx.taskWatcher.createMany({ data: addedAssignments, skipDuplicates: true });
+      }
+    }, { timeout: 30000 });
+
+    if (operation.delete) {
+      await this.taskHistoryService.record(userId, deletedIds.map(id => ({ taskId: id, action: 'deleted' as const })));
+    } else {
+      const snapshotsAfter = new Map((await this.prisma.task.findMany({
+        where: { id: { in: taskIds } },
+        select: taskSnapshotSelect,
+      })).map(task => [task.id, toTaskSnapshot(task)]));
+      await this.taskHistoryService.record(userId, snapshotsBefore.map(task => ({
+        taskId: task.id,
+        action: 'updated' as const,
+        before: toTaskSnapshot(task),
+        after: snapshotsAfter.get(task.id),
+      })));
+    }
+
+    for (const plan of completing) {
+      if (plan.task.seriesId && plan.task.occurrence) {
+        await this.recurrenceService.generateNextOccurrence(plan.task.seriesId, plan.task.occurrence);
+      }
+    }
+
+    // Parents outside the batch follow their completed or reopened subtasks
+    const parentIds = new Set(plans
+      .filter(p => p.status && (p.status.category === TaskStatusCategory.DONE) !== (p.task.statusCategory === TaskStatusCategory.DONE))
+      .map(p => p.task.parentId)
+      .filter((id): id is string => !!id));
+    for (const parentId of parentIds) {
+      if (!tasksById.has(parentId)) {
+        await this.syncParentStatus(parentId, userId);
+      }
+    }
+
+    // Notify new assignees, and watchers of tasks whose status changed
+    for (const plan of plans) {
+      const notifyIds = plan.addedAssigneeIds.filter(id => id !== userId);
+      if (notifyIds.length > 0) {
+        await this.notificationService.createBulkNotifications(notifyIds, {
+          type: 'TASK_ASSIGNED',
+          title: 'Task Assigned',
+          message: `You have been assigned: ${plan.task.title}`,
+          data: { taskId: plan.task.id, projectId: plan.projectId, assignedBy: userId },
+        });
+      }
+
+      if (plan.status && plan.status.key !== plan.task.status) {
+        await this.watcherService.notifyWatchers(plan.task.id, [userId, ...notifyIds], {
+          type: 'PROJECT_UPDATE',
+          title: 'Task Updated',
+          message: `Task "${plan.task.title}" has been updated: status to ${plan.status.key}`,
+          data: { taskId: plan.task.id, projectId: plan.projectId, updatedBy: userId },
+        });
+      }
+    }
+
+    await this.broadcastBulkChange(plans, operation, userId);
+
+    return { results, summary };
+  }
+
+  /**
+   * Move a task and its subtasks to another project. Its discussion and
+   * attachments move along unless told otherwise; checklists and time entries
+   * always do.
+   */
+  async moveTaskToProject(taskId: string, userId: string, data: TransferTaskDto & { projectId: string }): Promise<TaskTransferResult> {
+    const plan = await this.planTaskTransfer(taskId, userId, data, 'move');
+    const [root] = plan.tasks;
+    const fromProjectId = root!.projectId;
+    const taskIds = plan.tasks.map(t => t.id);
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const task of plan.tasks) {
+        const status = plan.statuses.get(task.id)!;
+        await tx.task.update({
+          where: { id: task.id },
+          data: {
+            projectId: plan.projectId,
+            ...enterStatus(status, task, userId),
+            rank: plan.ranks.get(task.id)!,
+            customFields: plan.customFields.get(task.id)!,
+            externalId: null, // unique per project
+            milestoneId: null,
+            // A moved subtask leaves its parent behind
+            ...(task.id === root!.id && { parentId: null }),
+          },
+        });
+
+        const kept = plan.assigneeIds.get(task.id)!;
+        await tx.taskAssignment.deleteMany({
+          where: { taskId: task.id, userId: { notIn: kept } },
+        });
+      }
+
+      // Subtasks that are not moved stay behind as top-level tasks
+      await tx.task.updateMany({
+        where: { parentId: { in: taskIds }, id: { notIn: taskIds } },
+        data: { parentId: null },
+      });
+
+      if (plan.removedDependencies.length > 0) {
+        await tx.taskDependency.deleteMany({
+          where: { OR: plan.removedDependencies },
+        });
+      }
+
+      // Discussion moves along (replies included) or stays behind in the old
+      // project, unlinked from the task
+      const taskMessages = { OR: [{ taskId: { in: taskIds } }, { parent: { taskId: { in: taskIds } } }] };
+      if (data.includeMessages ?? true) {
+        await tx.attachment.updateMany({
+          where: { message: taskMessages },
+          data: { projectId: plan.projectId },
+        });
+        await tx.message.updateMany({ where: taskMessages, data: { projectId: plan.projectId } });
+      } else {
+        await tx.message.updateMany({ where: { taskId: { in: taskIds } }, data: { taskId: null } });
+      }
+
+      await tx.attachment.updateMany({
+        where: { taskId: { in: taskIds } },
+        data: (data.includeAttachments ?? true) ? { projectId: plan.projectId } : { taskId: null },
+      });
+    }, { timeout: 30000 });
+
+    if (root!.parentId) {
+      await this.syncParentStatus(root!.parentId, userId);
+    }
+
+    for (const projectId of [fromProjectId, plan.projectId]) {
+      await this.wsService.broadcastToProject(projectId, 'task:project_changed', {
+        taskIds,
+        fromProjectId,
+        toProjectId: plan.projectId,
+        movedBy: userId,
+      });
+
+      await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+      await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+      await this.cacheService.invalidatePattern(`messages:project:${projectId}:*`);
+    }
+    for (const id of taskIds) {
+      await this.cacheService.invalidatePattern(`task:${id}:*`);
+    }
+
+    return {
+      task: (await this.getTaskById(taskId, userId))!,
+      taskIds: Object.fromEntries(taskIds.map(id => [id, id])),
+      droppedAssignees: plan.droppedAssignees,
+      removedDependencies: plan.removedDependencies,
+    };
+  }
+
+  /**
+   * Copy a task, with its subtasks and checklists unless told otherwise, into
+   * the same or another project. Time entries and recurrence are not copied.
+   */
+  async duplicateTask(taskId: string, userId: string, data: DuplicateTaskDto): Promise<TaskTransferResult> {
+    const plan = await this.planTaskTransfer(taskId, userId, data, 'duplicate');
+    const [root] = plan.tasks;
+    const sameProject = plan.projectId === root!.projectId;
+    const copyIds = new Map<string, string>();
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const task of plan.tasks) {
+        const status = plan.statuses.get(task.id)!;
+        const copy = await tx.task.create({
+          data: {
+            projectId: plan.projectId,
+            creatorId: userId,
+            title: task.id === root!.id ? data.title ?? task.title : task.title,
+            description: task.description,
+            ...enterStatus(status, null, userId),
+            rank: plan.ranks.get(task.id)!,
+            priority: task.priority,
+            estimateMinutes: task.estimateMinutes,
+            dueDate: task.dueDate,
+            parentId: copyParentId(task, root!.id, sameProject, copyIds),
+            autoComplete: task.autoComplete,
+            customFields: plan.customFields.get(task.id)!,
+            milestoneId: sameProject ? task.milestoneId : null,
+            assignments: {
+              create: plan.assigneeIds.get(task.id)!.map(assigneeId => ({ userId: assigneeId })),
+            },
+            watchers: {
+              create: initialWatcherIds(userId, plan.assigneeIds.get(task.id)!).map(watcherId => ({ userId: watcherId })),
+            },
+            checklistItems: {
+              create: task.checklistItems.map(item => ({
+                title: item.title,
+                isDone: item.isDone,
+                position: item.position,
+              })),
+            },
+          },
+          select: { id: true },
+        });
+        copyIds.set(task.id, copy.id);
+      }
+
+      if (plan.dependencies.length > 0) {
+        await tx.taskDependency.createMany({
+          data: plan.dependencies.map(d => ({
+            taskId: copyIds.get(d.taskId)!,
+            dependsOnTaskId: copyIds.get(d.dependsOnTaskId) ?? d.dependsOnTaskId,
+          })),
+        });
+      }
+
+      const taskIds = [...copyIds.keys()];
+      const messageIds = new Map<string, string>();
+
+      if (data.includeMessages ?? false) {
+        // Oldest first, so replies are copied after the message they answer
+        const messages = await tx.message.findMany({
+          where: { OR: [{ taskId: { in: taskIds } }, { parent: { taskId: { in: taskIds } } }] },
+          orderBy: { createdAt: 'asc' },
+          select: { id: true, taskId: true, authorId: true, parentId: true, body: true, createdAt: true },
+        });
+
+        for (const message of messages) {
+          const copy = await tx.message.create({
+            data: {
+              projectId: plan.projectId,
+              ...copyMessageLinks(message, copyIds, messageIds),
+              authorId: message.authorId,
+              body: message.body,
+              createdAt: message.createdAt,
+            },
+            select: { id: true },
+          });
+          messageIds.set(message.id, copy.id);
+        }
+      }
+
+      // Copies point at the same stored files
+      if (data.includeAttachments ?? false) {
+        const attachments = await tx.attachment.findMany({
+          where: { OR: [{ taskId: { in: taskIds } }, { messageId: { in: [...messageIds.keys()] } }] },
+        });
+
+        if (attachments.length > 0) {
+          await tx.attachment.createMany({
+            data: attachments.map(attachment => ({
+              ownerId: attachment.ownerId,
+              projectId: plan.projectId,
+              taskId: attachment.taskId ? copyIds.get(attachment.taskId) ?? null : null,
+              messageId: attachment.messageId ? messageIds.get(attachment.messageId) ?? null : null,
+              storagePath: attachment.storagePath,
+              filename: attachment.filename,
+              mimeType: attachment.mimeType,
+              sizeBytes: attachment.sizeBytes,
+              createdAt: attachment.createdAt,
+            })),
+          });
+        }
+      }
+    }, { timeout: 30000 });
+
+    const copy = (await this.getTaskById(copyIds.get(taskId)!, userId))!;
+
+    for (const task of plan.tasks) {
+      const notifyIds = plan.assigneeIds.get(task.id)!.filter(id => id !== userId);
+      if (notifyIds.length > 0) {
+        await this.notificationService.createBulkNotifications(notifyIds, {
+          type: 'TASK_ASSIGNED',
+          title: 'New Task Assigned',
+          message: `You have been assigned: ${task.id === root!.id ? copy.title : task.title}`,
+          data: { taskId: copyIds.get(task.id), projectId: plan.projectId, assignedBy: userId },
+        });
+      }
+    }
+
+    await this.wsService.broadcastToProject(plan.projectId, 'task:duplicated', {
+      task: copy,
+      sourceTaskId: taskId,
+      taskIds: [...copyIds.values()],
+      duplicatedBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`project:${plan.projectId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${plan.projectId}:*`);
+    await this.cacheService.invalidatePattern(`messages:project:${plan.projectId}:*`);
+
+    return {
+      task: copy,
+      taskIds: Object.fromEntries(copyIds),
+      droppedAssignees: plan.droppedAssignees,
+      removedDependencies: plan.removedDependencies,
+    };
+  }
+
+  /**
+   * Add a "depends on" link between two tasks of the same project
+   */
+  async addDependency(taskId: string, dependsOnTaskId: string, userId: string): Promise<TaskWithRelations> {
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        id: { in: [taskId, dependsOnTaskId] },
+        project: {
+          members: {
+            some: {
+              userId: userId,
+            },
+          },
+        },
+      },
+      select: {
+        id: true,
+        projectId: true,
+      },
+    });
+
+    const task = tasks.find(t => t.id === taskId);
+    const dependsOnTask = tasks.find(t => t.id === dependsOnTaskId);
+
+    if (!task || !dependsOnTask) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    if (task.projectId !== dependsOnTask.projectId) {
+      throw new ValidationError('Dependencies can only link tasks within the same project');
+    }
+
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    const existing = await this.prisma.taskDependency.findUnique({
+      where: {
+        taskId_dependsOnTaskId: { taskId, dependsOnTaskId },
+      },
+    });
+
+    if (existing) {
+      throw new ConflictError('Dependency already exists');
+    }
+
+    // Reject links that would make the graph cyclic
+    const edges = await this.prisma.taskDependency.findMany({
+      where: {
+        task: { projectId: task.projectId },
+      },
+      select: {
+        taskId: true,
+        dependsOnTaskId: true,
+      },
+    });
+
+    const cycle = findDependencyCycle(edges, taskId, dependsOnTaskId);
+    if (cycle) {
+      throw new ValidationError('Dependency would create a cycle', { cycle: [taskId, ...cycle] });
+    }
+
+    await this.prisma.taskDependency.create({
+      data: { taskId, dependsOnTaskId },
+    });
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:dependency_added', {
+      taskId,
+      dependsOnTaskId,
+      updatedBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+    await this.cacheService.invalidatePattern(`task:${dependsOnTaskId}:*`);
+
+    return (await this.getTaskById(taskId, userId))!;
+  }
+
+  /**
+   * Remove a "depends on" link between two tasks
+   */
+  async removeDependency(taskId: string, dependsOnTaskId: string, userId: string): Promise<void> {
+    const dependency = await this.prisma.taskDependency.findFirst({
+      where: {
+        taskId,
+        dependsOnTaskId,
+        task: {
+          project: {
+            members: {
+              some: {
+                userId: userId,
+              },
+            },
+          },
+        },
+      },
+      include: {
+        task: {
+          select: {
+            projectId: true,
+          },
+        },
+      },
+    });
+
+    if (!dependency) {
+      throw new NotFoundError('Dependency not found or you do not have access');
+    }
+
+    await this.projectStatusService.assertWritable(dependency.task.projectId);
+
+    await this.prisma.taskDependency.delete({
+      where: {
+        taskId_dependsOnTaskId: { taskId, dependsOnTaskId },
+      },
+    });
+
+    await this.wsService.broadcastToProject(dependency.task.projectId, 'task:dependency_removed', {
+      taskId,
+      dependsOnTaskId,
+      updatedBy: userId,
+    });
+
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+    await this.cacheService.invalidatePattern(`task:${dependsOnTaskId}:*`);
+  }
+
+  /**
+   * Get the direct subtasks of a task
+   */
+  async getSubtasks(taskId: string, userId: string): Promise<TaskWithRelations[]> {
+    await this.assertTaskAccess(taskId, userId);
+
+    const subtasks = await this.prisma.task.findMany({
+      where: { parentId: taskId },
+      include: taskRelationsInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return this.attachProgress(subtasks.map(withAssignees)) as unknown as Promise<TaskWithRelations[]>;
+  }
+
+  /**
+   * Create a subtask under an existing task
+   */
+  async createSubtask(parentId: string, data: Omit<CreateTaskDto, 'projectId' | 'parentId'>, userId: string): Promise<TaskWithRelations> {
+    const parent = await this.assertTaskAccess(parentId, userId);
+
+    return this.createTask({ ...data, projectId: parent.projectId, parentId }, userId);
+  }
+
+  /**
+   * Get the checklist of a task
+   */
+  async getChecklist(taskId: string, userId: string) {
+    await this.assertTaskAccess(taskId, userId);
+
+    return this.prisma.checklistItem.findMany({
+      where: { taskId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Add an item to a task's checklist
+   */
+  async addChecklistItem(taskId: string, userId: string, data: CreateChecklistItemDto) {
+    const task = await this.assertTaskAccess(taskId, userId);
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    let position = data.position;
+    if (position === undefined) {
+      const last = await this.prisma.checklistItem.aggregate({
+        where: { taskId },
+        _max: { position: true },
+      });
+      position = (last._max.position ?? -1) + 1;
+    }
+
+    const item = await this.prisma.checklistItem.create({
+      data: {
+        taskId,
+        title: data.title,
+        position,
+      },
+    });
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:checklist_updated', {
+      taskId,
+      item,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+
+    return item;
+  }
+
+  /**
+   * Update a checklist item
+   */
+  async updateChecklistItem(taskId: string, itemId: string, userId: string, data: UpdateChecklistItemDto) {
+    const task = await this.assertTaskAccess(taskId, userId);
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    const existing = await this.prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId },
+    });
+
+    if (!existing) {
+      throw new NotFoundError('Checklist item not found');
+    }
+
+    const item = await this.prisma.checklistItem.update({
+      where: { id: itemId },
+      data: {
+        ...(data.title !== undefined && { title: data.title }),
+        ...(data.isDone !== undefined && { isDone: data.isDone }),
+        ...(data.position !== undefined && { position: data.position }),
+      },
+    });
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:checklist_updated', {
+      taskId,
+      item,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+
+    return item;
+  }
+
+  /**
+   * Remove a checklist item
+   */
+  async deleteChecklistItem(taskId: string, itemId: string, userId: string): Promise<void> {
+    const task = await this.assertTaskAccess(taskId, userId);
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    const deleted = await this.prisma.checklistItem.deleteMany({
+      where: { id: itemId, taskId },
+    });
+
+    if (deleted.count === 0) {
+      throw new NotFoundError('Checklist item not found');
+    }
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:checklist_updated', {
+      taskId,
+      deletedItemId: itemId,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`task:${taskId}:*`);
+  }
+
+  /**
+   * Stop a recurring series so no further occurrences are generated
+   */
+  async stopRecurrence(taskId: string, userId: string): Promise<void> {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          members: {
+            some: {
+              userId: userId,
+            },
+          },
+        },
+      },
+      select: {
+        projectId: true,
+        seriesId: true,
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    await this.projectStatusService.assertWritable(task.projectId);
+
+    if (!task.seriesId) {
+      throw new ValidationError('Task is not part of a recurring series');
+    }
+
+    await this.recurrenceService.stopSeries(task.seriesId);
+  }
+
+  /**
+   * Get task statistics for a project
+   */
+  async getProjectTaskStats(projectId: string, userId: string): Promise<any> {
+    // Verify user has access
+    const member = await this.prisma.projectMember.findFirst({
+      where: {
+        projectId,
+        userId,
+      },
+    });
+
+    if (!member) {
+      throw new Error('You are not a member of this project');
+    }
+
+    // Subtasks roll up into their parent, so only top-level tasks are counted
+    const [tasks, subtaskCount, workflow] = await Promise.all([
+      this.prisma.task.findMany({
+        where: { projectId, parentId: null },
+        select: {
+          status: true,
+          statusCategory: true,
+          priority: true,
+          assignments: { select: { userId: true } },
+          dueDate: true,
+          completedAt: true,
+          createdAt: true,
+        },
+      }),
+      this.prisma.task.count({
+        where: { projectId, parentId: { not: null } },
+      }),
+      this.workflowService.loadWorkflow(projectId),
+    ]);
+
     const now = new Date();
     const stats = {
       total: tasks.length,
-      byStatus: {
-        [TaskStatus.TODO]: 0,
-        [TaskStatus.IN_PROGRESS]: 0,
-        [TaskStatus.DONE]: 0,
-      },
+      subtasks: subtaskCount,
+      byStatus: Object.fromEntries(workflow.statuses.map(s => [s.key, 0])) as Record<string, number>,
+      byCategory: {
+        [TaskStatusCategory.NOT_STARTED]: 0,
+        [TaskStatusCategory.ACTIVE]: 0,
+        [TaskStatusCategory.DONE]: 0,
+      } as Record<string, number>,
       byPriority: {
         [TaskPriority.LOW]: 0,
         [TaskPriority.MEDIUM]: 0,
@@ -615,23 +1928,24 @@ export class TaskService {
 
     for (const task of tasks) {
       // Status stats
-      stats.byStatus[task.status]++;
+      stats.byStatus[task.status] = (stats.byStatus[task.status] ?? 0) + 1;
+      stats.byCategory[task.statusCategory] = (stats.byCategory[task.statusCategory] ?? 0) + 1;
 
       // Priority stats
       stats.byPriority[task.priority]++;
 
       // Unassigned
-      if (!task.assigneeId) {
+      if (task.assignments.length === 0) {
         stats.unassigned++;
       }
 
       // Overdue
-      if (task.dueDate && task.dueDate < now && task.status !== TaskStatus.DONE) {
+      if (task.dueDate && task.dueDate < now && task.statusCategory !== TaskStatusCategory.DONE) {
         stats.overdue++;
       }
 
       // Due soon (next 3 days)
-      if (task.dueDate && task.status !== TaskStatus.DONE) {
+      if (task.dueDate && task.statusCategory !== TaskStatusCategory.DONE) {
         const daysUntilDue = (task.dueDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
         if (daysUntilDue >= 0 && daysUntilDue <= 3) {
           stats.dueSoon++;
@@ -666,7 +1980,9 @@ export class TaskService {
   async getUserTasks(userId: string, filters?: {
     assignedToMe?: boolean;
     createdByMe?: boolean;
-    status?: TaskStatus[];
+    projectIds?: string[];
+    status?: string[];
+    statusCategory?: TaskStatusCategory[];
     dueDateFrom?: Date;
     dueDateTo?: Date;
   }): Promise<TaskWithRelations[]> {
@@ -681,17 +1997,25 @@ export class TaskService {
     };
 
     if (filters?.assignedToMe) {
-      where.assigneeId = userId;
+      where.assignments = { some: { userId } };
     }
 
     if (filters?.createdByMe) {
       where.creatorId = userId;
     }
 
+    if (filters?.projectIds) {
+      where.projectId = { in: filters.projectIds };
+    }
+
     if (filters?.status) {
       where.status = { in: filters.status };
     }
 
+    if (filters?.statusCategory) {
+      where.statusCategory = { in: filters.statusCategory };
+    }
+
     if (filters?.dueDateFrom || filters?.dueDateTo) {
       where.dueDate = {};
       if (filters.dueDateFrom) {
@@ -704,30 +2028,7 @@ export class TaskService {
 
     const tasks = await this.prisma.task.findMany({
       where,
-      include: {
-        assignee: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            avatar: true,
-          },
-        },
-        project: {
-          select: {
-            id: true,
-            name: true,
-          },
-        },
-      },
+      include: taskRelationsInclude,
       orderBy: [
         { dueDate: 'asc' },
         { priority: 'desc' },
@@ -735,7 +2036,595 @@ export class TaskService {
       ],
     });
 
-    return tasks;
+    return tasks.map(withAssignees);
+  }
+
+  // Private helper methods
+
+  /**
+   * The 409 for an update based on a stale version, with the current task
+   */
+  private async editConflict(taskId: string, userId: string): Promise<ConflictError> {
+    const current = await this.getTaskById(taskId, userId);
+
+    return new ConflictError('Task has been changed since you loaded it', {
+      etag: current && entityTag(current.updatedAt),
+      current,
+    });
+  }
+
+  /**
+   * Load a task the user can access through project membership, or throw
+   */
+  private async assertTaskAccess(taskId: string, userId: string): Promise<Task> {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          members: {
+            some: {
+              userId: userId,
+            },
+          },
+        },
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    return task;
+  }
+
+  /**
+   * Add completion counts of direct subtasks and checklist items to each task
+   */
+  private async attachProgress<T extends { id: string }>(tasks: T[]): Promise<(T & { progress: TaskProgress })[]> {
+    if (tasks.length === 0) return [];
+
+    const children = await this.prisma.task.findMany({
+      where: { id: { in: tasks.map(t => t.id) } },
+      select: {
+        id: true,
+        subtasks: { where: { deletedAt: null }, select: { statusCategory: true } },
+        checklistItems: { select: { isDone: true } },
+      },
+    });
+    const byId = new Map(children.map(c => [c.id, c]));
+
+    return tasks.map(task => {
+      const { subtasks = [], checklistItems = [] } = byId.get(task.id) ?? {};
+      return { ...task, progress: rollUpProgress(subtasks, checklistItems) };
+    });
+  }
+
+  /**
+   * Ids of the given tasks and all of their subtasks, level by level. Only
+   * live tasks unless `where` asks otherwise.
+   */
+  private async collectSubtaskIds(taskIds: string[], where: Prisma.TaskWhereInput = {}): Promise<string[]> {
+    const ids = [...taskIds];
+    let parentIds = taskIds;
+
+    while (parentIds.length > 0) {
+      const subtasks = await this.prisma.task.findMany({
+        where: { ...where, parentId: { in: parentIds } },
+        select: { id: true },
+      });
+      parentIds = subtasks.map(t => t.id);
+      ids.push(...parentIds);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Number of ancestors above a task (0 for top-level tasks)
+   */
+  private async getTaskDepth(taskId: string): Promise<number> {
+    return countAncestors(taskId, async (id) => (await this.prisma.task.findUnique({
+      where: { id },
+      select: { parentId: true },
+    }))?.parentId, config.subtaskMaxDepth);
+  }
+
+  /**
+   * Complete a parent with auto-complete enabled once all of its subtasks are
+   * done, and reopen it when one of them is open again. Goes through
+   * updateTask so the change cascades further up.
+   */
+  private async syncParentStatus(parentId: string, userId: string): Promise<void> {
+    const parent = await this.prisma.task.findUnique({
+      where: { id: parentId },
+      select: {
+        statusCategory: true,
+        autoComplete: true,
+        subtasks: { where: { deletedAt: null }, select: { statusCategory: true } },
+        project: { select: { metadata: true } },
+      },
+    });
+
+    const status = parent && parentAutoStatus(parent, getWorkflow(parent.project.metadata));
+    if (!status) {
+      return;
+    }
+
+    try {
+      await this.updateTask(parentId, userId, { status: status.key });
+    } catch (error) {
+      // A parent blocked by open prerequisites or the workflow simply stays open
+      if (!(error instanceof ConflictError) && !(error instanceof ValidationError)) throw error;
+    }
+  }
+
+  /**
+   * Throw unless the milestone belongs to the project
+   */
+  private async assertMilestoneInProject(projectId: string, milestoneId: string): Promise<void> {
+    const milestone = await this.prisma.milestone.findFirst({
+      where: { id: milestoneId, projectId },
+      select: { id: true },
+    });
+
+    if (!milestone) {
+      throw new ValidationError('Milestone must belong to the same project');
+    }
+  }
+
+  /**
+   * Throw unless every user can be assigned to tasks of the project
+   */
+  private async assertAssignable(projectId: string, userIds: string[]): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const members = await this.prisma.projectMember.findMany({
+      where: { projectId, userId: { in: userIds } },
+      select: { userId: true },
+    });
+
+    const outsiders = userIds.filter(id => !members.some(m => m.userId === id));
+    if (outsiders.length > 0) {
+      throw new ValidationError('Assignees must be members of the project', { userIds: outsiders });
+    }
+  }
+
+  /**
+   * Rank that puts a task at the bottom of a column
+   */
+  private async getEndRank(projectId: string, status: string): Promise<string> {
+    const last = await this.prisma.task.findFirst({
+      where: { projectId, status, rank: { not: '' } },
+      orderBy: { rank: 'desc' },
+      select: { rank: true },
+    });
+
+    return rankBetween(last?.rank ?? null, null);
+  }
+
+  /**
+   * Give every task of a column a rank, keeping the order it is shown in.
+   * Only does anything the first time a column with unranked tasks is
+   * reordered.
+   */
+  private async rankColumn(projectId: string, status: string): Promise<void> {
+    const unranked = await this.prisma.task.count({
+      where: { projectId, status, rank: '' },
+    });
+
+    if (unranked === 0) return;
+
+    const tasks = await this.prisma.task.findMany({
+      where: { projectId, status },
+      orderBy: [{ rank: 'asc' }, { createdAt: 'asc' }],
+      select: { id: true },
+    });
+    const ranks = spreadRanks(tasks.length);
+
+    await this.prisma.$transaction(tasks.map((task, index) => this.prisma.task.update({
+      where: { id: task.id },
+      data: { rank: ranks[index]! },
+    })));
+  }
+
+  /**
+   * Check one task of a bulk operation and work out its changes. Throws the
+   * same errors the single-task endpoints would.
+   */
+  private planBulkChange(
+    task: BulkTask | undefined,
+    operation: BulkTaskOperationDto,
+    context: {
+      userId: string;
+      taskIds: Set<string>;
+      metadataByProject: Map<string, Prisma.JsonValue>;
+      membersByProject: Map<string, Map<string, string>>;
+    }
+  ): BulkTaskPlan {
+    const { userId, taskIds, metadataByProject, membersByProject } = context;
+    const role = task && membersByProject.get(task.projectId)?.get(userId);
+
+    if (!task || !role) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    const canManage = task.creatorId === userId ||
+      role === ProjectMemberRole.OWNER ||
+      role === ProjectMemberRole.ADMIN;
+    const plan: BulkTaskPlan = { task, projectId: task.projectId, addedAssigneeIds: [] };
+
+    if (operation.delete) {
+      if (!canManage) {
+        throw new AuthorizationError('Only the task creator or project admins can delete this task');
+      }
+      return plan;
+    }
+
+    // Moves take the whole subtree and all linked tasks along
+    const moving = !!operation.projectId && operation.projectId !== task.projectId;
+    if (moving) {
+      const targetRole = membersByProject.get(operation.projectId!)?.get(userId);
+      if (!targetRole) {
+        throw new AuthorizationError('You are not a member of the target project');
+      }
+      if (targetRole === ProjectMemberRole.VIEWER) {
+        throw new AuthorizationError('Viewers cannot add tasks to a project');
+      }
+      if (!canManage) {
+        throw new AuthorizationError('Only the task creator or project admins can move this task');
+      }
+      if (task.seriesId) {
+        throw new ValidationError('Recurring tasks cannot be moved to another project');
+      }
+      if (task.parentId && !taskIds.has(task.parentId)) {
+        throw new ValidationError('Subtasks can only be moved together with their parent');
+      }
+
+      const subtaskIds = task.subtasks.map(s => s.id).filter(id => !taskIds.has(id));
+      if (subtaskIds.length > 0) {
+        throw new ValidationError('Subtasks must be moved together with their parent', { subtaskIds });
+      }
+
+      const linkedIds = [
+        ...task.dependencies.map(d => d.dependsOnTaskId),
+        ...task.dependents.map(d => d.taskId),
+      ].filter(id => !taskIds.has(id));
+      if (linkedIds.length > 0) {
+        throw new ValidationError('Dependencies can only link tasks within the same project', {
+          taskIds: [...new Set(linkedIds)],
+        });
+      }
+
+      plan.projectId = operation.projectId!;
+    }
+
+    // Status: follows the transition rules, except on entering a new workflow
+    const workflow = getWorkflow(metadataByProject.get(plan.projectId));
+    if (operation.status !== undefined) {
+      plan.status = this.workflowService.resolveStatus(workflow, operation.status);
+      if (!moving) {
+        this.workflowService.assertTransition(workflow, task.status, plan.status.key);
+      }
+    } else if (moving) {
+      plan.status = mapStatusToWorkflow(workflow, task.status, task.statusCategory);
+    }
+
+    // Assignees must belong to the project the task ends up in
+    const projectMembers = membersByProject.get(plan.projectId)!;
+    const removed = new Set(operation.removeAssigneeIds ?? []);
+    const remaining = task.assignments.map(a => a.userId).filter(id => !removed.has(id));
+    plan.addedAssigneeIds = (operation.addAssigneeIds ?? []).filter(id => !remaining.includes(id));
+
+    const outsiders = [...(moving ? remaining : []), ...plan.addedAssigneeIds].filter(id => !projectMembers.has(id));
+    if (outsiders.length > 0) {
+      throw new ValidationError('Assignees must be members of the project', { userIds: outsiders });
+    }
+
+    // Custom fields: labels are added to the `labels` field; a moved task keeps
+    // the values of fields the target project also defines
+    if (moving || operation.addLabels?.length) {
+      const definitions = getCustomFieldDefinitions(metadataByProject.get(plan.projectId));
+      const existing = (task.customFields ?? {}) as CustomFieldValues;
+      const input: Record<string, unknown> = moving
+        ? Object.fromEntries(Object.entries(existing).filter(([key]) => definitions.some(d => d.key === key)))
+        : {};
+
+      if (operation.addLabels?.length) {
+        if (!definitions.some(d => d.key === LABELS_FIELD_KEY && d.type === 'multi_select')) {
+          throw new ValidationError(`Project has no "${LABELS_FIELD_KEY}" multi-select custom field`);
+        }
+        const labels = existing[LABELS_FIELD_KEY];
+        input[LABELS_FIELD_KEY] = [...new Set([...(Array.isArray(labels) ? labels : []), ...operation.addLabels])];
+      }
+
+      const { values, errors } = validateCustomFieldValues(definitions, input, {
+        memberIds: [...projectMembers.keys()],
+      });
+      if (Object.keys(errors).length > 0) {
+        throw new ValidationError('Invalid custom field values', { customFields: errors });
+      }
+
+      plan.customFields = moving ? values : { ...existing, ...values };
+    }
+
+    return plan;
+  }
+
+  /**
+   * Turn the error a task failed a bulk operation with into its result
+   */
+  private toBulkFailure(taskId: string, error: unknown): BulkTaskResult {
+    if (error instanceof NotFoundError) {
+      return { taskId, status: 'not_found', error: error.message };
+    }
+    if (error instanceof AuthorizationError) {
+      return { taskId, status: 'forbidden', error: error.message };
+    }
+    if (error instanceof ValidationError) {
+      return { taskId, status: 'validation_error', error: error.message, ...(error.details && { details: error.details }) };
+    }
+    throw error;
+  }
+
+  private summarizeBulkResults(results: BulkTaskResult[]): Record<BulkTaskResultStatus, number> {
+    const summary = { success: 0, skipped: 0, forbidden: 0, not_found: 0, validation_error: 0 };
+    for (const result of results) {
+      summary[result.status]++;
+    }
+    return summary;
+  }
+
+  /**
+   * Tell every affected project what a bulk operation changed and drop its
+   * cached task lists
+   */
+  private async broadcastBulkChange(plans: BulkTaskPlan[], operation: BulkTaskOperationDto, userId: string): Promise<void> {
+    const changes = [
+      ...(operation.status !== undefined ? ['status'] : []),
+      ...(operation.priority !== undefined ? ['priority'] : []),
+      ...(operation.dueDate !== undefined ? ['dueDate'] : []),
+      ...(operation.projectId !== undefined ? ['projectId'] : []),
+      ...(operation.addAssigneeIds?.length || operation.removeAssigneeIds?.length ? ['assignees'] : []),
+      ...(operation.addLabels?.length ? ['labels'] : []),
+    ];
+
+    const byProject = new Map<string, { updated: string[]; moved: string[]; deleted: string[]; status?: string }>();
+    const forProject = (projectId: string) => {
+      const entry = byProject.get(projectId) ?? { updated: [], moved: [], deleted: [] };
+      byProject.set(projectId, entry);
+      return entry;
+    };
+
+    for (const { task, projectId, status } of plans) {
+      if (operation.delete) {
+        forProject(task.projectId).deleted.push(task.id);
+        continue;
+      }
+
+      const entry = forProject(projectId);
+      entry.updated.push(task.id);
+      if (operation.status !== undefined && status) {
+        entry.status = status.key;
+      }
+      if (projectId !== task.projectId) {
+        forProject(task.projectId).moved.push(task.id);
+      }
+    }
+
+    for (const [projectId, { updated, moved, deleted, status }] of byProject) {
+      if (deleted.length > 0) {
+        await this.wsService.broadcastToProject(projectId, 'tasks:bulk_deleted', {
+          taskIds: deleted,
+          deletedBy: userId,
+        });
+      }
+      if (updated.length > 0) {
+        await this.wsService.broadcastToProject(projectId, 'tasks:bulk_updated', {
+          taskIds: updated,
+          changes,
+          ...(status && { status }),
+          updatedBy: userId,
+        });
+      }
+      if (moved.length > 0) {
+        await this.wsService.broadcastToProject(projectId, 'tasks:bulk_moved', {
+          taskIds: moved,
+          toProjectId: operation.projectId,
+          movedBy: userId,
+        });
+      }
+
+      await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+      await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+      if (moved.length > 0 || operation.projectId === projectId) {
+        await this.cacheService.invalidatePattern(`messages:project:${projectId}:*`);
+      }
+    }
+
+    for (const { task } of plans) {
+      await this.cacheService.invalidatePattern(`task:${task.id}:*`);
+    }
+  }
+
+  /**
+   * Check that a task (and its subtasks) can be moved or copied to the target
+   * project and work out where everything ends up. Throws the validation
+   * errors before anything is written.
+   */
+  private async planTaskTransfer(
+    taskId: string,
+    userId: string,
+    data: TransferTaskDto,
+    mode: 'move' | 'duplicate'
+  ): Promise<TaskTransferPlan> {
+    const source = await this.assertTaskAccess(taskId, userId);
+    const projectId = data.projectId ?? source.projectId;
+
+    if (mode === 'move') {
+      if (projectId === source.projectId) {
+        throw new ValidationError('Task is already in this project');
+      }
+
+      const member = await this.prisma.projectMember.findFirst({
+        where: { projectId: source.projectId, userId },
+        select: { role: true },
+      });
+      if (
+        source.creatorId !== userId &&
+        member?.role !== ProjectMemberRole.OWNER &&
+        member?.role !== ProjectMemberRole.ADMIN
+      ) {
+        throw new AuthorizationError('Only the task creator or project admins can move this task');
+      }
+    }
+
+    const [target, targetMembers] = await Promise.all([
+      this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { metadata: true },
+      }),
+      this.prisma.projectMember.findMany({
+        where: { projectId },
+        select: { userId: true, role: true },
+      }),
+    ]);
+    const role = targetMembers.find(m => m.userId === userId)?.role;
+
+    if (!target || !role) {
+      throw new AuthorizationError('You are not a member of the target project');
+    }
+    if (role === ProjectMemberRole.VIEWER) {
+      throw new AuthorizationError('Viewers cannot add tasks to a project');
+    }
+
+    // Copies can be taken out of an archived project, but not moved
+    await this.projectStatusService.assertWritable(mode === 'move' ? [source.projectId, projectId] : projectId);
+
+    // The task first, then its subtasks level by level
+    const tasks = await this.prisma.task.findMany({
+      where: { id: taskId },
+      include: transferTaskInclude,
+    });
+    let parentIds = (data.includeSubtasks ?? true) ? [taskId] : [];
+    while (parentIds.length > 0) {
+      const subtasks = await this.prisma.task.findMany({
+        where: { parentId: { in: parentIds } },
+        include: transferTaskInclude,
+        orderBy: { createdAt: 'asc' },
+      });
+      tasks.push(...subtasks);
+      parentIds = subtasks.map(t => t.id);
+    }
+
+    const sameProject = projectId === source.projectId;
+
+    if (mode === 'move') {
+      const recurring = tasks.filter(t => t.seriesId).map(t => t.id);
+      if (recurring.length > 0) {
+        throw new ValidationError('Recurring tasks cannot be moved to another project', { taskIds: recurring });
+      }
+    }
+
+    const plan: TaskTransferPlan = {
+      tasks,
+      projectId,
+      statuses: new Map(),
+      ranks: new Map(),
+      customFields: new Map(),
+      assigneeIds: new Map(),
+      dependencies: [],
+      droppedAssignees: [],
+      removedDependencies: [],
+    };
+
+    // Statuses map onto the target workflow; each task goes to the bottom of
+    // its column
+    const workflow = getWorkflow(target.metadata);
+    const lastRanks = new Map<string, string>();
+
+    for (const task of tasks) {
+      const status = mapStatusToWorkflow(workflow, task.status, task.statusCategory);
+      const last = lastRanks.get(status.key);
+      const rank = last !== undefined ? rankBetween(last, null) : await this.getEndRank(projectId, status.key);
+
+      plan.statuses.set(task.id, status);
+      plan.ranks.set(task.id, rank);
+      lastRanks.set(status.key, rank);
+    }
+
+    // Custom fields keep the values of fields the target project also defines
+    const definitions = getCustomFieldDefinitions(target.metadata);
+    const memberIds = targetMembers.map(m => m.userId);
+
+    for (const task of tasks) {
+      const existing = (task.customFields ?? {}) as CustomFieldValues;
+      if (sameProject) {
+        plan.customFields.set(task.id, existing);
+        continue;
+      }
+
+      const { values, errors } = validateCustomFieldValues(
+        definitions,
+        Object.fromEntries(Object.entries(existing).filter(([key]) => definitions.some(d => d.key === key))),
+        { memberIds }
+      );
+      if (Object.keys(errors).length > 0) {
+        throw new ValidationError('Invalid custom field values', { taskId: task.id, customFields: errors });
+      }
+      plan.customFields.set(task.id, values);
+    }
+
+    // Assignees must belong to the target project
+    const assignees = planTransferAssignees(
+      tasks.map(task => ({ id: task.id, assigneeIds: task.assignments.map(a => a.userId) })),
+      memberIds,
+      data
+    );
+    if (assignees.rejected.length > 0) {
+      throw new ValidationError('Assignees must be members of the target project', { assignees: assignees.rejected });
+    }
+    plan.assigneeIds = assignees.assigneeIds;
+    plan.droppedAssignees = assignees.dropped;
+
+    // Dependencies must not link two projects
+    const dependencies = planTransferDependencies(tasks, mode, sameProject, data.crossProjectDependencies);
+    if (dependencies.rejected.length > 0) {
+      throw new ValidationError('Dependencies can only link tasks within the same project', {
+        dependencies: dependencies.rejected,
+      });
+    }
+    plan.dependencies = dependencies.kept;
+    plan.removedDependencies = dependencies.removed;
+
+    return plan;
+  }
+
+  /**
+   * Throw if any of the given tasks still has open prerequisites. Prerequisites
+   * that are part of the same batch count as done.
+   */
+  private async assertPrerequisitesDone(taskIds: string[]): Promise<void> {
+    const openPrerequisites = await this.prisma.taskDependency.findMany({
+      where: {
+        taskId: { in: taskIds },
+        dependsOnTaskId: { notIn: taskIds },
+        dependsOnTask: {
+          statusCategory: { not: TaskStatusCategory.DONE },
+        },
+      },
+      include: {
+        dependsOnTask: { select: taskDependencySummarySelect },
+      },
+    });
+
+    if (openPrerequisites.length > 0) {
+      throw new ConflictError('Task is blocked by unfinished prerequisites', {
+        blockedBy: openPrerequisites.map(d => ({
+          taskId: d.taskId,
+          dependsOnTask: d.dependsOnTask,
+        })),
+      });
+    }
   }
 }
 
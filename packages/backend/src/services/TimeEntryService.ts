@@ -0,0 +1,390 @@
+import { PrismaClient, TimeEntry, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole } from '../types/models';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import { entryDurationSeconds, summarizeByTask, TaskTimeTotal } from '../utils/timeTracking';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { assertProjectsWritable } from './ProjectStatusService';
+
+export interface StartTimerDto {
+  taskId?: string;
+  note?: string;
+}
+
+export interface CreateTimeEntryDto {
+  taskId?: string;
+  startTime: Date;
+  endTime: Date;
+  note?: string;
+}
+
+export interface UpdateTimeEntryDto {
+  taskId?: string | null;
+  startTime?: Date;
+  endTime?: Date;
+  note?: string | null;
+}
+
+export interface TimesheetFilters {
+  userId?: string;
+  projectId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface TaskTimeSummary {
+  trackedMinutes: number;
+  estimateMinutes: number | null;
+  remainingMinutes: number | null;
+  isOverrun: boolean;
+  hasRunningTimer: boolean;
+}
+
+export interface Timesheet {
+  entries: TimeEntry[];
+  totals: (TaskTimeTotal & {
+    task: { id: string; title: string; projectId: string; estimateMinutes: number | null } | null;
+  })[];
+  totalSeconds: number;
+}
+
+const timeEntryTaskSelect = {
+  id: true,
+  title: true,
+  projectId: true,
+  estimateMinutes: true,
+} satisfies Prisma.TaskSelect;
+
+export class TimeEntryService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+  }
+
+  /**
+   * Start a timer for the user. Only one timer may run at a time.
+   */
+  async startTimer(userId: string, data: StartTimerDto): Promise<TimeEntry> {
+    if (data.taskId) {
+      await this.assertTaskAccess(data.taskId, userId);
+    }
+
+    const entry = await this.prisma.$transaction(async (tx) => {
+      const running = await tx.timeEntry.findFirst({
+        where: { userId, endTime: null },
+      });
+
+      if (running) {
+        throw new ConflictError('A timer is already running', { runningEntryId: running.id });
+      }
+
+      return tx.timeEntry.create({
+        data: {
+          userId,
+          taskId: data.taskId ?? null,
+          startTime: new Date(),
+          metadata: this.buildMetadata({}, data.note),
+        },
+        include: { task: { select: timeEntryTaskSelect } },
+      });
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    await this.notifyTaskTimeChanged(entry, userId);
+
+    return entry;
+  }
+
+  /**
+   * Stop the user's running timer
+   */
+  async stopTimer(userId: string): Promise<TimeEntry> {
+    const running = await this.prisma.timeEntry.findFirst({
+      where: { userId, endTime: null },
+    });
+
+    if (!running) {
+      throw new NotFoundError('No timer is running');
+    }
+
+    const endTime = new Date();
+    const entry = await this.prisma.timeEntry.update({
+      where: { id: running.id },
+      data: {
+        endTime,
+        durationSeconds: entryDurationSeconds({ ...running, endTime: null }, endTime),
+      },
+      include: { task: { select: timeEntryTaskSelect } },
+    });
+
+    await this.notifyTaskTimeChanged(entry, userId);
+
+    return entry;
+  }
+
+  /**
+   * Get the user's running timer, if any
+   */
+  async getRunningTimer(userId: string): Promise<TimeEntry | null> {
+    return this.prisma.timeEntry.findFirst({
+      where: { userId, endTime: null },
+      include: { task: { select: timeEntryTaskSelect } },
+    });
+  }
+
+  /**
+   * Record a finished piece of work after the fact
+   */
+  async createEntry(userId: string, data: CreateTimeEntryDto): Promise<TimeEntry> {
+    this.assertValidRange(data.startTime, data.endTime);
+
+    if (data.taskId) {
+      await this.assertTaskAccess(data.taskId, userId);
+    }
+
+    const entry = await this.prisma.timeEntry.create({
+      data: {
+        userId,
+        taskId: data.taskId ?? null,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        durationSeconds: this.durationBetween(data.startTime, data.endTime),
+        metadata: this.buildMetadata({}, data.note),
+      },
+      include: { task: { select: timeEntryTaskSelect } },
+    });
+
+    await this.notifyTaskTimeChanged(entry, userId);
+
+    return entry;
+  }
+
+  /**
+   * Edit one of the user's own entries
+   */
+  async updateEntry(entryId: string, userId: string, data: UpdateTimeEntryDto): Promise<TimeEntry> {
+    const existing = await this.getOwnEntry(entryId, userId);
+
+    const startTime = data.startTime ?? existing.startTime;
+    const endTime = data.endTime ?? existing.endTime;
+
+    if (endTime) {
+      this.assertValidRange(startTime, endTime);
+    }
+
+    if (data.taskId) {
+      await this.assertTaskAccess(data.taskId, userId);
+    }
+
+    const entry = await this.prisma.timeEntry.update({
+      where: { id: entryId },
+      data: {
+        ...(data.taskId !== undefined && { taskId: data.taskId }),
+        startTime,
+        endTime,
+        durationSeconds: endTime ? this.durationBetween(startTime, endTime) : null,
+        ...(data.note !== undefined && {
+          metadata: this.buildMetadata(existing.metadata, data.note),
+        }),
+      },
+      include: { task: { select: timeEntryTaskSelect } },
+    });
+
+    await this.notifyTaskTimeChanged(entry, userId);
+    if (existing.taskId && existing.taskId !== entry.taskId) {
+      await this.notifyTaskTimeChanged(existing, userId);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Delete one of the user's own entries
+   */
+  async deleteEntry(entryId: string, userId: string): Promise<void> {
+    const existing = await this.getOwnEntry(entryId, userId);
+
+    await this.prisma.timeEntry.delete({
+      where: { id: entryId },
+    });
+
+    await this.notifyTaskTimeChanged(existing, userId);
+  }
+
+  /**
+   * Time entries overlapping a date range, with totals per task. Users can
+   * always read their own timesheet; reading someone else's requires a
+   * project and an owner/admin role in it.
+   */
+  async getTimesheet(requesterId: string, filters: TimesheetFilters): Promise<Timesheet> {
+    const userId = filters.userId ?? requesterId;
+
+    if (filters.projectId) {
+      const member = await this.prisma.projectMember.findUnique({
+        where: {
+          projectId_userId: {
+            projectId: filters.projectId,
+            userId: requesterId,
+          },
+        },
+      });
+
+      if (!member) {
+        throw new NotFoundError('Project not found or you do not have access');
+      }
+
+      if (
+        userId !== requesterId &&
+        member.role !== ProjectMemberRole.OWNER &&
+        member.role !== ProjectMemberRole.ADMIN
+      ) {
+        throw new AuthorizationError('Only project owners and admins can view other members\' timesheets');
+      }
+    } else if (userId !== requesterId) {
+      throw new ValidationError('projectId is required to view another user\'s timesheet');
+    }
+
+    const where: Prisma.TimeEntryWhereInput = {
+      userId,
+      ...(filters.projectId && { task: { projectId: filters.projectId } }),
+      ...(filters.to && { startTime: { lte: filters.to } }),
+      ...(filters.from && {
+        OR: [{ endTime: null }, { endTime: { gte: filters.from } }],
+      }),
+    };
+
+    const entries = await this.prisma.timeEntry.findMany({
+      where,
+      include: { task: { select: timeEntryTaskSelect } },
+      orderBy: { startTime: 'desc' },
+    });
+
+    const now = new Date();
+    const tasksById = new Map(
+      entries.filter(e => e.task).map(e => [e.task!.id, e.task!])
+    );
+    const totals = summarizeByTask(entries, now).map(total => ({
+      ...total,
+      task: total.taskId ? tasksById.get(total.taskId) ?? null : null,
+    }));
+
+    return {
+      entries,
+      totals,
+      totalSeconds: totals.reduce((sum, t) => sum + t.totalSeconds, 0),
+    };
+  }
+
+  /**
+   * Tracked time on a task compared to its estimate
+   */
+  async getTaskTimeSummary(taskId: string, estimateMinutes: number | null): Promise<TaskTimeSummary> {
+    const entries = await this.prisma.timeEntry.findMany({
+      where: { taskId },
+      select: {
+        taskId: true,
+        startTime: true,
+        endTime: true,
+        durationSeconds: true,
+      },
+    });
+
+    const [total] = summarizeByTask(entries);
+    const trackedMinutes = Math.round((total?.totalSeconds ?? 0) / 60);
+
+    return {
+      trackedMinutes,
+      estimateMinutes,
+      remainingMinutes: estimateMinutes !== null ? estimateMinutes - trackedMinutes : null,
+      isOverrun: estimateMinutes !== null && trackedMinutes > estimateMinutes,
+      hasRunningTimer: entries.some(e => e.endTime === null),
+    };
+  }
+
+  // Private helper methods
+
+  private async getOwnEntry(entryId: string, userId: string): Promise<TimeEntry> {
+    const entry = await this.prisma.timeEntry.findUnique({
+      where: { id: entryId },
+    });
+
+    if (!entry || entry.userId !== userId) {
+      throw new NotFoundError('Time entry not found');
+    }
+
+    return entry;
+  }
+
+  // Time is booked on tasks the user can access, in projects that are not archived
+  private async assertTaskAccess(taskId: string, userId: string): Promise<void> {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: {
+          members: {
+            some: { userId },
+          },
+        },
+      },
+      select: { id: true, project: { select: { id: true, name: true, status: true } } },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    assertProjectsWritable([task.project]);
+  }
+
+  private assertValidRange(startTime: Date, endTime: Date): void {
+    if (endTime <= startTime) {
+      throw new ValidationError('endTime must be after startTime');
+    }
+  }
+
+  private durationBetween(startTime: Date, endTime: Date): number {
+    return Math.round((endTime.getTime() - startTime.getTime()) / 1000);
+  }
+
+  private buildMetadata(existing: Prisma.JsonValue, note: string | null | undefined): Prisma.InputJsonObject {
+    const metadata = { ...(existing as Prisma.JsonObject | null) };
+
+    if (note) {
+      metadata['note'] = note;
+    } else {
+      delete metadata['note'];
+    }
+
+    return metadata as Prisma.InputJsonObject;
+  }
+
+  private async notifyTaskTimeChanged(entry: TimeEntry, userId: string): Promise<void> {
+    if (!entry.taskId) return;
+
+    const task = await this.prisma.task.findUnique({
+      where: { id: entry.taskId },
+      select: { projectId: true },
+    });
+
+    if (!task) return;
+
+    await this.wsService.broadcastToProject(task.projectId, 'task:time_tracked', {
+      taskId: entry.taskId,
+      entryId: entry.id,
+      userId,
+    });
+    await this.cacheService.invalidatePattern(`task:${entry.taskId}:*`);
+  }
+}
+
+export default TimeEntryService;
@@ -0,0 +1,187 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/environment';
+import { ProjectMemberRole } from '../types/models';
+import { NotFoundError } from '../middleware/errorHandler';
+import { messageExcerpt, projectTrashWhere, purgeCutoff, purgeDate, trashPage } from '../utils/trash';
+
+export type TrashItemType = 'task' | 'message';
+
+export interface TrashFilters {
+  type?: TrashItemType | undefined;
+  limit?: number | undefined;
+  offset?: number | undefined;
+}
+
+export interface TrashUser {
+  id: string;
+  fullName: string | null;
+  email: string;
+}
+
+// Something deleted from a project, with whatever was deleted along with it
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string; // task title or message excerpt
+  taskId: string | null; // task a message discusses
+  deletedAt: Date;
+  deletedBy: TrashUser | null;
+  purgeAt: Date;
+}
+
+export interface TrashedProject {
+  id: string;
+  name: string;
+  description: string | null;
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+export interface TrashPurgeResult {
+  projects: number;
+  tasks: number;
+  messages: number;
+}
+
+/**
+ * Lists the trash and empties it once items are older than the retention
+ * period. Tasks, messages and projects are moved to the trash by their own
+ * services and restored from there; the Prisma middleware in
+ * config/database.ts keeps trashed rows out of every other query.
+ */
+export class TrashService {
+  private prisma: PrismaClient;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * List the tasks and messages in a project's trash, most recently deleted
+   * first. Subtasks and replies deleted along with their parent are left out:
+   * they come back when the parent is restored.
+   */
+  async getProjectTrash(projectId: string, userId: string, filters: TrashFilters = {}): Promise<{
+    items: TrashItem[];
+    total: number;
+  }> {
+    const { type, limit = 50, offset = 0 } = filters;
+
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    const where = projectTrashWhere(projectId);
+    // Enough of each type to fill the requested page once merged
+    const take = offset + limit;
+
+    const [tasks, taskCount, messages, messageCount] = await Promise.all([
+      type === 'message' ? [] : this.prisma.task.findMany({
+        where,
+        select: { id: true, title: true, deletedAt: true, deletedById: true },
+        orderBy: { deletedAt: 'desc' },
+        take,
+      }),
+      type === 'message' ? 0 : this.prisma.task.count({ where }),
+      type === 'task' ? [] : this.prisma.message.findMany({
+        where,
+        select: { id: true, body: true, taskId: true, deletedAt: true, deletedById: true },
+        orderBy: { deletedAt: 'desc' },
+        take,
+      }),
+      type === 'task' ? 0 : this.prisma.message.count({ where }),
+    ]);
+
+    const page = trashPage([
+      ...tasks.map(task => ({ type: 'task' as const, ...task, taskId: null })),
+      ...messages.map(({ body, ...message }) => ({ type: 'message' as const, ...message, title: messageExcerpt(body) })),
+    ], offset, limit);
+
+    const deleters = await this.prisma.user.findMany({
+      where: { id: { in: [...new Set(page.flatMap(item => item.deletedById ? [item.deletedById] : []))] } },
+      select: { id: true, fullName: true, email: true },
+    });
+    const deletersById = new Map(deleters.map(user => [user.id, user]));
+
+    return {
+      items: page.map(({ deletedById, ...item }) => ({
+        ...item,
+        deletedAt: item.deletedAt!,
+        deletedBy: (deletedById && deletersById.get(deletedById)) || null,
+        purgeAt: purgeDate(item.deletedAt!, config.trashRetentionDays),
+      })),
+      total: taskCount + messageCount,
+    };
+  }
+
+  /**
+   * List the deleted projects a user owns
+   */
+  async getDeletedProjects(userId: string): Promise<TrashedProject[]> {
+    const projects = await this.prisma.project.findMany({
+      where: {
+        deletedAt: { not: null },
+        members: { some: { userId, role: ProjectMemberRole.OWNER } },
+      },
+      select: { id: true, name: true, description: true, deletedAt: true },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return projects.map(project => ({
+      ...project,
+      deletedAt: project.deletedAt!,
+      purgeAt: purgeDate(project.deletedAt!, config.trashRetentionDays),
+    }));
+  }
+
+  /**
+   * Permanently delete everything that has been in the trash for longer than
+   * the retention period. Database cascades take subtasks, replies and the
+   * contents of projects along.
+   */
+  async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const where = { deletedAt: { lt: purgeCutoff(now, config.trashRetentionDays) } };
+
+    const projects = await this.prisma.project.deleteMany({ where });
+    const tasks = await this.prisma.task.deleteMany({ where });
+    const messages = await this.prisma.message.deleteMany({ where });
+
+    return { projects: projects.count, tasks: tasks.count, messages: messages.count };
+  }
+
+  /**
+   * Start the periodic purge of the trash
+   */
+  start(intervalMs: number = 60 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.purgeExpired().catch(error => {
+        console.error('Trash purge failed:', error);
+      });
+    };
+
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  /**
+   * Stop the periodic purge
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export default TrashService;
@@ -0,0 +1,160 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { NotFoundError } from '../middleware/errorHandler';
+import { watcherRecipients } from '../utils/watchers';
+import { NotificationService, CreateNotificationDto } from './NotificationService';
+
+export interface TaskWatcherUser {
+  id: string;
+  fullName: string | null;
+  email: string;
+  watchingSince: Date;
+}
+
+const watchedTaskSelect = {
+  id: true,
+  title: true,
+  status: true,
+  statusCategory: true,
+  priority: true,
+  dueDate: true,
+  updatedAt: true,
+  project: { select: { id: true, name: true } },
+} satisfies Prisma.TaskSelect;
+
+export type WatchedTask = Prisma.TaskGetPayload<{ select: typeof watchedTaskSelect }> & { watchingSince: Date };
+
+export class WatcherService {
+  private prisma: PrismaClient;
+  private notificationService: NotificationService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.notificationService = new NotificationService();
+  }
+
+  /**
+   * Get the people watching a task
+   */
+  async getWatchers(taskId: string, userId: string): Promise<TaskWatcherUser[]> {
+    const task = await this.findAccessibleTask(taskId, userId);
+
+    const watchers = await this.prisma.taskWatcher.findMany({
+      where: {
+        taskId,
+        user: { projectMembers: { some: { projectId: task.projectId } } },
+      },
+      select: {
+        createdAt: true,
+        user: { select: { id: true, fullName: true, email: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return watchers.map(w => ({ ...w.user, watchingSince: w.createdAt }));
+  }
+
+  /**
+   * Start watching a task
+   */
+  async watchTask(taskId: string, userId: string): Promise<void> {
+    await this.findAccessibleTask(taskId, userId);
+
+    await this.prisma.taskWatcher.upsert({
+      where: { taskId_userId: { taskId, userId } },
+      create: { taskId, userId },
+      update: {},
+    });
+  }
+
+  /**
+   * Stop watching a task
+   */
+  async unwatchTask(taskId: string, userId: string): Promise<void> {
+    await this.findAccessibleTask(taskId, userId);
+
+    await this.prisma.taskWatcher.deleteMany({
+      where: { taskId, userId },
+    });
+  }
+
+  /**
+   * Get the tasks a user watches, most recently watched first
+   */
+  async getWatchedTasks(userId: string, pagination: {
+    limit?: number | undefined;
+    offset?: number | undefined;
+  } = {}): Promise<{ tasks: WatchedTask[]; total: number }> {
+    const { limit = 50, offset = 0 } = pagination;
+    const where: Prisma.TaskWatcherWhereInput = {
+      userId,
+      task: { project: { members: { some: { userId } } } },
+    };
+
+    const [watches, total] = await Promise.all([
+      this.prisma.taskWatcher.findMany({
+        where,
+        select: { createdAt: true, task: { select: watchedTaskSelect } },
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      this.prisma.taskWatcher.count({ where }),
+    ]);
+
+    return {
+      tasks: watches.map(w => ({ ...w.task, watchingSince: w.createdAt })),
+      total,
+    };
+  }
+
+  /**
+   * Notify everyone watching a task, except `excludeUserIds` (usually whoever
+   * made the change and anyone already told about it). Watchers who have
+   * since left the project are skipped.
+   */
+  async notifyWatchers(
+    taskId: string,
+    excludeUserIds: Iterable<string>,
+    notification: Omit<CreateNotificationDto, 'userId'>
+  ): Promise<void> {
+    const task = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      select: { projectId: true },
+    });
+    if (!task) return;
+
+    const watchers = await this.prisma.taskWatcher.findMany({
+      where: {
+        taskId,
+        user: { projectMembers: { some: { projectId: task.projectId } } },
+      },
+      select: { userId: true },
+    });
+
+    const recipients = watcherRecipients(watchers.map(w => w.userId), excludeUserIds);
+    if (recipients.length > 0) {
+      await this.notificationService.createBulkNotifications(recipients, notification);
+    }
+  }
+
+  // Private helper methods
+
+  private async findAccessibleTask(taskId: string, userId: string) {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        project: { members: { some: { userId } } },
+      },
+      select: { id: true, projectId: true },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task not found or you do not have access');
+    }
+
+    return task;
+  }
+}
+
+export default WatcherService;
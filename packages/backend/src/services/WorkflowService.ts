@@ -0,0 +1,204 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProjectMemberRole } from '../types/models';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../middleware/errorHandler';
+import {
+  Workflow,
+  WorkflowStatus,
+  canTransition,
+  enterStatus,
+  findStatus,
+  getWorkflow,
+  normalizeStatusKey,
+  validateWorkflow,
+} from '../utils/workflow';
+import { CacheService } from './CacheService';
+import { WebSocketService } from './WebSocketService';
+import { ProjectStatusService } from './ProjectStatusService';
+
+export class WorkflowService {
+  private prisma: PrismaClient;
+  private cacheService: CacheService;
+  private wsService: WebSocketService;
+  private projectStatusService: ProjectStatusService;
+
+  constructor() {
+    this.prisma = prisma;
+    this.cacheService = new CacheService();
+    this.wsService = WebSocketService.getInstance();
+    this.projectStatusService = new ProjectStatusService();
+  }
+
+  /**
+   * Get a project's workflow
+   */
+  async getProjectWorkflow(projectId: string, userId: string): Promise<Workflow> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    return this.loadWorkflow(projectId);
+  }
+
+  /**
+   * Replace a project's workflow (owner/admin only). Tasks in statuses that
+   * are removed must be moved with `statusMapping` (old key -> new key).
+   */
+  async updateProjectWorkflow(
+    projectId: string,
+    userId: string,
+    workflow: Workflow,
+    statusMapping: Record<string, string> = {}
+  ): Promise<Workflow> {
+    await this.assertProjectAdmin(projectId, userId);
+    await this.projectStatusService.assertWritable(projectId);
+
+    const errors = validateWorkflow(workflow);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid workflow', { errors });
+    }
+
+    const keys = new Set(workflow.statuses.map(s => s.key));
+    for (const [from, to] of Object.entries(statusMapping)) {
+      if (!keys.has(to)) {
+        throw new ValidationError(`Cannot map "${from}" to unknown status "${to}"`);
+      }
+    }
+
+    // Every status still in use must survive or be mapped
+    const usage = await this.prisma.task.groupBy({
+      by: ['status'],
+      where: { projectId },
+      _count: { _all: true },
+    });
+    const orphaned = usage.filter(u => !keys.has(u.status) && !statusMapping[u.status]);
+
+    if (orphaned.length > 0) {
+      throw new ConflictError('Tasks still use statuses that would be removed', {
+        statuses: Object.fromEntries(orphaned.map(u => [u.status, u._count._all])),
+      });
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      const project = await tx.project.findUnique({
+        where: { id: projectId },
+        select: { metadata: true },
+      });
+
+      await tx.project.update({
+        where: { id: projectId },
+        data: {
+          metadata: {
+            ...(project?.metadata as Prisma.JsonObject),
+            workflow: workflow as unknown as Prisma.InputJsonObject,
+          },
+        },
+      });
+
+      // Mapped tasks, and tasks whose status changed category, enter their
+      // status like any other status change, with history and completion time
+      const changed = await tx.task.findMany({
+        where: {
+          projectId,
+          OR: [
+            { status: { in: Object.keys(statusMapping) } },
+            ...workflow.statuses.map(status => ({ status: status.key, statusCategory: { not: status.category } })),
+          ],
+        },
+        select: { id: true, status: true, statusCategory: true },
+      });
+      for (const task of changed) {
+        const mapped = statusMapping[task.status];
+        await tx.task.update({
+          where: { id: task.id },
+          data: enterStatus(findStatus(workflow, mapped ?? task.status)!, task, userId),
+        });
+      }
+    }, { timeout: 30000 });
+
+    await this.wsService.broadcastToProject(projectId, 'project:workflow_updated', {
+      projectId,
+      workflow,
+      updatedBy: userId,
+    });
+    await this.cacheService.invalidatePattern(`project:${projectId}:*`);
+    await this.cacheService.invalidatePattern(`tasks:project:${projectId}:*`);
+
+    return workflow;
+  }
+
+  /**
+   * Load a project's workflow without an access check
+   */
+  async loadWorkflow(projectId: string): Promise<Workflow> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { metadata: true },
+    });
+
+    if (!project) {
+      throw new NotFoundError('Project not found');
+    }
+
+    return getWorkflow(project.metadata);
+  }
+
+  /**
+   * Look up a status in a workflow, accepting spellings like `IN_PROGRESS`
+   */
+  resolveStatus(workflow: Workflow, status: string): WorkflowStatus {
+    const resolved = findStatus(workflow, normalizeStatusKey(status));
+
+    if (!resolved) {
+      throw new ValidationError(`Unknown status "${status}"`, {
+        allowed: workflow.statuses.map(s => s.key),
+      });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Throw if the workflow does not allow moving from one status to another
+   */
+  assertTransition(workflow: Workflow, from: string, to: string): void {
+    if (!canTransition(workflow, from, to)) {
+      throw new ValidationError(`Cannot move a task from "${from}" to "${to}"`, {
+        from,
+        to,
+        allowed: workflow.transitions?.[from] ?? [],
+      });
+    }
+  }
+
+  // Private helper methods
+
+  private async assertProjectAdmin(projectId: string, userId: string): Promise<void> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    if (member.role !== ProjectMemberRole.OWNER && member.role !== ProjectMemberRole.ADMIN) {
+      throw new AuthorizationError('Only project owners and admins can change the workflow');
+    }
+  }
+}
+
+export default WorkflowService;
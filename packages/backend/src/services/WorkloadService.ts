@@ -0,0 +1,189 @@
+import { PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config/environment';
+import { ProjectMemberRole, TaskStatusCategory } from '../types/models';
+import { AuthorizationError, NotFoundError } from '../middleware/errorHandler';
+import { buildWorkload, startOfWeek, Workload, WorkloadAssignment, WorkloadWeek } from '../utils/workload';
+
+export interface WorkloadOptions {
+  from?: Date | undefined; // any day of the first week, defaults to this week
+  weeks?: number | undefined;
+}
+
+// A week of someone's workload. Minutes from projects the viewer is not a
+// member of are only shown as a total.
+export interface MemberWorkloadWeek extends Omit<WorkloadWeek, 'projectMinutes'> {
+  projects: { projectId: string; name: string; minutes: number }[];
+  otherProjectsMinutes: number;
+}
+
+export interface MemberWorkload extends Omit<Workload, 'weeks'> {
+  user: { id: string; fullName: string | null; email: string };
+  role?: string;
+  capacityMinutes: number;
+  weeks: MemberWorkloadWeek[];
+}
+
+export interface ProjectWorkload {
+  projectId: string;
+  weekStarts: string[];
+  members: MemberWorkload[];
+  overAllocatedUserIds: string[];
+}
+
+const DEFAULT_WEEKS = 4;
+
+interface WorkloadUser {
+  id: string;
+  fullName: string | null;
+  email: string;
+  weeklyCapacityMinutes: number | null;
+}
+
+export class WorkloadService {
+  private prisma: PrismaClient;
+
+  constructor() {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Weekly workload of every member of a project. Each person's load counts
+   * their open tasks in all projects, since that is what fills their week.
+   */
+  async getProjectWorkload(projectId: string, userId: string, options: WorkloadOptions = {}): Promise<ProjectWorkload> {
+    const member = await this.prisma.projectMember.findUnique({
+      where: {
+        projectId_userId: { projectId, userId },
+      },
+    });
+
+    if (!member) {
+      throw new NotFoundError('Project not found or you do not have access');
+    }
+
+    const members = await this.prisma.projectMember.findMany({
+      where: { projectId, role: { not: ProjectMemberRole.VIEWER } },
+      select: {
+        role: true,
+        user: { select: { id: true, fullName: true, email: true, weeklyCapacityMinutes: true } },
+      },
+      orderBy: { joinedAt: 'asc' },
+    });
+
+    const workloads = await this.buildWorkloads(members.map(m => m.user), userId, options);
+    const result = members.map((m, i) => ({ ...workloads[i]!, role: m.role }));
+
+    return {
+      projectId,
+      weekStarts: result[0]?.weeks.map(w => w.weekStart) ?? [],
+      members: result,
+      overAllocatedUserIds: result.filter(w => w.overAllocated).map(w => w.user.id),
+    };
+  }
+
+  /**
+   * Weekly workload of one person across all their projects. Anyone can see
+   * their own; owners and admins can see the people in their projects.
+   */
+  async getUserWorkload(targetUserId: string, userId: string, options: WorkloadOptions = {}): Promise<MemberWorkload> {
+    if (targetUserId !== userId) {
+      const managed = await this.prisma.projectMember.findFirst({
+        where: {
+          userId,
+          role: { in: [ProjectMemberRole.OWNER, ProjectMemberRole.ADMIN] },
+          project: { members: { some: { userId: targetUserId } } },
+        },
+      });
+
+      if (!managed) {
+        throw new AuthorizationError('You can only see the workload of people in projects you manage');
+      }
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: targetUserId },
+      select: { id: true, fullName: true, email: true, weeklyCapacityMinutes: true },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+
+    const [workload] = await this.buildWorkloads([user], userId, options);
+    return workload!;
+  }
+
+  // Private helper methods
+
+  private async buildWorkloads(users: WorkloadUser[], viewerId: string, options: WorkloadOptions): Promise<MemberWorkload[]> {
+    const from = startOfWeek(options.from ?? new Date());
+    const weeks = options.weeks ?? DEFAULT_WEEKS;
+
+    const assignments = await this.prisma.taskAssignment.findMany({
+      where: {
+        userId: { in: users.map(u => u.id) },
+        task: { statusCategory: { not: TaskStatusCategory.DONE } },
+      },
+      select: {
+        userId: true,
+        task: {
+          select: {
+            id: true,
+            projectId: true,
+            estimateMinutes: true,
+            dueDate: true,
+            _count: { select: { assignments: true } },
+          },
+        },
+      },
+    });
+
+    const visibleProjects = new Map(
+      (await this.prisma.project.findMany({
+        where: {
+          id: { in: [...new Set(assignments.map(a => a.task.projectId))] },
+          members: { some: { userId: viewerId } },
+        },
+        select: { id: true, name: true },
+      })).map(p => [p.id, p.name])
+    );
+
+    return users.map(user => {
+      const capacityMinutes = user.weeklyCapacityMinutes ?? config.weeklyCapacityMinutes;
+      const workload = buildWorkload(
+        assignments
+          .filter(a => a.userId === user.id)
+          .map((a): WorkloadAssignment => ({
+            taskId: a.task.id,
+            projectId: a.task.projectId,
+            estimateMinutes: a.task.estimateMinutes,
+            dueDate: a.task.dueDate,
+            assigneeCount: a.task._count.assignments,
+          })),
+        { from, weeks, capacityMinutes }
+      );
+
+      return {
+        ...workload,
+        user: { id: user.id, fullName: user.fullName, email: user.email },
+        capacityMinutes,
+        weeks: workload.weeks.map(({ projectMinutes, ...week }) => {
+          const projects = Object.entries(projectMinutes)
+            .filter(([projectId]) => visibleProjects.has(projectId))
+            .map(([projectId, minutes]) => ({ projectId, name: visibleProjects.get(projectId)!, minutes }));
+
+          return {
+            ...week,
+            projects,
+            otherProjectsMinutes: Object.entries(projectMinutes)
+              .filter(([projectId]) => !visibleProjects.has(projectId))
+              .reduce((sum, [, minutes]) => sum + minutes, 0),
+          };
+        }),
+      };
+    });
+  }
+}
+
+export default WorkloadService;
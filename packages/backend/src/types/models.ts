@@ -15,13 +15,29 @@ export enum ProjectMemberRole {
   VIEWER = 'viewer'
 }
 
+// Archived projects are read-only and left out of project lists by default
+export enum ProjectStatus {
+  ACTIVE = 'active',
+  ARCHIVED = 'archived',
+  DELETED = 'deleted'
+}
+
+// Statuses of the default workflow. Projects can define their own; see
+// utils/workflow.ts
 export enum TaskStatus {
   TODO = 'todo',
   IN_PROGRESS = 'in_progress',
+  REVIEW = 'review',
   DONE = 'done',
   BLOCKED = 'blocked'
 }
 
+export enum TaskStatusCategory {
+  NOT_STARTED = 'not_started',
+  ACTIVE = 'active',
+  DONE = 'done'
+}
+
 export enum TaskPriority {
   LOW = 1,
   MEDIUM_LOW = 2,
@@ -81,7 +97,7 @@ export interface ProjectMemberWithProject extends ProjectMember {
 
 export interface TaskWithRelations extends Task {
   project?: Partial<Project>;
-  assignee?: Partial<User> | null;
+  assignees?: Partial<User>[];
   creator?: Partial<User>;
 }
 
@@ -110,6 +126,7 @@ export interface UpdateUserInput {
   fullName?: string;
   isActive?: boolean;
   preferences?: Record<string, any>;
+  weeklyCapacityMinutes?: number | null;
 }
 
 export interface CreateProjectInput {
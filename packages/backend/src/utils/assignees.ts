@@ -0,0 +1,39 @@
+/**
+ * Task assignees: filtering by assignee and working out who an update adds
+ * or removes. A task can have any number of assignees.
+ */
+
+import { Prisma } from '@prisma/client';
+
+export type AssigneeMatch = 'any' | 'all';
+
+/**
+ * Conditions for tasks assigned to any (or all) of the given users
+ */
+export const assigneeConditions = (
+  assigneeIds: string | string[],
+  match: AssigneeMatch = 'any'
+): Prisma.TaskWhereInput[] => {
+  const ids = [...new Set([assigneeIds].flat())];
+
+  return match === 'all'
+    ? ids.map(id => ({ assignments: { some: { userId: id } } }))
+    : [{ assignments: { some: { userId: { in: ids } } } }];
+};
+
+/**
+ * Who an update that replaces the assignees with `next` adds and removes.
+ * Without `next` the assignees stay as they are.
+ */
+export const diffAssignees = (
+  previous: string[],
+  next: string[] | undefined
+): { assigneeIds: string[] | undefined; added: string[]; removed: string[] } => {
+  const assigneeIds = next && [...new Set(next)];
+
+  return {
+    assigneeIds,
+    added: assigneeIds?.filter(id => !previous.includes(id)) ?? [],
+    removed: assigneeIds ? previous.filter(id => !assigneeIds.includes(id)) : [],
+  };
+};
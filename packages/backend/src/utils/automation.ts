@@ -0,0 +1,209 @@
+/**
+ * Project automation rules: when a trigger fires and every condition holds,
+ * the rule's actions run.
+ *
+ * Conditions read fields of the task the event is about (`status`,
+ * `priority`, `customFields.<key>`, ...), of the task before the change
+ * (`previous.<field>`, updates only) and of the message (`message.body`,
+ * `message.authorId`, new messages only). Text in actions may use the same
+ * fields as `{{task.title}}` placeholders.
+ */
+
+export const AUTOMATION_TRIGGERS = ['task.created', 'task.updated', 'task.stale', 'message.created'] as const;
+
+export type AutomationTrigger = typeof AUTOMATION_TRIGGERS[number];
+
+export const AUTOMATION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'in',
+  'not_in',
+  'contains',
+  'gte',
+  'lte',
+  'is_set',
+  'is_not_set',
+  'changed',
+  'changed_to',
+] as const;
+
+export type AutomationOperator = typeof AUTOMATION_OPERATORS[number];
+
+export interface AutomationCondition {
+  field: string;
+  operator: AutomationOperator;
+  value?: unknown;
+}
+
+export const AUTOMATION_ACTION_TYPES = ['notify', 'assign', 'set_status', 'set_priority', 'post_message'] as const;
+
+export type AutomationAction =
+  | { type: 'notify'; to: 'creator' | 'assignees' | 'watchers' | string[]; title?: string; message: string }
+  | { type: 'assign'; userIds: string[]; replace?: boolean }
+  | { type: 'set_status'; status: string }
+  | { type: 'set_priority'; priority: number }
+  | { type: 'post_message'; body: string };
+
+// The fields of a task rules can look at
+export interface AutomationTaskFields {
+  id: string;
+  title: string;
+  status: string;
+  statusCategory: string;
+  priority: number;
+  creatorId: string | null;
+  assigneeIds: string[];
+  dueDate: Date | null;
+  milestoneId: string | null;
+  customFields: Record<string, unknown>;
+}
+
+export interface AutomationSubject {
+  task: AutomationTaskFields | null;
+  previous?: AutomationTaskFields | undefined;
+  message?: { id: string; body: string; authorId: string | null } | undefined;
+}
+
+const TASK_FIELDS = [
+  'id',
+  'title',
+  'status',
+  'statusCategory',
+  'priority',
+  'creatorId',
+  'assigneeIds',
+  'dueDate',
+  'milestoneId',
+] as const satisfies readonly (keyof AutomationTaskFields)[];
+
+const MESSAGE_FIELDS = ['id', 'body', 'authorId'];
+
+/**
+ * Whether conditions and templates can refer to a field
+ */
+export const isAutomationField = (field: string): boolean => {
+  const parts = field.split('.');
+  if (parts[0] === 'message') {
+    return parts.length === 2 && MESSAGE_FIELDS.includes(parts[1]!);
+  }
+  if (parts[0] === 'task' || parts[0] === 'previous') {
+    parts.shift();
+  }
+  if (parts[0] === 'customFields') {
+    return parts.length === 2 && parts[1] !== '';
+  }
+  return parts.length === 1 && (TASK_FIELDS as readonly string[]).includes(parts[0]!);
+};
+
+/**
+ * Read a field such as `priority`, `previous.status`, `customFields.area` or
+ * `message.body`. Unknown fields read as undefined.
+ */
+export const getFieldValue = (subject: AutomationSubject, field: string): unknown => {
+  const [head, ...rest] = field.split('.');
+  let value: unknown;
+
+  if (head === 'message' || head === 'previous' || head === 'task') {
+    value = head === 'task' ? subject.task : subject[head];
+  } else {
+    value = subject.task;
+    rest.unshift(head!);
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+
+  return value;
+};
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const comparable = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value);
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(comparable(a)) === JSON.stringify(comparable(b));
+
+// Lists match when they share an element, so `assigneeIds equals x` means "x is an assignee"
+const matches = (actual: unknown, expected: unknown): boolean =>
+  Array.isArray(actual) && !Array.isArray(expected)
+    ? actual.some(item => sameValue(item, expected))
+    : sameValue(actual, expected);
+
+/**
+ * Whether a single condition holds
+ */
+export const evaluateCondition = (condition: AutomationCondition, subject: AutomationSubject): boolean => {
+  const actual = getFieldValue(subject, condition.field);
+  const expected = condition.value;
+  const options = Array.isArray(expected) ? expected : [expected];
+
+  switch (condition.operator) {
+    case 'equals':
+      return matches(actual, expected);
+    case 'not_equals':
+      return !matches(actual, expected);
+    case 'in':
+      return options.some(option => matches(actual, option));
+    case 'not_in':
+      return !options.some(option => matches(actual, option));
+    case 'contains':
+      return typeof actual === 'string' && typeof expected === 'string'
+        ? actual.toLowerCase().includes(expected.toLowerCase())
+        : matches(actual, expected);
+    case 'gte':
+    case 'lte': {
+      const [a, b] = [comparable(actual), comparable(expected)];
+      if (a === undefined || a === null || typeof a !== typeof b) return false;
+      return condition.operator === 'gte' ? (a as number) >= (b as number) : (a as number) <= (b as number);
+    }
+    case 'is_set':
+      return !isEmpty(actual);
+    case 'is_not_set':
+      return isEmpty(actual);
+    case 'changed':
+    case 'changed_to': {
+      if (!subject.previous) return false;
+      const before = getFieldValue({ ...subject, task: subject.previous }, condition.field);
+      if (sameValue(before, actual)) return false;
+      return condition.operator === 'changed' || sameValue(actual, expected);
+    }
+  }
+};
+
+/**
+ * Whether every condition holds; no conditions always hold
+ */
+export const evaluateConditions = (conditions: AutomationCondition[], subject: AutomationSubject): boolean =>
+  conditions.every(condition => evaluateCondition(condition, subject));
+
+// Rules fired by a change a rule made, and so on, stop after this many steps
+export const MAX_AUTOMATION_DEPTH = 5;
+
+/**
+ * Why a rule must not run as part of a chain of rules (the ids of the rules
+ * whose actions led to this event, oldest first), or null if it may
+ */
+export const chainBlockReason = (chain: string[], ruleId: string): string | null => {
+  if (chain.includes(ruleId)) {
+    return 'Rule already ran earlier in this chain of automations';
+  }
+  if (chain.length >= MAX_AUTOMATION_DEPTH) {
+    return `Chain of automations is longer than ${MAX_AUTOMATION_DEPTH} rules`;
+  }
+  return null;
+};
+
+/**
+ * Fill `{{field}}` placeholders with values from the subject
+ */
+export const renderTemplate = (template: string, subject: AutomationSubject): string =>
+  template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, field: string) => {
+    const value = getFieldValue(subject, field);
+    if (value === undefined || value === null) return '';
+    return Array.isArray(value) ? value.join(', ') : String(comparable(value));
+  });
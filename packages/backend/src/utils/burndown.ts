@@ -0,0 +1,121 @@
+/**
+ * Burndown charts for sprints and milestones, rebuilt from task status history.
+ *
+ * Each day of the range gets one point, measured at the end of that day in
+ * UTC (or now, for today). Scope counts the tasks that existed at that point;
+ * completed counts those whose status was in the done category. Days that
+ * have not started yet have no measurements, only the ideal line.
+ */
+import { TaskStatusCategory } from '../types/models';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BurndownTask {
+  estimateMinutes: number | null;
+  createdAt: Date;
+  /** Status category changes, oldest first */
+  history: { category: string; at: Date }[];
+}
+
+export interface BurndownPoint {
+  date: string;
+  idealTasks: number;
+  idealMinutes: number;
+  scopeTasks: number | null;
+  scopeMinutes: number | null;
+  completedTasks: number | null;
+  completedMinutes: number | null;
+  remainingTasks: number | null;
+  remainingMinutes: number | null;
+}
+
+/**
+ * The status category of a task at a point in time, or null if the task did
+ * not exist yet
+ */
+export const categoryAt = (task: BurndownTask, at: Date): string | null => {
+  if (task.createdAt > at) {
+    return null;
+  }
+
+  let category: string = TaskStatusCategory.NOT_STARTED;
+  for (const change of task.history) {
+    if (change.at > at) break;
+    category = change.category;
+  }
+
+  return category;
+};
+
+const startOfDay = (date: Date): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const measure = (tasks: BurndownTask[], at: Date) => {
+  let scopeTasks = 0;
+  let scopeMinutes = 0;
+  let completedTasks = 0;
+  let completedMinutes = 0;
+
+  for (const task of tasks) {
+    const category = categoryAt(task, at);
+    if (category === null) continue;
+
+    scopeTasks++;
+    scopeMinutes += task.estimateMinutes ?? 0;
+    if (category === TaskStatusCategory.DONE) {
+      completedTasks++;
+      completedMinutes += task.estimateMinutes ?? 0;
+    }
+  }
+
+  return { scopeTasks, scopeMinutes, completedTasks, completedMinutes };
+};
+
+/**
+ * One point per day from startDate to endDate, both inclusive. The ideal line
+ * falls evenly from the scope at the end of the first day to zero at the end
+ * of the last.
+ */
+export const buildBurndown = (
+  tasks: BurndownTask[],
+  startDate: Date,
+  endDate: Date,
+  now: Date = new Date()
+): BurndownPoint[] => {
+  const first = startOfDay(startDate);
+  const days = Math.floor((startOfDay(endDate) - first) / DAY_MS) + 1;
+  if (days < 1) {
+    throw new Error('End date must not be before start date');
+  }
+
+  const endOfDay = (index: number) => new Date(Math.min(first + (index + 1) * DAY_MS - 1, now.getTime()));
+  const baseline = measure(tasks, endOfDay(0));
+
+  const points: BurndownPoint[] = [];
+  for (let i = 0; i < days; i++) {
+    const share = (days - i - 1) / days;
+    const point: BurndownPoint = {
+      date: new Date(first + i * DAY_MS).toISOString().slice(0, 10),
+      idealTasks: Math.round(baseline.scopeTasks * share * 10) / 10,
+      idealMinutes: Math.round(baseline.scopeMinutes * share),
+      scopeTasks: null,
+      scopeMinutes: null,
+      completedTasks: null,
+      completedMinutes: null,
+      remainingTasks: null,
+      remainingMinutes: null,
+    };
+
+    if (first + i * DAY_MS <= now.getTime()) {
+      const values = measure(tasks, endOfDay(i));
+      Object.assign(point, values, {
+        remainingTasks: values.scopeTasks - values.completedTasks,
+        remainingMinutes: values.scopeMinutes - values.completedMinutes,
+      });
+    }
+
+    points.push(point);
+  }
+
+  return points;
+};
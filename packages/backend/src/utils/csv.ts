@@ -0,0 +1,87 @@
+/**
+ * Reading and writing CSV (RFC 4180) for task import and export.
+ *
+ * Cells that a spreadsheet would run as a formula (starting with `=`, `+`, `-`,
+ * `@`, a tab or a carriage return) are written with a leading `'`, which
+ * parseCsv removes again so an export can be imported unchanged.
+ */
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells, doubled quotes,
+ * CRLF line endings and a leading byte order mark. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 0;
+
+  const endCell = () => {
+    row.push(cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!;
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+      line++;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted cell starting on line ${quoteLine}`);
+  }
+  endRow();
+
+  return rows;
+};
+
+const formatCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows of cells as CSV text with CRLF line endings
+ */
+export const toCsv = (rows: unknown[][]): string =>
+  rows.map(row => row.map(formatCell).join(',')).join('\r\n') + '\r\n';
@@ -0,0 +1,170 @@
+/**
+ * Per-project custom fields on tasks.
+ *
+ * Definitions live in `Project.metadata.customFields`; values live in
+ * `Task.customFields`, keyed by the definition's `key`. Values are stored in a
+ * JSON-friendly normalised form: dates as ISO strings, multi-selects and
+ * users as given, numbers as numbers.
+ */
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi_select' | 'user';
+
+export const CUSTOM_FIELD_TYPES: CustomFieldType[] = ['text', 'number', 'date', 'select', 'multi_select', 'user'];
+
+// Key of the multi-select field bulk operations add labels to
+export const LABELS_FIELD_KEY = 'labels';
+
+export const CUSTOM_FIELD_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export interface CustomFieldDefinition {
+  key: string;
+  name: string;
+  type: CustomFieldType;
+  options?: string[];
+  required?: boolean;
+}
+
+export type CustomFieldValue = string | number | string[];
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomFieldValidationOptions {
+  // Ids of project members, used to validate `user` fields
+  memberIds?: string[] | undefined;
+  // Whether missing required fields are an error (true on create)
+  enforceRequired?: boolean | undefined;
+}
+
+export interface CustomFieldValidationResult {
+  values: CustomFieldValues;
+  errors: Record<string, string>;
+}
+
+/**
+ * Read the custom field definitions out of a project's metadata
+ */
+export const getCustomFieldDefinitions = (metadata: unknown): CustomFieldDefinition[] => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return [];
+  }
+
+  const fields = (metadata as Record<string, unknown>)['customFields'];
+  return Array.isArray(fields) ? fields as CustomFieldDefinition[] : [];
+};
+
+/**
+ * Normalise a single value, or return an error message
+ */
+export const normalizeCustomFieldValue = (
+  definition: CustomFieldDefinition,
+  value: unknown,
+  memberIds?: string[]
+): { value: CustomFieldValue } | { error: string } => {
+  switch (definition.type) {
+    case 'text':
+      if (typeof value !== 'string') return { error: 'must be a string' };
+      if (value.length > 1000) return { error: 'must be at most 1000 characters' };
+      return { value };
+
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return { error: 'must be a number' };
+      return { value: number };
+    }
+
+    case 'date': {
+      const date = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) return { error: 'must be a valid date' };
+      return { value: date.toISOString() };
+    }
+
+    case 'select':
+      if (typeof value !== 'string' || !definition.options?.includes(value)) {
+        return { error: `must be one of: ${(definition.options ?? []).join(', ')}` };
+      }
+      return { value };
+
+    case 'multi_select': {
+      if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || !definition.options?.includes(v))) {
+        return { error: `must be a list of: ${(definition.options ?? []).join(', ')}` };
+      }
+      return { value: [...new Set(value as string[])] };
+    }
+
+    case 'user':
+      if (typeof value !== 'string') return { error: 'must be a user id' };
+      if (memberIds && !memberIds.includes(value)) return { error: 'must be a member of the project' };
+      return { value };
+  }
+};
+
+/**
+ * Validate task values against the project's definitions. `null` clears a
+ * value (unless the field is required). Unknown keys are reported as errors.
+ */
+export const validateCustomFieldValues = (
+  definitions: CustomFieldDefinition[],
+  input: Record<string, unknown>,
+  options: CustomFieldValidationOptions = {}
+): CustomFieldValidationResult => {
+  const byKey = new Map(definitions.map(d => [d.key, d]));
+  const values: CustomFieldValues = {};
+  const errors: Record<string, string> = {};
+
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = byKey.get(key);
+
+    if (!definition) {
+      errors[key] = 'is not a custom field of this project';
+      continue;
+    }
+
+    if (raw === null || raw === undefined) {
+      if (definition.required) {
+        errors[key] = 'is required';
+      }
+      continue;
+    }
+
+    const result = normalizeCustomFieldValue(definition, raw, options.memberIds);
+    if ('error' in result) {
+      errors[key] = result.error;
+    } else {
+      values[key] = result.value;
+    }
+  }
+
+  if (options.enforceRequired) {
+    for (const definition of definitions) {
+      if (definition.required && values[definition.key] === undefined && !errors[definition.key]) {
+        errors[definition.key] = 'is required';
+      }
+    }
+  }
+
+  return { values, errors };
+};
+
+/**
+ * Compare two custom field values for sorting. Missing values always sort
+ * last, whatever the direction.
+ */
+export const compareCustomFieldValues = (
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined,
+  sortOrder: 'asc' | 'desc' = 'asc'
+): number => {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+
+  const direction = sortOrder === 'asc' ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return (a - b) * direction;
+  }
+
+  const left = Array.isArray(a) ? a.join(',') : String(a);
+  const right = Array.isArray(b) ? b.join(',') : String(b);
+  return left.localeCompare(right) * direction;
+};
@@ -0,0 +1,42 @@
+/**
+ * Entity tags for optimistic concurrency on task and project updates.
+ *
+ * The tag of a record is its `updatedAt` in quotes, e.g.
+ * `"2024-12-02T09:00:00.000Z"`. Every write moves `updatedAt` on, and it is
+ * already part of every task and project response, so a client holding a
+ * record from a list can send `If-Match` without fetching it again.
+ */
+
+/**
+ * The entity tag of a record last updated at `updatedAt`. Cached records
+ * carry the date as a string.
+ */
+export const entityTag = (updatedAt: Date | string): string =>
+  `"${new Date(updatedAt).toISOString()}"`;
+
+/**
+ * The entity tags listed in an `If-Match` header, `'*'` for any, or `null`
+ * when the header is missing or empty. Unquoted values are taken as they are,
+ * and weak tags are compared like strong ones since proxies may weaken them.
+ */
+export const parseIfMatch = (header: string | string[] | undefined): string[] | '*' | null => {
+  const value = Array.isArray(header) ? header.join(',') : header;
+  const tags = (value ?? '')
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .filter(tag => tag.length > 0);
+
+  if (tags.length === 0) return null;
+  if (tags.includes('*')) return '*';
+
+  return tags.map(tag => tag.startsWith('"') && tag.endsWith('"') && tag.length > 1 ? tag : `"${tag}"`);
+};
+
+/**
+ * Whether a record last updated at `updatedAt` satisfies an `If-Match`
+ * header. A missing header is always satisfied.
+ */
+export const ifMatchSatisfied = (header: string | string[] | undefined, updatedAt: Date | string): boolean => {
+  const tags = parseIfMatch(header);
+  return tags === null || tags === '*' || tags.includes(entityTag(updatedAt));
+};
@@ -0,0 +1,137 @@
+/**
+ * RFC 5545 iCalendar output for calendar feeds.
+ *
+ * Only what a read-only feed of deadlines needs: a VCALENDAR of VEVENTs that
+ * are either all-day or a single point in time (no DTEND). Times are written
+ * in UTC so no VTIMEZONE is needed.
+ */
+
+export const ICAL_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const PRODUCT_ID = '-//SynergySphere//Task Calendar//EN';
+
+// Longest content line in octets, without the CRLF
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  allDay: boolean; // start (and end) are dates; the UTC date is used
+  end?: Date | undefined; // exclusive; all-day events default to one day
+  description?: string | null | undefined;
+  url?: string | undefined;
+  categories?: string[] | undefined;
+  lastModified?: Date | undefined;
+}
+
+export interface Calendar {
+  name: string;
+  events: CalendarEvent[];
+  refreshMinutes?: number | undefined; // how often clients should poll
+}
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ */
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+
+/**
+ * Fold a content line into lines of at most 75 octets, continuing with a
+ * space. Multi-byte characters are never split.
+ */
+export const foldLine = (line: string): string => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n ');
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * DATE value such as 20241205, from the UTC date
+ */
+export const formatDate = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+/**
+ * UTC DATE-TIME value such as 20241205T160000Z
+ */
+export const formatDateTime = (date: Date): string =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const renderEvent = (event: CalendarEvent, stamp: Date): string[] => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    event.allDay ? `DTSTART;VALUE=DATE:${formatDate(event.start)}` : `DTSTART:${formatDateTime(event.start)}`,
+  ];
+
+  if (event.end) {
+    lines.push(event.allDay ? `DTEND;VALUE=DATE:${formatDate(event.end)}` : `DTEND:${formatDateTime(event.end)}`);
+  }
+  lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.url) {
+    lines.push(`URL:${event.url}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`);
+  }
+  lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+
+  return lines;
+};
+
+/**
+ * Render a calendar as an iCalendar document with CRLF line endings
+ */
+export const renderCalendar = (calendar: Calendar, now: Date = new Date()): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+  ];
+
+  if (calendar.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshMinutes}M`
+    );
+  }
+  for (const event of calendar.events) {
+    lines.push(...renderEvent(event, now));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,183 @@
+/**
+ * Project templates: the skeleton of a project (workflow, custom fields,
+ * default members and tasks) stored in `ProjectTemplate.settings`.
+ *
+ * Due dates are kept as offsets from the day the project started, so a new
+ * project created from the template gets the same schedule from its own
+ * start date. Tasks refer to their parent and prerequisites by position in
+ * the list, and parents always come before their subtasks.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Project metadata carried over to projects created from a template
+export const TEMPLATE_METADATA_KEYS = ['workflow', 'customFields'];
+
+export interface TemplateTask {
+  title: string;
+  description: string | null;
+  priority: number;
+  estimateMinutes: number | null;
+  dueOffsetMinutes: number | null; // from the start of the project's first day
+  autoComplete: boolean;
+  customFields: Record<string, unknown>;
+  assigneeIds: string[];
+  checklist: string[];
+  parent: number | null; // index of the parent task
+  dependsOn: number[]; // indexes of prerequisite tasks
+}
+
+export interface TemplateMember {
+  userId: string;
+  role: string;
+}
+
+export interface ProjectTemplateSettings {
+  metadata: Record<string, unknown>;
+  members: TemplateMember[];
+  tasks: TemplateTask[];
+}
+
+// A task of the project a template is made from
+export interface TemplateSourceTask {
+  id: string;
+  parentId: string | null;
+  title: string;
+  description: string | null;
+  priority: number;
+  estimateMinutes: number | null;
+  dueDate: Date | null;
+  autoComplete: boolean;
+  customFields: unknown;
+  assigneeIds: string[];
+  checklist: string[];
+  dependsOnIds: string[];
+}
+
+export interface ScheduledTemplateTask extends TemplateTask {
+  dueDate: Date | null;
+}
+
+/**
+ * Midnight UTC of the day a date falls in
+ */
+export const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Stored JSON before it is checked
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+/**
+ * Turn the tasks of a project into template tasks, with due dates relative
+ * to `startDate`. Links to tasks outside the list are dropped.
+ */
+export const toTemplateTasks = (tasks: TemplateSourceTask[], startDate: Date): TemplateTask[] => {
+  const start = startOfDay(startDate).getTime();
+  const byId = new Map(tasks.map(task => [task.id, task]));
+
+  // Parents first: visit each task after its parent, keeping the given order otherwise
+  const ordered: TemplateSourceTask[] = [];
+  const visited = new Set<string>();
+  const visit = (task: TemplateSourceTask) => {
+    if (visited.has(task.id)) return;
+    visited.add(task.id);
+    const parent = task.parentId ? byId.get(task.parentId) : undefined;
+    if (parent) visit(parent);
+    ordered.push(task);
+  };
+  tasks.forEach(visit);
+
+  const index = new Map(ordered.map((task, i) => [task.id, i]));
+
+  return ordered.map(task => ({
+    title: task.title,
+    description: task.description,
+    priority: task.priority,
+    estimateMinutes: task.estimateMinutes,
+    dueOffsetMinutes: task.dueDate ? Math.round((task.dueDate.getTime() - start) / MINUTE_MS) : null,
+    autoComplete: task.autoComplete,
+    customFields: isRecord(task.customFields) ? task.customFields : {},
+    assigneeIds: task.assigneeIds,
+    checklist: task.checklist,
+    parent: task.parentId ? index.get(task.parentId) ?? null : null,
+    dependsOn: task.dependsOnIds.filter(id => index.has(id)).map(id => index.get(id)!),
+  }));
+};
+
+/**
+ * Due dates of template tasks for a project starting on `startDate`
+ */
+export const scheduleTemplateTasks = (tasks: TemplateTask[], startDate: Date): ScheduledTemplateTask[] => {
+  const start = startOfDay(startDate).getTime();
+
+  return tasks.map(task => ({
+    ...task,
+    dueDate: task.dueOffsetMinutes === null ? null : new Date(start + task.dueOffsetMinutes * MINUTE_MS),
+  }));
+};
+
+/**
+ * Read template settings, dropping anything malformed: tasks without a
+ * title, and links to tasks that do not come earlier (parents) or do not
+ * exist (prerequisites)
+ */
+export const getTemplateSettings = (settings: unknown): ProjectTemplateSettings => {
+  const value: Unchecked<ProjectTemplateSettings> = isRecord(settings) ? settings : {};
+  const rawTasks: Unchecked<TemplateTask>[] = Array.isArray(value.tasks) ? value.tasks.filter(isRecord) : [];
+  const strings = (list: unknown): string[] =>
+    Array.isArray(list) ? list.filter((item): item is string => typeof item === 'string') : [];
+  const count = rawTasks.length;
+
+  const tasks = rawTasks.map((task, i): TemplateTask | null => {
+    if (typeof task.title !== 'string' || task.title.trim() === '') return null;
+
+    return {
+      title: task.title,
+      description: typeof task.description === 'string' ? task.description : null,
+      priority: typeof task.priority === 'number' ? task.priority : 3,
+      estimateMinutes: typeof task.estimateMinutes === 'number' ? task.estimateMinutes : null,
+      dueOffsetMinutes: typeof task.dueOffsetMinutes === 'number' ? Math.round(task.dueOffsetMinutes) : null,
+      autoComplete: task.autoComplete === true,
+      customFields: isRecord(task.customFields) ? task.customFields : {},
+      assigneeIds: strings(task.assigneeIds),
+      checklist: strings(task.checklist),
+      parent: typeof task.parent === 'number' && task.parent >= 0 && task.parent < i ? task.parent : null,
+      dependsOn: Array.isArray(task.dependsOn)
+        ? task.dependsOn.filter((d): d is number => Number.isInteger(d) && d >= 0 && d < count && d !== i)
+        : [],
+    };
+  });
+
+  // Renumber the links once the malformed tasks are gone
+  const kept = new Map<number, number>();
+  tasks.forEach((task, i) => {
+    if (task) kept.set(i, kept.size);
+  });
+
+  const metadata = isRecord(value.metadata) ? value.metadata : {};
+
+  return {
+    metadata: Object.fromEntries(TEMPLATE_METADATA_KEYS.filter(key => key in metadata).map(key => [key, metadata[key]])),
+    members: (Array.isArray(value.members) ? value.members.filter(isRecord) : [])
+      .flatMap((m: Unchecked<TemplateMember>) =>
+        typeof m.userId === 'string' && typeof m.role === 'string' ? [{ userId: m.userId, role: m.role }] : []
+      ),
+    tasks: tasks.flatMap(task => task ? [{
+      ...task,
+      parent: task.parent !== null ? kept.get(task.parent) ?? null : null,
+      dependsOn: task.dependsOn.filter(d => kept.has(d)).map(d => kept.get(d)!),
+    }] : []),
+  };
+};
+
+/**
+ * Number of whole days from the start of the project to its last due date
+ */
+export const templateDurationDays = (tasks: TemplateTask[]): number => {
+  const offsets = tasks.flatMap(task => task.dueOffsetMinutes === null ? [] : [task.dueOffsetMinutes]);
+  return offsets.length > 0 ? Math.max(0, Math.ceil((Math.max(...offsets) * MINUTE_MS) / DAY_MS)) : 0;
+};
@@ -0,0 +1,71 @@
+/**
+ * Fractional ranks for manual ordering of tasks within a board column.
+ *
+ * A rank is a base-36 fraction written without the leading "0.", so `"i"` is
+ * 18/36 and `"i8"` is 18/36 + 8/1296. Ranks never end in `0`, which makes
+ * plain string comparison agree with numeric order. There is always room
+ * between two ranks, so moving a card only rewrites that card's rank.
+ */
+
+export const RANK_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+const BASE = RANK_DIGITS.length;
+
+export const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+const digitAt = (rank: string, index: number): number =>
+  index < rank.length ? RANK_DIGITS.indexOf(rank[index]!) : 0;
+
+/**
+ * A rank strictly between two others. `null` stands for the start or the end
+ * of the column.
+ */
+export const rankBetween = (before: string | null, after: string | null): string => {
+  for (const rank of [before, after]) {
+    if (rank !== null && !RANK_PATTERN.test(rank)) {
+      throw new Error(`Invalid rank "${rank}"`);
+    }
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Rank "${before}" must sort before "${after}"`);
+  }
+
+  const lower = before ?? '';
+  let upper = after;
+  let prefix = '';
+
+  for (let i = 0; ; i++) {
+    const low = digitAt(lower, i);
+    const high = upper !== null && i < upper.length ? RANK_DIGITS.indexOf(upper[i]!) : BASE;
+
+    if (high - low > 1) {
+      return prefix + RANK_DIGITS[Math.floor((low + high) / 2)];
+    }
+
+    prefix += RANK_DIGITS[low];
+
+    // Adjacent digits: anything longer than the prefix now sorts below the
+    // upper bound, so only the lower bound matters from here on
+    if (high !== low) {
+      upper = null;
+    }
+  }
+};
+
+/**
+ * `count` evenly spaced ranks in ascending order, used to rank a column for
+ * the first time
+ */
+export const spreadRanks = (count: number): string[] => {
+  let width = 1;
+  while (BASE ** width <= count + 1) width++;
+
+  const step = BASE ** width / (count + 1);
+
+  return Array.from({ length: count }, (_, index) =>
+    Math.floor(step * (index + 1))
+      .toString(BASE)
+      .padStart(width, '0')
+      .replace(/0+$/, '')
+  );
+};
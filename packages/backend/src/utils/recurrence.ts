@@ -0,0 +1,200 @@
+/**
+ * RRULE-style recurrence rules for repeating tasks.
+ *
+ * Only the subset the task scheduler needs is supported: DAILY, WEEKLY and
+ * MONTHLY frequencies with INTERVAL, BYDAY, BYMONTHDAY, UNTIL and COUNT.
+ * All date arithmetic is done in UTC and keeps the time of day of the
+ * previous occurrence.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+// Indexed like Date#getUTCDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  byWeekday?: Weekday[];
+  byMonthDay?: number;
+  until?: string;
+  count?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * DAY_MS);
+
+const startOfWeek = (date: Date): number => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  // Weeks start on Monday
+  return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+};
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const parseNumber = (key: string, raw: string): number => {
+  if (!/^\d+$/.test(raw)) {
+    throw new Error(`Invalid ${key} value: ${raw}`);
+  }
+  return parseInt(raw, 10);
+};
+
+/**
+ * Parse an RFC 5545 RRULE string such as `FREQ=WEEKLY;BYDAY=MO,TH;COUNT=10`
+ */
+export const parseRRule = (value: string): RecurrenceRule => {
+  const parts = new Map<string, string>();
+
+  for (const part of value.replace(/^RRULE:/i, '').split(';')) {
+    const [key, raw] = part.split('=');
+    if (key && raw) {
+      parts.set(key.trim().toUpperCase(), raw.trim());
+    }
+  }
+
+  const frequency = parts.get('FREQ')?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly') {
+    throw new Error(`Unsupported recurrence frequency: ${parts.get('FREQ') ?? 'none'}`);
+  }
+
+  const rule: RecurrenceRule = { frequency };
+
+  const interval = parts.get('INTERVAL');
+  if (interval) {
+    rule.interval = parseNumber('INTERVAL', interval);
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    rule.byWeekday = byDay.split(',').map(day => {
+      const weekday = day.trim().toUpperCase() as Weekday;
+      if (!WEEKDAYS.includes(weekday)) {
+        throw new Error(`Unsupported weekday: ${day}`);
+      }
+      return weekday;
+    });
+  }
+
+  const byMonthDay = parts.get('BYMONTHDAY');
+  if (byMonthDay) {
+    rule.byMonthDay = parseNumber('BYMONTHDAY', byMonthDay);
+  }
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(until);
+    if (!match) {
+      throw new Error(`Invalid UNTIL value: ${until}`);
+    }
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = match;
+    const date = new Date(Date.UTC(+year!, +month! - 1, +day!, +hour, +minute, +second));
+    // Date.UTC rolls over out-of-range parts, e.g. month 13 into January
+    if (date.getUTCMonth() !== +month! - 1 || date.getUTCDate() !== +day! || +hour > 23 || +minute > 59 || +second > 59) {
+      throw new Error(`Invalid UNTIL value: ${until}`);
+    }
+    rule.until = date.toISOString();
+  }
+
+  const count = parts.get('COUNT');
+  if (count) {
+    rule.count = parseNumber('COUNT', count);
+  }
+
+  return rule;
+};
+
+/**
+ * Throw if a rule's values are out of range, whether it was given as an
+ * RRULE string or as an object
+ */
+export const checkRule = (rule: RecurrenceRule): void => {
+  if (rule.interval !== undefined && !(Number.isInteger(rule.interval) && rule.interval >= 1 && rule.interval <= 365)) {
+    throw new Error('Recurrence interval must be between 1 and 365');
+  }
+  if (rule.byMonthDay !== undefined && !(Number.isInteger(rule.byMonthDay) && rule.byMonthDay >= 1 && rule.byMonthDay <= 31)) {
+    throw new Error('Recurrence day of month must be between 1 and 31');
+  }
+  if (rule.count !== undefined && !(Number.isInteger(rule.count) && rule.count >= 1)) {
+    throw new Error('Recurrence count must be at least 1');
+  }
+  if (rule.until !== undefined && isNaN(new Date(rule.until).getTime())) {
+    throw new Error(`Invalid recurrence end date: ${rule.until}`);
+  }
+};
+
+/**
+ * Compute the occurrence following `previous`.
+ *
+ * @param rule            the recurrence rule
+ * @param previous        date of the latest occurrence
+ * @param start           date of the first occurrence, used to align intervals
+ * @param occurrenceCount number of occurrences generated so far
+ * @returns the next occurrence, or null when the series has ended
+ */
+export const getNextOccurrence = (
+  rule: RecurrenceRule,
+  previous: Date,
+  start: Date,
+  occurrenceCount: number
+): Date | null => {
+  if (rule.count !== undefined && occurrenceCount >= rule.count) {
+    return null;
+  }
+
+  const interval = Math.max(1, rule.interval ?? 1);
+  let next: Date | null = null;
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(previous, interval);
+      break;
+
+    case 'weekly': {
+      if (!rule.byWeekday || rule.byWeekday.length === 0) {
+        next = addDays(previous, 7 * interval);
+        break;
+      }
+
+      const weekdays = new Set(rule.byWeekday);
+      const firstWeek = startOfWeek(start);
+
+      for (let i = 1; i <= 7 * interval + 7; i++) {
+        const candidate = addDays(previous, i);
+        const weekIndex = Math.round((startOfWeek(candidate) - firstWeek) / (7 * DAY_MS));
+
+        if (weekdays.has(WEEKDAYS[candidate.getUTCDay()]!) && weekIndex % interval === 0) {
+          next = candidate;
+          break;
+        }
+      }
+      break;
+    }
+
+    case 'monthly': {
+      const targetMonth = previous.getUTCMonth() + interval;
+      const year = previous.getUTCFullYear() + Math.floor(targetMonth / 12);
+      const month = targetMonth % 12;
+      const day = Math.min(rule.byMonthDay ?? start.getUTCDate(), daysInMonth(year, month));
+
+      next = new Date(Date.UTC(
+        year,
+        month,
+        day,
+        previous.getUTCHours(),
+        previous.getUTCMinutes(),
+        previous.getUTCSeconds()
+      ));
+      break;
+    }
+  }
+
+  if (!next || (rule.until && next > new Date(rule.until))) {
+    return null;
+  }
+
+  return next;
+};
@@ -0,0 +1,197 @@
+/**
+ * Timing of due date reminders.
+ *
+ * Offsets are minutes before a due date. Offsets of whole days remind at
+ * 09:00 on that many days before the due day, in the user's timezone, so a
+ * "1 day before" reminder does not arrive in the middle of the night. Other
+ * offsets remind that long before the deadline. Due dates at midnight UTC are
+ * dates without a time, as set by date pickers: their deadline is the end of
+ * that day in the user's timezone.
+ */
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+// Longest offset a user can choose, one week
+export const MAX_REMINDER_OFFSET = 7 * MINUTES_PER_DAY;
+
+export const MAX_REMINDER_OFFSETS = 5;
+
+// Local time of day at which whole-day reminders go out
+export const DAY_REMINDER_HOUR = 9;
+
+const MINUTE_MS = 60 * 1000;
+
+interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether `timeZone` is an IANA time zone name the runtime knows
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Wall clock date and time of an instant in a time zone
+ */
+export const toLocalDateTime = (date: Date, timeZone: string): LocalDateTime => {
+  const parts = Object.fromEntries(
+    formatterFor(timeZone).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts['year']),
+    month: Number(parts['month']),
+    day: Number(parts['day']),
+    hour: Number(parts['hour']),
+    minute: Number(parts['minute']),
+  };
+};
+
+/**
+ * The instant a wall clock time in a time zone stands for. Days roll over, so
+ * day 0 is the last day of the previous month. Times skipped by a daylight
+ * saving change resolve to the hour after.
+ */
+export const fromLocalDateTime = (local: LocalDateTime, timeZone: string): Date => {
+  const wallClock = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offsetAt = (instant: number): number => {
+    const seen = toLocalDateTime(new Date(instant), timeZone);
+    return Date.UTC(seen.year, seen.month - 1, seen.day, seen.hour, seen.minute) - instant;
+  };
+
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+};
+
+/**
+ * Whether a due date has no time of day
+ */
+export const isDateOnly = (dueDate: Date): boolean =>
+  dueDate.getUTCHours() === 0 && dueDate.getUTCMinutes() === 0 &&
+  dueDate.getUTCSeconds() === 0 && dueDate.getUTCMilliseconds() === 0;
+
+// Calendar day a task is due on, as the user sees it
+const dueDay = (dueDate: Date, timeZone: string): LocalDateTime => isDateOnly(dueDate)
+  ? { year: dueDate.getUTCFullYear(), month: dueDate.getUTCMonth() + 1, day: dueDate.getUTCDate(), hour: 0, minute: 0 }
+  : toLocalDateTime(dueDate, timeZone);
+
+/**
+ * The moment a task is due for a user: the due date itself, or the end of
+ * the due day for dates without a time
+ */
+export const reminderDeadline = (dueDate: Date, timeZone: string): Date => {
+  if (!isDateOnly(dueDate)) return dueDate;
+
+  const day = dueDay(dueDate, timeZone);
+  return fromLocalDateTime({ ...day, day: day.day + 1, hour: 0, minute: 0 }, timeZone);
+};
+
+/**
+ * When to remind a user `offsetMinutes` before a due date
+ */
+export const reminderTime = (dueDate: Date, offsetMinutes: number, timeZone: string): Date => {
+  if (offsetMinutes > 0 && offsetMinutes % MINUTES_PER_DAY === 0) {
+    const day = dueDay(dueDate, timeZone);
+    return fromLocalDateTime({
+      ...day,
+      day: day.day - offsetMinutes / MINUTES_PER_DAY,
+      hour: DAY_REMINDER_HOUR,
+      minute: 0,
+    }, timeZone);
+  }
+
+  return new Date(reminderDeadline(dueDate, timeZone).getTime() - offsetMinutes * MINUTE_MS);
+};
+
+export interface ReminderRecipient {
+  id: string;
+  timezone: string;
+  reminderOffsets: number[];
+  isActive: boolean;
+}
+
+/**
+ * Reminders of a task for every one of its assignees, each by their own
+ * offsets and time zone. Inactive users, and those whose deadline has
+ * passed, get none.
+ */
+export const planTaskReminders = (
+  task: { id: string; dueDate: Date },
+  assignees: ReminderRecipient[],
+  now: Date
+): { taskId: string; userId: string; offsetMinutes: number; dueDate: Date; remindAt: Date }[] =>
+  assignees.flatMap(user => {
+    if (!user.isActive || reminderDeadline(task.dueDate, user.timezone) <= now) return [];
+
+    return user.reminderOffsets.map(offsetMinutes => ({
+      taskId: task.id,
+      userId: user.id,
+      offsetMinutes,
+      dueDate: task.dueDate,
+      remindAt: reminderTime(task.dueDate, offsetMinutes, user.timezone),
+    }));
+  });
+
+/**
+ * Offsets without duplicates, longest first
+ */
+export const normalizeReminderOffsets = (offsets: number[]): number[] =>
+  [...new Set(offsets)].sort((a, b) => b - a);
+
+const plural = (count: number, unit: string): string => `${count} ${unit}${count === 1 ? '' : 's'}`;
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * When a task is due, relative to `now` and in the user's time zone:
+ * "today", "tomorrow", "in 2 hours", "on 2024-12-05 at 17:00"
+ */
+export const describeDueDate = (dueDate: Date, timeZone: string, now: Date): string => {
+  const day = dueDay(dueDate, timeZone);
+  const today = toLocalDateTime(now, timeZone);
+  const daysAway = Math.round(
+    (Date.UTC(day.year, day.month - 1, day.day) - Date.UTC(today.year, today.month - 1, today.day)) /
+    (MINUTES_PER_DAY * MINUTE_MS)
+  );
+
+  if (!isDateOnly(dueDate)) {
+    const minutesLeft = Math.round((dueDate.getTime() - now.getTime()) / MINUTE_MS);
+    if (minutesLeft < 60) return `in ${plural(Math.max(minutesLeft, 1), 'minute')}`;
+    if (minutesLeft < 6 * 60) return `in ${plural(Math.round(minutesLeft / 60), 'hour')}`;
+  }
+
+  const time = isDateOnly(dueDate) ? '' : ` at ${pad(day.hour)}:${pad(day.minute)}`;
+  if (daysAway === 0) return `today${time}`;
+  if (daysAway === 1) return `tomorrow${time}`;
+  return `on ${day.year}-${pad(day.month)}-${pad(day.day)}${time}`;
+};
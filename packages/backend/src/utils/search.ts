@@ -0,0 +1,52 @@
+/**
+ * Full-text search helpers.
+ *
+ * Tasks, messages and projects carry a generated `search_vector` tsvector
+ * column (see prisma/search.sql). Queries are parsed with
+ * `websearch_to_tsquery`, so users can type plain words, "quoted phrases",
+ * `or` and `-excluded` terms without ever producing a syntax error.
+ */
+
+export type SearchEntityType = 'task' | 'message' | 'project';
+
+export const SEARCH_ENTITY_TYPES: SearchEntityType[] = ['task', 'message', 'project'];
+
+// Text search configuration used for the search_vector columns; queries must
+// use the same one or stemmed words will not match
+export const SEARCH_CONFIG = 'english';
+
+// ts_headline marks matches with these control characters. They are swapped
+// for <mark> tags after the rest of the snippet has been HTML-escaped, so
+// user content can never inject markup.
+const MATCH_START = '\u0001';
+const MATCH_END = '\u0002';
+
+const MARKERS = `StartSel="${MATCH_START}", StopSel="${MATCH_END}"`;
+
+// Options for excerpts of long text (descriptions, message bodies)
+export const SNIPPET_OPTIONS = `${MARKERS}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Options for short text that is shown in full (titles, project names)
+export const TITLE_OPTIONS = `${MARKERS}, HighlightAll=true`;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Turn a ts_headline result into safe HTML with matches wrapped in <mark>
+ */
+export const renderHighlight = (headline: string | null | undefined): string | null => {
+  if (!headline) {
+    return null;
+  }
+
+  return headline
+    .replace(/[&<>"']/g, char => HTML_ESCAPES[char]!)
+    .split(MATCH_START).join('<mark>')
+    .split(MATCH_END).join('</mark>');
+};
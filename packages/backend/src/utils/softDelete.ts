@@ -0,0 +1,79 @@
+/**
+ * Soft delete: trashed tasks, messages and projects (see TrashService) are
+ * left out of queries, along with what hangs off them.
+ */
+
+import { Prisma } from '@prisma/client';
+
+const liveProject = { deletedAt: null };
+const liveTask = { deletedAt: null, project: liveProject };
+const liveMessage = { deletedAt: null, project: liveProject };
+
+/**
+ * Condition each model's rows must meet to count as live
+ */
+export const softDeleteFilters: Partial<Record<Prisma.ModelName, object>> = {
+  Project: liveProject,
+  ProjectMember: { project: liveProject },
+  Task: liveTask,
+  Message: liveMessage,
+  ChecklistItem: { task: liveTask },
+  TaskAssignment: { task: liveTask },
+  TaskWatcher: { task: liveTask },
+  TaskDependency: { task: liveTask, dependsOnTask: liveTask },
+  TaskStatusChange: { task: liveTask },
+  TaskSeries: { project: liveProject },
+  AutomationRule: { project: liveProject },
+  // Attachments may belong to a project, a task and a message, or to none
+  Attachment: {
+    AND: [
+      { OR: [{ projectId: null }, { project: liveProject }] },
+      { OR: [{ taskId: null }, { task: liveTask }] },
+      { OR: [{ messageId: null }, { message: liveMessage }] },
+    ],
+  },
+};
+
+/**
+ * Actions whose `where` gets the filter. Other writes are left alone: single
+ * rows are written by unique `where`, and emptying the trash deletes trashed
+ * rows on purpose.
+ */
+export const filteredActions = new Set<Prisma.PrismaAction>([
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'updateMany',
+]);
+
+/**
+ * Whether a query filters on `deletedAt` (its own or its project's) and so
+ * decides for itself whether it wants trashed rows
+ */
+export const asksForDeleted = (where: { deletedAt?: unknown; project?: { deletedAt?: unknown } | null }): boolean =>
+  where.deletedAt !== undefined || where.project?.deletedAt !== undefined;
+
+/**
+ * Query parameters with the soft-delete filter added to the top-level `where`.
+ * Only the queried model is filtered: relations loaded through `include` or
+ * `select`, and relation counts, are not, and need their own
+ * `where: { deletedAt: null }`.
+ */
+export const withSoftDeleteFilter = (params: Prisma.MiddlewareParams): Prisma.MiddlewareParams => {
+  const filter = params.model && softDeleteFilters[params.model];
+  if (!filter || !filteredActions.has(params.action)) {
+    return params;
+  }
+
+  const where = params.args?.where ?? {};
+  if (asksForDeleted(where)) {
+    return params;
+  }
+
+  return { ...params, args: { ...params.args, where: { ...where, AND: [filter, ...[where.AND ?? []].flat()] } } };
+};
@@ -0,0 +1,82 @@
+/**
+ * Subtask rules: how deep tasks nest, the progress roll-up of a task and
+ * when a parent with auto-complete follows its subtasks.
+ */
+
+import { TaskStatusCategory } from '../types/models';
+import { getCompletedStatus, getInitialStatus, Workflow, WorkflowStatus } from './workflow';
+
+export interface ProgressCount {
+  done: number;
+  total: number;
+}
+
+/**
+ * Number of ancestors above a task (0 for top-level tasks). Stops counting
+ * once past `limit`, so a broken chain cannot loop forever.
+ */
+export const countAncestors = async (
+  taskId: string,
+  getParentId: (taskId: string) => Promise<string | null | undefined>,
+  limit: number
+): Promise<number> => {
+  let depth = 0;
+  let parentId = await getParentId(taskId);
+
+  while (parentId && depth <= limit) {
+    depth++;
+    parentId = await getParentId(parentId);
+  }
+
+  return depth;
+};
+
+/**
+ * Whether a new subtask of a task at `parentDepth` would be nested too deep
+ */
+export const exceedsSubtaskDepth = (parentDepth: number, maxDepth: number): boolean =>
+  parentDepth + 1 > maxDepth;
+
+/**
+ * Done/total counts of a task's direct subtasks and checklist items.
+ * Subtasks of subtasks count towards their own parent only.
+ */
+export const rollUpProgress = (
+  subtasks: { statusCategory: string }[],
+  checklistItems: { isDone: boolean }[]
+): { subtasks: ProgressCount; checklist: ProgressCount } => ({
+  subtasks: {
+    done: subtasks.filter(t => t.statusCategory === TaskStatusCategory.DONE).length,
+    total: subtasks.length,
+  },
+  checklist: {
+    done: checklistItems.filter(i => i.isDone).length,
+    total: checklistItems.length,
+  },
+});
+
+/**
+ * Status an auto-completing parent moves to after its subtasks changed: the
+ * first done status once all of them are done, the first active status when
+ * one of them is open again, or null to stay where it is
+ */
+export const parentAutoStatus = (
+  parent: { autoComplete: boolean; statusCategory: string; subtasks: { statusCategory: string }[] },
+  workflow: Workflow
+): WorkflowStatus | null => {
+  if (!parent.autoComplete || parent.subtasks.length === 0) {
+    return null;
+  }
+
+  const allDone = parent.subtasks.every(t => t.statusCategory === TaskStatusCategory.DONE);
+  const parentDone = parent.statusCategory === TaskStatusCategory.DONE;
+
+  if (allDone && !parentDone) {
+    return getCompletedStatus(workflow);
+  }
+  if (!allDone && parentDone) {
+    return workflow.statuses.find(s => s.category === TaskStatusCategory.ACTIVE) ?? getInitialStatus(workflow);
+  }
+
+  return null;
+};
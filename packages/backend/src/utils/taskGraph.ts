@@ -0,0 +1,218 @@
+/**
+ * Helpers for working with the task dependency graph.
+ *
+ * Edges point from a task to the task it depends on, matching the
+ * `TaskDependency` table (`taskId` -> `dependsOnTaskId`).
+ */
+
+export interface DependencyEdge {
+  taskId: string;
+  dependsOnTaskId: string;
+}
+
+/**
+ * Build an adjacency list of task -> prerequisites
+ */
+export const buildPrerequisiteMap = (edges: DependencyEdge[]): Map<string, string[]> => {
+  const map = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    const prerequisites = map.get(edge.taskId) || [];
+    prerequisites.push(edge.dependsOnTaskId);
+    map.set(edge.taskId, prerequisites);
+  }
+
+  return map;
+};
+
+/**
+ * Check whether adding `taskId -> dependsOnTaskId` would introduce a cycle.
+ * Returns the offending path (starting at `dependsOnTaskId` and ending at
+ * `taskId`) or null when the link is safe.
+ */
+export const findDependencyCycle = (
+  edges: DependencyEdge[],
+  taskId: string,
+  dependsOnTaskId: string
+): string[] | null => {
+  if (taskId === dependsOnTaskId) {
+    return [taskId];
+  }
+
+  const prerequisites = buildPrerequisiteMap(edges);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>([dependsOnTaskId]);
+  const queue = [dependsOnTaskId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    for (const next of prerequisites.get(current) || []) {
+      if (visited.has(next)) continue;
+
+      visited.add(next);
+      previous.set(next, current);
+
+      if (next === taskId) {
+        const path = [next];
+        let step = current;
+        while (step !== dependsOnTaskId) {
+          path.unshift(step);
+          step = previous.get(step)!;
+        }
+        path.unshift(dependsOnTaskId);
+        return path;
+      }
+
+      queue.push(next);
+    }
+  }
+
+  return null;
+};
+
+export interface ScheduleNode {
+  id: string;
+  durationMinutes: number;
+}
+
+export interface ScheduledNode {
+  id: string;
+  durationMinutes: number;
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+  slack: number;
+  isCritical: boolean;
+}
+
+export interface ScheduleResult {
+  nodes: ScheduledNode[];
+  criticalPath: string[];
+  totalDurationMinutes: number;
+}
+
+/**
+ * Order tasks so that every prerequisite comes before its dependents.
+ * Edges referencing unknown tasks are ignored.
+ */
+export const topologicalSort = (ids: string[], edges: DependencyEdge[]): string[] => {
+  const known = new Set(ids);
+  const inDegree = new Map(ids.map(id => [id, 0]));
+  const dependents = new Map<string, string[]>();
+
+  for (const edge of edges) {
+    if (!known.has(edge.taskId) || !known.has(edge.dependsOnTaskId)) continue;
+
+    inDegree.set(edge.taskId, inDegree.get(edge.taskId)! + 1);
+    const list = dependents.get(edge.dependsOnTaskId) || [];
+    list.push(edge.taskId);
+    dependents.set(edge.dependsOnTaskId, list);
+  }
+
+  const queue = ids.filter(id => inDegree.get(id) === 0);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    order.push(current);
+
+    for (const next of dependents.get(current) || []) {
+      const remaining = inDegree.get(next)! - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) {
+        queue.push(next);
+      }
+    }
+  }
+
+  if (order.length !== ids.length) {
+    throw new Error('Dependency graph contains a cycle');
+  }
+
+  return order;
+};
+
+/**
+ * Critical path method: forward and backward pass over the dependency graph.
+ * Times are minute offsets from the start of the schedule.
+ */
+export const computeSchedule = (nodes: ScheduleNode[], edges: DependencyEdge[]): ScheduleResult => {
+  const ids = nodes.map(n => n.id);
+  const known = new Set(ids);
+  const relevant = edges.filter(e => known.has(e.taskId) && known.has(e.dependsOnTaskId));
+  const order = topologicalSort(ids, relevant);
+  const prerequisites = buildPrerequisiteMap(relevant);
+  const dependents = new Map<string, string[]>();
+
+  for (const edge of relevant) {
+    const list = dependents.get(edge.dependsOnTaskId) || [];
+    list.push(edge.taskId);
+    dependents.set(edge.dependsOnTaskId, list);
+  }
+
+  const duration = new Map(nodes.map(n => [n.id, Math.max(0, n.durationMinutes)]));
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+
+  // Forward pass
+  for (const id of order) {
+    const start = Math.max(0, ...(prerequisites.get(id) || []).map(p => earliestFinish.get(p)!));
+    earliestStart.set(id, start);
+    earliestFinish.set(id, start + duration.get(id)!);
+  }
+
+  const totalDurationMinutes = Math.max(0, ...earliestFinish.values());
+  const latestStart = new Map<string, number>();
+  const latestFinish = new Map<string, number>();
+
+  // Backward pass
+  for (const id of [...order].reverse()) {
+    const finish = Math.min(
+      totalDurationMinutes,
+      ...(dependents.get(id) || []).map(d => latestStart.get(d)!)
+    );
+    latestFinish.set(id, finish);
+    latestStart.set(id, finish - duration.get(id)!);
+  }
+
+  const scheduled = new Map<string, ScheduledNode>();
+  for (const id of order) {
+    const slack = latestStart.get(id)! - earliestStart.get(id)!;
+    scheduled.set(id, {
+      id,
+      durationMinutes: duration.get(id)!,
+      earliestStart: earliestStart.get(id)!,
+      earliestFinish: earliestFinish.get(id)!,
+      latestStart: latestStart.get(id)!,
+      latestFinish: latestFinish.get(id)!,
+      slack,
+      isCritical: slack === 0,
+    });
+  }
+
+  // Walk the longest chain of zero-slack tasks from the start of the schedule
+  const criticalPath: string[] = [];
+  if (totalDurationMinutes > 0) {
+    let current = order
+      .map(id => scheduled.get(id)!)
+      .filter(n => n.isCritical && n.earliestStart === 0 && n.durationMinutes > 0)
+      .sort((a, b) => b.earliestFinish - a.earliestFinish)[0];
+
+    while (current) {
+      criticalPath.push(current.id);
+      const finish = current.earliestFinish;
+      current = (dependents.get(current.id) || [])
+        .map(id => scheduled.get(id)!)
+        .filter(n => n.isCritical && n.earliestStart === finish)
+        .sort((a, b) => b.durationMinutes - a.durationMinutes)[0];
+    }
+  }
+
+  return {
+    nodes: ids.map(id => scheduled.get(id)!),
+    criticalPath,
+    totalDurationMinutes,
+  };
+};
@@ -0,0 +1,332 @@
+/**
+ * Task history: field-level changes of tasks, kept in the activity log.
+ *
+ * Each entry stores only the fields that changed, before and after (custom
+ * fields per key). Ids in those values are turned into names when the
+ * history is read, so a renamed status or milestone shows its current name.
+ */
+
+export const TASK_HISTORY_ACTIONS = ['created', 'updated', 'deleted', 'restored'] as const;
+
+export type TaskHistoryAction = (typeof TASK_HISTORY_ACTIONS)[number];
+
+// The recorded fields of a task, as stored in ActivityLog.before/after
+export interface TaskSnapshot {
+  title: string;
+  description: string | null;
+  status: string;
+  priority: number;
+  dueDate: string | null; // ISO timestamp
+  estimateMinutes: number | null;
+  assigneeIds: string[]; // sorted
+  milestoneId: string | null;
+  parentId: string | null;
+  projectId: string;
+  autoComplete: boolean;
+  customFields: Record<string, unknown>;
+}
+
+export interface TaskSnapshotSource {
+  title: string;
+  description: string | null;
+  status: string;
+  priority: number;
+  dueDate: Date | null;
+  estimateMinutes: number | null;
+  assigneeIds: string[];
+  milestoneId: string | null;
+  parentId: string | null;
+  projectId: string;
+  autoComplete: boolean;
+  customFields: unknown;
+}
+
+export interface TaskSnapshotDiff {
+  before: Partial<TaskSnapshot>;
+  after: Partial<TaskSnapshot>;
+}
+
+// Current names of what the recorded ids point to
+export interface TaskHistoryNames {
+  users: Map<string, string>;
+  statuses: Map<string, string>;
+  milestones: Map<string, string>;
+  tasks: Map<string, string>;
+  projects: Map<string, string>;
+  customFields: Map<string, string>;
+}
+
+export interface TaskFieldChange {
+  field: string; // snapshot field, or `customFields.<key>`
+  label: string;
+  from: string | null;
+  to: string | null;
+  summary: string;
+}
+
+// In the order changes are listed
+const FIELD_LABELS: Record<keyof TaskSnapshot, string> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  dueDate: 'Due date',
+  estimateMinutes: 'Estimate',
+  assigneeIds: 'Assignees',
+  milestoneId: 'Milestone',
+  parentId: 'Parent task',
+  projectId: 'Project',
+  autoComplete: 'Auto-complete',
+  customFields: 'Custom fields',
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as (keyof TaskSnapshot)[];
+
+const PRIORITY_LABELS: Record<number, string> = {
+  1: 'Low',
+  2: 'Medium-low',
+  3: 'Medium',
+  4: 'Medium-high',
+  5: 'High',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Stored JSON before it is checked
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+/**
+ * The recorded fields of a task
+ */
+export const snapshotTask = (task: TaskSnapshotSource): TaskSnapshot => ({
+  title: task.title,
+  description: task.description,
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+  estimateMinutes: task.estimateMinutes,
+  assigneeIds: [...task.assigneeIds].sort(),
+  milestoneId: task.milestoneId,
+  parentId: task.parentId,
+  projectId: task.projectId,
+  autoComplete: task.autoComplete,
+  customFields: isRecord(task.customFields) ? task.customFields : {},
+});
+
+/**
+ * The fields that differ between two snapshots, or null if none do. Custom
+ * fields only keep the keys that changed; a removed value is null.
+ */
+export const diffTaskSnapshots = (before: TaskSnapshot, after: TaskSnapshot): TaskSnapshotDiff | null => {
+  const diff: TaskSnapshotDiff = { before: {}, after: {} };
+  const set = <K extends keyof TaskSnapshot>(field: K, from: TaskSnapshot[K], to: TaskSnapshot[K]) => {
+    diff.before[field] = from;
+    diff.after[field] = to;
+  };
+
+  for (const field of FIELDS) {
+    if (field === 'customFields') {
+      const keys = [...new Set([...Object.keys(before.customFields), ...Object.keys(after.customFields)])]
+        .filter(key => JSON.stringify(before.customFields[key] ?? null) !== JSON.stringify(after.customFields[key] ?? null));
+      if (keys.length > 0) {
+        set(
+          'customFields',
+          Object.fromEntries(keys.map(key => [key, before.customFields[key] ?? null])),
+          Object.fromEntries(keys.map(key => [key, after.customFields[key] ?? null]))
+        );
+      }
+    } else if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      set(field, before[field], after[field]);
+    }
+  }
+
+  return Object.keys(diff.after).length > 0 ? diff : null;
+};
+
+/**
+ * Read a stored snapshot, dropping fields of the wrong type
+ */
+export const readTaskSnapshot = (value: unknown): Partial<TaskSnapshot> => {
+  const raw: Unchecked<TaskSnapshot> = isRecord(value) ? value : {};
+  const snapshot: Partial<TaskSnapshot> = {};
+  const text = (v: unknown): v is string | null => v === null || typeof v === 'string';
+  const number = (v: unknown): v is number | null => v === null || typeof v === 'number';
+
+  if (typeof raw.title === 'string') snapshot.title = raw.title;
+  if (text(raw.description)) snapshot.description = raw.description;
+  if (typeof raw.status === 'string') snapshot.status = raw.status;
+  if (typeof raw.priority === 'number') snapshot.priority = raw.priority;
+  if (text(raw.dueDate)) snapshot.dueDate = raw.dueDate;
+  if (number(raw.estimateMinutes)) snapshot.estimateMinutes = raw.estimateMinutes;
+  if (Array.isArray(raw.assigneeIds)) {
+    snapshot.assigneeIds = raw.assigneeIds.filter((id): id is string => typeof id === 'string');
+  }
+  if (text(raw.milestoneId)) snapshot.milestoneId = raw.milestoneId;
+  if (text(raw.parentId)) snapshot.parentId = raw.parentId;
+  if (typeof raw.projectId === 'string') snapshot.projectId = raw.projectId;
+  if (typeof raw.autoComplete === 'boolean') snapshot.autoComplete = raw.autoComplete;
+  if (isRecord(raw.customFields)) snapshot.customFields = raw.customFields;
+
+  return snapshot;
+};
+
+/**
+ * Ids of users, milestones, tasks and projects a snapshot refers to
+ */
+export const taskSnapshotReferences = (snapshot: Partial<TaskSnapshot>) => ({
+  userIds: snapshot.assigneeIds ?? [],
+  milestoneIds: snapshot.milestoneId ? [snapshot.milestoneId] : [],
+  taskIds: snapshot.parentId ? [snapshot.parentId] : [],
+  projectIds: snapshot.projectId ? [snapshot.projectId] : [],
+});
+
+/**
+ * Format a due date: the day alone at midnight UTC, otherwise with the time
+ */
+export const formatHistoryDate = (iso: string): string => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return iso;
+
+  const day = date.toISOString().slice(0, 10);
+  const time = date.toISOString().slice(11, 16);
+  return time === '00:00' ? day : `${day} ${time} UTC`;
+};
+
+/**
+ * Format a duration in minutes as hours and minutes, e.g. "1h 30m"
+ */
+export const formatHistoryMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+};
+
+const formatCustomValue = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(', ') : null;
+  return String(value);
+};
+
+const summarize = (label: string, from: string | null, to: string | null): string => {
+  if (from === null) return `${label} set to ${to}`;
+  if (to === null) return `${label} cleared (was ${from})`;
+  return `${label} changed from ${from} to ${to}`;
+};
+
+/**
+ * Readable changes between two (partial) snapshots, one per field present
+ * in either. For a created task `before` is empty and only the fields with
+ * a value are listed.
+ */
+export const describeTaskChanges = (
+  before: Partial<TaskSnapshot>,
+  after: Partial<TaskSnapshot>,
+  names: TaskHistoryNames
+): TaskFieldChange[] => {
+  const nameOf = (map: Map<string, string>, id: string | null | undefined) => id ? map.get(id) ?? id : null;
+  const changes: TaskFieldChange[] = [];
+
+  for (const field of FIELDS) {
+    if (!(field in before) && !(field in after)) continue;
+    const label = FIELD_LABELS[field];
+    const push = (change: Omit<TaskFieldChange, 'label' | 'summary'> & { summary?: string }) => {
+      if (change.from === change.to) return;
+      changes.push({ ...change, label, summary: change.summary ?? summarize(label, change.from, change.to) });
+    };
+
+    switch (field) {
+      case 'title':
+        push({ field, from: before.title ?? null, to: after.title ?? null });
+        break;
+      case 'description': {
+        // Too long to repeat in the summary
+        const from = before.description || null;
+        const to = after.description || null;
+        const summary = from === null ? 'Description added' : to === null ? 'Description removed' : 'Description changed';
+        push({ field, from, to, summary });
+        break;
+      }
+      case 'status':
+        push({ field, from: nameOf(names.statuses, before.status), to: nameOf(names.statuses, after.status) });
+        break;
+      case 'priority': {
+        const priorityName = (p: number | undefined) => p === undefined ? null : PRIORITY_LABELS[p] ?? String(p);
+        push({ field, from: priorityName(before.priority), to: priorityName(after.priority) });
+        break;
+      }
+      case 'dueDate':
+        push({
+          field,
+          from: before.dueDate ? formatHistoryDate(before.dueDate) : null,
+          to: after.dueDate ? formatHistoryDate(after.dueDate) : null,
+        });
+        break;
+      case 'estimateMinutes':
+        push({
+          field,
+          from: typeof before.estimateMinutes === 'number' ? formatHistoryMinutes(before.estimateMinutes) : null,
+          to: typeof after.estimateMinutes === 'number' ? formatHistoryMinutes(after.estimateMinutes) : null,
+        });
+        break;
+      case 'assigneeIds': {
+        const from = before.assigneeIds ?? [];
+        const to = after.assigneeIds ?? [];
+        const added = to.filter(id => !from.includes(id)).map(id => nameOf(names.users, id)!);
+        const removed = from.filter(id => !to.includes(id)).map(id => nameOf(names.users, id)!);
+        if (added.length === 0 && removed.length === 0) break;
+
+        const parts = [
+          ...(added.length > 0 ? [`added ${added.join(', ')}`] : []),
+          ...(removed.length > 0 ? [`removed ${removed.join(', ')}`] : []),
+        ];
+        push({
+          field,
+          from: from.length > 0 ? from.map(id => nameOf(names.users, id)).join(', ') : null,
+          to: to.length > 0 ? to.map(id => nameOf(names.users, id)).join(', ') : null,
+          summary: `Assignees: ${parts.join('; ')}`,
+        });
+        break;
+      }
+      case 'milestoneId':
+        push({ field, from: nameOf(names.milestones, before.milestoneId), to: nameOf(names.milestones, after.milestoneId) });
+        break;
+      case 'parentId':
+        push({ field, from: nameOf(names.tasks, before.parentId), to: nameOf(names.tasks, after.parentId) });
+        break;
+      case 'projectId':
+        // A new task is in its project anyway
+        if (!('projectId' in before)) break;
+        push({ field, from: nameOf(names.projects, before.projectId), to: nameOf(names.projects, after.projectId) });
+        break;
+      case 'autoComplete': {
+        const onOff = (value: boolean | undefined) => value === undefined ? null : value ? 'on' : 'off';
+        // A new task is only worth mentioning with auto-complete on
+        if (!('autoComplete' in before) && !after.autoComplete) break;
+        push({ field, from: onOff(before.autoComplete), to: onOff(after.autoComplete) });
+        break;
+      }
+      case 'customFields': {
+        const from = before.customFields ?? {};
+        const to = after.customFields ?? {};
+        for (const key of [...new Set([...Object.keys(from), ...Object.keys(to)])]) {
+          const fieldLabel = names.customFields.get(key) ?? key;
+          const fromValue = formatCustomValue(from[key]);
+          const toValue = formatCustomValue(to[key]);
+          if (fromValue === toValue) continue;
+          changes.push({
+            field: `customFields.${key}`,
+            label: fieldLabel,
+            from: fromValue,
+            to: toValue,
+            summary: summarize(fieldLabel, fromValue, toValue),
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return changes;
+};
@@ -0,0 +1,341 @@
+/**
+ * Task filter query language.
+ *
+ * A query is a list of space-separated terms, all of which must match:
+ *
+ *   status:todo,in_progress assignee:me priority>=4 due:<7d -is:done "login bug"
+ *
+ * - `field:value` matches a value; comma-separated values match any of them
+ * - `field>value`, `field>=value`, `field<value`, `field<=value` (or
+ *   `field:>=value`) compare priorities and dates
+ * - a leading `-` negates a term
+ * - double quotes keep spaces inside a value or a search phrase
+ * - terms without a field search the title and description
+ *
+ * Dates are whole UTC days: an ISO date, `today`, `tomorrow`, `yesterday`, or
+ * an offset from today such as `7d`, `-2w`. Fields that are not built in are
+ * treated as custom field keys and resolved against the project's definitions.
+ */
+
+import { Prisma } from '@prisma/client';
+import { STATUS_CATEGORIES, normalizeStatusKey } from './workflow';
+import { TaskPriority, TaskStatusCategory } from '../types/models';
+
+export type TaskQueryOperator = ':' | '>' | '>=' | '<' | '<=';
+
+export interface TaskQueryClause {
+  field: string;
+  operator: TaskQueryOperator;
+  values: string[];
+  negate: boolean;
+}
+
+export interface ParsedTaskQuery {
+  clauses: TaskQueryClause[];
+  text: string[];
+}
+
+export interface TaskQueryContext {
+  userId: string;
+  now?: Date;
+}
+
+export interface CompiledTaskQuery {
+  conditions: Prisma.TaskWhereInput[];
+  // Clauses on fields that are not built in, for the caller to resolve
+  customFields: TaskQueryClause[];
+}
+
+export const TASK_QUERY_FIELDS = [
+  'status', 'category', 'is', 'assignee', 'creator', 'priority',
+  'due', 'created', 'updated', 'project', 'parent', 'title',
+] as const;
+
+const TERM_PATTERN = /^(-?)([a-z][a-z0-9_]*)(:>=|:<=|:>|:<|:|>=|<=|>|<)(.*)$/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Split a query into terms on whitespace outside double quotes
+ */
+const tokenize = (input: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of input) {
+    if (char === '"') {
+      quoted = !quoted;
+      current += char;
+    } else if (/\s/.test(char) && !quoted) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quote in filter query');
+  }
+  if (current) tokens.push(current);
+
+  return tokens;
+};
+
+/**
+ * Split a value on commas outside double quotes, removing the quotes
+ */
+const splitValues = (raw: string): string[] => {
+  const values: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of raw) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      values.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current);
+
+  return values.map(v => v.trim()).filter(v => v.length > 0);
+};
+
+/**
+ * Parse a filter query into clauses and free-text terms
+ */
+export const parseTaskQuery = (input: string): ParsedTaskQuery => {
+  const clauses: TaskQueryClause[] = [];
+  const text: string[] = [];
+
+  for (const token of tokenize(input)) {
+    const match = TERM_PATTERN.exec(token);
+
+    if (!match) {
+      const term = token.replace(/"/g, '').trim();
+      if (term) text.push(term);
+      continue;
+    }
+
+    const [, negate, field, rawOperator, rawValue] = match;
+    const operator = rawOperator!.replace(/^:(?=[<>])/, '') as TaskQueryOperator;
+    const values = splitValues(rawValue!);
+
+    if (values.length === 0) {
+      throw new Error(`Missing value for "${field}"`);
+    }
+    if (operator !== ':' && values.length > 1) {
+      throw new Error(`"${field}${operator}" takes a single value`);
+    }
+
+    clauses.push({ field: field!.toLowerCase(), operator, values, negate: negate === '-' });
+  }
+
+  return { clauses, text };
+};
+
+/**
+ * Resolve a date value to the UTC day it falls on, as [start, end)
+ */
+export const resolveDay = (value: string, now: Date): { start: Date; end: Date } => {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const lower = value.toLowerCase();
+  let start: number;
+
+  const offset = /^([+-]?\d+)([dw])$/.exec(lower);
+  if (lower === 'today') {
+    start = today;
+  } else if (lower === 'tomorrow') {
+    start = today + DAY_MS;
+  } else if (lower === 'yesterday') {
+    start = today - DAY_MS;
+  } else if (offset) {
+    start = today + parseInt(offset[1]!, 10) * (offset[2] === 'w' ? 7 : 1) * DAY_MS;
+  } else {
+    const parsed = new Date(value);
+    if (!/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(parsed.getTime())) {
+      throw new Error(`Invalid date "${value}"`);
+    }
+    start = Date.UTC(parsed.getUTCFullYear(), parsed.getUTCMonth(), parsed.getUTCDate());
+  }
+
+  return { start: new Date(start), end: new Date(start + DAY_MS) };
+};
+
+const parsePriority = (value: string): number => {
+  const named = TaskPriority[value.toUpperCase() as keyof typeof TaskPriority];
+  const priority = typeof named === 'number' ? named : Number(value);
+
+  if (!Number.isInteger(priority) || priority < TaskPriority.LOW || priority > TaskPriority.HIGH) {
+    throw new Error(`Invalid priority "${value}"`);
+  }
+  return priority;
+};
+
+const priorityCondition = (clause: TaskQueryClause): Prisma.TaskWhereInput => {
+  if (clause.operator === ':') {
+    return { priority: { in: clause.values.map(parsePriority) } };
+  }
+
+  const value = parsePriority(clause.values[0]!);
+  switch (clause.operator) {
+    case '>': return { priority: { gt: value } };
+    case '>=': return { priority: { gte: value } };
+    case '<': return { priority: { lt: value } };
+    default: return { priority: { lte: value } };
+  }
+};
+
+const dateCondition = (
+  field: 'dueDate' | 'createdAt' | 'updatedAt',
+  clause: TaskQueryClause,
+  now: Date
+): Prisma.TaskWhereInput => {
+  if (clause.values.some(v => v.toLowerCase() === 'none')) {
+    if (field !== 'dueDate' || clause.operator !== ':' || clause.values.length > 1) {
+      throw new Error('"none" is only supported as "due:none"');
+    }
+    return { dueDate: null };
+  }
+
+  const days = clause.values.map(v => resolveDay(v, now));
+  const ranges = days.map(({ start, end }): Prisma.DateTimeFilter => {
+    switch (clause.operator) {
+      case '>': return { gte: end };
+      case '>=': return { gte: start };
+      case '<': return { lt: start };
+      case '<=': return { lt: end };
+      default: return { gte: start, lt: end };
+    }
+  });
+
+  const conditions = ranges.map(range => ({ [field]: range }) as Prisma.TaskWhereInput);
+  return conditions.length === 1 ? conditions[0]! : { OR: conditions };
+};
+
+// Matches a user by id or email; `me` is the current user
+const userCondition = (value: string, userId: string): Prisma.UserWhereInput =>
+  value.toLowerCase() === 'me'
+    ? { id: userId }
+    : UUID_PATTERN.test(value)
+      ? { id: value }
+      : { email: { equals: value, mode: 'insensitive' } };
+
+const requireEquality = (clause: TaskQueryClause): void => {
+  if (clause.operator !== ':') {
+    throw new Error(`"${clause.field}" does not support "${clause.operator}"`);
+  }
+};
+
+const compileClause = (clause: TaskQueryClause, userId: string, now: Date): Prisma.TaskWhereInput => {
+  const { field, values } = clause;
+
+  switch (field) {
+    case 'status':
+      requireEquality(clause);
+      return { status: { in: values.map(normalizeStatusKey) } };
+
+    case 'category': {
+      requireEquality(clause);
+      const categories = values.map(normalizeStatusKey);
+      const invalid = categories.find(c => !STATUS_CATEGORIES.includes(c as TaskStatusCategory));
+      if (invalid) {
+        throw new Error(`Invalid category "${invalid}"`);
+      }
+      return { statusCategory: { in: categories } };
+    }
+
+    case 'is':
+      requireEquality(clause);
+      return {
+        OR: values.map((value): Prisma.TaskWhereInput => {
+          switch (value.toLowerCase()) {
+            case 'open': return { statusCategory: { not: TaskStatusCategory.DONE } };
+            case 'done': return { statusCategory: TaskStatusCategory.DONE };
+            case 'overdue': return { dueDate: { lt: now }, statusCategory: { not: TaskStatusCategory.DONE } };
+            case 'unassigned': return { assignments: { none: {} } };
+            case 'subtask': return { parentId: { not: null } };
+            case 'recurring': return { seriesId: { not: null } };
+            default: throw new Error(`Unknown "is:${value}"`);
+          }
+        }),
+      };
+
+    case 'assignee':
+      requireEquality(clause);
+      return {
+        OR: values.map((value): Prisma.TaskWhereInput => value.toLowerCase() === 'none'
+          ? { assignments: { none: {} } }
+          : { assignments: { some: { user: userCondition(value, userId) } } }),
+      };
+
+    case 'creator':
+      requireEquality(clause);
+      return { OR: values.map(value => ({ creator: userCondition(value, userId) })) };
+
+    case 'priority':
+      return priorityCondition(clause);
+
+    case 'due':
+      return dateCondition('dueDate', clause, now);
+    case 'created':
+      return dateCondition('createdAt', clause, now);
+    case 'updated':
+      return dateCondition('updatedAt', clause, now);
+
+    case 'project':
+      requireEquality(clause);
+      return { projectId: { in: values } };
+
+    case 'parent':
+      requireEquality(clause);
+      return values.length === 1 && values[0]!.toLowerCase() === 'none'
+        ? { parentId: null }
+        : { parentId: { in: values } };
+
+    case 'title':
+      requireEquality(clause);
+      return { OR: values.map(value => ({ title: { contains: value, mode: 'insensitive' } })) };
+
+    default:
+      throw new Error(`Unknown filter "${field}"`);
+  }
+};
+
+/**
+ * Turn a parsed query into Prisma conditions (to be combined with AND).
+ * Clauses on unknown fields are returned separately as custom field filters.
+ */
+export const compileTaskQuery = (query: ParsedTaskQuery, context: TaskQueryContext): CompiledTaskQuery => {
+  const now = context.now ?? new Date();
+  const conditions: Prisma.TaskWhereInput[] = [];
+  const customFields: TaskQueryClause[] = [];
+
+  for (const clause of query.clauses) {
+    if (!(TASK_QUERY_FIELDS as readonly string[]).includes(clause.field)) {
+      customFields.push(clause);
+      continue;
+    }
+
+    const condition = compileClause(clause, context.userId, now);
+    conditions.push(clause.negate ? { NOT: condition } : condition);
+  }
+
+  for (const term of query.text) {
+    conditions.push({
+      OR: [
+        { title: { contains: term, mode: 'insensitive' } },
+        { description: { contains: term, mode: 'insensitive' } },
+      ],
+    });
+  }
+
+  return { conditions, customFields };
+};
@@ -0,0 +1,111 @@
+/**
+ * Planning moves and copies of tasks into another project: which assignees
+ * and dependency links come along, and where copied subtasks and messages
+ * hang. Tasks are given in transfer order, the task itself first and every
+ * parent before its subtasks.
+ */
+
+export type TransferMode = 'move' | 'duplicate';
+
+export interface TransferAssignee {
+  taskId: string;
+  userId: string;
+}
+
+export interface TransferDependency {
+  taskId: string;
+  dependsOnTaskId: string;
+}
+
+/**
+ * Assignees each task keeps in the target project. Those who are not
+ * members are dropped with `'drop'`, and otherwise rejected.
+ */
+export const planTransferAssignees = (
+  tasks: { id: string; assigneeIds: string[] }[],
+  memberIds: string[],
+  options: { includeAssignees?: boolean | undefined; nonMemberAssignees?: 'reject' | 'drop' | undefined }
+): { assigneeIds: Map<string, string[]>; dropped: TransferAssignee[]; rejected: TransferAssignee[] } => {
+  const assigneeIds = new Map<string, string[]>();
+  const outsiders: TransferAssignee[] = [];
+
+  for (const task of tasks) {
+    const ids = (options.includeAssignees ?? true) ? task.assigneeIds : [];
+    assigneeIds.set(task.id, ids.filter(id => memberIds.includes(id)));
+    outsiders.push(...ids.filter(id => !memberIds.includes(id)).map(userId => ({ taskId: task.id, userId })));
+  }
+
+  const drop = options.nonMemberAssignees === 'drop';
+  return { assigneeIds, dropped: drop ? outsiders : [], rejected: drop ? [] : outsiders };
+};
+
+/**
+ * Dependency links kept by a transfer. Links between the transferred tasks
+ * are kept. A duplicate within the same project also keeps its
+ * prerequisites; anything else would link two projects, and is removed
+ * with `'remove'` and otherwise rejected.
+ */
+export const planTransferDependencies = (
+  tasks: { id: string; dependencies: { dependsOnTaskId: string }[]; dependents: { taskId: string }[] }[],
+  mode: TransferMode,
+  sameProject: boolean,
+  crossProjectDependencies: 'reject' | 'remove' | undefined
+): { kept: TransferDependency[]; removed: TransferDependency[]; rejected: TransferDependency[] } => {
+  const taskIds = new Set(tasks.map(t => t.id));
+  const kept: TransferDependency[] = [];
+  const crossing: TransferDependency[] = [];
+
+  for (const task of tasks) {
+    for (const { dependsOnTaskId } of task.dependencies) {
+      const link = { taskId: task.id, dependsOnTaskId };
+      if (taskIds.has(dependsOnTaskId) || (mode === 'duplicate' && sameProject)) {
+        kept.push(link);
+      } else {
+        crossing.push(link);
+      }
+    }
+
+    // A copy leaves the original's dependents alone
+    if (mode === 'move') {
+      crossing.push(...task.dependents
+        .filter(d => !taskIds.has(d.taskId))
+        .map(d => ({ taskId: d.taskId, dependsOnTaskId: task.id })));
+    }
+  }
+
+  const remove = crossProjectDependencies === 'remove';
+  return { kept, removed: remove ? crossing : [], rejected: remove ? [] : crossing };
+};
+
+/**
+ * Parent of the copy of a task. The copy of a subtask hangs under the copy of
+ * its parent. The copied task itself stays a sibling of the original within
+ * its project, since its parent is not copied, and is top-level in another
+ * project.
+ */
+export const copyParentId = (
+  task: { id: string; parentId: string | null },
+  rootId: string,
+  sameProject: boolean,
+  copyIds: Map<string, string>
+): string | null => {
+  if (task.id === rootId) {
+    return sameProject ? task.parentId : null;
+  }
+
+  return task.parentId ? copyIds.get(task.parentId) ?? null : null;
+};
+
+/**
+ * Task and parent message of a copied message. Replies point at the copy of
+ * the message they answer, which is copied first; messages of tasks that are
+ * not copied lose their task.
+ */
+export const copyMessageLinks = (
+  message: { taskId: string | null; parentId: string | null },
+  copyIds: Map<string, string>,
+  messageIds: Map<string, string>
+): { taskId: string | null; parentId: string | null } => ({
+  taskId: message.taskId ? copyIds.get(message.taskId) ?? null : null,
+  parentId: message.parentId ? messageIds.get(message.parentId) ?? null : null,
+});
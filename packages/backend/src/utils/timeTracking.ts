@@ -0,0 +1,47 @@
+/**
+ * Helpers for summarising time entries into timesheets.
+ *
+ * A running timer has no end time yet; it counts up to `now` so totals stay
+ * meaningful while work is in progress.
+ */
+
+export interface TimeEntryLike {
+  taskId: string | null;
+  startTime: Date;
+  endTime: Date | null;
+  durationSeconds: number | null;
+}
+
+export interface TaskTimeTotal {
+  taskId: string | null;
+  entries: number;
+  totalSeconds: number;
+}
+
+/**
+ * Seconds covered by an entry, counting running timers up to `now`
+ */
+export const entryDurationSeconds = (entry: TimeEntryLike, now: Date = new Date()): number => {
+  if (entry.endTime) {
+    return entry.durationSeconds ?? Math.max(0, Math.round((entry.endTime.getTime() - entry.startTime.getTime()) / 1000));
+  }
+
+  return Math.max(0, Math.round((now.getTime() - entry.startTime.getTime()) / 1000));
+};
+
+/**
+ * Total tracked seconds per task, largest first. Entries without a task are
+ * grouped under `taskId: null`.
+ */
+export const summarizeByTask = (entries: TimeEntryLike[], now: Date = new Date()): TaskTimeTotal[] => {
+  const totals = new Map<string | null, TaskTimeTotal>();
+
+  for (const entry of entries) {
+    const total = totals.get(entry.taskId) ?? { taskId: entry.taskId, entries: 0, totalSeconds: 0 };
+    total.entries++;
+    total.totalSeconds += entryDurationSeconds(entry, now);
+    totals.set(entry.taskId, total);
+  }
+
+  return [...totals.values()].sort((a, b) => b.totalSeconds - a.totalSeconds);
+};
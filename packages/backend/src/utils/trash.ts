@@ -0,0 +1,47 @@
+/**
+ * Trash rules: what a project's trash lists and when trashed items are
+ * purged for good.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Messages are listed by the start of their body
+const MESSAGE_EXCERPT_LENGTH = 200;
+
+/**
+ * Trashed tasks or messages of a project, only the top of each deletion:
+ * subtasks and replies deleted along with their parent are left out, and
+ * listed again once the parent is back out of the trash
+ */
+export const projectTrashWhere = (projectId: string) => ({
+  projectId,
+  deletedAt: { not: null },
+  OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+});
+
+/**
+ * Title a trashed message is listed under
+ */
+export const messageExcerpt = (body: string): string =>
+  body.length > MESSAGE_EXCERPT_LENGTH ? `${body.slice(0, MESSAGE_EXCERPT_LENGTH)}…` : body;
+
+/**
+ * One page of trashed items of several kinds, most recently deleted first.
+ * Each kind must hold its first `offset + limit` items.
+ */
+export const trashPage = <T extends { deletedAt: Date | null }>(items: T[], offset: number, limit: number): T[] =>
+  [...items]
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime())
+    .slice(offset, offset + limit);
+
+/**
+ * When something trashed at `deletedAt` is purged
+ */
+export const purgeDate = (deletedAt: Date, retentionDays: number): Date =>
+  new Date(deletedAt.getTime() + retentionDays * DAY_MS);
+
+/**
+ * Items trashed before this date are due to be purged at `now`
+ */
+export const purgeCutoff = (now: Date, retentionDays: number): Date =>
+  new Date(now.getTime() - retentionDays * DAY_MS);
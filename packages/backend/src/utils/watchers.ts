@@ -0,0 +1,21 @@
+/**
+ * Task watchers: who starts watching a new task and who hears about changes
+ * to it. Assignees watch the tasks they are given; anyone can watch or stop
+ * watching a task in their projects.
+ */
+
+/**
+ * Watchers of a new task: whoever created it and its assignees
+ */
+export const initialWatcherIds = (creatorId: string, assigneeIds: string[]): string[] =>
+  [...new Set([creatorId, ...assigneeIds])];
+
+/**
+ * Watchers to notify about a change, leaving out `excludeUserIds` (whoever
+ * made the change and anyone already told about it)
+ */
+export const watcherRecipients = (watcherIds: string[], excludeUserIds: Iterable<string>): string[] => {
+  const excluded = new Set(excludeUserIds);
+
+  return [...new Set(watcherIds)].filter(id => !excluded.has(id));
+};
@@ -0,0 +1,179 @@
+/**
+ * Per-project task workflows.
+ *
+ * A workflow is an ordered list of statuses, each belonging to one of three
+ * categories, plus an optional map of allowed transitions. Projects without a
+ * configured workflow use DEFAULT_WORKFLOW. The workflow is stored in
+ * `Project.metadata.workflow`; tasks store the status key in `Task.status` and
+ * a copy of its category in `Task.statusCategory` so "is this task finished?"
+ * can be answered in a query.
+ */
+
+import { TaskStatus, TaskStatusCategory } from '../types/models';
+
+export const STATUS_KEY_PATTERN = /^[a-z][a-z0-9_]{0,39}$/;
+
+export const STATUS_CATEGORIES: TaskStatusCategory[] = [
+  TaskStatusCategory.NOT_STARTED,
+  TaskStatusCategory.ACTIVE,
+  TaskStatusCategory.DONE,
+];
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: TaskStatusCategory;
+}
+
+export interface Workflow {
+  // In board column order
+  statuses: WorkflowStatus[];
+  // Allowed target statuses per source status. Missing or null means any
+  // transition is allowed.
+  transitions?: Record<string, string[]> | null;
+}
+
+export const DEFAULT_WORKFLOW: Workflow = {
+  statuses: [
+    { key: TaskStatus.TODO, name: 'To Do', category: TaskStatusCategory.NOT_STARTED },
+    { key: TaskStatus.IN_PROGRESS, name: 'In Progress', category: TaskStatusCategory.ACTIVE },
+    { key: TaskStatus.REVIEW, name: 'Review', category: TaskStatusCategory.ACTIVE },
+    { key: TaskStatus.BLOCKED, name: 'Blocked', category: TaskStatusCategory.ACTIVE },
+    { key: TaskStatus.DONE, name: 'Done', category: TaskStatusCategory.DONE },
+  ],
+  transitions: null,
+};
+
+/**
+ * Turn user-facing spellings such as `IN_PROGRESS`, `in-progress` or
+ * `In Progress` into a status key
+ */
+export const normalizeStatusKey = (value: string): string =>
+  value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Read the workflow out of a project's metadata, falling back to the default
+ */
+export const getWorkflow = (metadata: unknown): Workflow => {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return DEFAULT_WORKFLOW;
+  }
+
+  const workflow = (metadata as Record<string, unknown>)['workflow'] as Workflow | undefined;
+  return workflow && Array.isArray(workflow.statuses) && workflow.statuses.length > 0
+    ? workflow
+    : DEFAULT_WORKFLOW;
+};
+
+export const findStatus = (workflow: Workflow, key: string): WorkflowStatus | undefined =>
+  workflow.statuses.find(s => s.key === key);
+
+/**
+ * Status new tasks start in: the first not-started status in column order
+ */
+export const getInitialStatus = (workflow: Workflow): WorkflowStatus =>
+  workflow.statuses.find(s => s.category === TaskStatusCategory.NOT_STARTED) ?? workflow.statuses[0]!;
+
+/**
+ * Status used when something is completed automatically (e.g. by subtasks):
+ * the first done status in column order
+ */
+export const getCompletedStatus = (workflow: Workflow): WorkflowStatus =>
+  workflow.statuses.find(s => s.category === TaskStatusCategory.DONE) ?? workflow.statuses[workflow.statuses.length - 1]!;
+
+/**
+ * Status a task takes when it moves to a project with another workflow: the
+ * same key if it exists there, else the first status of the same category,
+ * else the initial status
+ */
+export const mapStatusToWorkflow = (workflow: Workflow, key: string, category: string): WorkflowStatus =>
+  findStatus(workflow, key) ??
+  workflow.statuses.find(s => s.category === category) ??
+  getInitialStatus(workflow);
+
+/**
+ * Task fields to write when a task enters a status: the status, its category,
+ * the completion time and a row of status history. `from` is null for new
+ * tasks; nothing is written if the task is already in the status, unless the
+ * status has since moved to another category.
+ */
+export const enterStatus = (
+  to: WorkflowStatus,
+  from: { status: string; statusCategory: string } | null,
+  changedById: string | null
+) => {
+  if (from?.status === to.key && from.statusCategory === to.category) {
+    return {};
+  }
+
+  // Moving between two done statuses keeps the original completion time
+  const stillDone = from?.statusCategory === TaskStatusCategory.DONE && to.category === TaskStatusCategory.DONE;
+
+  return {
+    status: to.key,
+    statusCategory: to.category,
+    ...(!stillDone && { completedAt: to.category === TaskStatusCategory.DONE ? new Date() : null }),
+    statusChanges: {
+      create: {
+        fromStatus: from?.status ?? null,
+        toStatus: to.key,
+        fromCategory: from?.statusCategory ?? null,
+        toCategory: to.category,
+        changedById,
+      },
+    },
+  };
+};
+
+export const canTransition = (workflow: Workflow, from: string, to: string): boolean => {
+  if (from === to || !workflow.transitions) {
+    return true;
+  }
+
+  // Tasks in a status the workflow no longer knows can move anywhere
+  if (!findStatus(workflow, from)) {
+    return true;
+  }
+
+  return workflow.transitions[from]?.includes(to) ?? false;
+};
+
+/**
+ * Check a workflow definition, returning a list of problems (empty if valid)
+ */
+export const validateWorkflow = (workflow: Workflow): string[] => {
+  const errors: string[] = [];
+  const keys = new Set<string>();
+
+  for (const status of workflow.statuses) {
+    if (!STATUS_KEY_PATTERN.test(status.key)) {
+      errors.push(`Invalid status key "${status.key}"`);
+    }
+    if (keys.has(status.key)) {
+      errors.push(`Duplicate status "${status.key}"`);
+    }
+    if (!STATUS_CATEGORIES.includes(status.category)) {
+      errors.push(`Invalid category "${status.category}" for status "${status.key}"`);
+    }
+    keys.add(status.key);
+  }
+
+  for (const category of [TaskStatusCategory.NOT_STARTED, TaskStatusCategory.DONE]) {
+    if (!workflow.statuses.some(s => s.category === category)) {
+      errors.push(`Workflow needs at least one "${category}" status`);
+    }
+  }
+
+  for (const [from, targets] of Object.entries(workflow.transitions ?? {})) {
+    if (!keys.has(from)) {
+      errors.push(`Transition from unknown status "${from}"`);
+    }
+    for (const to of targets) {
+      if (!keys.has(to)) {
+        errors.push(`Transition from "${from}" to unknown status "${to}"`);
+      }
+    }
+  }
+
+  return errors;
+};
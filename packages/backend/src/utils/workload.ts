@@ -0,0 +1,116 @@
+/**
+ * Weekly workload of one person, from the estimates of their open tasks.
+ *
+ * Weeks start on Monday (UTC). A task counts in the week of its due date, and
+ * tasks already overdue count in the first week. A task shared by several
+ * assignees splits its estimate evenly between them.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WorkloadAssignment {
+  taskId: string;
+  projectId: string;
+  estimateMinutes: number | null;
+  dueDate: Date | null;
+  assigneeCount: number;
+}
+
+export interface WorkloadWeek {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  assignedMinutes: number;
+  taskCount: number;
+  capacityMinutes: number;
+  utilization: number | null; // percent of capacity, null without capacity
+  overAllocated: boolean;
+  projectMinutes: Record<string, number>;
+}
+
+export interface Workload {
+  weeks: WorkloadWeek[];
+  unscheduled: { minutes: number; taskCount: number }; // no due date
+  later: { minutes: number; taskCount: number }; // due after the last week
+  unestimatedTasks: number;
+  overAllocated: boolean;
+}
+
+/**
+ * Monday 00:00 UTC of the week a date falls in
+ */
+export const startOfWeek = (date: Date): Date => {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const offset = (new Date(day).getUTCDay() + 6) % 7;
+  return new Date(day - offset * DAY_MS);
+};
+
+/**
+ * Spread open assignments over `weeks` weeks from the week of `from`, and
+ * compare each week with the weekly capacity
+ */
+export const buildWorkload = (
+  assignments: WorkloadAssignment[],
+  options: { from: Date; weeks: number; capacityMinutes: number }
+): Workload => {
+  const first = startOfWeek(options.from).getTime();
+  const end = first + options.weeks * 7 * DAY_MS;
+
+  const weeks = Array.from({ length: options.weeks }, (_, i) => ({
+    weekStart: new Date(first + i * 7 * DAY_MS).toISOString().slice(0, 10),
+    minutes: 0,
+    taskCount: 0,
+    projectMinutes: {} as Record<string, number>,
+  }));
+  const unscheduled = { minutes: 0, taskCount: 0 };
+  const later = { minutes: 0, taskCount: 0 };
+  let unestimatedTasks = 0;
+
+  for (const assignment of assignments) {
+    const minutes = (assignment.estimateMinutes ?? 0) / Math.max(assignment.assigneeCount, 1);
+    if (assignment.estimateMinutes === null) {
+      unestimatedTasks++;
+    }
+
+    if (!assignment.dueDate) {
+      unscheduled.minutes += minutes;
+      unscheduled.taskCount++;
+      continue;
+    }
+
+    const due = assignment.dueDate.getTime();
+    if (due >= end) {
+      later.minutes += minutes;
+      later.taskCount++;
+      continue;
+    }
+
+    const week = weeks[Math.max(0, Math.floor((due - first) / (7 * DAY_MS)))]!;
+    week.minutes += minutes;
+    week.taskCount++;
+    week.projectMinutes[assignment.projectId] = (week.projectMinutes[assignment.projectId] ?? 0) + minutes;
+  }
+
+  const result = weeks.map((week): WorkloadWeek => {
+    const assignedMinutes = Math.round(week.minutes);
+    return {
+      weekStart: week.weekStart,
+      assignedMinutes,
+      taskCount: week.taskCount,
+      capacityMinutes: options.capacityMinutes,
+      utilization: options.capacityMinutes > 0
+        ? Math.round((assignedMinutes / options.capacityMinutes) * 1000) / 10
+        : null,
+      overAllocated: assignedMinutes > options.capacityMinutes,
+      projectMinutes: Object.fromEntries(
+        Object.entries(week.projectMinutes).map(([projectId, minutes]) => [projectId, Math.round(minutes)])
+      ),
+    };
+  });
+
+  return {
+    weeks: result,
+    unscheduled: { minutes: Math.round(unscheduled.minutes), taskCount: unscheduled.taskCount },
+    later: { minutes: Math.round(later.minutes), taskCount: later.taskCount },
+    unestimatedTasks,
+    overAllocated: result.some(week => week.overAllocated),
+  };
+};
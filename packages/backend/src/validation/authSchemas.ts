@@ -118,6 +118,15 @@ export const updateProfileSchema = Joi.object({
     projectUpdates: Joi.boolean().optional(),
     mentions: Joi.boolean().optional(),
   }).optional(),
+  weeklyCapacityMinutes: Joi.number()
+    .integer()
+    .min(0)
+    .max(10080)
+    .optional()
+    .allow(null)
+    .messages({
+      'number.max': 'Weekly capacity cannot exceed the length of a week',
+    }),
 });
 
 // Deactivate account validation
@@ -0,0 +1,39 @@
+import { assigneeConditions, diffAssignees } from '../src/utils/assignees';
+
+describe('Assignee Utilities (Unit Tests)', () => {
+  describe('assigneeConditions', () => {
+    it('should match tasks assigned to any of the users by default', () => {
+      expect(assigneeConditions(['u1', 'u2'])).toEqual([
+        { assignments: { some: { userId: { in: ['u1', 'u2'] } } } },
+      ]);
+      expect(assigneeConditions('u1', 'any')).toEqual([
+        { assignments: { some: { userId: { in: ['u1'] } } } },
+      ]);
+    });
+
+    it('should require every user for "all"', () => {
+      expect(assigneeConditions(['u1', 'u2', 'u1'], 'all')).toEqual([
+        { assignments: { some: { userId: 'u1' } } },
+        { assignments: { some: { userId: 'u2' } } },
+      ]);
+    });
+  });
+
+  describe('diffAssignees', () => {
+    it('should work out who is added and removed', () => {
+      expect(diffAssignees(['u1', 'u2'], ['u2', 'u3', 'u3'])).toEqual({
+        assigneeIds: ['u2', 'u3'],
+        added: ['u3'],
+        removed: ['u1'],
+      });
+    });
+
+    it('should unassign everyone for an empty list', () => {
+      expect(diffAssignees(['u1', 'u2'], [])).toEqual({ assigneeIds: [], added: [], removed: ['u1', 'u2'] });
+    });
+
+    it('should change nothing without a list', () => {
+      expect(diffAssignees(['u1'], undefined)).toEqual({ assigneeIds: undefined, added: [], removed: [] });
+    });
+  });
+});
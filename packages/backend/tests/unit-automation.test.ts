@@ -0,0 +1,148 @@
+import {
+  AutomationSubject,
+  AutomationTaskFields,
+  MAX_AUTOMATION_DEPTH,
+  chainBlockReason,
+  evaluateCondition,
+  evaluateConditions,
+  getFieldValue,
+  isAutomationField,
+  renderTemplate,
+} from '../src/utils/automation';
+
+const task = (overrides: Partial<AutomationTaskFields> = {}): AutomationTaskFields => ({
+  id: 'task-1',
+  title: 'Fix login',
+  status: 'in_progress',
+  statusCategory: 'active',
+  priority: 3,
+  creatorId: 'u1',
+  assigneeIds: ['u2', 'u3'],
+  dueDate: new Date('2024-12-06T17:00:00Z'),
+  milestoneId: null,
+  customFields: { area: 'auth' },
+  ...overrides,
+});
+
+describe('Automation Utilities (Unit Tests)', () => {
+  describe('isAutomationField', () => {
+    it('should accept task, previous, custom and message fields', () => {
+      expect(isAutomationField('status')).toBe(true);
+      expect(isAutomationField('task.assigneeIds')).toBe(true);
+      expect(isAutomationField('previous.priority')).toBe(true);
+      expect(isAutomationField('customFields.area')).toBe(true);
+      expect(isAutomationField('message.body')).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(isAutomationField('description')).toBe(false);
+      expect(isAutomationField('customFields')).toBe(false);
+      expect(isAutomationField('message.project')).toBe(false);
+      expect(isAutomationField('status.key')).toBe(false);
+    });
+  });
+
+  describe('getFieldValue', () => {
+    const subject: AutomationSubject = {
+      task: task(),
+      previous: task({ status: 'todo' }),
+      message: { id: 'm1', body: 'Deployed', authorId: 'u2' },
+    };
+
+    it('should read task, previous, custom field and message values', () => {
+      expect(getFieldValue(subject, 'status')).toBe('in_progress');
+      expect(getFieldValue(subject, 'task.title')).toBe('Fix login');
+      expect(getFieldValue(subject, 'previous.status')).toBe('todo');
+      expect(getFieldValue(subject, 'customFields.area')).toBe('auth');
+      expect(getFieldValue(subject, 'message.body')).toBe('Deployed');
+    });
+
+    it('should read unknown fields as undefined', () => {
+      expect(getFieldValue(subject, 'nope')).toBeUndefined();
+      expect(getFieldValue(subject, 'title.length')).toBeUndefined();
+      expect(getFieldValue({ task: null }, 'message.body')).toBeUndefined();
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    const subject: AutomationSubject = { task: task(), previous: task({ priority: 2 }) };
+
+    it('should compare values', () => {
+      expect(evaluateCondition({ field: 'status', operator: 'equals', value: 'in_progress' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'status', operator: 'not_equals', value: 'in_progress' }, subject)).toBe(false);
+      expect(evaluateCondition({ field: 'priority', operator: 'in', value: [3, 4] }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'priority', operator: 'not_in', value: [3, 4] }, subject)).toBe(false);
+      expect(evaluateCondition({ field: 'priority', operator: 'gte', value: 4 }, subject)).toBe(false);
+      expect(evaluateCondition({ field: 'priority', operator: 'lte', value: 3 }, subject)).toBe(true);
+    });
+
+    it('should match list fields by membership', () => {
+      expect(evaluateCondition({ field: 'assigneeIds', operator: 'equals', value: 'u2' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'assigneeIds', operator: 'not_in', value: ['u4'] }, subject)).toBe(true);
+    });
+
+    it('should match text case-insensitively with contains', () => {
+      expect(evaluateCondition({ field: 'title', operator: 'contains', value: 'LOGIN' }, subject)).toBe(true);
+    });
+
+    it('should compare dates as ISO strings', () => {
+      expect(evaluateCondition({ field: 'dueDate', operator: 'lte', value: '2024-12-31T00:00:00.000Z' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'dueDate', operator: 'gte', value: 5 }, subject)).toBe(false);
+    });
+
+    it('should check whether values are set', () => {
+      expect(evaluateCondition({ field: 'milestoneId', operator: 'is_not_set' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'assigneeIds', operator: 'is_set' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'customFields.team', operator: 'is_set' }, subject)).toBe(false);
+    });
+
+    it('should detect changes against the previous task', () => {
+      expect(evaluateCondition({ field: 'priority', operator: 'changed' }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'priority', operator: 'changed_to', value: 3 }, subject)).toBe(true);
+      expect(evaluateCondition({ field: 'priority', operator: 'changed_to', value: 5 }, subject)).toBe(false);
+      expect(evaluateCondition({ field: 'status', operator: 'changed' }, subject)).toBe(false);
+      expect(evaluateCondition({ field: 'priority', operator: 'changed' }, { task: task() })).toBe(false);
+    });
+  });
+
+  describe('evaluateConditions', () => {
+    it('should require every condition and pass with none', () => {
+      const subject: AutomationSubject = { task: task() };
+
+      expect(evaluateConditions([], subject)).toBe(true);
+      expect(evaluateConditions([
+        { field: 'status', operator: 'equals', value: 'in_progress' },
+        { field: 'priority', operator: 'gte', value: 3 },
+      ], subject)).toBe(true);
+      expect(evaluateConditions([
+        { field: 'status', operator: 'equals', value: 'in_progress' },
+        { field: 'priority', operator: 'gte', value: 4 },
+      ], subject)).toBe(false);
+    });
+  });
+
+  describe('chainBlockReason', () => {
+    it('should stop rules from running twice in a chain', () => {
+      expect(chainBlockReason([], 'r1')).toBeNull();
+      expect(chainBlockReason(['r2'], 'r1')).toBeNull();
+      expect(chainBlockReason(['r1', 'r2'], 'r1')).toMatch(/already ran/);
+    });
+
+    it('should stop long chains', () => {
+      const chain = Array.from({ length: MAX_AUTOMATION_DEPTH }, (_, i) => `r${i}`);
+
+      expect(chainBlockReason(chain, 'other')).toMatch(/longer than/);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should fill placeholders from the subject', () => {
+      const subject: AutomationSubject = { task: task(), message: { id: 'm1', body: 'Done', authorId: null } };
+
+      expect(renderTemplate('{{ task.title }} is {{status}} ({{assigneeIds}})', subject))
+        .toBe('Fix login is in_progress (u2, u3)');
+      expect(renderTemplate('Due {{dueDate}}, says "{{message.body}}"{{nope}}', subject))
+        .toBe('Due 2024-12-06T17:00:00.000Z, says "Done"');
+    });
+  });
+});
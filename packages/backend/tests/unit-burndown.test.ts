@@ -0,0 +1,74 @@
+import { buildBurndown, categoryAt, BurndownTask } from '../src/utils/burndown';
+
+const at = (value: string) => new Date(value);
+
+describe('Burndown Utilities (Unit Tests)', () => {
+  describe('categoryAt', () => {
+    const task: BurndownTask = {
+      estimateMinutes: 60,
+      createdAt: at('2024-03-01T09:00:00Z'),
+      history: [
+        { category: 'not_started', at: at('2024-03-01T09:00:00Z') },
+        { category: 'active', at: at('2024-03-02T10:00:00Z') },
+        { category: 'done', at: at('2024-03-03T12:00:00Z') },
+      ],
+    };
+
+    it('should follow the status history', () => {
+      expect(categoryAt(task, at('2024-03-01T08:59:59Z'))).toBeNull();
+      expect(categoryAt(task, at('2024-03-01T09:00:00Z'))).toBe('not_started');
+      expect(categoryAt(task, at('2024-03-02T23:59:59Z'))).toBe('active');
+      expect(categoryAt(task, at('2024-03-03T12:00:00Z'))).toBe('done');
+    });
+
+    it('should treat a task without history as not started', () => {
+      expect(categoryAt({ ...task, history: [] }, at('2024-03-05T00:00:00Z'))).toBe('not_started');
+    });
+  });
+
+  describe('buildBurndown', () => {
+    const tasks: BurndownTask[] = [
+      {
+        estimateMinutes: 120,
+        createdAt: at('2024-02-28T00:00:00Z'),
+        history: [{ category: 'done', at: at('2024-03-02T15:00:00Z') }],
+      },
+      {
+        estimateMinutes: 60,
+        createdAt: at('2024-02-28T00:00:00Z'),
+        history: [
+          { category: 'done', at: at('2024-03-01T15:00:00Z') },
+          { category: 'active', at: at('2024-03-02T08:00:00Z') },
+        ],
+      },
+      // Added to the sprint scope on the second day
+      { estimateMinutes: null, createdAt: at('2024-03-02T11:00:00Z'), history: [] },
+    ];
+
+    it('should measure scope and completion at the end of each day', () => {
+      const points = buildBurndown(tasks, at('2024-03-01T00:00:00Z'), at('2024-03-04T00:00:00Z'), at('2024-03-10T00:00:00Z'));
+
+      expect(points.map(p => p.date)).toEqual(['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-04']);
+      expect(points[0]).toMatchObject({ scopeTasks: 2, scopeMinutes: 180, completedTasks: 1, completedMinutes: 60, remainingMinutes: 120 });
+      expect(points[1]).toMatchObject({ scopeTasks: 3, scopeMinutes: 180, completedTasks: 1, completedMinutes: 120, remainingTasks: 2 });
+    });
+
+    it('should draw the ideal line from the first day scope down to zero', () => {
+      const points = buildBurndown(tasks, at('2024-03-01T00:00:00Z'), at('2024-03-04T00:00:00Z'), at('2024-03-10T00:00:00Z'));
+
+      expect(points.map(p => p.idealMinutes)).toEqual([135, 90, 45, 0]);
+      expect(points.map(p => p.idealTasks)).toEqual([1.5, 1, 0.5, 0]);
+    });
+
+    it('should leave future days unmeasured', () => {
+      const points = buildBurndown(tasks, at('2024-03-01T00:00:00Z'), at('2024-03-04T00:00:00Z'), at('2024-03-02T12:00:00Z'));
+
+      expect(points[1]).toMatchObject({ scopeTasks: 3, completedTasks: 0 });
+      expect(points[2]).toMatchObject({ scopeTasks: null, completedMinutes: null, remainingTasks: null });
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(() => buildBurndown(tasks, at('2024-03-04T00:00:00Z'), at('2024-03-01T00:00:00Z'))).toThrow('must not be before');
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { parseCsv, toCsv } from '../src/utils/csv';
+
+describe('CSV Utilities (Unit Tests)', () => {
+  describe('parseCsv', () => {
+    it('should split rows and cells', () => {
+      expect(parseCsv('title,status\r\nFix login,todo\nShip it,done')).toEqual([
+        ['title', 'status'],
+        ['Fix login', 'todo'],
+        ['Ship it', 'done'],
+      ]);
+    });
+
+    it('should handle quoted cells with commas, quotes and line breaks', () => {
+      expect(parseCsv('title,description\n"Crash, again","Says ""boom""\non start"\n')).toEqual([
+        ['title', 'description'],
+        ['Crash, again', 'Says "boom"\non start'],
+      ]);
+    });
+
+    it('should keep empty cells and skip blank lines', () => {
+      expect(parseCsv('\uFEFFa,b,c\n\n1,,3\n,,\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '', '3'],
+        ['', '', ''],
+      ]);
+    });
+
+    it('should reject an unterminated quote', () => {
+      expect(() => parseCsv('title\n"Broken\nrow')).toThrow('Unterminated quoted cell starting on line 2');
+    });
+  });
+
+  describe('toCsv', () => {
+    it('should quote cells only when needed', () => {
+      expect(toCsv([['title', 'count'], ['Say "hi", then leave', 3], [null, new Date('2024-12-10T00:00:00Z')]]))
+        .toBe('title,count\r\n"Say ""hi"", then leave",3\r\n,2024-12-10T00:00:00.000Z\r\n');
+    });
+
+    it('should defuse formulas and read them back unchanged', () => {
+      const csv = toCsv([['=SUM(A1:A2)', '-1', '@me', 'plain']]);
+
+      expect(csv).toBe("'=SUM(A1:A2),'-1,'@me,plain\r\n");
+      expect(parseCsv(csv)).toEqual([['=SUM(A1:A2)', '-1', '@me', 'plain']]);
+    });
+
+    it('should defuse cells starting with a tab or carriage return', () => {
+      const csv = toCsv([['\t=1+1', '\r=1+1']]);
+
+      expect(csv).toBe("'\t=1+1,\"'\r=1+1\"\r\n");
+      expect(parseCsv(csv)).toEqual([['\t=1+1', '\r=1+1']]);
+    });
+  });
+});
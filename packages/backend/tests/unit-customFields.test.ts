@@ -0,0 +1,92 @@
+import {
+  compareCustomFieldValues,
+  CustomFieldDefinition,
+  getCustomFieldDefinitions,
+  validateCustomFieldValues,
+} from '../src/utils/customFields';
+
+describe('Custom Field Utilities (Unit Tests)', () => {
+  const definitions: CustomFieldDefinition[] = [
+    { key: 'customer', name: 'Customer', type: 'text', required: true },
+    { key: 'points', name: 'Story points', type: 'number' },
+    { key: 'launch', name: 'Launch date', type: 'date' },
+    { key: 'component', name: 'Component', type: 'select', options: ['api', 'web'] },
+    { key: 'platforms', name: 'Platforms', type: 'multi_select', options: ['ios', 'android', 'web'] },
+    { key: 'reviewer', name: 'Reviewer', type: 'user' },
+  ];
+
+  describe('getCustomFieldDefinitions', () => {
+    it('should read definitions from project metadata', () => {
+      expect(getCustomFieldDefinitions({ customFields: definitions })).toHaveLength(6);
+    });
+
+    it('should tolerate missing or malformed metadata', () => {
+      expect(getCustomFieldDefinitions(null)).toEqual([]);
+      expect(getCustomFieldDefinitions({})).toEqual([]);
+      expect(getCustomFieldDefinitions({ customFields: 'nope' })).toEqual([]);
+    });
+  });
+
+  describe('validateCustomFieldValues', () => {
+    it('should normalise valid values', () => {
+      const { values, errors } = validateCustomFieldValues(definitions, {
+        customer: 'Acme',
+        points: '5',
+        launch: '2024-06-01',
+        component: 'api',
+        platforms: ['ios', 'ios', 'web'],
+        reviewer: 'user-1',
+      }, { memberIds: ['user-1'] });
+
+      expect(errors).toEqual({});
+      expect(values).toEqual({
+        customer: 'Acme',
+        points: 5,
+        launch: '2024-06-01T00:00:00.000Z',
+        component: 'api',
+        platforms: ['ios', 'web'],
+        reviewer: 'user-1',
+      });
+    });
+
+    it('should report invalid values per field', () => {
+      const { errors } = validateCustomFieldValues(definitions, {
+        points: 'many',
+        launch: 'someday',
+        component: 'mobile',
+        platforms: ['desktop'],
+        reviewer: 'stranger',
+        unknown: 'x',
+      }, { memberIds: ['user-1'] });
+
+      expect(Object.keys(errors).sort()).toEqual(
+        ['component', 'launch', 'platforms', 'points', 'reviewer', 'unknown']
+      );
+    });
+
+    it('should enforce required fields only when asked', () => {
+      expect(validateCustomFieldValues(definitions, {}).errors).toEqual({});
+      expect(validateCustomFieldValues(definitions, {}, { enforceRequired: true }).errors)
+        .toEqual({ customer: 'is required' });
+    });
+
+    it('should not allow clearing a required field', () => {
+      expect(validateCustomFieldValues(definitions, { customer: null, points: null }).errors)
+        .toEqual({ customer: 'is required' });
+    });
+  });
+
+  describe('compareCustomFieldValues', () => {
+    it('should compare numbers numerically and strings alphabetically', () => {
+      expect([10, 2, 33].sort((a, b) => compareCustomFieldValues(a, b))).toEqual([2, 10, 33]);
+      expect(['web', 'api'].sort((a, b) => compareCustomFieldValues(a, b))).toEqual(['api', 'web']);
+    });
+
+    it('should sort missing values last in both directions', () => {
+      const values = [undefined, 1, 3];
+
+      expect([...values].sort((a, b) => compareCustomFieldValues(a, b, 'asc'))).toEqual([1, 3, undefined]);
+      expect([...values].sort((a, b) => compareCustomFieldValues(a, b, 'desc'))).toEqual([3, 1, undefined]);
+    });
+  });
+});
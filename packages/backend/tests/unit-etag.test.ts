@@ -0,0 +1,41 @@
+import { entityTag, ifMatchSatisfied, parseIfMatch } from '../src/utils/etag';
+
+describe('Entity Tag Utilities (Unit Tests)', () => {
+  const updatedAt = new Date('2024-12-02T09:00:00.000Z');
+  const tag = '"2024-12-02T09:00:00.000Z"';
+
+  describe('entityTag', () => {
+    it('should quote the update time', () => {
+      expect(entityTag(updatedAt)).toBe(tag);
+    });
+
+    it('should accept dates read back from the cache', () => {
+      expect(entityTag('2024-12-02T09:00:00.000Z')).toBe(tag);
+    });
+  });
+
+  describe('parseIfMatch', () => {
+    it('should list the tags of the header', () => {
+      expect(parseIfMatch(`"a", W/"b",c`)).toEqual(['"a"', '"b"', '"c"']);
+    });
+
+    it('should recognise any and missing headers', () => {
+      expect(parseIfMatch('*')).toBe('*');
+      expect(parseIfMatch(undefined)).toBeNull();
+      expect(parseIfMatch(' ')).toBeNull();
+    });
+  });
+
+  describe('ifMatchSatisfied', () => {
+    it('should match the current tag only', () => {
+      expect(ifMatchSatisfied(tag, updatedAt)).toBe(true);
+      expect(ifMatchSatisfied(`"stale", ${tag}`, updatedAt)).toBe(true);
+      expect(ifMatchSatisfied('"2024-12-01T09:00:00.000Z"', updatedAt)).toBe(false);
+    });
+
+    it('should be satisfied without a header or with any', () => {
+      expect(ifMatchSatisfied(undefined, updatedAt)).toBe(true);
+      expect(ifMatchSatisfied('*', updatedAt)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { escapeText, foldLine, formatDate, formatDateTime, renderCalendar } from '../src/utils/ical';
+
+describe('iCalendar Utilities (Unit Tests)', () => {
+  describe('escapeText', () => {
+    it('should escape special characters and newlines', () => {
+      expect(escapeText('a,b;c\\d\nnext')).toBe('a\\,b\\;c\\\\d\\nnext');
+    });
+  });
+
+  describe('foldLine', () => {
+    it('should leave short lines alone', () => {
+      expect(foldLine('SUMMARY:Short')).toBe('SUMMARY:Short');
+    });
+
+    it('should fold long lines at 75 octets', () => {
+      const folded = foldLine(`SUMMARY:${'x'.repeat(150)}`);
+      const lines = folded.split('\r\n');
+
+      expect(lines[0]).toHaveLength(75);
+      expect(lines.slice(1).every(line => line.startsWith(' ') && Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines.map((line, i) => i === 0 ? line : line.slice(1)).join('')).toBe(`SUMMARY:${'x'.repeat(150)}`);
+    });
+
+    it('should not split multi-byte characters', () => {
+      const folded = foldLine(`SUMMARY:${'ü'.repeat(60)}`);
+
+      expect(folded.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(folded).not.toContain('�');
+    });
+  });
+
+  describe('dates', () => {
+    it('should write dates and UTC times', () => {
+      const date = new Date('2024-12-05T16:04:09.000Z');
+
+      expect(formatDate(date)).toBe('20241205');
+      expect(formatDateTime(date)).toBe('20241205T160409Z');
+    });
+  });
+
+  describe('renderCalendar', () => {
+    const now = new Date('2024-12-01T08:00:00.000Z');
+
+    it('should render all-day and timed events', () => {
+      const ics = renderCalendar({
+        name: 'Jane, tasks',
+        refreshMinutes: 60,
+        events: [
+          {
+            uid: 'task-1@synergysphere',
+            summary: 'Ship release',
+            start: new Date('2024-12-05T00:00:00.000Z'),
+            allDay: true,
+            categories: ['Website'],
+          },
+          {
+            uid: 'task-2@synergysphere',
+            summary: 'Demo',
+            start: new Date('2024-12-06T15:30:00.000Z'),
+            allDay: false,
+            description: 'Project: Website',
+          },
+        ],
+      }, now);
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(ics.split('\r\n')).toEqual(expect.arrayContaining([
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'X-WR-CALNAME:Jane\\, tasks',
+        'REFRESH-INTERVAL;VALUE=DURATION:PT60M',
+        'UID:task-1@synergysphere',
+        'DTSTAMP:20241201T080000Z',
+        'DTSTART;VALUE=DATE:20241205',
+        'CATEGORIES:Website',
+        'DTSTART:20241206T153000Z',
+        'DESCRIPTION:Project: Website',
+      ]));
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    });
+
+    it('should end multi-day events on the day after', () => {
+      const ics = renderCalendar({
+        name: 'Milestones',
+        events: [{
+          uid: 'milestone-1@synergysphere',
+          summary: 'Sprint: 12',
+          start: new Date('2024-12-02T00:00:00.000Z'),
+          end: new Date('2024-12-14T00:00:00.000Z'),
+          allDay: true,
+        }],
+      }, now);
+
+      expect(ics).toContain('DTSTART;VALUE=DATE:20241202\r\nDTEND;VALUE=DATE:20241214\r\n');
+      expect(ics).not.toContain('REFRESH-INTERVAL');
+    });
+  });
+});
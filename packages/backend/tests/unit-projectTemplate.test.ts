@@ -0,0 +1,114 @@
+import {
+  TemplateSourceTask,
+  getTemplateSettings,
+  scheduleTemplateTasks,
+  startOfDay,
+  templateDurationDays,
+  toTemplateTasks,
+} from '../src/utils/projectTemplate';
+
+const source = (overrides: Partial<TemplateSourceTask>): TemplateSourceTask => ({
+  id: 'task',
+  parentId: null,
+  title: 'Task',
+  description: null,
+  priority: 3,
+  estimateMinutes: null,
+  dueDate: null,
+  autoComplete: false,
+  customFields: {},
+  assigneeIds: [],
+  checklist: [],
+  dependsOnIds: [],
+  ...overrides,
+});
+
+describe('Project Template Utilities (Unit Tests)', () => {
+  describe('toTemplateTasks', () => {
+    const start = new Date('2024-12-02T15:00:00Z');
+
+    it('should keep due dates relative to the first day', () => {
+      const [task] = toTemplateTasks([
+        source({ id: 'a', dueDate: new Date('2024-12-04T17:00:00Z') }),
+      ], start);
+
+      expect(task!.dueOffsetMinutes).toBe((2 * 24 + 17) * 60);
+    });
+
+    it('should put parents before subtasks and link by position', () => {
+      const tasks = toTemplateTasks([
+        source({ id: 'child', parentId: 'parent', title: 'Child', dependsOnIds: ['other'] }),
+        source({ id: 'other', title: 'Other', dependsOnIds: ['outside'] }),
+        source({ id: 'parent', title: 'Parent' }),
+      ], start);
+
+      expect(tasks.map(t => t.title)).toEqual(['Parent', 'Child', 'Other']);
+      expect(tasks[1]).toMatchObject({ parent: 0, dependsOn: [2] });
+      expect(tasks[2]).toMatchObject({ parent: null, dependsOn: [] });
+    });
+  });
+
+  describe('scheduleTemplateTasks', () => {
+    it('should shift due dates to the new start date', () => {
+      const tasks = toTemplateTasks([
+        source({ id: 'a', dueDate: new Date('2024-12-04T17:00:00Z') }),
+        source({ id: 'b' }),
+      ], new Date('2024-12-02T00:00:00Z'));
+
+      const scheduled = scheduleTemplateTasks(tasks, new Date('2025-03-10T08:30:00Z'));
+
+      expect(scheduled[0]!.dueDate!.toISOString()).toBe('2025-03-12T17:00:00.000Z');
+      expect(scheduled[1]!.dueDate).toBeNull();
+    });
+  });
+
+  describe('getTemplateSettings', () => {
+    it('should read well-formed settings', () => {
+      const settings = getTemplateSettings({
+        metadata: { workflow: { statuses: [] }, customFields: [], other: true },
+        members: [{ userId: 'u1', role: 'admin' }, { userId: 5 }],
+        tasks: [{ title: 'A', priority: 5, dueOffsetMinutes: 60, checklist: ['x', 1] }],
+      });
+
+      expect(settings.metadata).toEqual({ workflow: { statuses: [] }, customFields: [] });
+      expect(settings.members).toEqual([{ userId: 'u1', role: 'admin' }]);
+      expect(settings.tasks[0]).toMatchObject({ title: 'A', priority: 5, dueOffsetMinutes: 60, checklist: ['x'] });
+    });
+
+    it('should drop malformed tasks and renumber links', () => {
+      const settings = getTemplateSettings({
+        tasks: [
+          { title: '' },
+          { title: 'Parent' },
+          { title: 'Child', parent: 1, dependsOn: [0, 3, 9] },
+          { title: 'Later', parent: 3 },
+        ],
+      });
+
+      expect(settings.tasks.map(t => t.title)).toEqual(['Parent', 'Child', 'Later']);
+      expect(settings.tasks[1]).toMatchObject({ parent: 0, dependsOn: [2] });
+      expect(settings.tasks[2]).toMatchObject({ parent: null });
+    });
+
+    it('should read anything else as an empty template', () => {
+      expect(getTemplateSettings(null)).toEqual({ metadata: {}, members: [], tasks: [] });
+    });
+  });
+
+  describe('templateDurationDays', () => {
+    it('should count days up to the last due date', () => {
+      const tasks = getTemplateSettings({
+        tasks: [{ title: 'A', dueOffsetMinutes: 60 }, { title: 'B', dueOffsetMinutes: 9 * 24 * 60 + 1 }, { title: 'C' }],
+      }).tasks;
+
+      expect(templateDurationDays(tasks)).toBe(10);
+      expect(templateDurationDays([])).toBe(0);
+    });
+  });
+
+  describe('startOfDay', () => {
+    it('should return midnight UTC', () => {
+      expect(startOfDay(new Date('2024-12-02T23:59:00Z')).toISOString()).toBe('2024-12-02T00:00:00.000Z');
+    });
+  });
+});
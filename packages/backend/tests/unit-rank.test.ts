@@ -0,0 +1,54 @@
+import { RANK_PATTERN, rankBetween, spreadRanks } from '../src/utils/rank';
+
+describe('Rank Utilities (Unit Tests)', () => {
+  describe('rankBetween', () => {
+    it('should pick a rank between two others', () => {
+      expect(rankBetween(null, null)).toBe('i');
+      expect(rankBetween('a', 'c')).toBe('b');
+      expect(rankBetween('1', '1z')).toBe('1h');
+    });
+
+    it('should extend the rank when neighbours are adjacent', () => {
+      expect(rankBetween('a', 'b')).toBe('ai');
+      expect(rankBetween(null, '1')).toBe('0i');
+      expect(rankBetween('z', null)).toBe('zi');
+      expect(rankBetween('az', 'b')).toBe('azi');
+    });
+
+    it('should keep finding room when inserting repeatedly at the same spot', () => {
+      let lower = 'a';
+      const upper = 'b';
+
+      for (let i = 0; i < 200; i++) {
+        const rank = rankBetween(lower, upper);
+        expect(rank > lower && rank < upper).toBe(true);
+        expect(rank).toMatch(RANK_PATTERN);
+        lower = rank;
+      }
+    });
+
+    it('should reject invalid or out-of-order neighbours', () => {
+      expect(() => rankBetween('b', 'a')).toThrow('must sort before');
+      expect(() => rankBetween('a', 'a')).toThrow('must sort before');
+      expect(() => rankBetween('a0', null)).toThrow('Invalid rank "a0"');
+      expect(() => rankBetween(null, 'A')).toThrow('Invalid rank "A"');
+    });
+  });
+
+  describe('spreadRanks', () => {
+    it('should return distinct ascending ranks', () => {
+      for (const count of [1, 5, 35, 36, 500]) {
+        const ranks = spreadRanks(count);
+
+        expect(ranks).toHaveLength(count);
+        expect([...ranks].sort()).toEqual(ranks);
+        expect(new Set(ranks).size).toBe(count);
+        ranks.forEach(rank => expect(rank).toMatch(RANK_PATTERN));
+      }
+    });
+
+    it('should return nothing for an empty column', () => {
+      expect(spreadRanks(0)).toEqual([]);
+    });
+  });
+});
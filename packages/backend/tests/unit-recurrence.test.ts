@@ -0,0 +1,109 @@
+import { checkRule, getNextOccurrence, parseRRule, RecurrenceRule } from '../src/utils/recurrence';
+
+describe('Recurrence Utilities (Unit Tests)', () => {
+  describe('parseRRule', () => {
+    it('should parse frequency, interval, weekdays and count', () => {
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10')).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        byWeekday: ['MO', 'TH'],
+        count: 10,
+      });
+    });
+
+    it('should accept an RRULE prefix and UNTIL dates', () => {
+      expect(parseRRule('RRULE:FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20251231')).toEqual({
+        frequency: 'monthly',
+        byMonthDay: 15,
+        until: '2025-12-31T23:59:59.000Z',
+      });
+    });
+
+    it('should reject unsupported frequencies', () => {
+      expect(() => parseRRule('FREQ=YEARLY')).toThrow('Unsupported recurrence frequency');
+    });
+
+    it('should reject values that are not numbers', () => {
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=abc')).toThrow('Invalid INTERVAL value: abc');
+      expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=x')).toThrow('Invalid BYMONTHDAY value: x');
+      expect(() => parseRRule('FREQ=DAILY;COUNT=x')).toThrow('Invalid COUNT value: x');
+      expect(() => parseRRule('FREQ=DAILY;INTERVAL=-1')).toThrow('Invalid INTERVAL value: -1');
+    });
+
+    it('should reject UNTIL dates that do not exist', () => {
+      expect(() => parseRRule('FREQ=DAILY;UNTIL=2025-12-31')).toThrow('Invalid UNTIL value');
+      expect(() => parseRRule('FREQ=DAILY;UNTIL=20251340')).toThrow('Invalid UNTIL value');
+      expect(() => parseRRule('FREQ=DAILY;UNTIL=20250230T120000Z')).toThrow('Invalid UNTIL value');
+    });
+  });
+
+  describe('checkRule', () => {
+    it('should accept values within range', () => {
+      expect(() => checkRule(parseRRule('FREQ=MONTHLY;INTERVAL=365;BYMONTHDAY=31;COUNT=1'))).not.toThrow();
+    });
+
+    it('should apply the same limits to parsed strings and objects', () => {
+      expect(() => checkRule(parseRRule('FREQ=DAILY;INTERVAL=0'))).toThrow('between 1 and 365');
+      expect(() => checkRule(parseRRule('FREQ=DAILY;INTERVAL=366'))).toThrow('between 1 and 365');
+      expect(() => checkRule({ frequency: 'daily', interval: 1.5 })).toThrow('between 1 and 365');
+      expect(() => checkRule(parseRRule('FREQ=MONTHLY;BYMONTHDAY=32'))).toThrow('between 1 and 31');
+      expect(() => checkRule({ frequency: 'monthly', byMonthDay: 0 })).toThrow('between 1 and 31');
+      expect(() => checkRule(parseRRule('FREQ=DAILY;COUNT=0'))).toThrow('at least 1');
+      expect(() => checkRule({ frequency: 'daily', until: 'soon' })).toThrow('Invalid recurrence end date');
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    // Monday 2024-01-01 09:00 UTC
+    const start = new Date('2024-01-01T09:00:00Z');
+
+    it('should add the interval for daily rules', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 3 };
+
+      expect(getNextOccurrence(rule, start, start, 1)).toEqual(new Date('2024-01-04T09:00:00Z'));
+    });
+
+    it('should repeat weekly on the same weekday by default', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly' };
+
+      expect(getNextOccurrence(rule, start, start, 1)).toEqual(new Date('2024-01-08T09:00:00Z'));
+    });
+
+    it('should pick the next matching weekday', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', byWeekday: ['MO', 'TH'] };
+
+      expect(getNextOccurrence(rule, start, start, 1)).toEqual(new Date('2024-01-04T09:00:00Z'));
+      expect(getNextOccurrence(rule, new Date('2024-01-04T09:00:00Z'), start, 2))
+        .toEqual(new Date('2024-01-08T09:00:00Z'));
+    });
+
+    it('should skip weeks outside the interval', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, byWeekday: ['MO', 'FR'] };
+
+      expect(getNextOccurrence(rule, new Date('2024-01-05T09:00:00Z'), start, 2))
+        .toEqual(new Date('2024-01-15T09:00:00Z'));
+    });
+
+    it('should clamp monthly rules to the end of shorter months', () => {
+      const jan31 = new Date('2024-01-31T09:00:00Z');
+      const rule: RecurrenceRule = { frequency: 'monthly' };
+
+      expect(getNextOccurrence(rule, jan31, jan31, 1)).toEqual(new Date('2024-02-29T09:00:00Z'));
+      expect(getNextOccurrence(rule, new Date('2024-02-29T09:00:00Z'), jan31, 2))
+        .toEqual(new Date('2024-03-31T09:00:00Z'));
+    });
+
+    it('should stop after count occurrences', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', count: 2 };
+
+      expect(getNextOccurrence(rule, start, start, 1)).not.toBeNull();
+      expect(getNextOccurrence(rule, start, start, 2)).toBeNull();
+    });
+
+    it('should stop after the until date', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', until: '2024-01-02T00:00:00Z' };
+
+      expect(getNextOccurrence(rule, start, start, 1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  describeDueDate,
+  fromLocalDateTime,
+  isDateOnly,
+  isValidTimeZone,
+  normalizeReminderOffsets,
+  planTaskReminders,
+  reminderDeadline,
+  reminderTime,
+  toLocalDateTime,
+} from '../src/utils/reminders';
+
+describe('Reminder Utilities (Unit Tests)', () => {
+  const dateOnly = new Date('2024-12-05T00:00:00.000Z');
+  const timed = new Date('2024-12-05T16:00:00.000Z');
+
+  describe('time zones', () => {
+    it('should recognise IANA names', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('UTC')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should convert between instants and wall clock times', () => {
+      expect(toLocalDateTime(timed, 'America/New_York')).toEqual({
+        year: 2024, month: 12, day: 5, hour: 11, minute: 0,
+      });
+      expect(fromLocalDateTime({ year: 2024, month: 12, day: 5, hour: 11, minute: 0 }, 'America/New_York'))
+        .toEqual(timed);
+    });
+
+    it('should move times skipped by daylight saving to the hour after', () => {
+      expect(fromLocalDateTime({ year: 2024, month: 3, day: 31, hour: 2, minute: 30 }, 'Europe/Berlin'))
+        .toEqual(new Date('2024-03-31T01:30:00.000Z'));
+    });
+  });
+
+  describe('reminderDeadline', () => {
+    it('should end dates without a time at midnight in the user\'s time zone', () => {
+      expect(isDateOnly(dateOnly)).toBe(true);
+      expect(reminderDeadline(dateOnly, 'Europe/Berlin')).toEqual(new Date('2024-12-05T23:00:00.000Z'));
+    });
+
+    it('should keep due dates with a time', () => {
+      expect(isDateOnly(timed)).toBe(false);
+      expect(reminderDeadline(timed, 'Europe/Berlin')).toEqual(timed);
+    });
+  });
+
+  describe('reminderTime', () => {
+    it('should send whole-day reminders in the morning', () => {
+      expect(reminderTime(dateOnly, 1440, 'Europe/Berlin')).toEqual(new Date('2024-12-04T08:00:00.000Z'));
+      expect(reminderTime(timed, 2 * 1440, 'America/New_York')).toEqual(new Date('2024-12-03T14:00:00.000Z'));
+    });
+
+    it('should count other offsets back from the deadline', () => {
+      expect(reminderTime(timed, 120, 'Europe/Berlin')).toEqual(new Date('2024-12-05T14:00:00.000Z'));
+      expect(reminderTime(dateOnly, 120, 'America/New_York')).toEqual(new Date('2024-12-06T03:00:00.000Z'));
+      expect(reminderTime(timed, 0, 'UTC')).toEqual(timed);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should describe due dates from the user\'s point of view', () => {
+      const now = new Date('2024-12-04T10:00:00.000Z');
+
+      expect(describeDueDate(timed, 'Europe/Berlin', now)).toBe('tomorrow at 17:00');
+      expect(describeDueDate(dateOnly, 'UTC', now)).toBe('tomorrow');
+      expect(describeDueDate(timed, 'UTC', new Date('2024-12-05T14:10:00.000Z'))).toBe('in 2 hours');
+      expect(describeDueDate(timed, 'UTC', new Date('2024-12-05T15:45:00.000Z'))).toBe('in 15 minutes');
+      expect(describeDueDate(new Date('2024-12-09T00:00:00.000Z'), 'UTC', now)).toBe('on 2024-12-09');
+    });
+
+    it('should drop duplicate offsets', () => {
+      expect(normalizeReminderOffsets([120, 1440, 120])).toEqual([1440, 120]);
+    });
+  });
+
+  describe('planTaskReminders', () => {
+    const now = new Date('2024-12-03T12:00:00.000Z');
+    const assignee = (id: string, overrides: Partial<{ timezone: string; reminderOffsets: number[]; isActive: boolean }> = {}) => ({
+      id,
+      timezone: 'UTC',
+      reminderOffsets: [1440],
+      isActive: true,
+      ...overrides,
+    });
+
+    it('should remind every assignee by their own settings', () => {
+      const reminders = planTaskReminders({ id: 'task-1', dueDate: timed }, [
+        assignee('u1'),
+        assignee('u2', { timezone: 'America/New_York', reminderOffsets: [1440, 60] }),
+      ], now);
+
+      expect(reminders).toEqual([
+        { taskId: 'task-1', userId: 'u1', offsetMinutes: 1440, dueDate: timed, remindAt: new Date('2024-12-04T09:00:00.000Z') },
+        { taskId: 'task-1', userId: 'u2', offsetMinutes: 1440, dueDate: timed, remindAt: new Date('2024-12-04T14:00:00.000Z') },
+        { taskId: 'task-1', userId: 'u2', offsetMinutes: 60, dueDate: timed, remindAt: new Date('2024-12-05T15:00:00.000Z') },
+      ]);
+    });
+
+    it('should leave out inactive users and passed deadlines', () => {
+      expect(planTaskReminders({ id: 'task-1', dueDate: timed }, [
+        assignee('u1', { isActive: false }),
+      ], now)).toEqual([]);
+      expect(planTaskReminders({ id: 'task-1', dueDate: timed }, [
+        assignee('u1'),
+      ], new Date('2024-12-05T16:00:00.000Z'))).toEqual([]);
+    });
+
+    it('should plan nothing for unassigned tasks', () => {
+      expect(planTaskReminders({ id: 'task-1', dueDate: timed }, [], now)).toEqual([]);
+    });
+  });
+});
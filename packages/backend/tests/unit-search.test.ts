@@ -0,0 +1,30 @@
+import { SNIPPET_OPTIONS, TITLE_OPTIONS, renderHighlight } from '../src/utils/search';
+
+describe('Search Utilities (Unit Tests)', () => {
+  describe('renderHighlight', () => {
+    it('should wrap matches in <mark> tags', () => {
+      expect(renderHighlight('Fix \u0001login\u0002 redirect for \u0001logins\u0002'))
+        .toBe('Fix <mark>login</mark> redirect for <mark>logins</mark>');
+    });
+
+    it('should escape HTML in the surrounding text', () => {
+      expect(renderHighlight('<script>alert("x")</script> & \u0001deploy\u0002'))
+        .toBe('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; <mark>deploy</mark>');
+    });
+
+    it('should return null for empty headlines', () => {
+      expect(renderHighlight(null)).toBeNull();
+      expect(renderHighlight('')).toBeNull();
+    });
+  });
+
+  describe('headline options', () => {
+    it('should use the match markers', () => {
+      for (const options of [SNIPPET_OPTIONS, TITLE_OPTIONS]) {
+        expect(options).toContain('StartSel="\u0001"');
+        expect(options).toContain('StopSel="\u0002"');
+      }
+      expect(TITLE_OPTIONS).toContain('HighlightAll=true');
+    });
+  });
+});
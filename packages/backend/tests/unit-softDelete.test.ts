@@ -0,0 +1,125 @@
+import { Prisma } from '@prisma/client';
+import { softDeleteFilters, withSoftDeleteFilter } from '../src/utils/softDelete';
+import { projectTrashWhere, purgeCutoff } from '../src/utils/trash';
+
+const query = (model: Prisma.ModelName, action: Prisma.PrismaAction, args: Record<string, unknown> = {}): Prisma.MiddlewareParams => ({
+  model,
+  action,
+  args,
+  dataPath: [],
+  runInTransaction: false,
+});
+
+describe('Soft Delete Utilities (Unit Tests)', () => {
+  describe('withSoftDeleteFilter', () => {
+    it('should leave trashed tasks out of reads', () => {
+      const params = withSoftDeleteFilter(query('Task', 'findMany', { where: { projectId: 'p1' } }));
+
+      expect(params.args.where).toEqual({
+        projectId: 'p1',
+        AND: [{ deletedAt: null, project: { deletedAt: null } }],
+      });
+    });
+
+    it('should filter every read and updateMany', () => {
+      const actions: Prisma.PrismaAction[] = [
+        'findUnique', 'findUniqueOrThrow', 'findFirst', 'findFirstOrThrow',
+        'findMany', 'count', 'aggregate', 'groupBy', 'updateMany',
+      ];
+
+      for (const action of actions) {
+        expect(withSoftDeleteFilter(query('Task', action, { where: { id: 't1' } })).args.where.AND).toHaveLength(1);
+      }
+    });
+
+    it('should leave other writes alone', () => {
+      const actions: Prisma.PrismaAction[] = ['create', 'createMany', 'update', 'upsert', 'delete', 'deleteMany'];
+
+      for (const action of actions) {
+        const params = query('Task', action, { where: { id: 't1' } });
+        expect(withSoftDeleteFilter(params)).toBe(params);
+      }
+    });
+
+    it('should keep the conditions a query already has', () => {
+      const single = withSoftDeleteFilter(query('Task', 'findMany', { where: { AND: { priority: 'HIGH' } } }));
+      const list = withSoftDeleteFilter(query('Task', 'findMany', { where: { AND: [{ priority: 'HIGH' }, { parentId: null }] } }));
+
+      expect(single.args.where.AND).toEqual([softDeleteFilters.Task, { priority: 'HIGH' }]);
+      expect(list.args.where.AND).toEqual([softDeleteFilters.Task, { priority: 'HIGH' }, { parentId: null }]);
+    });
+
+    it('should filter queries without arguments', () => {
+      const params = withSoftDeleteFilter({ ...query('Project', 'count'), args: undefined });
+
+      expect(params.args.where).toEqual({ AND: [{ deletedAt: null }] });
+    });
+
+    it('should pass queries that filter on deletedAt through', () => {
+      const own = query('Task', 'findMany', { where: { deletedAt: { not: null } } });
+      const live = query('Task', 'findFirst', { where: { id: 't1', deletedAt: null } });
+      const project = query('Message', 'findMany', { where: { project: { deletedAt: { not: null } } } });
+
+      expect(withSoftDeleteFilter(own)).toBe(own);
+      expect(withSoftDeleteFilter(live)).toBe(live);
+      expect(withSoftDeleteFilter(project)).toBe(project);
+    });
+
+    it('should not bypass the filter for deletedAt on other relations', () => {
+      const params = withSoftDeleteFilter(query('Task', 'findMany', { where: { parent: { deletedAt: null } } }));
+
+      expect(params.args.where.AND).toEqual([softDeleteFilters.Task]);
+    });
+
+    it('should hide rows hanging off trashed tasks', () => {
+      const params = withSoftDeleteFilter(query('TaskDependency', 'findMany', { where: { taskId: 't1' } }));
+
+      expect(params.args.where.AND).toEqual([{
+        task: { deletedAt: null, project: { deletedAt: null } },
+        dependsOnTask: { deletedAt: null, project: { deletedAt: null } },
+      }]);
+    });
+
+    it('should hide attachments of trashed tasks, messages and projects', () => {
+      const params = withSoftDeleteFilter(query('Attachment', 'findMany', { where: { taskId: 't1' } }));
+
+      expect(params.args.where.AND).toEqual([{
+        AND: [
+          { OR: [{ projectId: null }, { project: { deletedAt: null } }] },
+          { OR: [{ taskId: null }, { task: { deletedAt: null, project: { deletedAt: null } } }] },
+          { OR: [{ messageId: null }, { message: { deletedAt: null, project: { deletedAt: null } } }] },
+        ],
+      }]);
+    });
+
+    it('should leave models without trash alone', () => {
+      const params = query('User', 'findMany', { where: { email: 'a@example.com' } });
+
+      expect(withSoftDeleteFilter(params)).toBe(params);
+    });
+
+    it('should not filter nested includes', () => {
+      const include = { subtasks: true, messages: { where: { parentId: null } } };
+      const params = withSoftDeleteFilter(query('Task', 'findUnique', { where: { id: 't1' }, include }));
+
+      // Relations must filter themselves with `where: { deletedAt: null }`
+      expect(params.args.include).toBe(include);
+    });
+  });
+
+  describe('trash queries', () => {
+    it('should list a project\'s trash past the filter', () => {
+      const params = query('Task', 'findMany', { where: projectTrashWhere('p1') });
+
+      expect(withSoftDeleteFilter(params)).toBe(params);
+    });
+
+    it('should purge trashed rows past the filter', () => {
+      const params = query('Task', 'deleteMany', {
+        where: { deletedAt: { lt: purgeCutoff(new Date('2024-03-31T00:00:00Z'), 30) } },
+      });
+
+      expect(withSoftDeleteFilter(params)).toBe(params);
+    });
+  });
+});
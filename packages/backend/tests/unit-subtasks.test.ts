@@ -0,0 +1,98 @@
+import { TaskStatusCategory } from '../src/types/models';
+import { countAncestors, exceedsSubtaskDepth, parentAutoStatus, rollUpProgress } from '../src/utils/subtasks';
+import { DEFAULT_WORKFLOW, Workflow } from '../src/utils/workflow';
+
+const { NOT_STARTED, ACTIVE, DONE } = TaskStatusCategory;
+
+describe('Subtask Utilities (Unit Tests)', () => {
+  describe('countAncestors', () => {
+    // epic <- story <- task <- step
+    const parents = new Map<string, string | null>([
+      ['epic', null],
+      ['story', 'epic'],
+      ['task', 'story'],
+      ['step', 'task'],
+    ]);
+    const getParentId = async (id: string) => parents.get(id);
+
+    it('should count the levels above a task', async () => {
+      expect(await countAncestors('epic', getParentId, 3)).toBe(0);
+      expect(await countAncestors('story', getParentId, 3)).toBe(1);
+      expect(await countAncestors('step', getParentId, 3)).toBe(3);
+    });
+
+    it('should stop past the limit on a broken chain', async () => {
+      const loop = async (id: string) => (id === 'a' ? 'b' : 'a');
+
+      expect(await countAncestors('a', loop, 3)).toBe(4);
+    });
+  });
+
+  describe('exceedsSubtaskDepth', () => {
+    it('should reject subtasks nested deeper than the limit', () => {
+      expect(exceedsSubtaskDepth(0, 3)).toBe(false);
+      expect(exceedsSubtaskDepth(2, 3)).toBe(false);
+      expect(exceedsSubtaskDepth(3, 3)).toBe(true);
+      expect(exceedsSubtaskDepth(0, 0)).toBe(true);
+    });
+  });
+
+  describe('rollUpProgress', () => {
+    it('should count done subtasks and checklist items', () => {
+      expect(rollUpProgress(
+        [{ statusCategory: DONE }, { statusCategory: ACTIVE }, { statusCategory: NOT_STARTED }],
+        [{ isDone: true }, { isDone: true }, { isDone: false }]
+      )).toEqual({
+        subtasks: { done: 1, total: 3 },
+        checklist: { done: 2, total: 3 },
+      });
+    });
+
+    it('should report zero for tasks without children', () => {
+      expect(rollUpProgress([], [])).toEqual({
+        subtasks: { done: 0, total: 0 },
+        checklist: { done: 0, total: 0 },
+      });
+    });
+  });
+
+  describe('parentAutoStatus', () => {
+    const parent = (statusCategory: string, subtasks: string[], autoComplete = true) => ({
+      autoComplete,
+      statusCategory,
+      subtasks: subtasks.map(category => ({ statusCategory: category })),
+    });
+
+    it('should complete a parent once all subtasks are done', () => {
+      expect(parentAutoStatus(parent(ACTIVE, [DONE, DONE]), DEFAULT_WORKFLOW)?.key).toBe('done');
+    });
+
+    it('should leave a parent with open subtasks alone', () => {
+      expect(parentAutoStatus(parent(ACTIVE, [DONE, ACTIVE]), DEFAULT_WORKFLOW)).toBeNull();
+      expect(parentAutoStatus(parent(DONE, [DONE]), DEFAULT_WORKFLOW)).toBeNull();
+    });
+
+    it('should reopen a completed parent when a subtask is open again', () => {
+      expect(parentAutoStatus(parent(DONE, [DONE, NOT_STARTED]), DEFAULT_WORKFLOW)?.key).toBe('in_progress');
+    });
+
+    it('should use the first status of the category in custom workflows', () => {
+      const qa: Workflow = {
+        statuses: [
+          { key: 'open', name: 'Open', category: NOT_STARTED },
+          { key: 'doing', name: 'Doing', category: ACTIVE },
+          { key: 'verified', name: 'Verified', category: DONE },
+          { key: 'wont_do', name: "Won't do", category: DONE },
+        ],
+      };
+
+      expect(parentAutoStatus(parent(NOT_STARTED, [DONE]), qa)?.key).toBe('verified');
+      expect(parentAutoStatus(parent(DONE, [ACTIVE]), qa)?.key).toBe('doing');
+    });
+
+    it('should ignore parents without auto-complete or subtasks', () => {
+      expect(parentAutoStatus(parent(ACTIVE, [DONE], false), DEFAULT_WORKFLOW)).toBeNull();
+      expect(parentAutoStatus(parent(ACTIVE, []), DEFAULT_WORKFLOW)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  buildPrerequisiteMap,
+  findDependencyCycle,
+  topologicalSort,
+  computeSchedule,
+  DependencyEdge,
+} from '../src/utils/taskGraph';
+
+describe('Task Graph Utilities (Unit Tests)', () => {
+  // c depends on b, b depends on a
+  const chain: DependencyEdge[] = [
+    { taskId: 'b', dependsOnTaskId: 'a' },
+    { taskId: 'c', dependsOnTaskId: 'b' },
+  ];
+
+  describe('buildPrerequisiteMap', () => {
+    it('should group prerequisites by task', () => {
+      const map = buildPrerequisiteMap([
+        ...chain,
+        { taskId: 'c', dependsOnTaskId: 'a' },
+      ]);
+
+      expect(map.get('c')).toEqual(['b', 'a']);
+      expect(map.get('b')).toEqual(['a']);
+      expect(map.has('a')).toBe(false);
+    });
+  });
+
+  describe('findDependencyCycle', () => {
+    it('should allow links that keep the graph acyclic', () => {
+      expect(findDependencyCycle(chain, 'c', 'a')).toBeNull();
+      expect(findDependencyCycle(chain, 'd', 'c')).toBeNull();
+    });
+
+    it('should reject a task depending on itself', () => {
+      expect(findDependencyCycle(chain, 'a', 'a')).toEqual(['a']);
+    });
+
+    it('should reject a direct cycle', () => {
+      expect(findDependencyCycle(chain, 'a', 'b')).toEqual(['b', 'a']);
+    });
+
+    it('should return the full path of a transitive cycle', () => {
+      expect(findDependencyCycle(chain, 'a', 'c')).toEqual(['c', 'b', 'a']);
+    });
+  });
+
+  describe('topologicalSort', () => {
+    it('should place prerequisites before dependents', () => {
+      expect(topologicalSort(['c', 'b', 'a'], chain)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should throw on cyclic graphs', () => {
+      expect(() => topologicalSort(['a', 'b'], [
+        { taskId: 'a', dependsOnTaskId: 'b' },
+        { taskId: 'b', dependsOnTaskId: 'a' },
+      ])).toThrow('cycle');
+    });
+  });
+
+  describe('computeSchedule', () => {
+    // design -> build -> release, with docs running in parallel to build
+    const nodes = [
+      { id: 'design', durationMinutes: 60 },
+      { id: 'build', durationMinutes: 240 },
+      { id: 'docs', durationMinutes: 90 },
+      { id: 'release', durationMinutes: 30 },
+    ];
+    const edges: DependencyEdge[] = [
+      { taskId: 'build', dependsOnTaskId: 'design' },
+      { taskId: 'docs', dependsOnTaskId: 'design' },
+      { taskId: 'release', dependsOnTaskId: 'build' },
+      { taskId: 'release', dependsOnTaskId: 'docs' },
+    ];
+
+    it('should compute earliest and latest times with slack', () => {
+      const result = computeSchedule(nodes, edges);
+      const docs = result.nodes.find(n => n.id === 'docs')!;
+      const release = result.nodes.find(n => n.id === 'release')!;
+
+      expect(result.totalDurationMinutes).toBe(330);
+      expect(docs.earliestStart).toBe(60);
+      expect(docs.earliestFinish).toBe(150);
+      expect(docs.latestStart).toBe(210);
+      expect(docs.latestFinish).toBe(300);
+      expect(docs.slack).toBe(150);
+      expect(docs.isCritical).toBe(false);
+      expect(release.earliestStart).toBe(300);
+      expect(release.slack).toBe(0);
+    });
+
+    it('should return the critical path in order', () => {
+      const result = computeSchedule(nodes, edges);
+
+      expect(result.criticalPath).toEqual(['design', 'build', 'release']);
+    });
+
+    it('should handle tasks without dependencies or estimates', () => {
+      const result = computeSchedule([{ id: 'a', durationMinutes: 0 }], []);
+
+      expect(result.totalDurationMinutes).toBe(0);
+      expect(result.criticalPath).toEqual([]);
+      expect(result.nodes[0]!.slack).toBe(0);
+    });
+  });
+});
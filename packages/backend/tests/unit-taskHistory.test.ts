@@ -0,0 +1,141 @@
+import {
+  TaskHistoryNames,
+  TaskSnapshot,
+  describeTaskChanges,
+  diffTaskSnapshots,
+  formatHistoryDate,
+  formatHistoryMinutes,
+  readTaskSnapshot,
+  snapshotTask,
+} from '../src/utils/taskHistory';
+
+const snapshot = (overrides: Partial<TaskSnapshot> = {}): TaskSnapshot => ({
+  title: 'Write brief',
+  description: null,
+  status: 'todo',
+  priority: 3,
+  dueDate: null,
+  estimateMinutes: null,
+  assigneeIds: [],
+  milestoneId: null,
+  parentId: null,
+  projectId: 'p1',
+  autoComplete: false,
+  customFields: {},
+  ...overrides,
+});
+
+const names: TaskHistoryNames = {
+  users: new Map([['u1', 'Jane Doe'], ['u2', 'Bob']]),
+  statuses: new Map([['todo', 'To Do'], ['in_progress', 'In Progress']]),
+  milestones: new Map([['m1', 'Sprint 1']]),
+  tasks: new Map(),
+  projects: new Map([['p1', 'Website']]),
+  customFields: new Map([['team', 'Team']]),
+};
+
+describe('Task History Utilities (Unit Tests)', () => {
+  describe('snapshotTask', () => {
+    it('should store dates as ISO strings and sort assignees', () => {
+      const result = snapshotTask({
+        ...snapshot(),
+        dueDate: new Date('2024-12-05T00:00:00Z'),
+        assigneeIds: ['u2', 'u1'],
+        customFields: null,
+      });
+
+      expect(result.dueDate).toBe('2024-12-05T00:00:00.000Z');
+      expect(result.assigneeIds).toEqual(['u1', 'u2']);
+      expect(result.customFields).toEqual({});
+    });
+  });
+
+  describe('diffTaskSnapshots', () => {
+    it('should keep only the changed fields', () => {
+      const diff = diffTaskSnapshots(
+        snapshot({ dueDate: '2024-12-02T00:00:00.000Z' }),
+        snapshot({ dueDate: '2024-12-05T00:00:00.000Z', priority: 5 })
+      );
+
+      expect(diff).toEqual({
+        before: { priority: 3, dueDate: '2024-12-02T00:00:00.000Z' },
+        after: { priority: 5, dueDate: '2024-12-05T00:00:00.000Z' },
+      });
+    });
+
+    it('should compare custom fields per key', () => {
+      const diff = diffTaskSnapshots(
+        snapshot({ customFields: { team: 'web', size: 3 } }),
+        snapshot({ customFields: { size: 3, tags: ['a'] } })
+      );
+
+      expect(diff).toEqual({
+        before: { customFields: { team: 'web', tags: null } },
+        after: { customFields: { team: null, tags: ['a'] } },
+      });
+    });
+
+    it('should return null when nothing changed', () => {
+      expect(diffTaskSnapshots(snapshot(), snapshot())).toBeNull();
+    });
+  });
+
+  describe('readTaskSnapshot', () => {
+    it('should drop fields of the wrong type', () => {
+      expect(readTaskSnapshot({ title: 5, dueDate: null, assigneeIds: ['u1', 2], status: 'todo' })).toEqual({
+        dueDate: null,
+        assigneeIds: ['u1'],
+        status: 'todo',
+      });
+      expect(readTaskSnapshot(null)).toEqual({});
+    });
+  });
+
+  describe('describeTaskChanges', () => {
+    it('should describe changes with current names', () => {
+      const changes = describeTaskChanges(
+        { status: 'todo', dueDate: '2024-12-02T00:00:00.000Z', assigneeIds: ['u1'] },
+        { status: 'in_progress', dueDate: '2024-12-05T17:00:00.000Z', assigneeIds: ['u2'] },
+        names
+      );
+
+      expect(changes.map(c => c.summary)).toEqual([
+        'Status changed from To Do to In Progress',
+        'Due date changed from 2024-12-02 to 2024-12-05 17:00 UTC',
+        'Assignees: added Bob; removed Jane Doe',
+      ]);
+      expect(changes[1]).toMatchObject({ field: 'dueDate', label: 'Due date' });
+    });
+
+    it('should describe set and cleared values', () => {
+      const changes = describeTaskChanges(
+        { milestoneId: null, estimateMinutes: 90, customFields: { team: null } },
+        { milestoneId: 'm1', estimateMinutes: null, customFields: { team: 'web' } },
+        names
+      );
+
+      expect(changes.map(c => c.summary)).toEqual([
+        'Estimate cleared (was 1h 30m)',
+        'Milestone set to Sprint 1',
+        'Team set to web',
+      ]);
+    });
+
+    it('should list the initial values of a created task', () => {
+      const changes = describeTaskChanges({}, snapshot({ description: 'Long text' }), names);
+
+      expect(changes.map(c => c.field)).toEqual(['title', 'description', 'status', 'priority']);
+      expect(changes[1]!.summary).toBe('Description added');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should leave out midnight and format durations', () => {
+      expect(formatHistoryDate('2024-12-02T00:00:00.000Z')).toBe('2024-12-02');
+      expect(formatHistoryDate('2024-12-02T09:30:00.000Z')).toBe('2024-12-02 09:30 UTC');
+      expect(formatHistoryMinutes(45)).toBe('45m');
+      expect(formatHistoryMinutes(120)).toBe('2h');
+      expect(formatHistoryMinutes(150)).toBe('2h 30m');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { compileTaskQuery, parseTaskQuery, resolveDay } from '../src/utils/taskQuery';
+
+describe('Task Query Language (Unit Tests)', () => {
+  const now = new Date('2024-12-10T15:30:00Z');
+  const context = { userId: 'user-1', now };
+
+  describe('parseTaskQuery', () => {
+    it('should split fields, operators, values and free text', () => {
+      expect(parseTaskQuery('status:todo,in_progress priority>=4 -is:done "login bug" crash')).toEqual({
+        clauses: [
+          { field: 'status', operator: ':', values: ['todo', 'in_progress'], negate: false },
+          { field: 'priority', operator: '>=', values: ['4'], negate: false },
+          { field: 'is', operator: ':', values: ['done'], negate: true },
+        ],
+        text: ['login bug', 'crash'],
+      });
+    });
+
+    it('should accept a colon before comparison operators and quoted values', () => {
+      expect(parseTaskQuery('due:<7d customer:"Acme, Inc",Globex').clauses).toEqual([
+        { field: 'due', operator: '<', values: ['7d'], negate: false },
+        { field: 'customer', operator: ':', values: ['Acme, Inc', 'Globex'], negate: false },
+      ]);
+    });
+
+    it('should reject malformed terms', () => {
+      expect(() => parseTaskQuery('status:')).toThrow('Missing value for "status"');
+      expect(() => parseTaskQuery('priority>3,4')).toThrow('takes a single value');
+      expect(() => parseTaskQuery('title:"unfinished')).toThrow('Unterminated quote');
+    });
+  });
+
+  describe('resolveDay', () => {
+    it('should resolve relative and absolute days in UTC', () => {
+      expect(resolveDay('today', now).start.toISOString()).toBe('2024-12-10T00:00:00.000Z');
+      expect(resolveDay('7d', now).start.toISOString()).toBe('2024-12-17T00:00:00.000Z');
+      expect(resolveDay('-1w', now).start.toISOString()).toBe('2024-12-03T00:00:00.000Z');
+      expect(resolveDay('2025-01-31', now).end.toISOString()).toBe('2025-02-01T00:00:00.000Z');
+      expect(() => resolveDay('someday', now)).toThrow('Invalid date "someday"');
+    });
+  });
+
+  describe('compileTaskQuery', () => {
+    const compile = (query: string) => compileTaskQuery(parseTaskQuery(query), context);
+
+    it('should compile built-in fields to Prisma conditions', () => {
+      expect(compile('status:todo,In-Progress assignee:me priority>=4 due:<7d').conditions).toEqual([
+        { status: { in: ['todo', 'in_progress'] } },
+        { OR: [{ assignments: { some: { user: { id: 'user-1' } } } }] },
+        { priority: { gte: 4 } },
+        { dueDate: { lt: new Date('2024-12-17T00:00:00Z') } },
+      ]);
+    });
+
+    it('should accept priority names and match whole days with ":"', () => {
+      expect(compile('priority:high,low due:today').conditions).toEqual([
+        { priority: { in: [5, 1] } },
+        { dueDate: { gte: new Date('2024-12-10T00:00:00Z'), lt: new Date('2024-12-11T00:00:00Z') } },
+      ]);
+    });
+
+    it('should negate terms and search free text', () => {
+      expect(compile('-is:done deploy').conditions).toEqual([
+        { NOT: { OR: [{ statusCategory: 'done' }] } },
+        {
+          OR: [
+            { title: { contains: 'deploy', mode: 'insensitive' } },
+            { description: { contains: 'deploy', mode: 'insensitive' } },
+          ],
+        },
+      ]);
+    });
+
+    it('should leave unknown fields to custom field resolution', () => {
+      const compiled = compile('label:backend points>=3');
+
+      expect(compiled.conditions).toEqual([]);
+      expect(compiled.customFields.map(c => c.field)).toEqual(['label', 'points']);
+    });
+
+    it('should reject invalid values and operators', () => {
+      expect(() => compile('priority>=9')).toThrow('Invalid priority "9"');
+      expect(() => compile('status>todo')).toThrow('"status" does not support ">"');
+      expect(() => compile('is:sleeping')).toThrow('Unknown "is:sleeping"');
+      expect(() => compile('created:none')).toThrow('"none" is only supported as "due:none"');
+    });
+  });
+});
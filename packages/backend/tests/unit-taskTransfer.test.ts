@@ -0,0 +1,122 @@
+import {
+  copyMessageLinks,
+  copyParentId,
+  planTransferAssignees,
+  planTransferDependencies,
+} from '../src/utils/taskTransfer';
+
+describe('Task Transfer Utilities (Unit Tests)', () => {
+  describe('planTransferAssignees', () => {
+    const tasks = [
+      { id: 'parent', assigneeIds: ['u1', 'outsider'] },
+      { id: 'child', assigneeIds: ['u2'] },
+    ];
+    const memberIds = ['u1', 'u2'];
+
+    it('should keep assignees who are members of the target project', () => {
+      const plan = planTransferAssignees(tasks, [...memberIds, 'outsider'], {});
+
+      expect(plan.assigneeIds).toEqual(new Map([['parent', ['u1', 'outsider']], ['child', ['u2']]]));
+      expect(plan.dropped).toEqual([]);
+      expect(plan.rejected).toEqual([]);
+    });
+
+    it('should reject non-members by default', () => {
+      const plan = planTransferAssignees(tasks, memberIds, {});
+
+      expect(plan.rejected).toEqual([{ taskId: 'parent', userId: 'outsider' }]);
+      expect(plan.dropped).toEqual([]);
+    });
+
+    it('should drop and report non-members when asked to', () => {
+      const plan = planTransferAssignees(tasks, memberIds, { nonMemberAssignees: 'drop' });
+
+      expect(plan.assigneeIds.get('parent')).toEqual(['u1']);
+      expect(plan.dropped).toEqual([{ taskId: 'parent', userId: 'outsider' }]);
+      expect(plan.rejected).toEqual([]);
+    });
+
+    it('should leave everyone behind without includeAssignees', () => {
+      const plan = planTransferAssignees(tasks, memberIds, { includeAssignees: false });
+
+      expect(plan.assigneeIds).toEqual(new Map([['parent', []], ['child', []]]));
+      expect(plan.rejected).toEqual([]);
+    });
+  });
+
+  describe('planTransferDependencies', () => {
+    // child depends on parent (both transferred), parent depends on "spec"
+    // outside, and "release" outside depends on child
+    const tasks = [
+      { id: 'parent', dependencies: [{ dependsOnTaskId: 'spec' }], dependents: [{ taskId: 'child' }] },
+      { id: 'child', dependencies: [{ dependsOnTaskId: 'parent' }], dependents: [{ taskId: 'release' }] },
+    ];
+
+    it('should keep links between transferred tasks and reject the rest of a move', () => {
+      const plan = planTransferDependencies(tasks, 'move', false, undefined);
+
+      expect(plan.kept).toEqual([{ taskId: 'child', dependsOnTaskId: 'parent' }]);
+      expect(plan.rejected).toEqual([
+        { taskId: 'parent', dependsOnTaskId: 'spec' },
+        { taskId: 'release', dependsOnTaskId: 'child' },
+      ]);
+      expect(plan.removed).toEqual([]);
+    });
+
+    it('should remove crossing links when asked to', () => {
+      const plan = planTransferDependencies(tasks, 'move', false, 'remove');
+
+      expect(plan.removed).toHaveLength(2);
+      expect(plan.rejected).toEqual([]);
+    });
+
+    it('should ignore the dependents of copies', () => {
+      const plan = planTransferDependencies(tasks, 'duplicate', false, undefined);
+
+      expect(plan.rejected).toEqual([{ taskId: 'parent', dependsOnTaskId: 'spec' }]);
+    });
+
+    it('should keep prerequisites of copies within the same project', () => {
+      const plan = planTransferDependencies(tasks, 'duplicate', true, undefined);
+
+      expect(plan.kept).toEqual([
+        { taskId: 'parent', dependsOnTaskId: 'spec' },
+        { taskId: 'child', dependsOnTaskId: 'parent' },
+      ]);
+      expect(plan.rejected).toEqual([]);
+    });
+  });
+
+  describe('copyParentId', () => {
+    const copyIds = new Map([['story', 'story-copy']]);
+
+    it('should copy a subtask next to the original within its project', () => {
+      expect(copyParentId({ id: 'story', parentId: 'epic' }, 'story', true, copyIds)).toBe('epic');
+    });
+
+    it('should make the copy top-level in another project', () => {
+      expect(copyParentId({ id: 'story', parentId: 'epic' }, 'story', false, copyIds)).toBeNull();
+    });
+
+    it('should hang copied subtasks under the copy of their parent', () => {
+      expect(copyParentId({ id: 'step', parentId: 'story' }, 'story', false, copyIds)).toBe('story-copy');
+    });
+  });
+
+  describe('copyMessageLinks', () => {
+    const copyIds = new Map([['task', 'task-copy']]);
+    const messageIds = new Map([['question', 'question-copy']]);
+
+    it('should point copies at the copied task and message', () => {
+      expect(copyMessageLinks({ taskId: 'task', parentId: null }, copyIds, messageIds))
+        .toEqual({ taskId: 'task-copy', parentId: null });
+      expect(copyMessageLinks({ taskId: null, parentId: 'question' }, copyIds, messageIds))
+        .toEqual({ taskId: null, parentId: 'question-copy' });
+    });
+
+    it('should unlink what was not copied', () => {
+      expect(copyMessageLinks({ taskId: 'other', parentId: 'elsewhere' }, copyIds, messageIds))
+        .toEqual({ taskId: null, parentId: null });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { entryDurationSeconds, summarizeByTask, TimeEntryLike } from '../src/utils/timeTracking';
+
+describe('Time Tracking Utilities (Unit Tests)', () => {
+  const now = new Date('2024-03-01T12:00:00Z');
+
+  const entry = (taskId: string | null, start: string, end: string | null, durationSeconds: number | null = null): TimeEntryLike => ({
+    taskId,
+    startTime: new Date(start),
+    endTime: end ? new Date(end) : null,
+    durationSeconds,
+  });
+
+  describe('entryDurationSeconds', () => {
+    it('should prefer the stored duration of finished entries', () => {
+      expect(entryDurationSeconds(entry('a', '2024-03-01T09:00:00Z', '2024-03-01T10:00:00Z', 1800), now)).toBe(1800);
+    });
+
+    it('should fall back to the time between start and end', () => {
+      expect(entryDurationSeconds(entry('a', '2024-03-01T09:00:00Z', '2024-03-01T10:30:00Z'), now)).toBe(5400);
+    });
+
+    it('should count running timers up to now', () => {
+      expect(entryDurationSeconds(entry('a', '2024-03-01T11:45:00Z', null), now)).toBe(900);
+    });
+
+    it('should never return a negative duration', () => {
+      expect(entryDurationSeconds(entry('a', '2024-03-01T13:00:00Z', null), now)).toBe(0);
+    });
+  });
+
+  describe('summarizeByTask', () => {
+    it('should total entries per task, largest first', () => {
+      const totals = summarizeByTask([
+        entry('a', '2024-03-01T08:00:00Z', '2024-03-01T08:30:00Z'),
+        entry('b', '2024-03-01T09:00:00Z', '2024-03-01T11:00:00Z'),
+        entry('a', '2024-03-01T11:30:00Z', null),
+        entry(null, '2024-03-01T07:00:00Z', '2024-03-01T07:10:00Z'),
+      ], now);
+
+      expect(totals).toEqual([
+        { taskId: 'b', entries: 1, totalSeconds: 7200 },
+        { taskId: 'a', entries: 2, totalSeconds: 3600 },
+        { taskId: null, entries: 1, totalSeconds: 600 },
+      ]);
+    });
+
+    it('should return nothing for no entries', () => {
+      expect(summarizeByTask([], now)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { messageExcerpt, projectTrashWhere, purgeCutoff, purgeDate, trashPage } from '../src/utils/trash';
+
+describe('Trash Utilities (Unit Tests)', () => {
+  describe('projectTrashWhere', () => {
+    it('should list only the top of each deletion', () => {
+      expect(projectTrashWhere('p1')).toEqual({
+        projectId: 'p1',
+        deletedAt: { not: null },
+        OR: [{ parentId: null }, { parent: { deletedAt: null } }],
+      });
+    });
+  });
+
+  describe('messageExcerpt', () => {
+    it('should list short messages in full', () => {
+      expect(messageExcerpt('Looks good to me')).toBe('Looks good to me');
+      expect(messageExcerpt('x'.repeat(200))).toBe('x'.repeat(200));
+    });
+
+    it('should cut long messages at 200 characters', () => {
+      expect(messageExcerpt('x'.repeat(250))).toBe(`${'x'.repeat(200)}…`);
+    });
+  });
+
+  describe('trashPage', () => {
+    const at = (day: number) => new Date(Date.UTC(2024, 2, day));
+    const tasks = [
+      { type: 'task', id: 't1', deletedAt: at(5) },
+      { type: 'task', id: 't2', deletedAt: at(2) },
+    ];
+    const messages = [
+      { type: 'message', id: 'm1', deletedAt: at(4) },
+      { type: 'message', id: 'm2', deletedAt: at(1) },
+    ];
+
+    it('should merge tasks and messages, most recently deleted first', () => {
+      expect(trashPage([...tasks, ...messages], 0, 10).map(item => item.id)).toEqual(['t1', 'm1', 't2', 'm2']);
+    });
+
+    it('should return the requested page', () => {
+      expect(trashPage([...tasks, ...messages], 1, 2).map(item => item.id)).toEqual(['m1', 't2']);
+      expect(trashPage([...tasks, ...messages], 4, 2)).toEqual([]);
+    });
+  });
+
+  describe('purge dates', () => {
+    const deletedAt = new Date('2024-03-01T12:00:00Z');
+
+    it('should purge items once the retention period is over', () => {
+      expect(purgeDate(deletedAt, 30)).toEqual(new Date('2024-03-31T12:00:00Z'));
+    });
+
+    it('should purge what was trashed before the retention period', () => {
+      const cutoff = purgeCutoff(new Date('2024-03-31T12:00:00Z'), 30);
+
+      expect(cutoff).toEqual(deletedAt);
+      expect(new Date('2024-03-01T11:59:59Z') < cutoff).toBe(true);
+      expect(new Date('2024-03-01T12:00:01Z') < cutoff).toBe(false);
+    });
+  });
+});
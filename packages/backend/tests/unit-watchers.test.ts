@@ -0,0 +1,118 @@
+import { WatcherService } from '../src/services/WatcherService';
+import { initialWatcherIds, watcherRecipients } from '../src/utils/watchers';
+
+const mockPrisma = {
+  task: { findFirst: jest.fn(), findUnique: jest.fn() },
+  taskWatcher: { upsert: jest.fn(), deleteMany: jest.fn(), findMany: jest.fn() },
+};
+const mockNotificationService = { createBulkNotifications: jest.fn() };
+
+jest.mock('../src/config/database', () => ({
+  get prisma() {
+    return mockPrisma;
+  },
+}));
+jest.mock('../src/services/NotificationService', () => ({
+  NotificationService: jest.fn(() => mockNotificationService),
+}));
+
+describe('Watcher Utilities (Unit Tests)', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('initialWatcherIds', () => {
+    it('should have the creator and assignees watch a new task', () => {
+      expect(initialWatcherIds('creator', ['u1', 'u2'])).toEqual(['creator', 'u1', 'u2']);
+    });
+
+    it('should list a creator who assigns themselves once', () => {
+      expect(initialWatcherIds('creator', ['creator', 'u1', 'u1'])).toEqual(['creator', 'u1']);
+    });
+  });
+
+  describe('watcherRecipients', () => {
+    it('should leave out whoever made the change', () => {
+      expect(watcherRecipients(['actor', 'u1', 'u2'], ['actor'])).toEqual(['u1', 'u2']);
+    });
+
+    it('should leave out anyone already notified', () => {
+      expect(watcherRecipients(['actor', 'u1', 'u2'], new Set(['actor', 'u2']))).toEqual(['u1']);
+    });
+
+    it('should notify everyone without exclusions', () => {
+      expect(watcherRecipients(['u1', 'u2'], [])).toEqual(['u1', 'u2']);
+    });
+  });
+
+  describe('WatcherService', () => {
+    const service = new WatcherService();
+
+    describe('watchTask', () => {
+      it('should add the user as a watcher once', async () => {
+        mockPrisma.task.findFirst.mockResolvedValue({ id: 'task', projectId: 'project' });
+
+        await service.watchTask('task', 'u1');
+
+        expect(mockPrisma.taskWatcher.upsert).toHaveBeenCalledWith({
+          where: { taskId_userId: { taskId: 'task', userId: 'u1' } },
+          create: { taskId: 'task', userId: 'u1' },
+          update: {},
+        });
+      });
+
+      it('should refuse tasks outside the user\'s projects', async () => {
+        mockPrisma.task.findFirst.mockResolvedValue(null);
+
+        await expect(service.watchTask('task', 'stranger')).rejects.toThrow('Task not found');
+        expect(mockPrisma.taskWatcher.upsert).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('unwatchTask', () => {
+      it('should remove the user as a watcher', async () => {
+        mockPrisma.task.findFirst.mockResolvedValue({ id: 'task', projectId: 'project' });
+
+        await service.unwatchTask('task', 'u1');
+
+        expect(mockPrisma.taskWatcher.deleteMany).toHaveBeenCalledWith({
+          where: { taskId: 'task', userId: 'u1' },
+        });
+      });
+    });
+
+    describe('notifyWatchers', () => {
+      const notification = { type: 'PROJECT_UPDATE', title: 'Task Updated', message: 'Task "Ship" has been updated' };
+
+      it('should notify the watchers except the actor', async () => {
+        mockPrisma.task.findUnique.mockResolvedValue({ projectId: 'project' });
+        mockPrisma.taskWatcher.findMany.mockResolvedValue([{ userId: 'actor' }, { userId: 'u1' }]);
+
+        await service.notifyWatchers('task', ['actor'], notification);
+
+        expect(mockNotificationService.createBulkNotifications).toHaveBeenCalledWith(['u1'], notification);
+      });
+
+      it('should only consider watchers who are still project members', async () => {
+        mockPrisma.task.findUnique.mockResolvedValue({ projectId: 'project' });
+        mockPrisma.taskWatcher.findMany.mockResolvedValue([]);
+
+        await service.notifyWatchers('task', [], notification);
+
+        expect(mockPrisma.taskWatcher.findMany).toHaveBeenCalledWith(expect.objectContaining({
+          where: { taskId: 'task', user: { projectMembers: { some: { projectId: 'project' } } } },
+        }));
+        expect(mockNotificationService.createBulkNotifications).not.toHaveBeenCalled();
+      });
+
+      it('should send nothing when the actor is the only watcher', async () => {
+        mockPrisma.task.findUnique.mockResolvedValue({ projectId: 'project' });
+        mockPrisma.taskWatcher.findMany.mockResolvedValue([{ userId: 'actor' }]);
+
+        await service.notifyWatchers('task', ['actor'], notification);
+
+        expect(mockNotificationService.createBulkNotifications).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
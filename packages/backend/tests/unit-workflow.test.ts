@@ -0,0 +1,159 @@
+import { TaskStatusCategory } from '../src/types/models';
+import {
+  DEFAULT_WORKFLOW,
+  Workflow,
+  canTransition,
+  enterStatus,
+  getCompletedStatus,
+  getInitialStatus,
+  getWorkflow,
+  mapStatusToWorkflow,
+  normalizeStatusKey,
+  validateWorkflow,
+} from '../src/utils/workflow';
+
+describe('Workflow Utilities (Unit Tests)', () => {
+  // A QA workflow: todo -> in_progress -> review -> verified, review can bounce back
+  const qa: Workflow = {
+    statuses: [
+      { key: 'todo', name: 'To Do', category: TaskStatusCategory.NOT_STARTED },
+      { key: 'in_progress', name: 'In Progress', category: TaskStatusCategory.ACTIVE },
+      { key: 'review', name: 'Review', category: TaskStatusCategory.ACTIVE },
+      { key: 'verified', name: 'Verified', category: TaskStatusCategory.DONE },
+    ],
+    transitions: {
+      todo: ['in_progress'],
+      in_progress: ['review', 'todo'],
+      review: ['verified', 'in_progress'],
+    },
+  };
+
+  describe('normalizeStatusKey', () => {
+    it('should accept legacy and display spellings', () => {
+      expect(normalizeStatusKey('IN_PROGRESS')).toBe('in_progress');
+      expect(normalizeStatusKey('in-progress')).toBe('in_progress');
+      expect(normalizeStatusKey(' Waiting on customer ')).toBe('waiting_on_customer');
+    });
+  });
+
+  describe('getWorkflow', () => {
+    it('should fall back to the default workflow', () => {
+      expect(getWorkflow({})).toBe(DEFAULT_WORKFLOW);
+      expect(getWorkflow(null)).toBe(DEFAULT_WORKFLOW);
+      expect(getWorkflow({ workflow: { statuses: [] } })).toBe(DEFAULT_WORKFLOW);
+    });
+
+    it('should read a configured workflow from metadata', () => {
+      expect(getWorkflow({ workflow: qa })).toBe(qa);
+    });
+  });
+
+  describe('getInitialStatus / getCompletedStatus', () => {
+    it('should pick the first status of the matching category', () => {
+      expect(getInitialStatus(qa).key).toBe('todo');
+      expect(getCompletedStatus(qa).key).toBe('verified');
+      expect(getCompletedStatus(DEFAULT_WORKFLOW).key).toBe('done');
+    });
+  });
+
+  describe('mapStatusToWorkflow', () => {
+    it('should keep the key, then the category, then fall back to the initial status', () => {
+      expect(mapStatusToWorkflow(qa, 'review', TaskStatusCategory.ACTIVE).key).toBe('review');
+      expect(mapStatusToWorkflow(qa, 'blocked', TaskStatusCategory.ACTIVE).key).toBe('in_progress');
+      expect(mapStatusToWorkflow(qa, 'done', TaskStatusCategory.DONE).key).toBe('verified');
+      expect(mapStatusToWorkflow(qa, 'parked', 'unknown').key).toBe('todo');
+    });
+  });
+
+  describe('canTransition', () => {
+    it('should allow anything when no transitions are configured', () => {
+      expect(canTransition(DEFAULT_WORKFLOW, 'todo', 'done')).toBe(true);
+    });
+
+    it('should enforce configured transitions', () => {
+      expect(canTransition(qa, 'todo', 'in_progress')).toBe(true);
+      expect(canTransition(qa, 'review', 'in_progress')).toBe(true);
+      expect(canTransition(qa, 'todo', 'verified')).toBe(false);
+      expect(canTransition(qa, 'verified', 'todo')).toBe(false);
+    });
+
+    it('should always allow staying put and leaving unknown statuses', () => {
+      expect(canTransition(qa, 'verified', 'verified')).toBe(true);
+      expect(canTransition(qa, 'legacy', 'todo')).toBe(true);
+    });
+  });
+
+  describe('validateWorkflow', () => {
+    it('should accept the default and QA workflows', () => {
+      expect(validateWorkflow(DEFAULT_WORKFLOW)).toEqual([]);
+      expect(validateWorkflow(qa)).toEqual([]);
+    });
+
+    it('should report duplicate keys, missing categories and unknown transitions', () => {
+      const errors = validateWorkflow({
+        statuses: [
+          { key: 'open', name: 'Open', category: TaskStatusCategory.ACTIVE },
+          { key: 'open', name: 'Also open', category: TaskStatusCategory.ACTIVE },
+        ],
+        transitions: { open: ['closed'] },
+      });
+
+      expect(errors).toEqual([
+        'Duplicate status "open"',
+        'Workflow needs at least one "not_started" status',
+        'Workflow needs at least one "done" status',
+        'Transition from "open" to unknown status "closed"',
+      ]);
+    });
+  });
+
+  describe('enterStatus', () => {
+    const todo = qa.statuses[0]!;
+    const inProgress = qa.statuses[1]!;
+    const verified = qa.statuses[3]!;
+
+    it('should record the change and the completion time', () => {
+      const data = enterStatus(verified, { status: 'review', statusCategory: TaskStatusCategory.ACTIVE }, 'user-1');
+
+      expect(data).toMatchObject({
+        status: 'verified',
+        statusCategory: TaskStatusCategory.DONE,
+        completedAt: expect.any(Date),
+        statusChanges: {
+          create: {
+            fromStatus: 'review',
+            toStatus: 'verified',
+            fromCategory: TaskStatusCategory.ACTIVE,
+            toCategory: TaskStatusCategory.DONE,
+            changedById: 'user-1',
+          },
+        },
+      });
+    });
+
+    it('should clear the completion time when a task is reopened', () => {
+      expect(enterStatus(inProgress, { status: 'verified', statusCategory: TaskStatusCategory.DONE }, null))
+        .toMatchObject({ completedAt: null });
+      expect(enterStatus(todo, null, null)).toMatchObject({
+        completedAt: null,
+        statusChanges: { create: { fromStatus: null, toStatus: 'todo' } },
+      });
+    });
+
+    it('should write nothing when the status does not change', () => {
+      expect(enterStatus(todo, { status: 'todo', statusCategory: TaskStatusCategory.NOT_STARTED }, null)).toEqual({});
+    });
+
+    it('should record a status that moved to another category', () => {
+      expect(enterStatus(verified, { status: 'verified', statusCategory: TaskStatusCategory.ACTIVE }, 'user-1'))
+        .toMatchObject({
+          status: 'verified',
+          statusCategory: TaskStatusCategory.DONE,
+          completedAt: expect.any(Date),
+          statusChanges: {
+            create: { fromStatus: 'verified', toStatus: 'verified', fromCategory: TaskStatusCategory.ACTIVE },
+          },
+        });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { buildWorkload, startOfWeek, WorkloadAssignment } from '../src/utils/workload';
+
+const assignment = (overrides: Partial<WorkloadAssignment>): WorkloadAssignment => ({
+  taskId: 'task',
+  projectId: 'p1',
+  estimateMinutes: 60,
+  dueDate: null,
+  assigneeCount: 1,
+  ...overrides,
+});
+
+describe('Workload Utilities (Unit Tests)', () => {
+  describe('startOfWeek', () => {
+    it('should return the Monday of the week in UTC', () => {
+      expect(startOfWeek(new Date('2024-12-04T15:30:00Z')).toISOString()).toBe('2024-12-02T00:00:00.000Z');
+      expect(startOfWeek(new Date('2024-12-08T23:59:59Z')).toISOString()).toBe('2024-12-02T00:00:00.000Z');
+      expect(startOfWeek(new Date('2024-12-09T00:00:00Z')).toISOString()).toBe('2024-12-09T00:00:00.000Z');
+    });
+  });
+
+  describe('buildWorkload', () => {
+    const options = { from: new Date('2024-12-04T10:00:00Z'), weeks: 2, capacityMinutes: 600 };
+
+    it('should put tasks in the week of their due date', () => {
+      const workload = buildWorkload([
+        assignment({ taskId: 'a', estimateMinutes: 300, dueDate: new Date('2024-12-06T17:00:00Z') }),
+        assignment({ taskId: 'b', estimateMinutes: 120, dueDate: new Date('2024-12-10T17:00:00Z'), projectId: 'p2' }),
+        assignment({ taskId: 'c', estimateMinutes: 90, dueDate: new Date('2024-11-20T17:00:00Z') }), // overdue
+      ], options);
+
+      expect(workload.weeks.map(w => w.weekStart)).toEqual(['2024-12-02', '2024-12-09']);
+      expect(workload.weeks[0]).toMatchObject({ assignedMinutes: 390, taskCount: 2, utilization: 65, overAllocated: false });
+      expect(workload.weeks[1]).toMatchObject({ assignedMinutes: 120, taskCount: 1, projectMinutes: { p2: 120 } });
+    });
+
+    it('should split shared tasks and flag weeks over capacity', () => {
+      const workload = buildWorkload([
+        assignment({ estimateMinutes: 900, dueDate: new Date('2024-12-05T00:00:00Z') }),
+        assignment({ estimateMinutes: 600, dueDate: new Date('2024-12-05T00:00:00Z'), assigneeCount: 3 }),
+      ], options);
+
+      expect(workload.weeks[0]).toMatchObject({ assignedMinutes: 1100, utilization: 183.3, overAllocated: true });
+      expect(workload.overAllocated).toBe(true);
+    });
+
+    it('should count undated, later and unestimated tasks separately', () => {
+      const workload = buildWorkload([
+        assignment({ estimateMinutes: 45 }),
+        assignment({ estimateMinutes: 30, dueDate: new Date('2024-12-16T00:00:00Z') }),
+        assignment({ estimateMinutes: null, dueDate: new Date('2024-12-03T00:00:00Z') }),
+      ], options);
+
+      expect(workload.unscheduled).toEqual({ minutes: 45, taskCount: 1 });
+      expect(workload.later).toEqual({ minutes: 30, taskCount: 1 });
+      expect(workload.unestimatedTasks).toBe(1);
+      expect(workload.weeks[0]).toMatchObject({ assignedMinutes: 0, taskCount: 1 });
+    });
+
+    it('should not report utilization without capacity', () => {
+      const workload = buildWorkload([], { ...options, capacityMinutes: 0 });
+
+      expect(workload.weeks[0]).toMatchObject({ utilization: null, overAllocated: false });
+    });
+  });
+});
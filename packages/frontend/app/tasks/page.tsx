@@ -1,13 +1,77 @@
+'use client';
+
+import { useEffect, useState } from 'react';
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
-import { Search, Plus, Settings, Bell, User, Calendar } from "lucide-react"
+import { Search, Plus, Settings, Bell, User, Calendar, Bookmark, Users, Loader2 } from "lucide-react"
 import { Input } from "@/components/ui/input"
+import { cn } from "@/lib/utils"
+import { tasksApi, viewsApi, type SavedView, type Task } from "@/lib/api-adapter-v2"
+
+const statusLabels: Record<Task['status'], string> = {
+  'todo': 'Todo',
+  'in-progress': 'In Progress',
+  'review': 'Review',
+  'done': 'Done',
+};
+
+const priorityLabels: Record<Task['priority'], string> = {
+  'low': 'Low',
+  'medium': 'Medium',
+  'high': 'High',
+  'critical': 'High',
+};
 
 export default function TasksPage() {
-  const tasks = [
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [apiTasks, setApiTasks] = useState<Task[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadViews();
+  }, []);
+
+  useEffect(() => {
+    loadTasks(activeViewId);
+  }, [activeViewId]);
+
+  const loadViews = async () => {
+    const response = await viewsApi.getAll();
+    if (response.success && response.data) {
+      setViews(response.data);
+    }
+  };
+
+  const loadTasks = async (viewId: string | null) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = viewId
+        ? await tasksApi.getAll({ view: viewId })
+        : await tasksApi.getMyTasks();
+      if (response.success && response.data) {
+        setApiTasks(response.data);
+      } else {
+        setError(response.error || 'Failed to load tasks');
+      }
+    } catch (err) {
+      setError('Failed to connect to server');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const personalViews = views.filter((view) => view.scope === 'user');
+  const sharedViews = views.filter((view) => view.scope === 'project');
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  // Mock tasks as fallback
+  const mockTasks = [
     {
       id: 1,
       title: "Design Homepage Mockup",
@@ -66,6 +130,38 @@ export default function TasksPage() {
     },
   ]
 
+  const tasks = apiTasks
+    ? apiTasks.map((task) => ({
+        id: task.id,
+        title: task.title,
+        description: task.description,
+        project: task.project?.name || '',
+        projectId: task.projectId,
+        priority: priorityLabels[task.priority],
+        status: statusLabels[task.status],
+        assignee: {
+          name: task.assignees.map((a) => a.name).join(', ') || 'Unassigned',
+          avatar: task.assignees[0]?.avatar || '',
+        },
+        dueDate: task.dueDate ? new Date(task.dueDate).toLocaleDateString() : 'No due date',
+        progress: task.statusCategory === 'done' ? 100 : 0,
+      }))
+    : mockTasks.map((task) => ({ ...task, projectId: '1' }))
+
+  const renderViewLink = (view: SavedView) => (
+    <button
+      key={view.id}
+      onClick={() => setActiveViewId(view.id)}
+      title={view.query}
+      className={cn(
+        "w-full text-left px-3 py-2 rounded-md text-sm truncate hover:bg-accent",
+        activeViewId === view.id ? "bg-accent font-medium text-foreground" : "text-muted-foreground"
+      )}
+    >
+      {view.name}
+    </button>
+  )
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -110,90 +206,152 @@ export default function TasksPage() {
         </div>
       </header>
 
-      {/* Main Content */}
-      <main className="p-6">
-        <div className="mb-6">
-          <h1 className="text-3xl font-bold text-foreground mb-2">My Tasks</h1>
-          <p className="text-muted-foreground">Track and manage your assigned tasks</p>
-        </div>
+      <div className="flex">
+        {/* Saved Views Sidebar */}
+        <aside className="w-60 shrink-0 border-r border-border bg-card min-h-[calc(100vh-73px)] p-4 space-y-6">
+          <div className="space-y-1">
+            <button
+              onClick={() => setActiveViewId(null)}
+              className={cn(
+                "w-full text-left px-3 py-2 rounded-md text-sm hover:bg-accent",
+                activeViewId === null ? "bg-accent font-medium text-foreground" : "text-muted-foreground"
+              )}
+            >
+              My Tasks
+            </button>
+          </div>
 
-        {/* Tasks Grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {tasks.map((task) => (
-            <Card key={task.id} className="hover:shadow-lg transition-shadow cursor-pointer">
-              <CardHeader className="pb-3">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex-1 min-w-0">
-                    <CardTitle className="text-lg font-semibold text-balance mb-1">{task.title}</CardTitle>
-                    <p className="text-sm text-muted-foreground text-pretty">{task.description}</p>
-                  </div>
-                  <div className="flex flex-col gap-2 shrink-0">
-                    <Badge
-                      variant={
-                        task.status === "In Progress" ? "default" : task.status === "Todo" ? "secondary" : "outline"
-                      }
-                    >
-                      {task.status}
-                    </Badge>
-                    <Badge
-                      variant={
-                        task.priority === "High" ? "destructive" : task.priority === "Medium" ? "default" : "secondary"
-                      }
-                      className="text-xs"
-                    >
-                      {task.priority}
-                    </Badge>
-                  </div>
-                </div>
-              </CardHeader>
-
-              <CardContent className="space-y-4">
-                {/* Project Info */}
-                <div className="flex items-center gap-2 text-sm">
-                  <span className="text-muted-foreground">Project:</span>
-                  <Link href="/projects/1" className="text-primary hover:underline font-medium">
-                    {task.project}
-                  </Link>
-                </div>
-
-                {/* Progress Bar */}
-                <div className="space-y-2">
-                  <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Progress</span>
-                    <span className="font-medium">{task.progress}%</span>
-                  </div>
-                  <div className="w-full bg-secondary rounded-full h-2">
-                    <div
-                      className="bg-primary h-2 rounded-full transition-all"
-                      style={{ width: `${task.progress}%` }}
-                    />
-                  </div>
-                </div>
-
-                {/* Assignee and Due Date */}
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Avatar className="h-6 w-6">
-                      <AvatarImage src={task.assignee.avatar || "/placeholder.svg"} alt={task.assignee.name} />
-                      <AvatarFallback className="text-xs">
-                        {task.assignee.name
-                          .split(" ")
-                          .map((n) => n[0])
-                          .join("")}
-                      </AvatarFallback>
-                    </Avatar>
-                    <span className="text-sm text-muted-foreground">{task.assignee.name}</span>
-                  </div>
-                  <div className="flex items-center gap-1 text-sm text-muted-foreground">
-                    <Calendar className="h-3 w-3" />
-                    <span>{task.dueDate}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
-      </main>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 px-3 text-xs font-semibold uppercase text-muted-foreground">
+              <Bookmark className="h-3 w-3" />
+              My Views
+            </div>
+            {personalViews.length > 0 ? personalViews.map(renderViewLink) : (
+              <p className="px-3 py-2 text-xs text-muted-foreground">No saved views yet</p>
+            )}
+          </div>
+
+          {sharedViews.length > 0 && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 px-3 text-xs font-semibold uppercase text-muted-foreground">
+                <Users className="h-3 w-3" />
+                Team Views
+              </div>
+              {sharedViews.map(renderViewLink)}
+            </div>
+          )}
+        </aside>
+
+        {/* Main Content */}
+        <main className="flex-1 p-6">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold text-foreground mb-2">{activeView ? activeView.name : 'My Tasks'}</h1>
+            <p className="text-muted-foreground">
+              {activeView ? <code className="text-sm">{activeView.query || 'All tasks'}</code> : 'Track and manage your assigned tasks'}
+            </p>
+          </div>
+
+          {/* Error State */}
+          {error && (
+            <div className="mb-6 p-4 bg-destructive/10 border border-destructive rounded-lg">
+              <p className="text-destructive">
+                {error}
+                <Button
+                  variant="link"
+                  className="ml-2 p-0 h-auto text-destructive underline"
+                  onClick={() => loadTasks(activeViewId)}
+                >
+                  Retry
+                </Button>
+              </p>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin" />
+              <span className="ml-2 text-muted-foreground">Loading tasks...</span>
+            </div>
+          ) : (
+            /* Tasks Grid */
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {tasks.map((task) => (
+                <Card key={task.id} className="hover:shadow-lg transition-shadow cursor-pointer">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex-1 min-w-0">
+                        <CardTitle className="text-lg font-semibold text-balance mb-1">{task.title}</CardTitle>
+                        <p className="text-sm text-muted-foreground text-pretty">{task.description}</p>
+                      </div>
+                      <div className="flex flex-col gap-2 shrink-0">
+                        <Badge
+                          variant={
+                            task.status === "In Progress" ? "default" : task.status === "Todo" ? "secondary" : "outline"
+                          }
+                        >
+                          {task.status}
+                        </Badge>
+                        <Badge
+                          variant={
+                            task.priority === "High" ? "destructive" : task.priority === "Medium" ? "default" : "secondary"
+                          }
+                          className="text-xs"
+                        >
+                          {task.priority}
+                        </Badge>
+                      </div>
+                    </div>
+                  </CardHeader>
+
+                  <CardContent className="space-y-4">
+                    {/* Project Info */}
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-muted-foreground">Project:</span>
+                      <Link href={`/projects/${task.projectId}`} className="text-primary hover:underline font-medium">
+                        {task.project}
+                      </Link>
+                    </div>
+
+                    {/* Progress Bar */}
+                    <div className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-muted-foreground">Progress</span>
+                        <span className="font-medium">{task.progress}%</span>
+                      </div>
+                      <div className="w-full bg-secondary rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all"
+                          style={{ width: `${task.progress}%` }}
+                        />
+                      </div>
+                    </div>
+
+                    {/* Assignee and Due Date */}
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-6 w-6">
+                          <AvatarImage src={task.assignee.avatar || "/placeholder.svg"} alt={task.assignee.name} />
+                          <AvatarFallback className="text-xs">
+                            {task.assignee.name
+                              .split(" ")
+                              .map((n) => n[0])
+                              .join("")}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="text-sm text-muted-foreground">{task.assignee.name}</span>
+                      </div>
+                      <div className="flex items-center gap-1 text-sm text-muted-foreground">
+                        <Calendar className="h-3 w-3" />
+                        <span>{task.dueDate}</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
+        </main>
+      </div>
     </div>
   )
 }
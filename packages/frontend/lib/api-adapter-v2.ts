@@ -4,6 +4,12 @@
  */
 
 import { api, type ApiResponse } from './api';
+import { toBoardStatus, toStatusKey, type StatusCategory, type Workflow } from './workflow';
+import { saveWithConflictCheck, type FieldReader, type SaveOptions, type SaveResponse } from './edit-conflicts';
+
+export type { Workflow, WorkflowStatus, StatusCategory } from './workflow';
+export type { ConflictPrompt, ConflictResolution, EditConflict, SaveOptions, SaveResponse } from './edit-conflicts';
+export { confirmOverwrite } from './edit-conflicts';
 
 // ============= EXPORTED TYPES (Frontend format) =============
 
@@ -13,6 +19,8 @@ export interface Project {
   description?: string;
   status: 'active' | 'completed' | 'on-hold' | 'cancelled';
   priority: 'low' | 'medium' | 'high' | 'critical';
+  archived?: boolean; // archived projects are read-only until unarchived
+  archivedAt?: string;
   startDate?: string;
   endDate?: string;
   createdAt: string;
@@ -35,24 +43,29 @@ export interface Project {
   }>;
 }
 
+export interface TaskAssignee {
+  id: string;
+  name: string;
+  email: string;
+  avatar?: string;
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   status: 'todo' | 'in-progress' | 'review' | 'done';
+  statusKey: string; // status in the project's workflow
+  statusCategory: StatusCategory;
+  rank?: string; // order within the status column; compare as strings
   priority: 'low' | 'medium' | 'high' | 'critical';
   projectId: string;
-  assignedTo?: string;
-  assignedToUser?: {
-    id: string;
-    name: string;
-    email: string;
-    avatar?: string;
-  };
+  assignees: TaskAssignee[];
   dueDate?: string;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
+  milestoneId?: string | null;
   project?: {
     id: string;
     name: string;
@@ -89,6 +102,265 @@ export interface Notification {
   createdAt: string;
 }
 
+export interface ReminderSettings {
+  timezone: string; // IANA name, e.g. Europe/Berlin
+  offsets: number[]; // minutes before a due date; whole days remind at 09:00
+}
+
+export interface CalendarFeed {
+  url: string | null; // secret iCalendar subscription URL, null while the feed is off
+}
+
+export interface SavedView {
+  id: string;
+  ownerId: string;
+  projectId: string | null;
+  scope: 'user' | 'project'; // project views are shared with every member
+  name: string;
+  query: string; // e.g. "status:todo assignee:me priority>=4"
+  sortBy: string | null;
+  sortOrder: 'asc' | 'desc';
+  columns: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BulkTaskOperation {
+  taskIds: string[];
+  delete?: true; // cannot be combined with changes
+  status?: string;
+  priority?: number;
+  dueDate?: string | null;
+  projectId?: string;
+  addAssigneeIds?: string[];
+  removeAssigneeIds?: string[];
+  addLabels?: string[];
+}
+
+export interface BulkTaskResult {
+  taskId: string;
+  status: 'success' | 'skipped' | 'forbidden' | 'not_found' | 'validation_error';
+  error?: string;
+}
+
+export interface BulkTaskOutcome {
+  results: BulkTaskResult[];
+  summary: Record<BulkTaskResult['status'], number>;
+}
+
+export interface TaskTransferOptions {
+  projectId?: string; // required for moves; duplicates default to the same project
+  title?: string; // duplicates only
+  includeSubtasks?: boolean;
+  includeAttachments?: boolean;
+  includeMessages?: boolean;
+  includeAssignees?: boolean;
+  nonMemberAssignees?: 'reject' | 'drop';
+  crossProjectDependencies?: 'reject' | 'remove';
+}
+
+export interface TaskTransferOutcome {
+  task: Task;
+  taskIds: Record<string, string>; // original id -> moved or copied id
+  droppedAssignees: { taskId: string; userId: string }[];
+  removedDependencies: { taskId: string; dependsOnTaskId: string }[];
+}
+
+export interface TaskImportRequest {
+  projectId: string;
+  csv: string;
+  mapping?: Record<string, string>; // task field -> column header
+  dryRun?: boolean;
+}
+
+export interface TaskImportRow {
+  row: number; // spreadsheet row; the header is row 1
+  action: 'create' | 'update' | 'error';
+  taskId?: string;
+  externalId?: string;
+  errors?: Record<string, string>;
+}
+
+export interface TaskImportOutcome {
+  dryRun: boolean;
+  rows: TaskImportRow[];
+  summary: { created: number; updated: number; failed: number };
+}
+
+export interface Milestone {
+  id: string;
+  projectId: string;
+  name: string;
+  kind: 'sprint' | 'milestone';
+  goal: string | null;
+  startDate: string;
+  endDate: string; // last day, inclusive
+  progress: {
+    totalTasks: number;
+    completedTasks: number;
+    totalMinutes: number;
+    completedMinutes: number;
+    completionRate: number;
+  };
+}
+
+// Measured values are null for days that have not started
+export interface BurndownPoint {
+  date: string; // YYYY-MM-DD
+  idealTasks: number;
+  idealMinutes: number;
+  scopeTasks: number | null;
+  scopeMinutes: number | null;
+  completedTasks: number | null;
+  completedMinutes: number | null;
+  remainingTasks: number | null;
+  remainingMinutes: number | null;
+}
+
+export interface WorkloadWeek {
+  weekStart: string; // YYYY-MM-DD, a Monday
+  assignedMinutes: number;
+  taskCount: number;
+  capacityMinutes: number;
+  utilization: number | null; // percent of capacity
+  overAllocated: boolean;
+  projects: { projectId: string; name: string; minutes: number }[];
+  otherProjectsMinutes: number; // projects you are not a member of
+}
+
+export interface MemberWorkload {
+  user: { id: string; fullName: string | null; email: string };
+  role?: string;
+  capacityMinutes: number;
+  weeks: WorkloadWeek[];
+  unscheduled: { minutes: number; taskCount: number };
+  later: { minutes: number; taskCount: number };
+  unestimatedTasks: number;
+  overAllocated: boolean;
+}
+
+export interface ProjectWorkload {
+  projectId: string;
+  weekStarts: string[];
+  members: MemberWorkload[];
+  overAllocatedUserIds: string[];
+}
+
+export interface TaskWatcher {
+  id: string;
+  fullName: string | null;
+  email: string;
+  watchingSince: string;
+}
+
+export interface TaskFieldChange {
+  field: string; // e.g. status, dueDate, assigneeIds, customFields.area
+  label: string;
+  from: unknown;
+  to: unknown;
+  summary: string;
+}
+
+export interface TaskHistoryEntry {
+  id: string;
+  action: 'created' | 'updated' | 'deleted' | 'restored';
+  actor: { id: string; fullName: string | null; email: string } | null;
+  createdAt: string;
+  changes: TaskFieldChange[];
+}
+
+export type AutomationTrigger = 'task.created' | 'task.updated' | 'task.stale' | 'message.created';
+
+export interface AutomationCondition {
+  field: string; // e.g. status, previous.priority, customFields.area, message.body
+  operator: 'equals' | 'not_equals' | 'in' | 'not_in' | 'contains' | 'gte' | 'lte'
+    | 'is_set' | 'is_not_set' | 'changed' | 'changed_to';
+  value?: unknown;
+}
+
+// Text fields can use {{field}} placeholders
+export type AutomationAction =
+  | { type: 'notify'; to: 'creator' | 'assignees' | 'watchers' | string[]; title?: string; message: string }
+  | { type: 'assign'; userIds: string[]; replace?: boolean }
+  | { type: 'set_status'; status: string }
+  | { type: 'set_priority'; priority: number }
+  | { type: 'post_message'; body: string };
+
+export interface AutomationRule {
+  id: string;
+  projectId: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  triggerConfig: { days?: number };
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  createdById: string | null; // actions run as this user
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  ownerId: string | null;
+  createdAt: string;
+  // In the list
+  taskCount?: number;
+  memberCount?: number;
+  durationDays?: number;
+  // From GET /api/templates/:id
+  settings?: {
+    metadata: Record<string, unknown>;
+    members: { userId: string; role: string }[];
+    tasks: {
+      title: string;
+      description: string | null;
+      priority: number;
+      estimateMinutes: number | null;
+      dueOffsetMinutes: number | null; // from the start of the project's first day
+      autoComplete: boolean;
+      customFields: Record<string, unknown>;
+      assigneeIds: string[];
+      checklist: string[];
+      parent: number | null; // index of the parent task
+      dependsOn: number[];
+    }[];
+  };
+}
+
+export interface AutomationRun {
+  id: string;
+  ruleId: string;
+  trigger: AutomationTrigger;
+  taskId: string | null;
+  messageId: string | null;
+  status: 'success' | 'failed' | 'skipped';
+  depth: number;
+  error: string | null;
+  actions: { type: AutomationAction['type']; status: 'success' | 'failed'; error?: string }[];
+  createdAt: string;
+}
+
+export interface TrashItem {
+  type: 'task' | 'message';
+  id: string;
+  title: string; // task title or the start of a message
+  taskId: string | null; // task a message discusses
+  deletedAt: string;
+  deletedBy: { id: string; fullName: string | null; email: string } | null;
+  purgeAt: string;
+}
+
+export interface TrashedProject {
+  id: string;
+  name: string;
+  description: string | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
 // ============= ADAPTER FUNCTIONS WITH ERROR HANDLING =============
 
 /**
@@ -110,6 +382,8 @@ function adaptProject(backendProject: any): Project | null {
       description: backendProject.description,
       status: 'active', // Default status
       priority: 'medium', // Default priority
+      archived: backendProject.status === 'archived',
+      archivedAt: backendProject.archivedAt || undefined,
       startDate: backendProject.createdAt,
       endDate: undefined,
       createdAt: backendProject.createdAt || new Date().toISOString(),
@@ -167,14 +441,6 @@ function adaptTask(backendTask: any): Task | null {
       return null;
     }
 
-    // Map backend status to frontend status
-    const statusMap: Record<string, Task['status']> = {
-      'TODO': 'todo',
-      'IN_PROGRESS': 'in-progress',
-      'DONE': 'done',
-      'REVIEW': 'review',
-    };
-
     // Map backend priority to frontend priority  
     const priorityMap: Record<string, Task['priority']> = {
       'LOW': 'low',
@@ -187,20 +453,22 @@ function adaptTask(backendTask: any): Task | null {
       id: backendTask.id,
       title: backendTask.title || 'Untitled Task',
       description: backendTask.description,
-      status: statusMap[backendTask.status] || 'todo',
+      status: toBoardStatus(backendTask.status, backendTask.statusCategory),
+      statusKey: backendTask.status || 'todo',
+      statusCategory: backendTask.statusCategory || 'not_started',
+      rank: backendTask.rank || undefined,
       priority: priorityMap[backendTask.priority] || 'medium',
       projectId: backendTask.projectId,
-      assignedTo: backendTask.assigneeId,
-      assignedToUser: backendTask.assignee ? {
-        id: backendTask.assignee.id,
-        name: backendTask.assignee.name || 'Unknown',
-        email: backendTask.assignee.email || '',
-        avatar: backendTask.assignee.avatar || undefined,
-      } : undefined,
+      assignees: (backendTask.assignees || []).map((assignee: any) => ({
+        id: assignee.id,
+        name: assignee.fullName || assignee.email || 'Unknown',
+        email: assignee.email || '',
+      })),
       dueDate: backendTask.dueDate,
       createdAt: backendTask.createdAt || new Date().toISOString(),
       updatedAt: backendTask.updatedAt || new Date().toISOString(),
       completedAt: backendTask.completedAt,
+      milestoneId: backendTask.milestoneId ?? null,
       project: backendTask.project,
     };
   } catch (error) {
@@ -213,14 +481,6 @@ function adaptTask(backendTask: any): Task | null {
  * Convert frontend task input to backend format
  */
 function adaptTaskInput(frontendData: any): any {
-  // Map frontend status to backend status
-  const statusMap: Record<string, string> = {
-    'todo': 'TODO',
-    'in-progress': 'IN_PROGRESS',
-    'review': 'IN_PROGRESS', // Backend may not have review
-    'done': 'DONE',
-  };
-
   // Map frontend priority to backend priority
   const priorityMap: Record<string, string> = {
     'low': 'LOW',
@@ -236,17 +496,20 @@ function adaptTaskInput(frontendData: any): any {
   };
 
   if (frontendData.status) {
-    backendData.status = statusMap[frontendData.status] || 'TODO';
+    backendData.status = toStatusKey(frontendData.status);
   }
   if (frontendData.priority) {
     backendData.priority = priorityMap[frontendData.priority] || 'MEDIUM';
   }
-  if (frontendData.assignedTo) {
-    backendData.assigneeId = frontendData.assignedTo;
+  if (frontendData.assigneeIds) {
+    backendData.assigneeIds = frontendData.assigneeIds;
   }
   if (frontendData.dueDate) {
     backendData.dueDate = frontendData.dueDate;
   }
+  if (frontendData.milestoneId !== undefined) {
+    backendData.milestoneId = frontendData.milestoneId;
+  }
 
   return backendData;
 }
@@ -267,6 +530,15 @@ function extractData<T>(response: any): T | T[] | null {
   return response;
 }
 
+// Input fields of task and project updates, read from a loaded copy
+const readTaskField: FieldReader<Task> = (task, field) => {
+  if (field === 'assigneeIds') return task.assignees.map(a => a.id);
+  if (field === 'status') return task.statusKey;
+  return (task as any)[field];
+};
+
+const readProjectField: FieldReader<Project> = (project, field) => (project as any)[field];
+
 /**
  * Filter out null values from arrays
  */
@@ -280,9 +552,10 @@ function filterNulls<T>(items: (T | null)[]): T[] {
  * Projects Service with error handling and data transformation
  */
 export const projectsApi = {
-  async getAll(): Promise<ApiResponse<Project[]>> {
+  // Archived projects are left out unless status is 'archived' or 'all'
+  async getAll(params: { status?: 'active' | 'archived' | 'all' } = {}): Promise<ApiResponse<Project[]>> {
     try {
-      const response = await api.get('/api/projects');
+      const response = await api.get('/api/projects', params);
       const data = extractData(response);
       
       if (Array.isArray(data)) {
@@ -341,18 +614,17 @@ export const projectsApi = {
     }
   },
 
-  async update(id: string, data: any): Promise<ApiResponse<Project>> {
+  // Pass the copy being edited as `options.base` to detect concurrent edits
+  async update(id: string, data: any, options: SaveOptions<Project> = {}): Promise<SaveResponse<Project>> {
     try {
-      const backendData = adaptProjectInput(data);
-      const response = await api.put(`/api/projects/${id}`, backendData);
-      const projectData = extractData(response);
-      const project = adaptProject(projectData);
-      
-      if (project) {
-        return { success: true, data: project };
-      }
-      
-      return { success: false, error: 'Failed to update project' };
+      return await saveWithConflictCheck(data, options, async (changes, ifMatch) => {
+        const backendData = adaptProjectInput(changes);
+        const response = await api.put(`/api/projects/${id}`, backendData, ifMatch ? { 'If-Match': ifMatch } : undefined);
+        if (!response.success) return { ...response, data: undefined };
+
+        const project = adaptProject(extractData(response));
+        return project ? { success: true, data: project } : { success: false, error: 'Failed to update project' };
+      }, adaptProject, readProjectField);
     } catch (error: any) {
       console.error('Projects update error:', error);
       return { 
@@ -375,6 +647,26 @@ export const projectsApi = {
     }
   },
 
+  // Archived projects are read-only: changes to them fail until unarchived
+  async setArchived(id: string, archived: boolean): Promise<ApiResponse<Project>> {
+    try {
+      const response = await api.post(`/api/projects/${id}/${archived ? 'archive' : 'unarchive'}`);
+      const project = adaptProject(extractData(response));
+
+      if (project) {
+        return { success: true, data: project };
+      }
+
+      return { success: false, error: `Failed to ${archived ? 'archive' : 'unarchive'} project` };
+    } catch (error: any) {
+      console.error('Projects setArchived error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || `Failed to ${archived ? 'archive' : 'unarchive'} project`
+      };
+    }
+  },
+
   async getTasks(projectId: string): Promise<ApiResponse<Task[]>> {
     try {
       const response = await api.get('/api/tasks', { projectId });
@@ -436,6 +728,52 @@ export const projectsApi = {
       };
     }
   },
+
+  async getWorkflow(projectId: string): Promise<ApiResponse<Workflow>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/workflow`);
+      return { success: true, data: extractData(response) as Workflow };
+    } catch (error: any) {
+      console.error('Projects getWorkflow error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to fetch workflow' 
+      };
+    }
+  },
+
+  async updateWorkflow(
+    projectId: string,
+    workflow: Workflow,
+    statusMapping?: Record<string, string>
+  ): Promise<ApiResponse<Workflow>> {
+    try {
+      const response = await api.put(`/api/projects/${projectId}/workflow`, {
+        ...workflow,
+        ...(statusMapping && { statusMapping }),
+      });
+      return { success: true, data: extractData(response) as Workflow };
+    } catch (error: any) {
+      console.error('Projects updateWorkflow error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to update workflow' 
+      };
+    }
+  },
+
+  async getWorkload(projectId: string, params: { from?: string; weeks?: number } = {}): Promise<ApiResponse<ProjectWorkload>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/workload`, params);
+      return { success: true, data: extractData(response) as ProjectWorkload };
+    } catch (error: any) {
+      console.error('Projects getWorkload error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch workload'
+      };
+    }
+  },
 };
 
 /**
@@ -523,18 +861,17 @@ export const tasksApi = {
     }
   },
 
-  async update(id: string, data: any): Promise<ApiResponse<Task>> {
+  // Pass the copy being edited as `options.base` to detect concurrent edits
+  async update(id: string, data: any, options: SaveOptions<Task> = {}): Promise<SaveResponse<Task>> {
     try {
-      const backendData = adaptTaskInput(data);
-      const response = await api.put(`/api/tasks/${id}`, backendData);
-      const taskData = extractData(response);
-      const task = adaptTask(taskData);
-      
-      if (task) {
-        return { success: true, data: task };
-      }
-      
-      return { success: false, error: 'Failed to update task' };
+      return await saveWithConflictCheck(data, options, async (changes, ifMatch) => {
+        const backendData = adaptTaskInput(changes);
+        const response = await api.put(`/api/tasks/${id}`, backendData, ifMatch ? { 'If-Match': ifMatch } : undefined);
+        if (!response.success) return { ...response, data: undefined };
+
+        const task = adaptTask(extractData(response));
+        return task ? { success: true, data: task } : { success: false, error: 'Failed to update task' };
+      }, adaptTask, readTaskField);
     } catch (error: any) {
       console.error('Tasks update error:', error);
       return { 
@@ -559,15 +896,8 @@ export const tasksApi = {
 
   async updateStatus(id: string, status: string): Promise<ApiResponse<Task>> {
     try {
-      const statusMap: Record<string, string> = {
-        'todo': 'TODO',
-        'in-progress': 'IN_PROGRESS',
-        'review': 'IN_PROGRESS',
-        'done': 'DONE',
-      };
-
       const response = await api.put(`/api/tasks/${id}`, {
-        status: statusMap[status] || 'TODO',
+        status: toStatusKey(status),
       });
       const taskData = extractData(response);
       const task = adaptTask(taskData);
@@ -586,18 +916,161 @@ export const tasksApi = {
     }
   },
 
-  async bulkUpdateStatus(taskIds: string[], status: string): Promise<ApiResponse<any>> {
+  // Neighbours are the cards directly above and below the drop position
+  async move(id: string, position: { status?: string; afterTaskId?: string | null; beforeTaskId?: string | null }): Promise<ApiResponse<Task>> {
     try {
-      const statusMap: Record<string, string> = {
-        'todo': 'TODO',
-        'in-progress': 'IN_PROGRESS',
-        'review': 'IN_PROGRESS',
-        'done': 'DONE',
+      const response = await api.put(`/api/tasks/${id}/position`, {
+        ...position,
+        ...(position.status && { status: toStatusKey(position.status) }),
+      });
+      const task = adaptTask(extractData(response));
+
+      if (task) {
+        return { success: true, data: task };
+      }
+
+      return { success: false, error: 'Failed to move task' };
+    } catch (error: any) {
+      console.error('Tasks move error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to move task'
+      };
+    }
+  },
+
+  async transfer(id: string, action: 'move' | 'duplicate', options: TaskTransferOptions): Promise<ApiResponse<TaskTransferOutcome>> {
+    try {
+      const response = await api.post(`/api/tasks/${id}/${action}`, options);
+      const data = extractData<any>(response);
+      const task = adaptTask(data?.task);
+
+      if (task) {
+        return { success: true, data: { ...data, task } };
+      }
+
+      return { success: false, error: `Failed to ${action} task` };
+    } catch (error: any) {
+      console.error(`Tasks ${action} error:`, error);
+      return {
+        success: false,
+        error: error.response?.data?.error?.message || error.message || `Failed to ${action} task`
       };
+    }
+  },
 
+  // CSV text, or the parsed records for JSON; takes the filters of getAll
+  async export(projectId: string, format: 'csv' | 'json' = 'csv', filters: Record<string, string | number> = {}): Promise<ApiResponse<string | unknown[]>> {
+    try {
+      return await api.get<string | unknown[]>('/api/tasks/export', { ...filters, projectId, format });
+    } catch (error: any) {
+      console.error('Tasks export error:', error);
+      return {
+        success: false,
+        error: error.message || 'Failed to export tasks'
+      };
+    }
+  },
+
+  // All or nothing unless `dryRun`: when any row fails, `data.rows` says which and why
+  async import(request: TaskImportRequest): Promise<ApiResponse<TaskImportOutcome>> {
+    try {
+      const response = await api.post('/api/tasks/import', request);
+      return { success: true, data: extractData(response) as TaskImportOutcome };
+    } catch (error: any) {
+      console.error('Tasks import error:', error);
+      return {
+        success: false,
+        data: error.response?.data?.error?.details,
+        error: error.response?.data?.error?.message || error.message || 'Failed to import tasks'
+      };
+    }
+  },
+
+  async getWatchers(id: string): Promise<ApiResponse<TaskWatcher[]>> {
+    try {
+      const response = await api.get(`/api/tasks/${id}/watchers`);
+      const data = extractData<TaskWatcher>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Tasks getWatchers error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch watchers'
+      };
+    }
+  },
+
+  // Most recent first
+  async getHistory(id: string, params: { limit?: number; offset?: number } = {}): Promise<ApiResponse<TaskHistoryEntry[]>> {
+    try {
+      const response = await api.get(`/api/tasks/${id}/history`, params);
+      const data = extractData<TaskHistoryEntry>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Tasks getHistory error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch task history'
+      };
+    }
+  },
+
+  // Starts or stops watching; returns the task's watchers
+  async setWatching(id: string, watching: boolean): Promise<ApiResponse<TaskWatcher[]>> {
+    try {
+      const response = watching
+        ? await api.post(`/api/tasks/${id}/watch`)
+        : await api.delete(`/api/tasks/${id}/watch`);
+      const data = extractData<TaskWatcher>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Tasks setWatching error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update watch'
+      };
+    }
+  },
+
+  async getWatching(): Promise<ApiResponse<Task[]>> {
+    try {
+      const response = await api.get('/api/tasks/watching');
+      const data = extractData(response);
+
+      if (Array.isArray(data)) {
+        return { success: true, data: filterNulls(data.map(adaptTask)) };
+      }
+
+      return { success: false, error: 'Invalid response format' };
+    } catch (error: any) {
+      console.error('Tasks getWatching error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch watched tasks'
+      };
+    }
+  },
+
+  // Across all projects; `userId` defaults to the current user
+  async getWorkload(params: { userId?: string; from?: string; weeks?: number } = {}): Promise<ApiResponse<MemberWorkload>> {
+    try {
+      const response = await api.get('/api/tasks/workload', params);
+      return { success: true, data: extractData(response) as MemberWorkload };
+    } catch (error: any) {
+      console.error('Tasks getWorkload error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch workload'
+      };
+    }
+  },
+
+  async bulkUpdateStatus(taskIds: string[], status: string): Promise<ApiResponse<any>> {
+    try {
       const response = await api.post('/api/tasks/bulk-status', {
         taskIds,
-        status: statusMap[status] || 'TODO',
+        status: toStatusKey(status),
       });
       return { success: true, data: extractData(response) };
     } catch (error: any) {
@@ -609,6 +1082,24 @@ export const tasksApi = {
     }
   },
 
+  // All or nothing: when any task fails, `data.results` says which and why
+  async bulkUpdate(operation: BulkTaskOperation): Promise<ApiResponse<BulkTaskOutcome>> {
+    try {
+      const response = await api.post('/api/tasks/bulk', {
+        ...operation,
+        ...(operation.status && { status: toStatusKey(operation.status) }),
+      });
+      return { success: true, data: extractData(response) as BulkTaskOutcome };
+    } catch (error: any) {
+      console.error('Tasks bulkUpdate error:', error);
+      return {
+        success: false,
+        data: error.response?.data?.error?.details,
+        error: error.response?.data?.error?.message || error.message || 'Failed to update tasks'
+      };
+    }
+  },
+
   async getProjectStats(projectId: string): Promise<ApiResponse<any>> {
     try {
       const response = await api.get(`/api/tasks/project/${projectId}/stats`);
@@ -824,6 +1315,33 @@ export const notificationsApi = {
     }
   },
 
+  async getReminderSettings(): Promise<ApiResponse<ReminderSettings>> {
+    try {
+      const response = await api.get('/api/notifications/reminders');
+      return { success: true, data: extractData(response) as ReminderSettings };
+    } catch (error: any) {
+      console.error('Notifications getReminderSettings error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch reminder settings'
+      };
+    }
+  },
+
+  // Fields left out keep their current value
+  async updateReminderSettings(settings: Partial<ReminderSettings>): Promise<ApiResponse<ReminderSettings>> {
+    try {
+      const response = await api.put('/api/notifications/reminders', settings);
+      return { success: true, data: extractData(response) as ReminderSettings };
+    } catch (error: any) {
+      console.error('Notifications updateReminderSettings error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update reminder settings'
+      };
+    }
+  },
+
   async getStats(): Promise<ApiResponse<any>> {
     try {
       const response = await api.get('/api/notifications/stats');
@@ -838,6 +1356,451 @@ export const notificationsApi = {
   },
 };
 
+/**
+ * Saved Views Service
+ */
+export const viewsApi = {
+  async getAll(projectId?: string): Promise<ApiResponse<SavedView[]>> {
+    try {
+      const response = await api.get('/api/views', projectId ? { projectId } : undefined);
+      const data = extractData<SavedView>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Views getAll error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to fetch saved views' 
+      };
+    }
+  },
+
+  async create(data: Partial<SavedView> & { name: string }): Promise<ApiResponse<SavedView>> {
+    try {
+      const response = await api.post('/api/views', data);
+      return { success: true, data: extractData(response) as SavedView };
+    } catch (error: any) {
+      console.error('Views create error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to save view' 
+      };
+    }
+  },
+
+  async update(id: string, data: Partial<SavedView>): Promise<ApiResponse<SavedView>> {
+    try {
+      const response = await api.put(`/api/views/${id}`, data);
+      return { success: true, data: extractData(response) as SavedView };
+    } catch (error: any) {
+      console.error('Views update error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to update view' 
+      };
+    }
+  },
+
+  async delete(id: string): Promise<ApiResponse<void>> {
+    try {
+      await api.delete(`/api/views/${id}`);
+      return { success: true, data: undefined };
+    } catch (error: any) {
+      console.error('Views delete error:', error);
+      return { 
+        success: false, 
+        error: error.response?.data?.message || error.message || 'Failed to delete view' 
+      };
+    }
+  },
+};
+
+/**
+ * Sprints and Milestones Service
+ */
+export const milestonesApi = {
+  async getAll(projectId: string): Promise<ApiResponse<Milestone[]>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/milestones`);
+      const data = extractData<Milestone>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Milestones getAll error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch milestones'
+      };
+    }
+  },
+
+  async create(
+    projectId: string,
+    data: Pick<Milestone, 'name' | 'startDate' | 'endDate'> & Partial<Pick<Milestone, 'kind' | 'goal'>>
+  ): Promise<ApiResponse<Milestone>> {
+    try {
+      const response = await api.post(`/api/projects/${projectId}/milestones`, data);
+      return { success: true, data: extractData(response) as Milestone };
+    } catch (error: any) {
+      console.error('Milestones create error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to create milestone'
+      };
+    }
+  },
+
+  async update(
+    projectId: string,
+    id: string,
+    data: Partial<Pick<Milestone, 'name' | 'kind' | 'goal' | 'startDate' | 'endDate'>>
+  ): Promise<ApiResponse<Milestone>> {
+    try {
+      const response = await api.put(`/api/projects/${projectId}/milestones/${id}`, data);
+      return { success: true, data: extractData(response) as Milestone };
+    } catch (error: any) {
+      console.error('Milestones update error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update milestone'
+      };
+    }
+  },
+
+  async delete(projectId: string, id: string): Promise<ApiResponse<void>> {
+    try {
+      await api.delete(`/api/projects/${projectId}/milestones/${id}`);
+      return { success: true, data: undefined };
+    } catch (error: any) {
+      console.error('Milestones delete error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to delete milestone'
+      };
+    }
+  },
+
+  async setTasks(projectId: string, id: string, action: 'add' | 'remove', taskIds: string[]): Promise<ApiResponse<Milestone>> {
+    try {
+      const path = `/api/projects/${projectId}/milestones/${id}/tasks${action === 'remove' ? '/remove' : ''}`;
+      const response = await api.post(path, { taskIds });
+      return { success: true, data: extractData(response) as Milestone };
+    } catch (error: any) {
+      console.error('Milestones setTasks error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update milestone tasks'
+      };
+    }
+  },
+
+  async getBurndown(projectId: string, id: string): Promise<ApiResponse<{ milestone: Milestone; points: BurndownPoint[] }>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/milestones/${id}/burndown`);
+      return { success: true, data: extractData(response) as { milestone: Milestone; points: BurndownPoint[] } };
+    } catch (error: any) {
+      console.error('Milestones getBurndown error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch burndown'
+      };
+    }
+  },
+};
+
+type AutomationRuleInput = Pick<AutomationRule, 'name' | 'trigger' | 'actions'>
+  & Partial<Pick<AutomationRule, 'enabled' | 'triggerConfig' | 'conditions'>>;
+
+export const automationsApi = {
+  async getAll(projectId: string): Promise<ApiResponse<AutomationRule[]>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/automations`);
+      const data = extractData<AutomationRule>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Automations getAll error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch automations'
+      };
+    }
+  },
+
+  async create(projectId: string, data: AutomationRuleInput): Promise<ApiResponse<AutomationRule>> {
+    try {
+      const response = await api.post(`/api/projects/${projectId}/automations`, data);
+      return { success: true, data: extractData(response) as AutomationRule };
+    } catch (error: any) {
+      console.error('Automations create error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to create automation'
+      };
+    }
+  },
+
+  async update(projectId: string, id: string, data: Partial<AutomationRuleInput>): Promise<ApiResponse<AutomationRule>> {
+    try {
+      const response = await api.put(`/api/projects/${projectId}/automations/${id}`, data);
+      return { success: true, data: extractData(response) as AutomationRule };
+    } catch (error: any) {
+      console.error('Automations update error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update automation'
+      };
+    }
+  },
+
+  async delete(projectId: string, id: string): Promise<ApiResponse<void>> {
+    try {
+      await api.delete(`/api/projects/${projectId}/automations/${id}`);
+      return { success: true, data: undefined };
+    } catch (error: any) {
+      console.error('Automations delete error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to delete automation'
+      };
+    }
+  },
+
+  async getRuns(projectId: string, id: string, params: { limit?: number; offset?: number } = {}): Promise<ApiResponse<AutomationRun[]>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/automations/${id}/runs`, params);
+      const data = extractData<AutomationRun>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Automations getRuns error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch automation runs'
+      };
+    }
+  },
+};
+
+export const templatesApi = {
+  async getAll(): Promise<ApiResponse<ProjectTemplate[]>> {
+    try {
+      const response = await api.get('/api/templates');
+      const data = extractData<ProjectTemplate>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Templates getAll error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch templates'
+      };
+    }
+  },
+
+  async getById(id: string): Promise<ApiResponse<ProjectTemplate>> {
+    try {
+      const response = await api.get(`/api/templates/${id}`);
+      return { success: true, data: extractData(response) as ProjectTemplate };
+    } catch (error: any) {
+      console.error('Templates getById error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch template'
+      };
+    }
+  },
+
+  async saveFromProject(data: {
+    projectId: string;
+    name: string;
+    description?: string | null;
+    includeMembers?: boolean;
+    startDate?: string;
+  }): Promise<ApiResponse<ProjectTemplate>> {
+    try {
+      const response = await api.post('/api/templates', data);
+      return { success: true, data: extractData(response) as ProjectTemplate };
+    } catch (error: any) {
+      console.error('Templates saveFromProject error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to save template'
+      };
+    }
+  },
+
+  async update(id: string, data: { name?: string; description?: string | null }): Promise<ApiResponse<ProjectTemplate>> {
+    try {
+      const response = await api.put(`/api/templates/${id}`, data);
+      return { success: true, data: extractData(response) as ProjectTemplate };
+    } catch (error: any) {
+      console.error('Templates update error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to update template'
+      };
+    }
+  },
+
+  async delete(id: string): Promise<ApiResponse<void>> {
+    try {
+      await api.delete(`/api/templates/${id}`);
+      return { success: true, data: undefined };
+    } catch (error: any) {
+      console.error('Templates delete error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to delete template'
+      };
+    }
+  },
+
+  // Due dates are shifted so the project starts on `startDate` (YYYY-MM-DD)
+  async createProject(id: string, data: {
+    name: string;
+    description?: string | null;
+    startDate: string;
+    includeMembers?: boolean;
+  }): Promise<ApiResponse<Project>> {
+    try {
+      const response = await api.post(`/api/templates/${id}/projects`, data);
+      const result = extractData(response) as { project?: unknown };
+      const project = adaptProject(result?.project);
+
+      if (project) {
+        return { success: true, data: project };
+      }
+
+      return { success: false, error: 'Failed to create project' };
+    } catch (error: any) {
+      console.error('Templates createProject error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to create project from template'
+      };
+    }
+  },
+};
+
+export const trashApi = {
+  async getProjectTrash(projectId: string, params: { type?: TrashItem['type']; limit?: number; offset?: number } = {}): Promise<ApiResponse<TrashItem[]>> {
+    try {
+      const response = await api.get(`/api/projects/${projectId}/trash`, params);
+      const data = extractData<TrashItem>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Trash getProjectTrash error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch trash'
+      };
+    }
+  },
+
+  async getDeletedProjects(): Promise<ApiResponse<TrashedProject[]>> {
+    try {
+      const response = await api.get('/api/projects/trash');
+      const data = extractData<TrashedProject>(response);
+      return { success: true, data: Array.isArray(data) ? data : [] };
+    } catch (error: any) {
+      console.error('Trash getDeletedProjects error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch deleted projects'
+      };
+    }
+  },
+
+  async restoreTask(id: string): Promise<ApiResponse<Task>> {
+    try {
+      const response = await api.post(`/api/tasks/${id}/restore`);
+      const task = adaptTask(extractData(response));
+
+      if (task) {
+        return { success: true, data: task };
+      }
+
+      return { success: false, error: 'Failed to restore task' };
+    } catch (error: any) {
+      console.error('Trash restoreTask error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to restore task'
+      };
+    }
+  },
+
+  async restoreMessage(id: string): Promise<ApiResponse<Message>> {
+    try {
+      const response = await api.post(`/api/messages/${id}/restore`);
+      return { success: true, data: extractData(response) as Message };
+    } catch (error: any) {
+      console.error('Trash restoreMessage error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to restore message'
+      };
+    }
+  },
+
+  async restoreProject(id: string): Promise<ApiResponse<Project>> {
+    try {
+      const response = await api.post(`/api/projects/${id}/restore`);
+      const project = adaptProject(extractData(response));
+
+      if (project) {
+        return { success: true, data: project };
+      }
+
+      return { success: false, error: 'Failed to restore project' };
+    } catch (error: any) {
+      console.error('Trash restoreProject error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to restore project'
+      };
+    }
+  },
+};
+
+export const calendarApi = {
+  async getFeed(): Promise<ApiResponse<CalendarFeed>> {
+    try {
+      const response = await api.get('/api/auth/me/calendar');
+      return { success: true, data: extractData(response) as CalendarFeed };
+    } catch (error: any) {
+      console.error('Calendar getFeed error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to fetch calendar feed'
+      };
+    }
+  },
+
+  // Turns the feed on; an earlier URL stops working
+  async regenerateFeed(): Promise<ApiResponse<CalendarFeed>> {
+    try {
+      const response = await api.post('/api/auth/me/calendar');
+      return { success: true, data: extractData(response) as CalendarFeed };
+    } catch (error: any) {
+      console.error('Calendar regenerateFeed error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to generate calendar feed URL'
+      };
+    }
+  },
+
+  async revokeFeed(): Promise<ApiResponse<void>> {
+    try {
+      await api.delete('/api/auth/me/calendar');
+      return { success: true, data: undefined };
+    } catch (error: any) {
+      console.error('Calendar revokeFeed error:', error);
+      return {
+        success: false,
+        error: error.response?.data?.message || error.message || 'Failed to turn off calendar feed'
+      };
+    }
+  },
+};
+
 // Export an alias for backward compatibility
 export const projectsService = projectsApi;
 export const tasksService = tasksApi;
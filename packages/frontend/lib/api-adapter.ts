@@ -4,6 +4,7 @@
  */
 
 import { api, type ApiResponse } from './api';
+import { toBoardStatus, toStatusKey, type StatusCategory } from './workflow';
 
 // ============= TYPE MAPPINGS =============
 
@@ -37,27 +38,26 @@ interface BackendTask {
   id: string;
   title: string;
   description?: string;
-  status: 'TODO' | 'IN_PROGRESS' | 'DONE';
+  status: string; // status key in the project's workflow
+  statusCategory?: StatusCategory;
   priority: 'LOW' | 'MEDIUM' | 'HIGH';
   projectId: string;
-  assigneeId?: string;
   creatorId: string;
   dueDate?: string;
   createdAt: string;
   updatedAt: string;
   completedAt?: string;
-  assignee?: {
+  assignees: {
     id: string;
-    name: string;
+    fullName: string | null;
     email: string;
-    avatar: string | null;
-  };
+    assignedAt: string;
+  }[];
   creator?: {
     id: string;
-    name: string;
+    fullName: string | null;
     email: string;
-    avatar: string | null;
-  };
+  } | null;
   project?: {
     id: string;
     name: string;
@@ -158,15 +158,16 @@ interface FrontendTask {
   title: string;
   description?: string;
   status: 'todo' | 'in-progress' | 'review' | 'done';
+  statusKey: string;
+  statusCategory: StatusCategory;
   priority: 'low' | 'medium' | 'high' | 'critical';
   projectId: string;
-  assignedTo?: string;
-  assignedToUser?: {
+  assignees: {
     id: string;
     name: string;
     email: string;
     avatar?: string;
-  };
+  }[];
   dueDate?: string;
   createdAt: string;
   updatedAt: string;
@@ -242,13 +243,6 @@ function adaptProjectInput(frontendData: any): any {
  * Convert backend task to frontend format
  */
 function adaptTask(backendTask: BackendTask): FrontendTask {
-  // Map backend status to frontend status
-  const statusMap: Record<string, FrontendTask['status']> = {
-    'TODO': 'todo',
-    'IN_PROGRESS': 'in-progress',
-    'DONE': 'done',
-  };
-
   // Map backend priority to frontend priority
   const priorityMap: Record<string, FrontendTask['priority']> = {
     'LOW': 'low',
@@ -260,16 +254,16 @@ function adaptTask(backendTask: BackendTask): FrontendTask {
     id: backendTask.id,
     title: backendTask.title,
     description: backendTask.description,
-    status: statusMap[backendTask.status] || 'todo',
+    status: toBoardStatus(backendTask.status, backendTask.statusCategory),
+    statusKey: backendTask.status,
+    statusCategory: backendTask.statusCategory || 'not_started',
     priority: priorityMap[backendTask.priority] || 'medium',
     projectId: backendTask.projectId,
-    assignedTo: backendTask.assigneeId,
-    assignedToUser: backendTask.assignee ? {
-      id: backendTask.assignee.id,
-      name: backendTask.assignee.name,
-      email: backendTask.assignee.email,
-      avatar: backendTask.assignee.avatar || undefined,
-    } : undefined,
+    assignees: (backendTask.assignees || []).map(assignee => ({
+      id: assignee.id,
+      name: assignee.fullName || assignee.email,
+      email: assignee.email,
+    })),
     dueDate: backendTask.dueDate,
     createdAt: backendTask.createdAt,
     updatedAt: backendTask.updatedAt,
@@ -282,14 +276,6 @@ function adaptTask(backendTask: BackendTask): FrontendTask {
  * Convert frontend task data to backend format
  */
 function adaptTaskInput(frontendData: any): any {
-  // Map frontend status to backend status
-  const statusMap: Record<string, string> = {
-    'todo': 'TODO',
-    'in-progress': 'IN_PROGRESS',
-    'review': 'IN_PROGRESS', // Backend doesn't have review, map to in-progress
-    'done': 'DONE',
-  };
-
   // Map frontend priority to backend priority
   const priorityMap: Record<string, string> = {
     'low': 'LOW',
@@ -305,13 +291,13 @@ function adaptTaskInput(frontendData: any): any {
   };
 
   if (frontendData.status) {
-    backendData.status = statusMap[frontendData.status] || 'TODO';
+    backendData.status = toStatusKey(frontendData.status);
   }
   if (frontendData.priority) {
     backendData.priority = priorityMap[frontendData.priority] || 'MEDIUM';
   }
-  if (frontendData.assignedTo) {
-    backendData.assigneeId = frontendData.assignedTo;
+  if (frontendData.assigneeIds) {
+    backendData.assigneeIds = frontendData.assigneeIds;
   }
   if (frontendData.dueDate) {
     backendData.dueDate = frontendData.dueDate;
@@ -570,15 +556,8 @@ export const adaptedTasksService = {
    * Update task status
    */
   async updateStatus(id: string, status: string): Promise<ApiResponse<FrontendTask>> {
-    const statusMap: Record<string, string> = {
-      'todo': 'TODO',
-      'in-progress': 'IN_PROGRESS',
-      'review': 'IN_PROGRESS',
-      'done': 'DONE',
-    };
-
     const response = await api.put<{ data: BackendTask }>(`/api/tasks/${id}`, {
-      status: statusMap[status] || 'TODO',
+      status: toStatusKey(status),
     });
     
     if (response.success && response.data) {
@@ -596,16 +575,9 @@ export const adaptedTasksService = {
    * Bulk update task status
    */
   async bulkUpdateStatus(taskIds: string[], status: string): Promise<ApiResponse<any>> {
-    const statusMap: Record<string, string> = {
-      'todo': 'TODO',
-      'in-progress': 'IN_PROGRESS',
-      'review': 'IN_PROGRESS',
-      'done': 'DONE',
-    };
-
     return api.post('/api/tasks/bulk-status', {
       taskIds,
-      status: statusMap[status] || 'TODO',
+      status: toStatusKey(status),
     });
   },
 
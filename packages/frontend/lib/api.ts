@@ -7,6 +7,8 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   message?: string;
+  status?: number; // HTTP status of a failed request
+  details?: any; // error details sent by the server, e.g. the current copy on 409
 }
 
 // HTTP Methods
@@ -74,15 +76,15 @@ class ApiClient {
     config: RequestConfig = {}
   ): Promise<ApiResponse<T>> {
     try {
-      const { params, ...fetchConfig } = config;
+      const { params, headers, ...fetchConfig } = config;
       const url = this.buildUrl(endpoint, params);
 
       const response = await fetch(url, {
+        ...fetchConfig,
         headers: {
           ...this.getDefaultHeaders(),
-          ...fetchConfig.headers,
+          ...headers,
         },
-        ...fetchConfig,
       });
 
       // Handle different response types
@@ -98,7 +100,9 @@ class ApiClient {
       if (!response.ok) {
         return {
           success: false,
-          error: data?.message || data || `HTTP Error: ${response.status}`,
+          error: data?.message || data?.error?.message || data || `HTTP Error: ${response.status}`,
+          status: response.status,
+          details: data?.error?.details,
         };
       }
 
@@ -134,10 +138,11 @@ class ApiClient {
   /**
    * PUT request
    */
-  async put<T>(endpoint: string, body?: any): Promise<ApiResponse<T>> {
+  async put<T>(endpoint: string, body?: any, headers?: Record<string, string>): Promise<ApiResponse<T>> {
     return this.request<T>(endpoint, {
       method: 'PUT',
       body: body ? JSON.stringify(body) : undefined,
+      headers,
     });
   }
 
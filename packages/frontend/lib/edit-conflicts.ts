@@ -0,0 +1,125 @@
+/**
+ * Edit conflicts
+ * Task and project updates are sent with the version the user started from
+ * (If-Match). When someone else saved in between, the server refuses with its
+ * current copy and the user decides whether to overwrite it or merge into it.
+ */
+
+import type { ApiResponse } from './api';
+
+export type ConflictResolution = 'overwrite' | 'merge' | 'cancel';
+
+export interface EditConflict<T> {
+  current: T; // the server's copy
+  changes: Record<string, unknown>; // what the user tried to save
+  conflictingFields: string[]; // changed by the user and by someone else
+}
+
+export type ConflictPrompt<T> = (conflict: EditConflict<T>) => ConflictResolution | Promise<ConflictResolution>;
+
+// Value of an input field (e.g. assigneeIds) on a loaded record
+export type FieldReader<T> = (record: T, field: string) => unknown;
+
+export interface SaveOptions<T> {
+  base?: T; // the copy the user edited; without it the update is unconditional
+  onConflict?: ConflictPrompt<T>; // without it a conflict is returned as is
+}
+
+export type SaveResponse<T> = ApiResponse<T> & { conflict?: EditConflict<T> };
+
+interface Versioned {
+  updatedAt: string;
+}
+
+/**
+ * If-Match value for a record, from its last update time
+ */
+export function versionTag(record: Versioned): string {
+  return `"${new Date(record.updatedAt).toISOString()}"`;
+}
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields the user changed that someone else also changed since `base`
+ */
+export function findConflictingFields<T>(
+  changes: Record<string, unknown>,
+  base: T,
+  current: T,
+  read: FieldReader<T>
+): string[] {
+  return Object.keys(changes).filter(field =>
+    !sameValue(read(base, field), read(current, field)) &&
+    !sameValue(changes[field], read(current, field))
+  );
+}
+
+/**
+ * The user's changes on top of the server's copy, keeping the other
+ * person's value wherever both changed the same field
+ */
+export function mergeChanges<T>(
+  changes: Record<string, unknown>,
+  current: T,
+  conflictingFields: string[],
+  read: FieldReader<T>
+): Record<string, unknown> {
+  return {
+    ...changes,
+    ...Object.fromEntries(conflictingFields.map(field => [field, read(current, field)])),
+  };
+}
+
+/**
+ * Ask in a browser dialog: OK overwrites the other person's changes,
+ * Cancel merges ours into theirs
+ */
+export function confirmOverwrite<T>(conflict: EditConflict<T>): ConflictResolution {
+  if (typeof window === 'undefined') return 'cancel';
+
+  const fields = conflict.conflictingFields.length > 0
+    ? ` (${conflict.conflictingFields.join(', ')})`
+    : '';
+
+  return window.confirm(
+    `Someone else saved changes${fields} since you opened this. ` +
+    'Press OK to overwrite them with yours, or Cancel to merge your changes into theirs.'
+  ) ? 'overwrite' : 'merge';
+}
+
+/**
+ * Save changes made to `options.base`. On a conflict the prompt chooses:
+ * overwrite sends the changes again against the server's copy, merge sends
+ * only what nobody else changed, cancel keeps the server's copy.
+ */
+export async function saveWithConflictCheck<T extends Versioned>(
+  changes: Record<string, unknown>,
+  options: SaveOptions<T>,
+  save: (changes: Record<string, unknown>, ifMatch?: string) => Promise<ApiResponse<T>>,
+  adapt: (data: any) => T | null, // reads the server's copy sent with a 409
+  read: FieldReader<T>
+): Promise<SaveResponse<T>> {
+  const { base, onConflict } = options;
+  const response = await save(changes, base && versionTag(base));
+
+  const current = response.status === 409 ? adapt(response.details?.current) : null;
+  if (!base || !current) return response;
+
+  const conflict: EditConflict<T> = {
+    current,
+    changes,
+    conflictingFields: findConflictingFields(changes, base, current, read),
+  };
+  const resolution = onConflict ? await onConflict(conflict) : 'cancel';
+
+  if (resolution === 'cancel') {
+    return { ...response, conflict };
+  }
+
+  return save(
+    resolution === 'merge' ? mergeChanges(changes, current, conflict.conflictingFields, read) : changes,
+    versionTag(current)
+  );
+}
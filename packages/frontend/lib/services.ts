@@ -35,7 +35,7 @@ export interface Task {
   status: 'todo' | 'in-progress' | 'review' | 'done';
   priority: 'low' | 'medium' | 'high' | 'critical';
   projectId: string;
-  assignedTo?: string;
+  assigneeIds?: string[];
   dueDate?: string;
   createdAt: string;
   updatedAt: string;
@@ -48,7 +48,7 @@ export interface CreateTaskData {
   status?: Task['status'];
   priority?: Task['priority'];
   projectId: string;
-  assignedTo?: string;
+  assigneeIds?: string[];
   dueDate?: string;
 }
 
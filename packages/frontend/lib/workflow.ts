@@ -0,0 +1,66 @@
+/**
+ * Task workflow helpers
+ * Projects define their own task statuses; the board groups them into the
+ * four columns the UI knows about.
+ */
+
+export type StatusCategory = 'not_started' | 'active' | 'done';
+
+export type BoardStatus = 'todo' | 'in-progress' | 'review' | 'done';
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+}
+
+export interface Workflow {
+  statuses: WorkflowStatus[];
+  transitions?: Record<string, string[]> | null;
+}
+
+// Board columns for the statuses of the default workflow
+const boardStatusByKey: Record<string, BoardStatus> = {
+  todo: 'todo',
+  in_progress: 'in-progress',
+  review: 'review',
+  done: 'done',
+};
+
+const boardStatusByCategory: Record<StatusCategory, BoardStatus> = {
+  not_started: 'todo',
+  active: 'in-progress',
+  done: 'done',
+};
+
+/**
+ * Board column for a backend status key, falling back to its category for
+ * custom statuses such as "waiting_on_customer"
+ */
+export function toBoardStatus(key?: string, category?: string): BoardStatus {
+  const normalized = key ? toStatusKey(key) : '';
+
+  return boardStatusByKey[normalized]
+    || boardStatusByCategory[category as StatusCategory]
+    || 'todo';
+}
+
+/**
+ * Backend status key for a board column or status name
+ * ('in-progress' and 'IN_PROGRESS' both become 'in_progress')
+ */
+export function toStatusKey(status: string): string {
+  return status.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Statuses a task may move to from its current status
+ */
+export function allowedTransitions(workflow: Workflow, from: string): WorkflowStatus[] {
+  if (!workflow.transitions || !workflow.statuses.some(s => s.key === from)) {
+    return workflow.statuses.filter(s => s.key !== from);
+  }
+
+  const targets = workflow.transitions[from] || [];
+  return workflow.statuses.filter(s => targets.includes(s.key));
+}